@@ -0,0 +1,169 @@
+/**
+ * @format
+ */
+
+import React, { useEffect } from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Provider, useSelector } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import {
+  AdjustTool,
+  applyAdjustSettings,
+  getAdjustSettings,
+} from '../src/components/editor/AdjustTool';
+import { ValueSlider } from '../src/components/common/ValueSlider';
+import { useLiveEdit } from '../src/hooks/useLiveEdit';
+import { toImageOperations, withOperationId } from '../src/services/editGraph';
+import { ThemeProvider } from '../src/utils/theme';
+import editorReducer, {
+  EditorState,
+  addOperation,
+  setCurrentImage,
+  undo,
+} from '../src/store/slices/editorSlice';
+
+jest.mock('react-native-reanimated', () =>
+  require('react-native-reanimated/mock'),
+);
+
+const createStore = () => {
+  const store = configureStore({ reducer: { editor: editorReducer } });
+  store.dispatch(
+    setCurrentImage({
+      uri: 'file:///photo.jpg',
+      width: 400,
+      height: 300,
+      originalUri: 'file:///photo.jpg',
+    }),
+  );
+  return store;
+};
+
+// Wired the way the editor wires its Adjust panel
+const AdjustPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const operations = useSelector(
+    (state: { editor: EditorState }) => state.editor.operations,
+  );
+  const adjustEdit = useLiveEdit('adjust');
+  const { begin } = adjustEdit;
+  useEffect(begin, [begin]);
+  return (
+    <AdjustTool
+      initialSettings={getAdjustSettings(toImageOperations(operations))}
+      onChange={settings =>
+        adjustEdit.change(applyAdjustSettings(operations, settings))
+      }
+      onChangeComplete={adjustEdit.seal}
+      onApply={() => {
+        adjustEdit.finish();
+        onClose();
+      }}
+      onCancel={() => {
+        adjustEdit.cancel();
+        onClose();
+      }}
+    />
+  );
+};
+
+const renderPanel = async (store: ReturnType<typeof createStore>) => {
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(
+      <Provider store={store}>
+        <ThemeProvider>
+          <AdjustPanel onClose={() => {}} />
+        </ThemeProvider>
+      </Provider>,
+    );
+  });
+  return renderer;
+};
+
+const drag = async (
+  renderer: ReactTestRenderer.ReactTestRenderer,
+  label: string,
+  values: number[],
+) => {
+  const slider = renderer.root
+    .findAllByType(ValueSlider)
+    .find(instance => instance.props.label === label)!;
+  for (const value of values) {
+    await ReactTestRenderer.act(() => slider.props.onValueChange(value));
+  }
+  await ReactTestRenderer.act(() =>
+    slider.props.onSlidingComplete(values[values.length - 1]),
+  );
+};
+
+test('each slider drag in the Adjust panel is one undo step', async () => {
+  const store = createStore();
+  const renderer = await renderPanel(store);
+
+  await drag(renderer, 'Contrast', [5, 12, 20]);
+  await drag(renderer, 'Shadows', [-10, -30]);
+
+  const { history, operations } = store.getState().editor;
+  expect(history.past).toHaveLength(2);
+  expect(operations).toMatchObject([
+    { type: 'tone', contrast: 20, shadows: -30 },
+  ]);
+
+  await ReactTestRenderer.act(() => {
+    store.dispatch(undo());
+  });
+  expect(store.getState().editor.operations).toMatchObject([
+    { type: 'tone', contrast: 20, shadows: 0 },
+  ]);
+  await ReactTestRenderer.act(() => {
+    store.dispatch(undo());
+  });
+  expect(store.getState().editor.operations).toEqual([]);
+
+  await ReactTestRenderer.act(() => renderer.unmount());
+});
+
+test('cancelling the Adjust panel drops the steps it made', async () => {
+  const store = createStore();
+  const renderer = await renderPanel(store);
+
+  await drag(renderer, 'Exposure', [0.5, 1]);
+  await drag(renderer, 'Whites', [40]);
+  await ReactTestRenderer.act(() =>
+    renderer.root.findByType(AdjustTool).props.onCancel(),
+  );
+
+  const { history, operations } = store.getState().editor;
+  expect(operations).toEqual([]);
+  expect(history.past).toEqual([]);
+
+  await ReactTestRenderer.act(() => renderer.unmount());
+});
+
+test('cancelling the Adjust panel keeps the steps that could be redone', async () => {
+  const store = createStore();
+  store.dispatch(
+    addOperation({
+      operation: withOperationId({ type: 'brightness', value: 10 }),
+    }),
+  );
+  store.dispatch(
+    addOperation({ operation: withOperationId({ type: 'rotate', angle: 90 }) }),
+  );
+  store.dispatch(undo());
+  const before = store.getState().editor;
+  const renderer = await renderPanel(store);
+
+  await drag(renderer, 'Contrast', [10, 25]);
+  expect(store.getState().editor.history.future).toEqual([]);
+  await ReactTestRenderer.act(() =>
+    renderer.root.findByType(AdjustTool).props.onCancel(),
+  );
+
+  const { history, operations } = store.getState().editor;
+  expect(operations).toEqual(before.operations);
+  expect(history.past).toEqual(before.history.past);
+  expect(history.future).toEqual(before.history.future);
+
+  await ReactTestRenderer.act(() => renderer.unmount());
+});
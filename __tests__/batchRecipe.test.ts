@@ -0,0 +1,52 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_BATCH_RECIPE,
+  DEFAULT_WATERMARK,
+  buildBatchOperations,
+  isEmptyRecipe,
+} from '../src/services/batchRecipe';
+
+test('an untouched recipe leaves photos alone', () => {
+  expect(isEmptyRecipe(DEFAULT_BATCH_RECIPE)).toBe(true);
+  expect(
+    buildBatchOperations(DEFAULT_BATCH_RECIPE, { width: 800, height: 600 }),
+  ).toEqual([]);
+});
+
+test('resizing fits the longest edge without enlarging', () => {
+  const recipe = { ...DEFAULT_BATCH_RECIPE, maxSize: 1000 };
+  expect(buildBatchOperations(recipe, { width: 3000, height: 2000 })).toEqual([
+    { type: 'resize', width: 1000, height: 667 },
+  ]);
+  expect(buildBatchOperations(recipe, { width: 600, height: 900 })).toEqual(
+    [],
+  );
+});
+
+test('watermarks are placed on the resized photo', () => {
+  const recipe = {
+    ...DEFAULT_BATCH_RECIPE,
+    brightness: 10,
+    maxSize: 1000,
+    watermark: { ...DEFAULT_WATERMARK, text: ' (c) Me ', size: 4 },
+  };
+  const operations = buildBatchOperations(recipe, {
+    width: 2000,
+    height: 4000,
+  });
+  expect(operations.map(operation => operation.type)).toEqual([
+    'brightness',
+    'resize',
+    'text',
+  ]);
+  // 500x1000: 20px line, 15px margin, six 15px-wide glyphs
+  expect(operations[2]).toMatchObject({
+    text: '(c) Me',
+    x: 395,
+    y: 965,
+    fontSize: 20,
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @format
+ */
+
+import {
+  decodeJpeg,
+  decodePng,
+  deflate,
+  detectImageFormat,
+  encodeJpeg,
+  encodePng,
+  inflate,
+  readExifOrientation,
+  readJpegDimensions,
+} from '../src/services/codecs';
+import {
+  RasterImage,
+  applyExifOrientation,
+  createRaster,
+} from '../src/services/raster';
+
+// Smooth gradient with a hard-edged square, semi-transparent in one corner
+const sample = (width = 48, height = 40): RasterImage => {
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inSquare = x > 10 && x < 30 && y > 8 && y < 24;
+      image.data[i] = inSquare ? 230 : (x * 255) / width;
+      image.data[i + 1] = inSquare ? 40 : (y * 255) / height;
+      image.data[i + 2] = 128;
+      image.data[i + 3] = x < 4 && y < 4 ? 100 : 255;
+    }
+  }
+  return image;
+};
+
+const opaque = (image: RasterImage): RasterImage => {
+  const copy = createRaster(image.width, image.height);
+  copy.data.set(image.data);
+  for (let i = 3; i < copy.data.length; i += 4) {
+    copy.data[i] = 255;
+  }
+  return copy;
+};
+
+const meanError = (a: RasterImage, b: RasterImage) => {
+  let total = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      total += Math.abs(a.data[i + c] - b.data[i + c]);
+    }
+  }
+  return total / ((a.data.length / 4) * 3);
+};
+
+const ascii = (text: string) =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+test('inflates reference zlib output and round-trips deflate', () => {
+  // zlib.compress(b'abcabcabcabc hello hello hello zlib', 9)
+  const reference = new Uint8Array([
+    120, 218, 75, 76, 74, 78, 132, 33, 133, 140, 212, 156, 156, 124, 20, 178,
+    42, 39, 51, 9, 0, 234, 8, 13, 6,
+  ]);
+  expect(Array.from(inflate(reference))).toEqual(
+    Array.from(ascii('abcabcabcabc hello hello hello zlib')),
+  );
+
+  const text = ascii(
+    'the quick brown fox jumps over the lazy dog '.repeat(200),
+  );
+  const compressed = deflate(text);
+  expect(compressed.length).toBeLessThan(text.length / 4);
+  expect(Array.from(inflate(compressed))).toEqual(Array.from(text));
+});
+
+test('PNG round-trips pixels exactly, including alpha', () => {
+  const image = sample();
+  const bytes = encodePng(image);
+  expect(detectImageFormat(bytes)).toBe('png');
+
+  const decoded = decodePng(bytes);
+  expect([decoded.width, decoded.height]).toEqual([48, 40]);
+  expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+});
+
+test('JPEG round-trips within tolerance at high quality', () => {
+  const image = opaque(sample());
+  const bytes = encodeJpeg(image, 95);
+  expect(detectImageFormat(bytes)).toBe('jpeg');
+
+  const decoded = decodeJpeg(bytes);
+  expect([decoded.width, decoded.height]).toEqual([48, 40]);
+  expect(meanError(image, decoded)).toBeLessThan(3);
+});
+
+test('lower JPEG quality produces smaller files', () => {
+  const image = opaque(sample(64, 64));
+  const high = encodeJpeg(image, 95);
+  const medium = encodeJpeg(image, 60);
+  const low = encodeJpeg(image, 20);
+  expect(medium.length).toBeLessThan(high.length);
+  expect(low.length).toBeLessThan(medium.length);
+  // Subsampled output still decodes to the right size
+  const decoded = decodeJpeg(low);
+  expect([decoded.width, decoded.height]).toEqual([64, 64]);
+  expect(meanError(image, decoded)).toBeLessThan(12);
+});
+
+test('JPEG flattens transparency onto white', () => {
+  const clear = createRaster(8, 8, [0, 0, 0, 0]);
+  const decoded = decodeJpeg(encodeJpeg(clear, 90));
+  expect(decoded.data[0]).toBeGreaterThan(250);
+  expect(decoded.data[3]).toBe(255);
+});
+
+// Inserts an APP1 segment holding just an IFD0 orientation entry after SOI
+const withOrientation = (
+  jpeg: Uint8Array,
+  orientation: number,
+  littleEndian: boolean,
+): Uint8Array => {
+  const u16 = (v: number) => {
+    const bytes = [Math.floor(v / 256), v % 256];
+    return littleEndian ? bytes.reverse() : bytes;
+  };
+  // Offsets and counts here fit in the low half
+  const u32 = (v: number) =>
+    littleEndian ? [...u16(v), 0, 0] : [0, 0, ...u16(v)];
+  const tiff = [
+    ...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]),
+    ...u16(42),
+    ...u32(8),
+    ...u16(1),
+    ...u16(0x0112),
+    ...u16(3),
+    ...u32(1),
+    ...u16(orientation),
+    0,
+    0,
+    ...u32(0),
+  ];
+  const payload = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  const length = payload.length + 2;
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe1,
+    Math.floor(length / 256),
+    length % 256,
+    ...payload,
+    ...jpeg.subarray(2),
+  ]);
+};
+
+test('reads EXIF orientation and the stored frame size', () => {
+  const jpeg = encodeJpeg(sample(48, 40), 80);
+  expect(readExifOrientation(jpeg)).toBe(1);
+  expect(readJpegDimensions(jpeg)).toEqual({ width: 48, height: 40 });
+
+  for (const littleEndian of [true, false]) {
+    const tagged = withOrientation(jpeg, 6, littleEndian);
+    expect(readExifOrientation(tagged)).toBe(6);
+    // Only the header is needed
+    expect(readExifOrientation(tagged.subarray(0, 200))).toBe(6);
+    expect(decodeJpeg(tagged).width).toBe(48);
+  }
+  expect(readExifOrientation(withOrientation(jpeg, 42, true))).toBe(1);
+  expect(readJpegDimensions(encodePng(sample()))).toBeNull();
+});
+
+test('EXIF orientations turn the stored pixels upright', () => {
+  // Stored 3x2 pixels numbered 1..6 in reading order
+  const stored: RasterImage = {
+    width: 3,
+    height: 2,
+    data: new Uint8ClampedArray(
+      [1, 2, 3, 4, 5, 6].flatMap(n => [n, 0, 0, 255]),
+    ),
+  };
+  const upright = (orientation: number) => {
+    const image = applyExifOrientation(stored, orientation);
+    const rows: number[][] = [];
+    for (let y = 0; y < image.height; y++) {
+      rows.push(
+        Array.from(
+          { length: image.width },
+          (_, x) => image.data[(y * image.width + x) * 4],
+        ),
+      );
+    }
+    return rows;
+  };
+
+  expect(upright(1)).toEqual([
+    [1, 2, 3],
+    [4, 5, 6],
+  ]);
+  expect(upright(2)).toEqual([
+    [3, 2, 1],
+    [6, 5, 4],
+  ]);
+  expect(upright(3)).toEqual([
+    [6, 5, 4],
+    [3, 2, 1],
+  ]);
+  expect(upright(4)).toEqual([
+    [4, 5, 6],
+    [1, 2, 3],
+  ]);
+  expect(upright(5)).toEqual([
+    [1, 4],
+    [2, 5],
+    [3, 6],
+  ]);
+  expect(upright(6)).toEqual([
+    [4, 1],
+    [5, 2],
+    [6, 3],
+  ]);
+  expect(upright(7)).toEqual([
+    [6, 3],
+    [5, 2],
+    [4, 1],
+  ]);
+  expect(upright(8)).toEqual([
+    [3, 6],
+    [2, 5],
+    [1, 4],
+  ]);
+});
@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import {
+  copyEdits,
+  countEditGroups,
+  pasteEdits,
+} from '../src/services/editClipboard';
+import { EditOperation } from '../src/services/editGraph';
+
+const SOURCE: EditOperation[] = [
+  { type: 'rotate', angle: 90, id: 'rotate' },
+  { type: 'crop', x: 100, y: 50, width: 200, height: 300, id: 'crop' },
+  { type: 'brightness', value: 20, id: 'brightness' },
+  {
+    type: 'text',
+    text: 'Hello',
+    x: 20,
+    y: 40,
+    fontSize: 30,
+    color: '#fff',
+    id: 'text',
+  },
+];
+
+test('edits are grouped for the copy dialog', () => {
+  expect(countEditGroups(SOURCE)).toEqual({
+    adjustments: 1,
+    filters: 0,
+    crop: 2,
+    text: 1,
+    blur: 0,
+  });
+});
+
+test('pasting replaces only the copied groups', () => {
+  const copied = copyEdits(SOURCE, { width: 600, height: 400 }, [
+    'adjustments',
+  ]);
+  const target: EditOperation[] = [
+    { type: 'crop', x: 0, y: 0, width: 10, height: 10, id: 'a' },
+    { type: 'brightness', value: -50, id: 'b' },
+    { type: 'saturation', value: 30, id: 'c' },
+  ];
+  const pasted = pasteEdits(target, { width: 20, height: 20 }, copied);
+  expect(pasted.map(({ id: _id, ...operation }) => operation)).toEqual([
+    { type: 'crop', x: 0, y: 0, width: 10, height: 10 },
+    { type: 'brightness', value: 20 },
+  ]);
+  expect(pasted[1].id).not.toBe('b');
+});
+
+test('positions are rescaled to the document they land on', () => {
+  // 600x400 turns to 400x600 before the crop; the text sits on the crop
+  const copied = copyEdits(SOURCE, { width: 600, height: 400 }, [
+    'crop',
+    'text',
+  ]);
+  expect(copied.operations.map(({ size }) => size)).toEqual([
+    { width: 600, height: 400 },
+    { width: 400, height: 600 },
+    { width: 200, height: 300 },
+  ]);
+
+  // Square and larger: still square once turned, so the crop stretches
+  // three times across and twice down
+  const pasted = pasteEdits([], { width: 1200, height: 1200 }, copied);
+  expect(pasted[1]).toMatchObject({ x: 300, y: 100, width: 600, height: 600 });
+  // Text scales with the crop it landed on; fonts follow the smaller factor
+  expect(pasted[2]).toMatchObject({ x: 60, y: 80, fontSize: 60 });
+});
@@ -0,0 +1,249 @@
+/**
+ * @format
+ */
+
+import {
+  appendOrientation,
+  fitLongEdge,
+  getCropToolBase,
+  getDocumentDimensions,
+  getDocumentTransform,
+  invertTransform,
+  scaleOperation,
+  toImageOperations,
+  transformMaskShape,
+  withOperationId,
+} from '../src/services/editGraph';
+import editorReducer, {
+  addOperation,
+  removeOperation,
+  setCurrentImage,
+  updateOperation,
+} from '../src/store/slices/editorSlice';
+import { RasterImage, flipRaster, rotateRaster } from '../src/services/raster';
+import type { ImageOperation } from '../src/services/imageProcessor';
+
+const image = {
+  uri: 'file:///photo.jpg',
+  width: 400,
+  height: 300,
+  originalUri: 'file:///photo.jpg',
+};
+
+test('document dimensions follow crops and rotations', () => {
+  expect(
+    getDocumentDimensions({ width: 400, height: 300 }, [
+      { type: 'filter', filterType: 'sepia', intensity: 50 },
+      { type: 'rotate', angle: 90 },
+      { type: 'crop', x: 10, y: 10, width: 100, height: 500 },
+    ]),
+  ).toEqual({ width: 100, height: 390 });
+  expect(
+    getDocumentDimensions({ width: 10, height: 10 }, [
+      { type: 'rotate', angle: 45 },
+    ]),
+  ).toEqual({ width: 15, height: 15 });
+  expect(
+    getDocumentDimensions({ width: 400, height: 300 }, [
+      { type: 'straighten', angle: 3.5, autoCrop: false },
+      { type: 'straighten', angle: 45, autoCrop: true },
+    ]),
+  ).toEqual({ width: 212, height: 212 });
+});
+
+test('preview scaling only touches pixel-space parameters', () => {
+  expect(
+    scaleOperation({ type: 'crop', x: 10, y: 20, width: 100, height: 50 }, 0.5),
+  ).toEqual({ type: 'crop', x: 5, y: 10, width: 50, height: 25 });
+  expect(
+    scaleOperation(
+      { type: 'blur', radius: 8, region: { x: 4, y: 4, width: 8, height: 8 } },
+      0.25,
+    ),
+  ).toEqual({
+    type: 'blur',
+    radius: 2,
+    region: { x: 1, y: 1, width: 2, height: 2 },
+  });
+  const filter = {
+    type: 'filter' as const,
+    filterType: 'vintage',
+    intensity: 40,
+  };
+  expect(scaleOperation(filter, 0.5)).toBe(filter);
+});
+
+test('operations can be edited in place without touching later nodes', () => {
+  const filter = withOperationId({
+    type: 'filter',
+    filterType: 'sepia',
+    intensity: 80,
+  });
+  const rotate = withOperationId({ type: 'rotate', angle: 90 });
+
+  let state = editorReducer(undefined, setCurrentImage(image));
+  state = editorReducer(state, addOperation({ operation: filter }));
+  state = editorReducer(state, addOperation({ operation: rotate }));
+
+  // Lower a filter that was applied before the rotate
+  state = editorReducer(
+    state,
+    updateOperation({ id: filter.id, updates: { intensity: 20 } }),
+  );
+  expect(toImageOperations(state.operations)).toEqual([
+    { type: 'filter', filterType: 'sepia', intensity: 20 },
+    { type: 'rotate', angle: 90 },
+  ]);
+
+  state = editorReducer(state, removeOperation(filter.id));
+  state = editorReducer(state, addOperation({ operation: filter, index: 0 }));
+  expect(state.operations.map(op => op.id)).toEqual([filter.id, rotate.id]);
+
+  state = editorReducer(state, setCurrentImage(image));
+  expect(state.operations).toEqual([]);
+});
+
+// Lossless steps only, so results can be compared pixel for pixel
+const applyOrientationSteps = (
+  source: RasterImage,
+  steps: ImageOperation[],
+): RasterImage =>
+  steps.reduce(
+    (result, step) =>
+      step.type === 'flip'
+        ? flipRaster(result, step.direction)
+        : step.type === 'rotate'
+        ? rotateRaster(result, step.angle)
+        : result,
+    source,
+  );
+
+test('rotations and flips collapse to one of eight orientations', () => {
+  const source: RasterImage = {
+    width: 3,
+    height: 2,
+    data: new Uint8ClampedArray(Array.from({ length: 24 }, (_, i) => i * 10)),
+  };
+  const steps: ImageOperation[] = [
+    { type: 'rotate', angle: 90 },
+    { type: 'flip', direction: 'horizontal' },
+    { type: 'rotate', angle: -90 },
+    { type: 'flip', direction: 'vertical' },
+    { type: 'rotate', angle: 90 },
+    { type: 'rotate', angle: 90 },
+    { type: 'flip', direction: 'horizontal' },
+    { type: 'rotate', angle: 270 },
+  ];
+
+  const blur = withOperationId({ type: 'blur', radius: 2 });
+  let graph = [blur];
+  const seen = new Set<string>();
+  steps.forEach((step, i) => {
+    graph = appendOrientation(graph, step);
+    // Never more than a flip and a rotate after the blur
+    expect(graph[0]).toBe(blur);
+    expect(graph.length).toBeLessThanOrEqual(3);
+    const nodes = toImageOperations(graph.slice(1));
+    expect(applyOrientationSteps(source, nodes)).toEqual(
+      applyOrientationSteps(source, steps.slice(0, i + 1)),
+    );
+    seen.add(JSON.stringify(nodes));
+  });
+  expect(seen.size).toBeLessThanOrEqual(8);
+
+  // Undoing every step by hand leaves no orientation nodes behind
+  let undone = [blur];
+  for (const step of [
+    { type: 'flip', direction: 'vertical' },
+    { type: 'rotate', angle: 90 },
+    { type: 'rotate', angle: 270 },
+    { type: 'flip', direction: 'vertical' },
+  ] as ImageOperation[]) {
+    undone = appendOrientation(undone, step);
+  }
+  expect(undone).toEqual([blur]);
+  expect(() =>
+    appendOrientation(graph, { type: 'rotate', angle: 30 }),
+  ).toThrow();
+});
+
+test('mask shapes move with the crops, resizes and turns after their node', () => {
+  const graph: ImageOperation[] = [
+    { type: 'blur', radius: 4 },
+    { type: 'rotate', angle: 90 },
+    { type: 'crop', x: 10, y: 20, width: 200, height: 300 },
+    { type: 'resize', width: 100, height: 150 },
+  ];
+  const transform = getDocumentTransform({ width: 400, height: 300 }, graph, 0);
+  expect(transform).not.toBeNull();
+  const shape = {
+    type: 'rect' as const,
+    x: 40,
+    y: 60,
+    width: 100,
+    height: 50,
+    feather: 8,
+  };
+
+  // Turned a quarter clockwise into 300x400, then cropped and halved
+  const moved = transformMaskShape(shape, transform!);
+  expect(moved).toEqual({
+    type: 'rect',
+    x: (300 - 110 - 10) / 2,
+    y: (40 - 20) / 2,
+    width: 25,
+    height: 50,
+    feather: 4,
+  });
+  const restored = transformMaskShape(moved, invertTransform(transform!));
+  expect(restored).toEqual(shape);
+
+  // Straightening moves pixels along lines shapes cannot follow
+  expect(
+    getDocumentTransform(
+      { width: 400, height: 300 },
+      [...graph, { type: 'straighten', angle: 2, autoCrop: true }],
+      0,
+    ),
+  ).toBeNull();
+});
+
+test('perspective corners are placed on the document an existing crop made', () => {
+  const original = { width: 400, height: 300 };
+  const graph: ImageOperation[] = [
+    { type: 'rotate', angle: 90 },
+    { type: 'crop', x: 20, y: 40, width: 200, height: 100 },
+    { type: 'brightness', value: 10 },
+  ];
+
+  // A rectangle revises the crop, so the tool shows what came before it
+  const rectangle = getCropToolBase(graph, 'rectangle');
+  expect(rectangle).toBe(1);
+  expect(getDocumentDimensions(original, graph.slice(0, rectangle))).toEqual({
+    width: 300,
+    height: 400,
+  });
+
+  // Corners are appended after the crop, so they are measured against it
+  const perspective = getCropToolBase(graph, 'perspective');
+  expect(perspective).toBe(graph.length);
+  expect(getDocumentDimensions(original, graph.slice(0, perspective))).toEqual({
+    width: 200,
+    height: 100,
+  });
+
+  // Without a crop both modes show the whole graph
+  expect(getCropToolBase(graph.slice(0, 1), 'rectangle')).toBe(1);
+});
+
+test('export sizes fit the long edge and never upscale', () => {
+  expect(fitLongEdge({ width: 3000, height: 4000 }, 1920)).toEqual({
+    width: 1440,
+    height: 1920,
+  });
+  expect(fitLongEdge({ width: 4000, height: 4000 }, 3840)).toEqual({
+    width: 3840,
+    height: 3840,
+  });
+  expect(fitLongEdge({ width: 1200, height: 800 }, 1920)).toBeNull();
+});
@@ -0,0 +1,136 @@
+/**
+ * @format
+ */
+
+import { withOperationId } from '../src/services/editGraph';
+import editorReducer, {
+  addOperation,
+  EditorState,
+  redo,
+  removeOperation,
+  sealHistory,
+  setCurrentImage,
+  setHistoryLimit,
+  setOperations,
+  undo,
+  updateOperation,
+} from '../src/store/slices/editorSlice';
+
+const image = {
+  uri: 'file:///photo.jpg',
+  width: 400,
+  height: 300,
+  originalUri: 'file:///photo.jpg',
+};
+
+const filter = withOperationId({
+  type: 'filter',
+  filterType: 'sepia',
+  intensity: 80,
+});
+const rotate = withOperationId({ type: 'rotate', angle: 90 });
+const crop = withOperationId({
+  type: 'crop',
+  x: 10,
+  y: 10,
+  width: 100,
+  height: 100,
+});
+
+const start = () => editorReducer(undefined, setCurrentImage(image));
+
+test('every kind of graph edit can be undone and redone', () => {
+  let state = start();
+  const snapshots: EditorState['operations'][] = [state.operations];
+  const edits = [
+    addOperation({ operation: filter }),
+    addOperation({ operation: rotate }),
+    addOperation({ operation: crop, index: 1 }),
+    updateOperation({ id: filter.id, updates: { intensity: 20 } }),
+    removeOperation(rotate.id),
+    setOperations([rotate]),
+  ];
+  for (const edit of edits) {
+    state = editorReducer(state, edit);
+    snapshots.push(state.operations);
+  }
+
+  for (let i = edits.length - 1; i >= 0; i--) {
+    state = editorReducer(state, undo());
+    expect(state.operations).toEqual(snapshots[i]);
+  }
+  // Nothing left to undo
+  expect(editorReducer(state, undo())).toEqual(state);
+
+  for (let i = 1; i <= edits.length; i++) {
+    state = editorReducer(state, redo());
+    expect(state.operations).toEqual(snapshots[i]);
+  }
+});
+
+test('a new edit discards the redo branch', () => {
+  let state = start();
+  state = editorReducer(state, addOperation({ operation: filter }));
+  state = editorReducer(state, undo());
+  state = editorReducer(state, addOperation({ operation: rotate }));
+
+  expect(state.history.future).toEqual([]);
+  expect(editorReducer(state, redo()).operations).toEqual([rotate]);
+});
+
+test('history depth is limited to the configured number of steps', () => {
+  let state = editorReducer(start(), setHistoryLimit(3));
+  for (let angle = 1; angle <= 5; angle++) {
+    state = editorReducer(
+      state,
+      addOperation({ operation: withOperationId({ type: 'rotate', angle }) }),
+    );
+  }
+  expect(state.history.past).toHaveLength(3);
+
+  for (let i = 0; i < 5; i++) {
+    state = editorReducer(state, undo());
+  }
+  // The two oldest steps fell off the stack
+  expect(state.operations.map(op => op.type === 'rotate' && op.angle)).toEqual([
+    1, 2,
+  ]);
+
+  // Lowering the limit trims existing history, and a new image keeps it
+  state = editorReducer(state, setHistoryLimit(1));
+  expect(state.history.future).toHaveLength(3);
+  state = editorReducer(state, setCurrentImage(image));
+  expect(state.history).toEqual({ past: [], future: [], limit: 1 });
+});
+
+test('slider drags coalesce into a single step until released', () => {
+  let state = start();
+  state = editorReducer(state, addOperation({ operation: filter }));
+  for (const intensity of [70, 60, 50, 40]) {
+    state = editorReducer(
+      state,
+      updateOperation({
+        id: filter.id,
+        updates: { intensity },
+        coalesce: true,
+      }),
+    );
+  }
+  state = editorReducer(state, sealHistory());
+  state = editorReducer(
+    state,
+    updateOperation({
+      id: filter.id,
+      updates: { intensity: 30 },
+      coalesce: true,
+    }),
+  );
+  expect(state.history.past).toHaveLength(3);
+
+  state = editorReducer(state, undo());
+  expect(state.operations[0]).toMatchObject({ intensity: 40 });
+  state = editorReducer(state, undo());
+  expect(state.operations[0]).toMatchObject({ intensity: 80 });
+  state = editorReducer(state, redo());
+  expect(state.operations[0]).toMatchObject({ intensity: 40 });
+});
@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  imageProcessor,
+  UnsupportedSourceError,
+} from '../src/services/imageProcessor';
+import { bytesToBase64 } from '../src/utils/base64';
+
+jest.mock('../src/services/storageService', () => ({
+  storageService: {},
+}));
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  exists: jest.fn(async () => true),
+  mkdir: jest.fn(async () => undefined),
+  read: jest.fn(),
+  readFile: jest.fn(),
+  stat: jest.fn(async () => ({ size: 1024 })),
+}));
+
+jest.mock('@react-native-community/image-editor', () => ({
+  cropImage: jest.fn(async (uri: string) => ({ uri })),
+}));
+
+// A progressive frame header, which the JPEG codec does not decode
+const progressiveJpeg = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc2, 0x00, 0x11, 0x08, 0x00, 0x10, 0x00, 0x20, 0x03,
+  0x01, 0x11, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01, 0xff, 0xd9,
+]);
+
+const photo = 'file:///photos/progressive.jpg';
+
+describe('export of a photo the codecs cannot decode', () => {
+  beforeEach(() => {
+    const base64 = bytesToBase64(progressiveJpeg);
+    (RNFS.read as jest.Mock).mockResolvedValue(base64);
+    (RNFS.readFile as jest.Mock).mockResolvedValue(base64);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects edits that need decoded pixels', async () => {
+    await expect(
+      imageProcessor.processImage(photo, [
+        { type: 'crop', x: 0, y: 0, width: 16, height: 8 },
+        {
+          type: 'blur',
+          radius: 8,
+          region: { x: 0, y: 0, width: 8, height: 8 },
+        },
+      ]),
+    ).rejects.toBeInstanceOf(UnsupportedSourceError);
+  });
+
+  it('rejects a metadata policy it cannot honor', async () => {
+    await expect(
+      imageProcessor.processImage(photo, [], {
+        metadata: { policy: 'strip-gps' },
+      }),
+    ).rejects.toBeInstanceOf(UnsupportedSourceError);
+  });
+
+  it('still crops and keeps the metadata as it is', async () => {
+    const result = await imageProcessor.processImage(
+      photo,
+      [{ type: 'crop', x: 0, y: 0, width: 16, height: 8 }],
+      { metadata: { policy: 'keep' } },
+    );
+    expect(result.processedUri).toBe(photo);
+  });
+});
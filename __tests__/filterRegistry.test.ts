@@ -0,0 +1,110 @@
+/**
+ * @format
+ */
+
+import {
+  RasterImage,
+  adjustBrightness,
+  adjustContrast,
+  adjustSaturation,
+  applyColorMatrix,
+  createBrightnessMatrix,
+  createContrastMatrix,
+  createRaster,
+  createSaturationMatrix,
+  multiplyColorMatrices,
+} from '../src/services/raster';
+import {
+  FILTER_CATEGORIES,
+  FILTER_PRESETS,
+  applyFilterPreset,
+  getFilterRecipe,
+} from '../src/services/filterRegistry';
+
+// Gradient with a fine checker pattern on top, so blurs show up too
+const texture = (size = 16): RasterImage => {
+  const image = createRaster(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const checker = (x + y) % 2 ? 20 : 0;
+      image.data.set(
+        [
+          40 + (x * 160) / size + checker,
+          30 + (y * 180) / size,
+          200 - checker,
+          255,
+        ],
+        (y * size + x) * 4,
+      );
+    }
+  }
+  return image;
+};
+
+const maxDifference = (a: RasterImage, b: RasterImage) =>
+  a.data.reduce(
+    (max, value, i) => Math.max(max, Math.abs(value - b.data[i])),
+    0,
+  );
+
+test('color matrices match the lookup table adjustments', () => {
+  const source = texture();
+  expect(
+    maxDifference(
+      applyColorMatrix(source, createBrightnessMatrix(30)),
+      adjustBrightness(source, 30),
+    ),
+  ).toBeLessThanOrEqual(1);
+  expect(
+    maxDifference(
+      applyColorMatrix(source, createContrastMatrix(-40)),
+      adjustContrast(source, -40),
+    ),
+  ).toBeLessThanOrEqual(1);
+  expect(
+    maxDifference(
+      applyColorMatrix(source, createSaturationMatrix(50)),
+      adjustSaturation(source, 50),
+    ),
+  ).toBeLessThanOrEqual(1);
+});
+
+test('multiplied matrices apply the first and then the second', () => {
+  const source = createRaster(1, 1, [100, 150, 50, 255]);
+  const first = createContrastMatrix(25);
+  const second = createBrightnessMatrix(-20);
+  const combined = applyColorMatrix(
+    source,
+    multiplyColorMatrices(first, second),
+  );
+  const chained = applyColorMatrix(applyColorMatrix(source, first), second);
+  expect(maxDifference(combined, chained)).toBeLessThanOrEqual(1);
+});
+
+test('every preset belongs to a category and changes the image', () => {
+  const categories = FILTER_CATEGORIES.map(category => category.id);
+  // Large enough for the softest blur to move a pixel
+  const source = texture(256);
+  for (const preset of FILTER_PRESETS) {
+    expect(categories).toContain(preset.category);
+    expect(
+      maxDifference(applyFilterPreset(source, preset.id, 100), source),
+    ).toBeGreaterThan(0);
+  }
+});
+
+test('legacy ids still render and unknown ids are skipped', () => {
+  const source = texture();
+  expect(getFilterRecipe('brightness')).not.toBeNull();
+  expect(
+    maxDifference(applyFilterPreset(source, 'brightness', 100), source),
+  ).toBeGreaterThan(0);
+
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  expect(getFilterRecipe('no_such_filter')).toBeNull();
+  expect(
+    Array.from(applyFilterPreset(source, 'no_such_filter', 100).data),
+  ).toEqual(Array.from(source.data));
+  expect(warn).toHaveBeenCalled();
+  warn.mockRestore();
+});
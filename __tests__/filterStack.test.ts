@@ -0,0 +1,92 @@
+/**
+ * @format
+ */
+
+import {
+  BlendMode,
+  RasterImage,
+  blendRasters,
+  createRaster,
+} from '../src/services/raster';
+import { FilterLayer, applyFilterLayers } from '../src/services/filterRegistry';
+
+const pixel = (image: RasterImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+};
+
+const layer = (
+  filterType: string,
+  changes: Partial<FilterLayer> = {},
+): FilterLayer => ({
+  id: filterType,
+  filterType,
+  opacity: 100,
+  blendMode: 'normal',
+  enabled: true,
+  ...changes,
+});
+
+test('blend modes follow the compositing formulas', () => {
+  const base = createRaster(1, 1, [64, 128, 192, 255]);
+  const top = createRaster(1, 1, [128, 128, 64, 200]);
+  const blend = (mode: BlendMode, opacity = 1) =>
+    pixel(blendRasters(base, top, mode, opacity), 0, 0);
+
+  expect(blend('normal')).toEqual([128, 128, 64, 200]);
+  expect(blend('multiply')).toEqual([32, 64, 48, 255]);
+  expect(blend('screen')).toEqual([160, 192, 208, 255]);
+  expect(blend('overlay')).toEqual([64, 128, 161, 255]);
+  // Soft light barely moves a channel blended with mid-gray
+  expect(blend('softLight')[1]).toBe(128);
+  expect(blend('multiply', 0.5)).toEqual([48, 96, 120, 255]);
+  expect(blend('screen', 0)).toEqual(pixel(base, 0, 0));
+
+  expect(() => blendRasters(base, createRaster(2, 1), 'multiply', 1)).toThrow();
+});
+
+test('layers apply bottom to top and skip disabled ones', () => {
+  const source = createRaster(1, 1, [200, 100, 50, 255]);
+
+  expect(
+    pixel(
+      applyFilterLayers(source, [layer('invert', { enabled: false })]),
+      0,
+      0,
+    ),
+  ).toEqual([200, 100, 50, 255]);
+  expect(pixel(applyFilterLayers(source, [layer('invert')]), 0, 0)).toEqual([
+    55, 155, 205, 255,
+  ]);
+  // Inverting twice cancels out
+  expect(
+    pixel(applyFilterLayers(source, [layer('invert'), layer('invert')]), 0, 0),
+  ).toEqual([200, 100, 50, 255]);
+
+  // Order matters once a layer depends on what is below it
+  const brightenThenInvert = applyFilterLayers(source, [
+    layer('brightness'),
+    layer('invert'),
+  ]);
+  const invertThenBrighten = applyFilterLayers(source, [
+    layer('invert'),
+    layer('brightness'),
+  ]);
+  expect(pixel(brightenThenInvert, 0, 0)).not.toEqual(
+    pixel(invertThenBrighten, 0, 0),
+  );
+});
+
+test('layer opacity and blend mode shape the result', () => {
+  const source = createRaster(1, 1, [200, 100, 50, 255]);
+  expect(
+    pixel(applyFilterLayers(source, [layer('invert', { opacity: 50 })]), 0, 0),
+  ).toEqual([128, 128, 128, 255]);
+  // Multiplying a color by its inverse darkens every channel
+  const multiplied = pixel(
+    applyFilterLayers(source, [layer('invert', { blendMode: 'multiply' })]),
+    0,
+    0,
+  );
+  expect(multiplied).toEqual([43, 61, 40, 255]);
+});
@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_HSL_SETTINGS,
+  HslBand,
+  HslSettings,
+  RasterImage,
+  applyHslMixer,
+  getHslBandWeights,
+  hslToRgb,
+  rgbToHsl,
+} from '../src/services/raster';
+
+// One opaque pixel per hue, fully saturated at mid lightness
+const hueStrip = (hues: number[]): RasterImage => {
+  const data = new Uint8ClampedArray(hues.length * 4);
+  hues.forEach((hue, i) => {
+    const [r, g, b] = hslToRgb(hue, 1, 0.5);
+    data.set([r, g, b, 255], i * 4);
+  });
+  return { width: hues.length, height: 1, data };
+};
+
+const hslAt = (image: RasterImage, x: number) =>
+  rgbToHsl(image.data[x * 4], image.data[x * 4 + 1], image.data[x * 4 + 2]);
+
+const withBand = (
+  band: HslBand,
+  adjustment: Partial<HslSettings[HslBand]>,
+): HslSettings => ({
+  ...DEFAULT_HSL_SETTINGS,
+  [band]: { ...DEFAULT_HSL_SETTINGS[band], ...adjustment },
+});
+
+test('converts between RGB and HSL', () => {
+  expect(rgbToHsl(255, 0, 0)).toEqual([0, 1, 0.5]);
+  expect(rgbToHsl(0, 0, 255)).toEqual([240, 1, 0.5]);
+  expect(rgbToHsl(128, 128, 128)[1]).toBe(0);
+  expect(hslToRgb(120, 1, 0.5)).toEqual([0, 255, 0]);
+  const [h, s, l] = rgbToHsl(200, 120, 40);
+  expect(hslToRgb(h, s, l).map(Math.round)).toEqual([200, 120, 40]);
+});
+
+test('band weights hand over linearly between neighbouring centers', () => {
+  expect(getHslBandWeights(240)).toMatchObject({ blue: 1, aqua: 0 });
+  expect(getHslBandWeights(210)).toMatchObject({ aqua: 0.5, blue: 0.5 });
+  expect(getHslBandWeights(255)).toMatchObject({ blue: 0.5, purple: 0.5 });
+  // Magenta hands over to red across 360
+  expect(getHslBandWeights(330)).toMatchObject({ magenta: 0.5, red: 0.5 });
+  expect(getHslBandWeights(0)).toMatchObject({ red: 1, magenta: 0 });
+  expect(getHslBandWeights(360)).toEqual(getHslBandWeights(0));
+  expect(getHslBandWeights(-30)).toEqual(getHslBandWeights(330));
+
+  for (const hue of [0, 15, 45, 90, 150, 199, 250, 285, 345, 359.5]) {
+    const weights = Object.values(getHslBandWeights(hue));
+    expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1);
+    expect(weights.filter(w => w > 0).length).toBeLessThanOrEqual(2);
+  }
+});
+
+test('desaturating blues leaves other bands alone', () => {
+  const source = hueStrip([240, 180, 120, 270, 210]);
+  const result = applyHslMixer(source, withBand('blue', { saturation: -100 }));
+
+  // Blue center turns gray
+  expect(hslAt(result, 0)[1]).toBeCloseTo(0, 2);
+  // Aqua, green and purple centers are untouched
+  expect(Array.from(result.data.slice(4, 16))).toEqual(
+    Array.from(source.data.slice(4, 16)),
+  );
+  // Halfway between aqua and blue gets half the change
+  expect(hslAt(result, 4)[1]).toBeCloseTo(0.5, 1);
+});
+
+test('hue shifts blend smoothly across the red/magenta wrap', () => {
+  const settings = withBand('red', { hue: 100 });
+  const result = applyHslMixer(hueStrip([0, 359, 1, 330, 300]), settings);
+
+  // Red center moves the full 30 degrees towards orange
+  expect(hslAt(result, 0)[0]).toBeCloseTo(30, 0);
+  // Neighbours on either side of 0 move almost as much, with no jump
+  // (8-bit pixels put them within a degree of the exact hue)
+  expect(Math.abs(hslAt(result, 1)[0] - 29)).toBeLessThan(1);
+  expect(Math.abs(hslAt(result, 2)[0] - 30.5)).toBeLessThan(1);
+  // Halfway to magenta shifts by half; magenta itself stays put
+  expect(hslAt(result, 3)[0]).toBeCloseTo(345, 0);
+  expect(hslAt(result, 4)[0]).toBeCloseTo(300, 0);
+});
+
+test('greens can be shifted towards yellow and darkened', () => {
+  const result = applyHslMixer(
+    hueStrip([120]),
+    withBand('green', { hue: -100, luminance: -100 }),
+  );
+  const [h, s, l] = hslAt(result, 0);
+  expect(h).toBeCloseTo(90, 0);
+  expect(s).toBeCloseTo(1, 1);
+  expect(l).toBeCloseTo(0.2, 1);
+});
+
+test('grays and alpha are never changed', () => {
+  const source: RasterImage = {
+    width: 2,
+    height: 1,
+    data: new Uint8ClampedArray([90, 90, 90, 255, 255, 0, 0, 77]),
+  };
+  const everything = Object.keys(DEFAULT_HSL_SETTINGS).reduce(
+    (settings, band) => ({
+      ...settings,
+      [band]: { hue: 100, saturation: 100, luminance: 100 },
+    }),
+    {} as HslSettings,
+  );
+  const result = applyHslMixer(source, everything);
+  expect(Array.from(result.data.slice(0, 4))).toEqual([90, 90, 90, 255]);
+  expect(result.data[7]).toBe(77);
+});
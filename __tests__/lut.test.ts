@@ -0,0 +1,143 @@
+/**
+ * @format
+ */
+
+import {
+  Lut,
+  LutFormatError,
+  RasterImage,
+  applyLut,
+  createRaster,
+  parseCubeLut,
+} from '../src/services/raster';
+import {
+  applyFilterPreset,
+  getFilterPresets,
+  registerFilterPreset,
+  unregisterFilterPreset,
+} from '../src/services/filterRegistry';
+
+const pixel = (image: RasterImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+};
+
+// .cube text for a 3D table built from a color function, red fastest
+const cube3d = (
+  size: number,
+  map: (r: number, g: number, b: number) => number[],
+  header = '',
+) => {
+  const rows: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const n = size - 1;
+        rows.push(map(r / n, g / n, b / n).join(' '));
+      }
+    }
+  }
+  return `# test\n${header}LUT_3D_SIZE ${size}\n${rows.join('\n')}\n`;
+};
+
+const swatches = () => {
+  const image = createRaster(4, 1);
+  image.data.set([
+    200, 40, 90, 255, 10, 220, 130, 128, 255, 255, 0, 255, 77, 77, 77, 255,
+  ]);
+  return image;
+};
+
+test('parses 3D tables with titles and domains', () => {
+  const lut = parseCubeLut(
+    cube3d(2, (r, g, b) => [r, g, b], 'TITLE "Neutral"\nDOMAIN_MIN 0 0 0\n'),
+  );
+  expect(lut).toMatchObject({ title: 'Neutral', dimensions: 3, size: 2 });
+  expect(lut.table.length).toBe(24);
+});
+
+test('rejects malformed files with the reason', () => {
+  const invalid = [
+    'LUT_3D_SIZE 2\n0 0 0\n1 0 0\n',
+    'LUT_3D_SIZE 66\n',
+    'LUT_3D_SIZE 2\nLUT_1D_SIZE 2\n',
+    '0 0 0\n',
+    'LUT_1D_SIZE 2\n0 0 zero\n1 1 1\n',
+    'LUT_1D_SIZE 2\nDOMAIN_MIN 1 0 0\n0 0 0\n1 1 1\n',
+    'just some text',
+    '',
+  ];
+  for (const text of invalid) {
+    expect(() => parseCubeLut(text)).toThrow(LutFormatError);
+  }
+  expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0\n')).toThrow(
+    'Expected 8 table rows, found 1',
+  );
+});
+
+test('identity tables leave pixels and alpha alone', () => {
+  const source = swatches();
+  const identity3d = parseCubeLut(cube3d(17, (r, g, b) => [r, g, b]));
+  for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+    expect(
+      Array.from(applyLut(source, identity3d, interpolation).data),
+    ).toEqual(Array.from(source.data));
+  }
+  const identity1d = parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1\n');
+  expect(Array.from(applyLut(source, identity1d).data)).toEqual(
+    Array.from(source.data),
+  );
+});
+
+test('3D tables interpolate between lattice points', () => {
+  const source = swatches();
+  // Channel swap
+  const lut: Lut = parseCubeLut(cube3d(2, (r, g, b) => [b, r, g]));
+  const expected = [90, 200, 40, 255];
+  expect(pixel(applyLut(source, lut, 'tetrahedral'), 0, 0)).toEqual(expected);
+  expect(pixel(applyLut(source, lut, 'trilinear'), 0, 0)).toEqual(expected);
+
+  // Away from the diagonal the two schemes differ on a non-linear table
+  const bent = parseCubeLut(cube3d(2, (r, g, b) => [r * g, g * b, b * r]));
+  const tetrahedral = pixel(applyLut(source, bent, 'tetrahedral'), 1, 0);
+  const trilinear = pixel(applyLut(source, bent, 'trilinear'), 1, 0);
+  expect(tetrahedral).not.toEqual(trilinear);
+  expect(tetrahedral[3]).toBe(128);
+});
+
+test('1D tables map channels independently over their domain', () => {
+  const lut = parseCubeLut(
+    'LUT_1D_SIZE 3\nDOMAIN_MAX 2 1 1\n0 1 0\n0.5 0.5 0.5\n1 0 1\n',
+  );
+  // Red input 255 is halfway through a 0..2 domain
+  expect(
+    pixel(applyLut(createRaster(1, 1, [255, 0, 255, 255]), lut), 0, 0),
+  ).toEqual([128, 255, 255, 255]);
+});
+
+test('registered LUT presets render at the filter intensity', () => {
+  const lut = parseCubeLut(cube3d(2, (r, g, b) => [1 - r, 1 - g, 1 - b]));
+  registerFilterPreset({
+    id: 'lut_test',
+    name: 'Negative',
+    category: 'my_luts',
+    preview: '🎞️',
+    recipe: [{ type: 'lut', lut, interpolation: 'tetrahedral' }],
+  });
+  expect(getFilterPresets('my_luts').map(preset => preset.id)).toEqual([
+    'lut_test',
+  ]);
+  const source = createRaster(1, 1, [200, 100, 0, 255]);
+  expect(pixel(applyFilterPreset(source, 'lut_test', 100), 0, 0)).toEqual([
+    55, 155, 255, 255,
+  ]);
+  expect(pixel(applyFilterPreset(source, 'lut_test', 50), 0, 0)).toEqual([
+    128, 128, 128, 255,
+  ]);
+
+  expect(() =>
+    registerFilterPreset({ ...getFilterPresets('my_luts')[0], id: 'sepia' }),
+  ).toThrow();
+  unregisterFilterPreset('lut_test');
+  expect(getFilterPresets('my_luts')).toEqual([]);
+});
@@ -0,0 +1,152 @@
+/**
+ * @format
+ */
+
+import {
+  MaskShape,
+  RasterImage,
+  blurMasked,
+  createRaster,
+  getMaskBounds,
+  rasterizeMask,
+} from '../src/services/raster';
+import { scaleOperation } from '../src/services/editGraph';
+
+const FULL = { x: 0, y: 0, width: 40, height: 40 };
+
+const at = (coverage: Float32Array, x: number, y: number) =>
+  coverage[y * FULL.width + x];
+
+// Vertical black and white stripes, which any blur visibly changes
+const stripes = (): RasterImage => {
+  const image = createRaster(40, 40);
+  for (let i = 0; i < 40 * 40; i++) {
+    const value = (i % 40) % 2 ? 255 : 0;
+    image.data.set([value, value, value, 255], i * 4);
+  }
+  return image;
+};
+
+test('feathered ellipses fade out across their edge', () => {
+  const ellipse: MaskShape = {
+    type: 'ellipse',
+    x: 10,
+    y: 10,
+    width: 20,
+    height: 20,
+    feather: 6,
+  };
+  const coverage = rasterizeMask([ellipse], FULL);
+  expect(at(coverage, 20, 20)).toBe(1);
+  expect(at(coverage, 0, 0)).toBe(0);
+  // Half strength on the outline, fading over the feather width
+  expect(at(coverage, 29, 19)).toBeGreaterThan(0.3);
+  expect(at(coverage, 29, 19)).toBeLessThan(0.8);
+  expect(at(coverage, 26, 19)).toBeGreaterThan(at(coverage, 29, 19));
+
+  const hard = rasterizeMask([{ ...ellipse, feather: 0 }], FULL);
+  expect(at(hard, 25, 19)).toBe(1);
+  expect(at(hard, 32, 19)).toBe(0);
+});
+
+test('the eraser cuts into earlier shapes only', () => {
+  const rect: MaskShape = {
+    type: 'rect',
+    x: 0,
+    y: 0,
+    width: 40,
+    height: 40,
+    feather: 0,
+  };
+  const eraser: MaskShape = {
+    type: 'stroke',
+    points: [
+      { x: 0, y: 20 },
+      { x: 40, y: 20 },
+    ],
+    size: 10,
+    hardness: 100,
+    erase: true,
+  };
+  const cut = rasterizeMask([rect, eraser], FULL);
+  expect(at(cut, 20, 20)).toBe(0);
+  expect(at(cut, 20, 5)).toBe(1);
+
+  // Painting after the eraser fills the cut again
+  expect(at(rasterizeMask([rect, eraser, rect], FULL), 20, 20)).toBe(1);
+  expect(getMaskBounds([eraser], 40, 40)).toBeNull();
+});
+
+test('brush hardness sets how much of the radius is solid', () => {
+  const stroke = (hardness: number): MaskShape => ({
+    type: 'stroke',
+    points: [{ x: 20, y: 20 }],
+    size: 20,
+    hardness,
+  });
+  const hard = rasterizeMask([stroke(100)], FULL);
+  const soft = rasterizeMask([stroke(0)], FULL);
+  expect(at(hard, 20, 20)).toBe(1);
+  expect(at(hard, 26, 20)).toBe(1);
+  expect(at(soft, 26, 20)).toBeLessThan(0.5);
+  expect(at(soft, 26, 20)).toBeGreaterThan(0);
+  expect(at(soft, 35, 20)).toBe(0);
+});
+
+test('masked blur leaves everything outside the mask untouched', () => {
+  const image = stripes();
+  const blurred = blurMasked(
+    image,
+    [{ type: 'rect', x: 10, y: 10, width: 10, height: 10, feather: 0 }],
+    3,
+  );
+  const pixel = (source: RasterImage, x: number, y: number) =>
+    Array.from(source.data.slice((y * 40 + x) * 4, (y * 40 + x) * 4 + 4));
+
+  expect(pixel(blurred, 15, 15)).not.toEqual(pixel(image, 15, 15));
+  expect(pixel(blurred, 15, 15)[0]).toBeGreaterThan(60);
+  expect(pixel(blurred, 15, 15)[0]).toBeLessThan(200);
+  for (const [x, y] of [
+    [5, 5],
+    [30, 15],
+    [15, 30],
+  ]) {
+    expect(pixel(blurred, x, y)).toEqual(pixel(image, x, y));
+  }
+  expect(blurMasked(image, [], 3).data).toEqual(image.data);
+});
+
+test('preview scaling scales mask shapes with the image', () => {
+  expect(
+    scaleOperation(
+      {
+        type: 'blur',
+        radius: 8,
+        mask: [
+          { type: 'ellipse', x: 8, y: 4, width: 16, height: 8, feather: 4 },
+          {
+            type: 'stroke',
+            points: [{ x: 4, y: 8 }],
+            size: 12,
+            hardness: 50,
+            erase: true,
+          },
+        ],
+      },
+      0.5,
+    ),
+  ).toEqual({
+    type: 'blur',
+    radius: 4,
+    mask: [
+      { type: 'ellipse', x: 4, y: 2, width: 8, height: 4, feather: 2 },
+      {
+        type: 'stroke',
+        points: [{ x: 2, y: 4 }],
+        size: 6,
+        hardness: 50,
+        erase: true,
+      },
+    ],
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @format
+ */
+
+import {
+  EXIF_TAGS,
+  GPS_TAGS,
+  IPTC_DATASETS,
+  TiffEntry,
+  buildMetadataSegments,
+  createIptcText,
+  createLongEntry,
+  createShortEntry,
+  createTextEntry,
+  decodeJpeg,
+  encodeJpeg,
+  encodeUtf8,
+  insertJpegSegments,
+  readExifOrientation,
+  readJpegSegments,
+  readPhotoMetadata,
+  writeExifSegment,
+  writeIptcSegment,
+} from '../src/services/codecs';
+import { createRaster } from '../src/services/raster';
+
+const u32le = (value: number) => [
+  value % 256,
+  Math.floor(value / 256) % 256,
+  Math.floor(value / 65536) % 256,
+  Math.floor(value / 16777216) % 256,
+];
+
+// Unsigned rationals, little-endian like the rest of the test block
+const rationals = (tag: number, values: [number, number][]): TiffEntry => ({
+  tag,
+  type: 5,
+  count: values.length,
+  value: Uint8Array.from(
+    values.flatMap(([n, d]) => [...u32le(n), ...u32le(d)]),
+  ),
+});
+
+const ICC = {
+  marker: 0xe2,
+  data: Uint8Array.from([...encodeUtf8('ICC_PROFILE\0'), 1, 1, 7, 7, 7]),
+};
+
+// A sideways phone photo with camera details, a location and credits
+const photo = () =>
+  insertJpegSegments(encodeJpeg(createRaster(8, 6, [90, 120, 150, 255]), 90), [
+    {
+      marker: 0xe1,
+      data: writeExifSegment({
+        littleEndian: true,
+        ifd0: [
+          createTextEntry(EXIF_TAGS.make, 'Canon'),
+          createTextEntry(EXIF_TAGS.model, 'Canon EOS R6'),
+          createShortEntry(EXIF_TAGS.orientation, 6, true),
+          createTextEntry(EXIF_TAGS.artist, 'Camera Owner'),
+        ],
+        exif: [
+          rationals(EXIF_TAGS.exposureTime, [[1, 250]]),
+          rationals(EXIF_TAGS.fNumber, [[28, 10]]),
+          createShortEntry(EXIF_TAGS.iso, 400, true),
+          createTextEntry(EXIF_TAGS.dateTimeOriginal, '2024:05:01 14:03:22'),
+          createTextEntry(EXIF_TAGS.lensModel, 'RF 35mm F1.8'),
+          createLongEntry(EXIF_TAGS.pixelXDimension, 6000, true),
+        ],
+        gps: [
+          createTextEntry(GPS_TAGS.latitudeRef, 'N'),
+          rationals(GPS_TAGS.latitude, [
+            [37, 1],
+            [46, 1],
+            [30, 1],
+          ]),
+          createTextEntry(GPS_TAGS.longitudeRef, 'W'),
+          rationals(GPS_TAGS.longitude, [
+            [122, 1],
+            [2550, 100],
+            [0, 1],
+          ]),
+          rationals(GPS_TAGS.altitude, [[12, 1]]),
+        ],
+      }),
+    },
+    ICC,
+    {
+      marker: 0xed,
+      data: writeIptcSegment([
+        createIptcText(IPTC_DATASETS.objectName, 'Harbour at dusk'),
+        createIptcText(IPTC_DATASETS.byline, 'Zoë Ångström'),
+        createIptcText(IPTC_DATASETS.copyrightNotice, '© Zoë Ångström'),
+      ]),
+    },
+  ]);
+
+const exportWith = (
+  policy: 'keep' | 'strip-gps' | 'strip-all',
+  credits: { author?: string; copyright?: string } = {},
+) =>
+  insertJpegSegments(
+    encodeJpeg(createRaster(6, 8), 90),
+    buildMetadataSegments(
+      photo(),
+      { policy, ...credits },
+      { width: 6, height: 8 },
+    ),
+  );
+
+test('reads camera, exposure, location and credits', () => {
+  const metadata = readPhotoMetadata(photo());
+  expect(metadata).toEqual({
+    make: 'Canon',
+    model: 'Canon EOS R6',
+    lens: 'RF 35mm F1.8',
+    exposureTime: 0.004,
+    fNumber: 2.8,
+    iso: 400,
+    focalLength: undefined,
+    dateTaken: '2024:05:01 14:03:22',
+    gps: {
+      latitude: expect.any(Number),
+      longitude: expect.any(Number),
+      altitude: 12,
+    },
+    // IPTC wins over the EXIF artist
+    title: 'Harbour at dusk',
+    author: 'Zoë Ångström',
+    copyright: '© Zoë Ångström',
+    caption: undefined,
+  });
+  expect(metadata.gps!.latitude).toBeCloseTo(37.775, 6);
+  expect(metadata.gps!.longitude).toBeCloseTo(-122.425, 6);
+
+  expect(readPhotoMetadata(encodeJpeg(createRaster(2, 2), 90))).toEqual(
+    readPhotoMetadata(new Uint8Array(0)),
+  );
+});
+
+test('keeping everything rewrites the orientation for upright output', () => {
+  const output = exportWith('keep');
+  const { gps, ...rest } = readPhotoMetadata(output);
+  const { gps: originalGps, ...originalRest } = readPhotoMetadata(photo());
+  expect(rest).toEqual(originalRest);
+  expect(gps!.latitude).toBeCloseTo(originalGps!.latitude, 6);
+  expect(readExifOrientation(photo())).toBe(6);
+  expect(readExifOrientation(output)).toBe(1);
+  expect(decodeJpeg(output).width).toBe(6);
+});
+
+test('stripping GPS keeps the rest; stripping all keeps only the profile', () => {
+  const withoutGps = readPhotoMetadata(exportWith('strip-gps'));
+  expect(withoutGps.gps).toBeUndefined();
+  expect(withoutGps).toMatchObject({ model: 'Canon EOS R6', iso: 400 });
+
+  const stripped = exportWith('strip-all');
+  expect(
+    Object.values(readPhotoMetadata(stripped)).filter(v => v !== undefined),
+  ).toEqual([]);
+  expect(readJpegSegments(stripped).map(({ marker }) => marker)).toEqual(
+    expect.arrayContaining([0xe0, 0xe2]),
+  );
+  expect(readJpegSegments(stripped).some(({ marker }) => marker === 0xe1)).toBe(
+    false,
+  );
+});
+
+test('author and copyright from preferences replace the originals', () => {
+  const signed = readPhotoMetadata(
+    exportWith('strip-all', { author: 'Sam Lee', copyright: '© 2024 Sam Lee' }),
+  );
+  expect(signed).toMatchObject({
+    author: 'Sam Lee',
+    copyright: '© 2024 Sam Lee',
+    make: undefined,
+    gps: undefined,
+  });
+
+  const kept = readPhotoMetadata(exportWith('keep', { author: 'Sam Lee' }));
+  expect(kept).toMatchObject({
+    author: 'Sam Lee',
+    copyright: '© Zoë Ångström',
+    make: 'Canon',
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @format
+ */
+
+import { MemoryStorageAdapter } from '../src/services/storage/adapter';
+import {
+  createPersistMigrate,
+  persistMigrations,
+  PERSIST_VERSION,
+  upgradeRecentProject,
+} from '../src/store/migrations';
+
+const storage = new MemoryStorageAdapter();
+
+// Recent project as the unversioned recentProjects slice persisted it
+const legacyProject = {
+  id: 'project_1',
+  name: 'Beach',
+  thumbnail: 'file:///docs/thumbnails/thumb_1.jpg',
+  originalUri: 'file:///photos/beach.jpg',
+  createdAt: 1000,
+  lastModified: 2000,
+  edits: [],
+  isSaved: true,
+  // Raw editor state stored by exports before project files existed
+  projectData: { operations: [], zoom: 1, pan: { x: 0, y: 0 } },
+};
+
+const projectReference = {
+  version: 1,
+  manifestUri: 'file:///docs/projects/project_2/project.json',
+};
+
+const legacyState = {
+  userPreferences: { theme: 'dark' },
+  recentProjects: [
+    legacyProject,
+    { ...legacyProject, id: 'project_2', projectData: projectReference },
+    { name: 'no id' },
+  ],
+  _persist: { version: -1, rehydrated: false },
+};
+
+test('v1 renames thumbnail and fills in missing fields', () => {
+  const state: any = persistMigrations[1](legacyState, storage);
+  expect(state.userPreferences).toEqual({ theme: 'dark' });
+  expect(state.recentProjects).toHaveLength(2);
+  expect(state.recentProjects[0]).toEqual({
+    ...legacyProject,
+    thumbnail: undefined,
+    thumbnailUri: 'file:///docs/thumbnails/thumb_1.jpg',
+    fileSize: 0,
+  });
+  expect(state.recentProjects[0]).not.toHaveProperty('thumbnail');
+
+  // Raw base64 thumbnails cannot be displayed and are dropped
+  const base64 = persistMigrations[1](
+    { recentProjects: [{ ...legacyProject, thumbnail: '/9j/4AAQSkZJRg' }] },
+    storage,
+  );
+  expect(base64.recentProjects[0].thumbnailUri).toBe('');
+});
+
+test('v2 keeps project references and drops raw editor state', () => {
+  const state = persistMigrations[2](
+    persistMigrations[1](legacyState, storage),
+    storage,
+  );
+  expect(state.recentProjects[0]).not.toHaveProperty('projectData');
+  expect(state.recentProjects[1].projectData).toEqual(projectReference);
+});
+
+test('old installs upgrade through every step', async () => {
+  const state: any = await createPersistMigrate(storage)(
+    legacyState,
+    PERSIST_VERSION,
+  );
+  expect(state.recentProjects.map((p: any) => p.id)).toEqual([
+    'project_1',
+    'project_2',
+  ]);
+  expect(state.recentProjects[1]).toEqual({
+    id: 'project_2',
+    name: 'Beach',
+    thumbnailUri: 'file:///docs/thumbnails/thumb_1.jpg',
+    originalUri: 'file:///photos/beach.jpg',
+    createdAt: 1000,
+    lastModified: 2000,
+    fileSize: 0,
+    edits: [],
+    isSaved: true,
+    projectData: projectReference,
+  });
+
+  // Current state passes through untouched
+  const current = { ...state, _persist: { version: PERSIST_VERSION } };
+  expect(await createPersistMigrate(storage)(current, PERSIST_VERSION)).toBe(
+    current,
+  );
+});
+
+test('v3 merges the copies StorageService kept under its own keys', async () => {
+  const legacyStorage = new MemoryStorageAdapter({
+    recent_projects: JSON.stringify([
+      // Newer copy of a project the store also has
+      {
+        ...legacyProject,
+        id: 'project_2',
+        thumbnailUri: 'file:///docs/thumbnails/thumb_2.jpg',
+        lastModified: 5000,
+      },
+      // Only StorageService knew about this one
+      { ...legacyProject, id: 'project_3', lastModified: 4000 },
+    ]),
+    user_preferences: JSON.stringify({ theme: 'light', reduceMotion: true }),
+  });
+  const state = await persistMigrations[3](
+    persistMigrations[2](persistMigrations[1](legacyState, storage), storage),
+    legacyStorage,
+  );
+
+  expect(state.recentProjects.map((p: any) => p.id)).toEqual([
+    'project_2',
+    'project_3',
+    'project_1',
+  ]);
+  expect(state.recentProjects[0].thumbnailUri).toBe(
+    'file:///docs/thumbnails/thumb_2.jpg',
+  );
+  // Store values win; fields only StorageService had are adopted
+  expect(state.userPreferences).toMatchObject({
+    theme: 'dark',
+    reduceMotion: true,
+    autoSave: true,
+    qualityPreference: 90,
+  });
+});
+
+test('v4 adds export metadata preferences without touching the rest', () => {
+  const state = persistMigrations[4](
+    {
+      userPreferences: { theme: 'dark', authorName: 'Sam Lee' },
+      recentProjects: [],
+    },
+    storage,
+  );
+  expect(state.userPreferences).toMatchObject({
+    theme: 'dark',
+    metadataPolicy: 'strip-gps',
+    embedAuthorInfo: false,
+    authorName: 'Sam Lee',
+    copyrightNotice: '',
+  });
+  expect(state.recentProjects).toEqual([]);
+});
+
+test('v5 keeps the history depth within the range the setting offers', () => {
+  const migrate = (userPreferences: unknown) =>
+    persistMigrations[5]({ userPreferences }, storage).userPreferences;
+  expect(migrate({ theme: 'dark', historyLimit: 80 })).toMatchObject({
+    theme: 'dark',
+    historyLimit: 80,
+  });
+  expect(migrate({ historyLimit: 500 }).historyLimit).toBe(200);
+  expect(migrate({ historyLimit: 0.5 }).historyLimit).toBe(1);
+  expect(migrate({ historyLimit: '30' }).historyLimit).toBe(50);
+  expect(migrate(undefined).historyLimit).toBe(50);
+});
+
+test('stored entries are upgraded idempotently', () => {
+  const upgraded = upgradeRecentProject(legacyProject);
+  expect(upgraded).not.toBeNull();
+  expect(upgradeRecentProject(upgraded)).toEqual(upgraded);
+  expect(upgradeRecentProject('garbage')).toBeNull();
+});
@@ -0,0 +1,150 @@
+/**
+ * @format
+ */
+
+import {
+  Quad,
+  RasterImage,
+  createRaster,
+  cropRaster,
+  getFrameQuad,
+  getKeystoneQuad,
+  getPerspectiveTransform,
+  getRectifiedSize,
+  isConvexQuad,
+  projectPoint,
+  warpPerspective,
+} from '../src/services/raster';
+import {
+  getDocumentDimensions,
+  scaleOperation,
+} from '../src/services/editGraph';
+
+// Distinct value per pixel so any resampling error shows up
+const gradient = (width: number, height: number): RasterImage => {
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.data.set([x * 10, y * 10, 128, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+};
+
+// A whiteboard shot at an angle: the right edge is further away
+const BOARD: Quad = [
+  { x: 10, y: 8 },
+  { x: 50, y: 16 },
+  { x: 50, y: 34 },
+  { x: 10, y: 42 },
+];
+
+const insideQuad = (quad: Quad, x: number, y: number) =>
+  quad.every((point, i) => {
+    const next = quad[(i + 1) % 4];
+    return (
+      (next.x - point.x) * (y - point.y) - (next.y - point.y) * (x - point.x) >=
+      0
+    );
+  });
+
+test('the homography maps each corner onto its target', () => {
+  const matrix = getPerspectiveTransform(getFrameQuad(40, 30), BOARD)!;
+  getFrameQuad(40, 30).forEach((corner, i) => {
+    const projected = projectPoint(matrix, corner.x, corner.y);
+    expect(projected.x).toBeCloseTo(BOARD[i].x, 6);
+    expect(projected.y).toBeCloseTo(BOARD[i].y, 6);
+  });
+
+  const collinear: Quad = [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 20, y: 0 },
+    { x: 0, y: 10 },
+  ];
+  expect(getPerspectiveTransform(collinear, getFrameQuad(1, 1))).toBeNull();
+  expect(() =>
+    warpPerspective(createRaster(30, 20), collinear, 10, 10),
+  ).toThrow();
+});
+
+test('an axis-aligned quad warps to the same pixels as a crop', () => {
+  const source = gradient(12, 9);
+  const quad: Quad = [
+    { x: 2, y: 3 },
+    { x: 9, y: 3 },
+    { x: 9, y: 8 },
+    { x: 2, y: 8 },
+  ];
+  const size = getRectifiedSize(quad);
+  expect(size).toEqual({ width: 7, height: 5 });
+  expect(warpPerspective(source, quad, size.width, size.height).data).toEqual(
+    cropRaster(source, 2, 3, 7, 5).data,
+  );
+});
+
+test('a skewed board comes out as a filled rectangle', () => {
+  // White board on a black background
+  const photo = createRaster(60, 50, [0, 0, 0, 255]);
+  for (let y = 0; y < photo.height; y++) {
+    for (let x = 0; x < photo.width; x++) {
+      if (insideQuad(BOARD, x + 0.5, y + 0.5)) {
+        photo.data.set([255, 255, 255, 255], (y * photo.width + x) * 4);
+      }
+    }
+  }
+
+  const { width, height } = getRectifiedSize(BOARD);
+  const result = warpPerspective(photo, BOARD, width, height);
+  expect(result.width).toBe(41);
+  expect(result.height).toBe(26);
+
+  // Away from the one-pixel antialiased border everything is board
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      expect(result.data[(y * width + x) * 4]).toBe(255);
+    }
+  }
+});
+
+test('keystone sliders inset the corners of the shortened edge', () => {
+  expect(getKeystoneQuad(100, 80, { horizontal: 0, vertical: 0 })).toEqual(
+    getFrameQuad(100, 80),
+  );
+
+  const [tl, tr, br, bl] = getKeystoneQuad(100, 80, {
+    horizontal: 0,
+    vertical: 100,
+  });
+  expect([tl.x, tr.x, br.x, bl.x]).toEqual([25, 75, 100, 0]);
+
+  const left = getKeystoneQuad(100, 80, { horizontal: -50, vertical: 0 });
+  expect([left[0].y, left[3].y, left[1].y, left[2].y]).toEqual([10, 70, 0, 80]);
+
+  expect(
+    isConvexQuad(getKeystoneQuad(100, 80, { horizontal: 100, vertical: -100 })),
+  ).toBe(true);
+  // A corner dragged across the diagonal folds the quad
+  expect(isConvexQuad([BOARD[0], BOARD[1], { x: 5, y: 2 }, BOARD[3]])).toBe(
+    false,
+  );
+});
+
+test('perspective nodes set the document size and scale for previews', () => {
+  const operation = {
+    type: 'perspective' as const,
+    corners: BOARD,
+    width: 40,
+    height: 26,
+  };
+  expect(getDocumentDimensions({ width: 60, height: 50 }, [operation])).toEqual(
+    { width: 40, height: 26 },
+  );
+
+  const scaled = scaleOperation(operation, 0.5);
+  expect(scaled).toMatchObject({ width: 20, height: 13 });
+  expect(scaled.type === 'perspective' && scaled.corners[1]).toEqual({
+    x: 25,
+    y: 8,
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @format
+ */
+
+import {
+  PresetFormatError,
+  getLookOperations,
+  getPresetLutIds,
+  parsePresetFile,
+  serializePreset,
+} from '../src/services/presetFormat';
+import { EditOperation, replaceLook } from '../src/services/editGraph';
+import type { ImageOperation } from '../src/services/imageProcessor';
+import { DEFAULT_HSL_SETTINGS } from '../src/services/raster';
+
+const LOOK: ImageOperation[] = [
+  {
+    type: 'tone',
+    exposure: 0.5,
+    contrast: 10,
+    highlights: -20,
+    shadows: 15,
+    whites: 0,
+    blacks: -5,
+  },
+  { type: 'hsl', bands: DEFAULT_HSL_SETTINGS },
+  { type: 'whiteBalance', temperature: 12, tint: -4 },
+  {
+    type: 'filterStack',
+    layers: [
+      {
+        id: 'layer_1',
+        filterType: 'sepia',
+        opacity: 60,
+        blendMode: 'softLight',
+        enabled: true,
+      },
+    ],
+  },
+];
+
+const presetJson = (operations: unknown[]) =>
+  JSON.stringify({
+    format: 'offline-photo-editor/preset',
+    version: 1,
+    name: 'Warm',
+    operations,
+  });
+
+test('presets roundtrip through their JSON file', () => {
+  const json = serializePreset({
+    id: 'preset_1',
+    name: 'Golden hour',
+    createdAt: 0,
+    operations: LOOK,
+  });
+  const file = parsePresetFile(json);
+  expect(file.name).toBe('Golden hour');
+  expect(file.operations).toEqual(LOOK);
+});
+
+test('only color edits are saved, without node ids', () => {
+  const graph = [
+    { type: 'crop', x: 0, y: 0, width: 10, height: 10, id: 'a' },
+    { ...LOOK[2], id: 'b' },
+    { type: 'text', text: 'Hi', x: 1, y: 1, fontSize: 12, color: '#fff' },
+  ] as ImageOperation[];
+  expect(getLookOperations(graph)).toEqual([LOOK[2]]);
+});
+
+test('imports reject files that are not valid presets', () => {
+  const invalid = [
+    'not json',
+    JSON.stringify({ format: 'something-else', version: 1 }),
+    JSON.stringify({ ...JSON.parse(presetJson(LOOK)), version: 2 }),
+    JSON.stringify({ ...JSON.parse(presetJson(LOOK)), name: '  ' }),
+    presetJson([]),
+    presetJson([{ type: 'crop', x: 0, y: 0, width: 10, height: 10 }]),
+    presetJson([{ type: 'brightness', value: 500 }]),
+    presetJson([{ type: 'whiteBalance', temperature: 'warm', tint: 0 }]),
+    presetJson([{ type: 'hsl', bands: { red: DEFAULT_HSL_SETTINGS.red } }]),
+    presetJson([
+      { type: 'filterStack', layers: [{ ...LOOK[3], blendMode: 'dodge' }] },
+    ]),
+  ];
+  for (const json of invalid) {
+    expect(() => parsePresetFile(json)).toThrow(PresetFormatError);
+  }
+  expect(() =>
+    parsePresetFile(presetJson([{ type: 'overlay', overlayUri: 'x' }])),
+  ).toThrow('Edit 1 ("overlay") can\'t be part of a preset');
+});
+
+test('imports reject unknown filters and list the LUTs they need', () => {
+  expect(() =>
+    parsePresetFile(
+      presetJson([{ type: 'filter', filterType: 'no_such', intensity: 50 }]),
+    ),
+  ).toThrow('Edit 1 uses an unknown filter ("no_such")');
+
+  // LUTs are only known on the device they were imported on
+  const lutLayer = {
+    ...(LOOK[3] as { layers: object[] }).layers[0],
+    filterType: 'lut_123_abc',
+  };
+  const file = parsePresetFile(
+    presetJson([
+      { type: 'filterStack', layers: [lutLayer] },
+      { type: 'filter', filterType: 'lut_123_abc', intensity: 40 },
+    ]),
+  );
+  expect(getPresetLutIds(file.operations)).toEqual(['lut_123_abc']);
+});
+
+test('applying a look swaps it in where the old one was', () => {
+  const graph: EditOperation[] = [
+    { type: 'rotate', angle: 90, id: 'rotate' },
+    { type: 'filter', filterType: 'vintage', intensity: 80, id: 'filter' },
+    { type: 'crop', x: 0, y: 0, width: 10, height: 10, id: 'crop' },
+    { type: 'brightness', value: 20, id: 'brightness' },
+  ];
+  const next = replaceLook(graph, LOOK);
+  expect(next.map(operation => operation.type)).toEqual([
+    'rotate',
+    'tone',
+    'hsl',
+    'whiteBalance',
+    'filterStack',
+    'crop',
+  ]);
+  expect(new Set(next.map(operation => operation.id)).size).toBe(6);
+
+  // Graphs without a look get it at the end
+  expect(replaceLook([graph[0]], [LOOK[2]]).map(op => op.type)).toEqual([
+    'rotate',
+    'whiteBalance',
+  ]);
+});
@@ -0,0 +1,137 @@
+/**
+ * @format
+ */
+
+import { withOperationId } from '../src/services/editGraph';
+import {
+  getAssetFileName,
+  manifestToSession,
+  parseProjectManifest,
+  ProjectFormatError,
+  ProjectManifest,
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  toAssetReference,
+} from '../src/services/projectFormat';
+import editorReducer, {
+  openProject,
+  undo,
+} from '../src/store/slices/editorSlice';
+
+const operations = [
+  withOperationId({ type: 'crop', x: 10, y: 20, width: 300, height: 200 }),
+  withOperationId({ type: 'filter', filterType: 'sepia', intensity: 60 }),
+  withOperationId({
+    type: 'blur',
+    radius: 8,
+    region: { x: 5, y: 5, width: 50, height: 40 },
+  }),
+  withOperationId({
+    type: 'text',
+    text: 'Hello',
+    x: 12,
+    y: 30,
+    fontSize: 24,
+    color: '#ffffff',
+  }),
+  withOperationId({
+    type: 'overlay',
+    overlayUri: toAssetReference('overlay_1.png'),
+    x: 0,
+    y: 0,
+    opacity: 0.5,
+  }),
+  withOperationId({
+    type: 'filterStack',
+    layers: [
+      {
+        id: 'layer_1',
+        filterType: 'sepia',
+        opacity: 70,
+        blendMode: 'softLight',
+        enabled: true,
+      },
+      {
+        id: 'layer_2',
+        filterType: 'vignette',
+        opacity: 100,
+        blendMode: 'multiply',
+        enabled: false,
+      },
+    ],
+  }),
+];
+
+const manifest: ProjectManifest = {
+  format: PROJECT_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  id: 'project_1',
+  name: 'Beach',
+  createdAt: 1000,
+  modifiedAt: 2000,
+  source: { asset: toAssetReference('source.jpg'), width: 640, height: 480 },
+  operations,
+  view: { zoom: 2, pan: { x: 10, y: -4 } },
+  assets: ['source.jpg', 'overlay_1.png'],
+};
+
+test('a saved manifest restores the exact edit session', () => {
+  const parsed = parseProjectManifest(JSON.stringify(manifest));
+  expect(parsed).toEqual(manifest);
+
+  const session = manifestToSession(parsed, '/docs/projects/project_1');
+  expect(session.sourceUri).toBe('file:///docs/projects/project_1/source.jpg');
+  expect(session.view).toEqual({ zoom: 2, pan: { x: 10, y: -4 } });
+  expect(session.operations.slice(0, 4)).toEqual(operations.slice(0, 4));
+  expect(session.operations[4]).toMatchObject({
+    id: operations[4].id,
+    overlayUri: 'file:///docs/projects/project_1/overlay_1.png',
+  });
+  expect(session.operations[5]).toEqual(operations[5]);
+
+  // Opening a project is not itself an undoable edit
+  let state = editorReducer(
+    undefined,
+    openProject({
+      projectId: session.id,
+      image: {
+        uri: session.sourceUri,
+        width: session.width,
+        height: session.height,
+        originalUri: session.sourceUri,
+      },
+      operations: session.operations,
+      zoom: session.view.zoom,
+      pan: session.view.pan,
+    }),
+  );
+  state = editorReducer(state, undo());
+  expect(state.operations).toEqual(session.operations);
+  expect(state.projectId).toBe('project_1');
+});
+
+test('invalid or newer manifests are rejected', () => {
+  expect(() => parseProjectManifest('{')).toThrow(ProjectFormatError);
+  expect(() =>
+    parseProjectManifest(JSON.stringify({ ...manifest, format: 'other' })),
+  ).toThrow(ProjectFormatError);
+  expect(() =>
+    parseProjectManifest(
+      JSON.stringify({ ...manifest, version: PROJECT_FORMAT_VERSION + 1 }),
+    ),
+  ).toThrow('newer version');
+  expect(() =>
+    parseProjectManifest(
+      JSON.stringify({ ...manifest, operations: [{ type: 'rotate' }] }),
+    ),
+  ).toThrow(ProjectFormatError);
+});
+
+test('copied assets keep their file extension', () => {
+  expect(getAssetFileName('source', 'file:///a/b/IMG_1.HEIC')).toBe(
+    'source.heic',
+  );
+  expect(getAssetFileName('source', 'content://media/images/42')).toBe(
+    'source.jpg',
+  );
+});
@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import { projectService } from '../src/services/projectService';
+
+jest.mock('../src/services/storageService', () => ({
+  storageService: {
+    getProjectDirectory: jest.fn(async () => '/documents/projects/remote'),
+  },
+}));
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  exists: jest.fn(),
+  unlink: jest.fn(async () => undefined),
+  copyFile: jest.fn(async () => undefined),
+  downloadFile: jest.fn(),
+  writeFile: jest.fn(async () => undefined),
+  moveFile: jest.fn(async () => undefined),
+  readDir: jest.fn(async () => []),
+}));
+
+jest.mock('@react-native-community/image-editor', () => ({
+  cropImage: jest.fn(async (uri: string) => ({ uri })),
+}));
+
+test('remote sources are downloaded before they are copied into the project', async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  const files = new Set<string>();
+  (RNFS.exists as jest.Mock).mockImplementation(async (path: string) =>
+    files.has(path),
+  );
+  (RNFS.downloadFile as jest.Mock).mockImplementation(({ toFile }) => {
+    files.add(toFile);
+    return { promise: Promise.resolve({ statusCode: 200 }) };
+  });
+
+  const manifest = await projectService.saveProject({
+    id: 'remote',
+    name: 'Remote',
+    sourceUri: 'https://example.com/photos/beach.png?size=large',
+    width: 400,
+    height: 300,
+    operations: [],
+    view: { zoom: 1, pan: { x: 0, y: 0 } },
+  });
+
+  expect(RNFS.downloadFile).toHaveBeenCalledTimes(1);
+  const [{ fromUrl, toFile }] = (RNFS.downloadFile as jest.Mock).mock.calls[0];
+  expect(fromUrl).toBe('https://example.com/photos/beach.png?size=large');
+  expect(RNFS.copyFile).toHaveBeenCalledWith(
+    toFile,
+    '/documents/projects/remote/source.png',
+  );
+  expect(manifest.assets).toEqual(['source.png']);
+  jest.restoreAllMocks();
+});
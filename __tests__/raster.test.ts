@@ -0,0 +1,217 @@
+/**
+ * @format
+ */
+
+import {
+  RasterImage,
+  adjustBrightness,
+  adjustContrast,
+  adjustSaturation,
+  blurRegion,
+  compositeRaster,
+  createRaster,
+  createThumbnailRaster,
+  cropRaster,
+  drawText,
+  flipRaster,
+  gaussianBlur,
+  getInscribedSize,
+  parseColor,
+  resampleRaster,
+  resizeRaster,
+  rotateRaster,
+  straightenRaster,
+} from '../src/services/raster';
+import { applyFilterPreset } from '../src/services/filterRegistry';
+
+const pixel = (image: RasterImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+};
+
+// 2x2 image: red, green / blue, white
+const quad = (): RasterImage => ({
+  width: 2,
+  height: 2,
+  data: new Uint8ClampedArray([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255,
+  ]),
+});
+
+test('parses hex, rgb() and named colors', () => {
+  expect(parseColor('#f00')).toEqual([255, 0, 0, 255]);
+  expect(parseColor('#00ff0080')).toEqual([0, 255, 0, 128]);
+  expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual([10, 20, 30, 127.5]);
+  expect(parseColor('white')).toEqual([255, 255, 255, 255]);
+  expect(() => parseColor('nope')).toThrow();
+});
+
+test('brightness, contrast and saturation change pixels', () => {
+  const gray = createRaster(1, 1, [100, 100, 100, 255]);
+  expect(pixel(adjustBrightness(gray, 20), 0, 0)).toEqual([151, 151, 151, 255]);
+  expect(pixel(adjustContrast(gray, 50), 0, 0)[0]).toBeLessThan(100);
+  expect(pixel(adjustSaturation(quad(), -100), 0, 0)).toEqual([
+    54, 54, 54, 255,
+  ]);
+});
+
+test('operations do not mutate their input', () => {
+  const source = quad();
+  const before = Array.from(source.data);
+  adjustBrightness(source, 50);
+  flipRaster(source, 'horizontal');
+  applyFilterPreset(source, 'sepia', 100);
+  expect(Array.from(source.data)).toEqual(before);
+});
+
+test('crop clamps to the image bounds', () => {
+  const cropped = cropRaster(quad(), 1, 1, 10, 10);
+  expect(cropped.width).toBe(1);
+  expect(cropped.height).toBe(1);
+  expect(pixel(cropped, 0, 0)).toEqual([255, 255, 255, 255]);
+});
+
+test('flip and right-angle rotation are lossless', () => {
+  expect(pixel(flipRaster(quad(), 'horizontal'), 0, 0)).toEqual([
+    0, 255, 0, 255,
+  ]);
+  expect(pixel(flipRaster(quad(), 'vertical'), 0, 0)).toEqual([0, 0, 255, 255]);
+
+  const rotated = rotateRaster(quad(), 90);
+  expect(pixel(rotated, 0, 0)).toEqual([0, 0, 255, 255]);
+  expect(pixel(rotated, 1, 0)).toEqual([255, 0, 0, 255]);
+
+  const wide = createRaster(4, 2);
+  const turned = rotateRaster(wide, -90);
+  expect([turned.width, turned.height]).toEqual([2, 4]);
+});
+
+test('arbitrary rotation expands the canvas', () => {
+  const rotated = rotateRaster(createRaster(10, 10, [255, 0, 0, 255]), 45);
+  expect(rotated.width).toBe(15);
+  expect(pixel(rotated, 7, 7)).toEqual([255, 0, 0, 255]);
+  expect(pixel(rotated, 0, 0)[3]).toBe(0);
+});
+
+test('straightening crops to the inscribed rectangle or fills the corners', () => {
+  expect(getInscribedSize(400, 300, 0)).toEqual({ width: 400, height: 300 });
+  // A square turned 45 degrees holds a square half its area
+  expect(getInscribedSize(100, 100, 45)).toEqual({ width: 70, height: 70 });
+  expect(getInscribedSize(400, 300, -10)).toEqual(
+    getInscribedSize(400, 300, 10),
+  );
+
+  const source = createRaster(40, 30, [255, 0, 0, 255]);
+  const cropped = straightenRaster(source, 7.5, true);
+  expect([cropped.width, cropped.height]).toEqual(
+    Object.values(getInscribedSize(40, 30, 7.5)),
+  );
+  const filled = straightenRaster(source, -12.3, false);
+  expect([filled.width, filled.height]).toEqual([40, 30]);
+  // No empty corners either way
+  for (const image of [cropped, filled]) {
+    for (const [x, y] of [
+      [0, 0],
+      [image.width - 1, 0],
+      [0, image.height - 1],
+      [image.width - 1, image.height - 1],
+    ]) {
+      expect(pixel(image, x, y)).toEqual([255, 0, 0, 255]);
+    }
+  }
+});
+
+test('resize averages when shrinking', () => {
+  const resized = resizeRaster(quad(), 1, 1);
+  expect([resized.width, resized.height]).toEqual([1, 1]);
+  expect(pixel(resized, 0, 0)).toEqual([128, 128, 128, 255]);
+  expect(resizeRaster(quad(), 8, 4).width).toBe(8);
+});
+
+test('gaussian blur preserves flat areas and smooths edges', () => {
+  const flat = createRaster(8, 8, [40, 80, 120, 255]);
+  expect(pixel(gaussianBlur(flat, 2), 4, 4)).toEqual([40, 80, 120, 255]);
+
+  const edge = createRaster(20, 1, [0, 0, 0, 255]);
+  for (let x = 10; x < 20; x++) {
+    edge.data[x * 4] = 255;
+  }
+  const blurred = gaussianBlur(edge, 2);
+  expect(pixel(blurred, 9, 0)[0]).toBeGreaterThan(0);
+  expect(pixel(blurred, 10, 0)[0]).toBeLessThan(255);
+});
+
+test('region blur leaves pixels outside the rect untouched', () => {
+  const image = createRaster(10, 10, [0, 0, 0, 255]);
+  image.data[(5 * 10 + 5) * 4] = 255;
+  const out = blurRegion(image, { x: 3, y: 3, width: 5, height: 5 }, 1);
+  expect(pixel(out, 5, 5)[0]).toBeLessThan(255);
+  expect(pixel(out, 0, 0)).toEqual([0, 0, 0, 255]);
+});
+
+test('named filters blend by intensity', () => {
+  const source = createRaster(1, 1, [200, 100, 50, 255]);
+  expect(pixel(applyFilterPreset(source, 'invert', 100), 0, 0)).toEqual([
+    55, 155, 205, 255,
+  ]);
+  expect(pixel(applyFilterPreset(source, 'invert', 0), 0, 0)).toEqual([
+    200, 100, 50, 255,
+  ]);
+  const mono = pixel(applyFilterPreset(source, 'grayscale', 100), 0, 0);
+  expect(mono[0]).toBe(mono[1]);
+  expect(mono[1]).toBe(mono[2]);
+});
+
+test('text is rasterized in the requested color', () => {
+  const canvas = createRaster(40, 16, [255, 255, 255, 255]);
+  const out = drawText(canvas, 'Hi', 2, 2, 8, '#000000');
+  let dark = 0;
+  for (let i = 0; i < out.data.length; i += 4) {
+    if (out.data[i] < 128) {
+      dark++;
+    }
+  }
+  expect(dark).toBeGreaterThan(10);
+  expect(pixel(out, 39, 15)).toEqual([255, 255, 255, 255]);
+});
+
+test('overlay composites with opacity', () => {
+  const base = createRaster(4, 4, [0, 0, 0, 255]);
+  const overlay = createRaster(2, 2, [255, 255, 255, 255]);
+  const out = compositeRaster(base, overlay, 1, 1, 0.5);
+  expect(pixel(out, 1, 1)).toEqual([128, 128, 128, 255]);
+  expect(pixel(out, 0, 0)).toEqual([0, 0, 0, 255]);
+});
+
+test('box and lanczos resampling keep flat color and average detail', () => {
+  const flat = createRaster(30, 20, [90, 160, 30, 255]);
+  expect(pixel(resampleRaster(flat, 7, 5, 'lanczos'), 3, 2)).toEqual([
+    90, 160, 30, 255,
+  ]);
+
+  // 1px checkerboard averages to mid gray under both filters
+  const checker = createRaster(16, 16);
+  for (let i = 0; i < 16 * 16; i++) {
+    const on = (i % 16) % 2 === Math.floor(i / 16) % 2;
+    checker.data.set(on ? [255, 255, 255, 255] : [0, 0, 0, 255], i * 4);
+  }
+  expect(pixel(resampleRaster(checker, 4, 4, 'box'), 1, 1)[0]).toBe(128);
+  const lanczos = pixel(resampleRaster(checker, 4, 4, 'lanczos'), 1, 1);
+  expect(Math.abs(lanczos[0] - 128)).toBeLessThan(8);
+});
+
+test('resampling does not bleed color from transparent pixels', () => {
+  const image = createRaster(4, 1, [255, 0, 0, 0]);
+  image.data.set([0, 0, 255, 255], 0);
+  image.data.set([0, 0, 255, 255], 4);
+  const out = resampleRaster(image, 2, 1, 'box');
+  expect(pixel(out, 0, 0)).toEqual([0, 0, 255, 255]);
+  expect(pixel(out, 1, 0)[3]).toBe(0);
+});
+
+test('thumbnails fit the long edge without upscaling', () => {
+  const thumb = createThumbnailRaster(createRaster(1200, 800), 300);
+  expect([thumb.width, thumb.height]).toEqual([300, 200]);
+  const small = createThumbnailRaster(createRaster(100, 50), 300);
+  expect([small.width, small.height]).toEqual([100, 50]);
+});
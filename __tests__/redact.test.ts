@@ -0,0 +1,136 @@
+/**
+ * @format
+ */
+
+import {
+  MaskShape,
+  RasterImage,
+  createRaster,
+  getMaskBounds,
+  rasterizeMask,
+  redactMasked,
+  redactRegion,
+} from '../src/services/raster';
+import { decodePng, encodePng } from '../src/services/codecs';
+import { scaleOperation } from '../src/services/editGraph';
+
+// Every pixel has its own color, so any copied original would show up
+const gradient = (width: number, height: number): RasterImage => {
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.data.set([x * 6, y * 6, 255 - x * 3, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+};
+
+const pixel = (image: RasterImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+};
+
+// A feathered ellipse with a soft brush stroke sticking out of it
+const SHAPES: MaskShape[] = [
+  { type: 'ellipse', x: 6, y: 8, width: 20, height: 14, feather: 8 },
+  {
+    type: 'stroke',
+    points: [
+      { x: 20, y: 15 },
+      { x: 36, y: 30 },
+    ],
+    size: 6,
+    hardness: 0,
+  },
+];
+
+// Exports losslessly, then lists covered pixels that kept their original
+// value and uncovered pixels that changed
+const exportAndCompare = (redacted: RasterImage, original: RasterImage) => {
+  const exported = decodePng(encodePng(redacted));
+  const area = getMaskBounds(SHAPES, original.width, original.height)!;
+  const coverage = rasterizeMask(SHAPES, area);
+  const leaked: number[][] = [];
+  const changed: number[][] = [];
+  for (let y = 0; y < original.height; y++) {
+    for (let x = 0; x < original.width; x++) {
+      const inside =
+        x >= area.x &&
+        y >= area.y &&
+        x < area.x + area.width &&
+        y < area.y + area.height &&
+        coverage[(y - area.y) * area.width + x - area.x] > 0;
+      const same =
+        pixel(exported, x, y).join() === pixel(original, x, y).join();
+      if (inside && same) {
+        leaked.push([x, y]);
+      } else if (!inside && !same) {
+        changed.push([x, y]);
+      }
+    }
+  }
+  return { exported, leaked, changed };
+};
+
+test('pixelated masks keep no original pixel, even on feathered edges', () => {
+  const original = gradient(40, 40);
+  const { leaked, changed } = exportAndCompare(
+    redactMasked(original, SHAPES, { mode: 'pixelate', blockSize: 4 }),
+    original,
+  );
+  expect(leaked).toEqual([]);
+  expect(changed).toEqual([]);
+});
+
+test('solid masks fill every touched pixel with an opaque color', () => {
+  const original = gradient(40, 40);
+  const { exported, leaked, changed } = exportAndCompare(
+    redactMasked(original, SHAPES, { mode: 'solid', color: '#00000080' }),
+    original,
+  );
+  expect(leaked).toEqual([]);
+  expect(changed).toEqual([]);
+  expect(pixel(exported, 16, 15)).toEqual([0, 0, 0, 255]);
+});
+
+test('mosaic cells follow the image grid and absorb thin edge remainders', () => {
+  const original = gradient(9, 9);
+  const redacted = redactRegion(original, undefined, {
+    mode: 'pixelate',
+    blockSize: 4,
+  });
+  // Cells span 0-3 and 4-8 on both axes
+  expect(pixel(redacted, 0, 0)).toEqual(pixel(redacted, 3, 3));
+  expect(pixel(redacted, 4, 4)).toEqual(pixel(redacted, 8, 8));
+  expect(pixel(redacted, 3, 3)).not.toEqual(pixel(redacted, 4, 4));
+  // A one-pixel cell in the corner would have copied it
+  expect(pixel(redacted, 8, 8)).not.toEqual(pixel(original, 8, 8));
+
+  // Regions only write inside themselves but average whole cells
+  const region = redactRegion(
+    original,
+    { x: 2, y: 0, width: 2, height: 4 },
+    { mode: 'pixelate', blockSize: 4 },
+  );
+  expect(pixel(region, 2, 0)).toEqual(pixel(redacted, 0, 0));
+  expect(pixel(region, 1, 0)).toEqual(pixel(original, 1, 0));
+});
+
+test('preview scaling scales the mosaic cell size', () => {
+  expect(
+    scaleOperation(
+      {
+        type: 'blur',
+        radius: 4,
+        redaction: { mode: 'pixelate', blockSize: 16 },
+      },
+      0.25,
+    ),
+  ).toMatchObject({ radius: 1, redaction: { mode: 'pixelate', blockSize: 4 } });
+  expect(
+    scaleOperation(
+      { type: 'blur', radius: 4, redaction: { mode: 'solid', color: 'black' } },
+      0.25,
+    ),
+  ).toMatchObject({ redaction: { mode: 'solid', color: 'black' } });
+});
@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import { imageProcessor } from '../src/services/imageProcessor';
+import { decodeJpeg, encodePng } from '../src/services/codecs';
+import { createRaster } from '../src/services/raster';
+import { base64ToBytes, bytesToBase64 } from '../src/utils/base64';
+
+jest.mock('../src/services/storageService', () => ({
+  storageService: {
+    getThumbnailDirectory: jest.fn(async () => '/documents/thumbnails'),
+  },
+}));
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  exists: jest.fn(async () => false),
+  readFile: jest.fn(),
+  writeFile: jest.fn(async () => undefined),
+  unlink: jest.fn(async () => undefined),
+}));
+
+jest.mock('@react-native-community/image-editor', () => ({
+  cropImage: jest.fn(async (uri: string) => ({ uri })),
+}));
+
+const photo = 'file:///photos/wide.png';
+
+// Size of the preview written by the last render
+const writtenSize = () => {
+  const calls = (RNFS.writeFile as jest.Mock).mock.calls;
+  const image = decodeJpeg(base64ToBytes(calls[calls.length - 1][1]));
+  return { width: image.width, height: image.height };
+};
+
+beforeEach(() => {
+  const png = bytesToBase64(encodePng(createRaster(400, 300)));
+  (RNFS.readFile as jest.Mock).mockResolvedValue(png);
+  (RNFS.readFile as jest.Mock).mockClear();
+  imageProcessor.releaseSamples();
+});
+
+test('a larger sample is not enlarged from a smaller one', async () => {
+  await imageProcessor.renderSample(photo, [], 100, 'small');
+  expect(writtenSize()).toEqual({ width: 100, height: 75 });
+
+  await imageProcessor.renderSample(photo, [], 200, 'large');
+  expect(writtenSize()).toEqual({ width: 200, height: 150 });
+
+  // Each size is still decoded only once
+  await imageProcessor.renderSample(
+    photo,
+    [{ type: 'brightness', value: 10 }],
+    100,
+    'small',
+  );
+  expect(RNFS.readFile).toHaveBeenCalledTimes(2);
+});
+
+test("thumbnails of other photos leave the editor's preview cached", async () => {
+  await imageProcessor.renderPreview(photo, [], 200);
+  await imageProcessor.renderThumbnail('file:///photos/other.png', [
+    { type: 'crop', x: 0, y: 0, width: 200, height: 300 },
+  ]);
+  expect(writtenSize()).toEqual({ width: 180, height: 270 });
+
+  await imageProcessor.renderPreview(photo, [{ type: 'contrast', value: 5 }]);
+  expect(RNFS.readFile).toHaveBeenCalledTimes(2);
+});
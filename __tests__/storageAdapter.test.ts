@@ -0,0 +1,66 @@
+/**
+ * @format
+ */
+
+import {
+  MemoryStorageAdapter,
+  StorageTransactionError,
+} from '../src/services/storage/adapter';
+
+test('transactions commit all staged writes together', async () => {
+  const storage = new MemoryStorageAdapter({ a: '1', b: '2' });
+
+  const result = await storage.transaction(async transaction => {
+    transaction.setItem('a', '10');
+    transaction.removeItem('b');
+    transaction.setItem('c', '3');
+    // Reads inside the transaction see its own writes
+    expect(await transaction.getItem('a')).toBe('10');
+    expect(await transaction.getItem('b')).toBeNull();
+    // Nothing is visible outside until it finishes
+    expect(await storage.getItem('a')).toBe('1');
+    return 'done';
+  });
+
+  expect(result).toBe('done');
+  expect(await storage.getItem('a')).toBe('10');
+  expect(await storage.getItem('b')).toBeNull();
+  expect((await storage.getAllKeys()).sort()).toEqual(['a', 'c']);
+});
+
+test('a failed transaction writes nothing and does not block others', async () => {
+  const storage = new MemoryStorageAdapter({ a: '1' });
+
+  await expect(
+    storage.transaction(async transaction => {
+      transaction.setItem('a', '2');
+      throw new Error('boom');
+    }),
+  ).rejects.toThrow('boom');
+  expect(await storage.getItem('a')).toBe('1');
+
+  await storage.setItem('a', '3');
+  expect(await storage.getItem('a')).toBe('3');
+});
+
+test('concurrent read-modify-write transactions do not lose updates', async () => {
+  const storage = new MemoryStorageAdapter({ count: '0' });
+  const increment = () =>
+    storage.transaction(async transaction => {
+      const count = Number(await transaction.getItem('count'));
+      await Promise.resolve();
+      transaction.setItem('count', String(count + 1));
+    });
+
+  await Promise.all(Array.from({ length: 10 }, increment));
+  expect(await storage.getItem('count')).toBe('10');
+});
+
+test('a transaction handle cannot be used after it finishes', async () => {
+  const storage = new MemoryStorageAdapter();
+  let leaked: any;
+  await storage.transaction(async transaction => {
+    leaked = transaction;
+  });
+  expect(() => leaked.setItem('a', '1')).toThrow(StorageTransactionError);
+});
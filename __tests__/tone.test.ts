@@ -0,0 +1,150 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_LEVELS,
+  DEFAULT_TONE,
+  IDENTITY_CURVE,
+  RasterImage,
+  applyCurves,
+  applyLevels,
+  applyTone,
+  createCurveLookupTable,
+  createLevelsLookupTable,
+  createToneLookupTable,
+  isIdentityCurve,
+} from '../src/services/raster';
+
+const isMonotonic = (lut: Uint8ClampedArray) =>
+  lut.every((value, i) => i === 0 || value >= lut[i - 1]);
+
+const identityTable = Uint8ClampedArray.from({ length: 256 }, (_, i) => i);
+
+// One gray ramp pixel per 64 levels
+const ramp = (): RasterImage => ({
+  width: 4,
+  height: 1,
+  data: new Uint8ClampedArray([
+    0, 0, 0, 255, 64, 64, 64, 255, 128, 128, 128, 255, 255, 255, 255, 128,
+  ]),
+});
+
+test('default settings produce identity tables', () => {
+  expect(createToneLookupTable(DEFAULT_TONE)).toEqual(identityTable);
+  expect(createCurveLookupTable(IDENTITY_CURVE)).toEqual(identityTable);
+  expect(createLevelsLookupTable(DEFAULT_LEVELS)).toEqual(identityTable);
+});
+
+test('tone sliders stay monotonic at their extremes', () => {
+  for (const key of Object.keys(DEFAULT_TONE)) {
+    for (const value of key === 'exposure' ? [-4, 4] : [-100, 100]) {
+      const lut = createToneLookupTable({ ...DEFAULT_TONE, [key]: value });
+      expect(isMonotonic(lut)).toBe(true);
+    }
+  }
+});
+
+test('tone sliders move the range they are named after', () => {
+  const table = (changes: object) =>
+    createToneLookupTable({ ...DEFAULT_TONE, ...changes });
+
+  // One stop doubles linear light: sRGB 128 (21.6%) becomes 43.2%, about 176
+  expect(table({ exposure: 1 })[128]).toBeGreaterThanOrEqual(175);
+  expect(table({ exposure: 1 })[128]).toBeLessThanOrEqual(177);
+
+  const shadows = table({ shadows: 100 });
+  expect(shadows[64] - 64).toBeGreaterThan(shadows[192] - 192);
+  const highlights = table({ highlights: -100 });
+  expect(192 - highlights[192]).toBeGreaterThan(64 - highlights[64]);
+  // Neither touches pure black or white
+  expect([shadows[0], shadows[255]]).toEqual([0, 255]);
+  expect([highlights[0], highlights[255]]).toEqual([0, 255]);
+
+  expect(table({ blacks: -100 })[30]).toBe(0);
+  expect(table({ whites: 100 })[225]).toBe(255);
+
+  const contrast = table({ contrast: 50 });
+  expect(contrast[64]).toBeLessThan(64);
+  expect(contrast[192]).toBeGreaterThan(192);
+  expect(contrast[128]).toBe(128);
+});
+
+test('curves interpolate without overshooting their control points', () => {
+  const lut = createCurveLookupTable([
+    [0, 0],
+    [64, 32],
+    [128, 200],
+    [255, 255],
+  ]);
+  expect(lut[64]).toBe(32);
+  expect(lut[128]).toBe(200);
+  expect(isMonotonic(lut)).toBe(true);
+  // Monotone cubic stays inside the flat segment's bounds
+  const flat = createCurveLookupTable([
+    [0, 0],
+    [100, 128],
+    [160, 128],
+    [255, 255],
+  ]);
+  expect(flat.slice(100, 161).every(value => value === 128)).toBe(true);
+
+  // Outside the outer points the curve holds its value
+  const clipped = createCurveLookupTable([
+    [32, 16],
+    [224, 240],
+  ]);
+  expect(clipped[0]).toBe(16);
+  expect(clipped[255]).toBe(240);
+
+  expect(isIdentityCurve(IDENTITY_CURVE)).toBe(true);
+  expect(isIdentityCurve([[0, 0]])).toBe(false);
+});
+
+test('channel curves apply after the master curve', () => {
+  const inverted = [
+    [0, 255],
+    [255, 0],
+  ] as [number, number][];
+  const result = applyCurves(ramp(), {
+    master: inverted,
+    red: inverted,
+    green: IDENTITY_CURVE,
+    blue: IDENTITY_CURVE,
+  });
+  // Red is inverted twice, green and blue once; alpha is untouched
+  expect(Array.from(result.data.slice(4, 8))).toEqual([64, 191, 191, 255]);
+  expect(result.data[15]).toBe(128);
+});
+
+test('levels remap input and output ranges per channel', () => {
+  const lut = createLevelsLookupTable({
+    ...DEFAULT_LEVELS,
+    inputBlack: 64,
+    inputWhite: 192,
+  });
+  expect([lut[0], lut[64], lut[128], lut[192], lut[255]]).toEqual([
+    0, 0, 128, 255, 255,
+  ]);
+
+  // Gamma above 1 lifts midtones
+  expect(createLevelsLookupTable({ ...DEFAULT_LEVELS, gamma: 2 })[64]).toBe(
+    128,
+  );
+
+  const result = applyLevels(ramp(), {
+    master: DEFAULT_LEVELS,
+    red: { ...DEFAULT_LEVELS, outputBlack: 100 },
+    green: DEFAULT_LEVELS,
+    blue: { ...DEFAULT_LEVELS, outputWhite: 0 },
+  });
+  expect(Array.from(result.data.slice(0, 3))).toEqual([100, 0, 0]);
+  expect(Array.from(result.data.slice(12, 15))).toEqual([255, 255, 0]);
+});
+
+test('identity tone settings return an unchanged copy', () => {
+  const source = ramp();
+  const result = applyTone(source, DEFAULT_TONE);
+  expect(result).not.toBe(source);
+  expect(result.data).toEqual(source.data);
+});
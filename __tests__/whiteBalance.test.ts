@@ -0,0 +1,85 @@
+/**
+ * @format
+ */
+
+import {
+  NEUTRAL_WHITE_BALANCE,
+  RasterImage,
+  applyWhiteBalance,
+  averageColor,
+  createRaster,
+  getNeutralizingWhiteBalance,
+  getWhiteBalanceGains,
+} from '../src/services/raster';
+
+const solid = (r: number, g: number, b: number): RasterImage =>
+  createRaster(2, 2, [r, g, b, 255]);
+
+const spread = (image: RasterImage) => {
+  const [r, g, b] = Array.from(image.data.slice(0, 3));
+  return Math.max(r, g, b) - Math.min(r, g, b);
+};
+
+test('neutral settings leave pixels unchanged', () => {
+  const source = solid(200, 120, 40);
+  expect(applyWhiteBalance(source, NEUTRAL_WHITE_BALANCE).data).toEqual(
+    source.data,
+  );
+  expect(getWhiteBalanceGains(NEUTRAL_WHITE_BALANCE)).toEqual([1, 1, 1]);
+});
+
+test('temperature warms and tint moves between green and magenta', () => {
+  const gray = solid(128, 128, 128);
+  const [wr, wg, wb] = applyWhiteBalance(gray, {
+    temperature: 50,
+    tint: 0,
+  }).data;
+  expect(wr).toBeGreaterThan(128);
+  expect(wg).toBe(128);
+  expect(wb).toBeLessThan(128);
+
+  const [mr, mg, mb] = applyWhiteBalance(gray, {
+    temperature: 0,
+    tint: 50,
+  }).data;
+  expect(mg).toBeLessThan(128);
+  expect(mr).toBe(mb);
+  expect(mr).toBeGreaterThan(128);
+});
+
+test('eyedropper settings turn the sampled color gray', () => {
+  // Tungsten-lit wall, fluorescent green cast, daylight shade
+  const samples: [number, number, number][] = [
+    [210, 160, 110],
+    [150, 185, 150],
+    [150, 165, 200],
+  ];
+  for (const [r, g, b] of samples) {
+    const settings = getNeutralizingWhiteBalance(r, g, b);
+    expect(spread(solid(r, g, b))).toBeGreaterThan(30);
+    expect(spread(applyWhiteBalance(solid(r, g, b), settings))).toBeLessThan(4);
+  }
+
+  // Warm samples are corrected by cooling, and the reverse
+  expect(getNeutralizingWhiteBalance(210, 160, 110).temperature).toBeLessThan(
+    0,
+  );
+  expect(
+    getNeutralizingWhiteBalance(150, 165, 200).temperature,
+  ).toBeGreaterThan(0);
+  expect(getNeutralizingWhiteBalance(150, 185, 150).tint).toBeGreaterThan(0);
+  // Gray and black samples need no correction
+  expect(getNeutralizingWhiteBalance(128, 128, 128)).toEqual(
+    NEUTRAL_WHITE_BALANCE,
+  );
+  expect(getNeutralizingWhiteBalance(0, 0, 0)).toEqual(NEUTRAL_WHITE_BALANCE);
+});
+
+test('averages the sample square and clips it to the image', () => {
+  const image = createRaster(3, 1, [0, 0, 0, 255]);
+  image.data.set([90, 30, 60, 255], 0);
+  expect(averageColor(image, 0, 0, 0)).toEqual([90, 30, 60, 255]);
+  // Only the corner pixel and its right neighbour are in range
+  expect(averageColor(image, 0, 0, 1)).toEqual([45, 15, 30, 255]);
+  expect(averageColor(image, -5, 10, 0)).toEqual([90, 30, 60, 255]);
+});
@@ -1,3 +1,7 @@
 module.exports = {
   preset: 'react-native',
+  // Redux Toolkit, React Redux and Immer ship ESM builds that need transpiling
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|@reduxjs/toolkit|immer|redux|react-redux|reselect)/)',
+  ],
 };
@@ -20,6 +20,8 @@ interface CardProps {
   children: React.ReactNode;
   style?: ViewStyle;
   onPress?: () => void;
+  // Only used along with onPress
+  onLongPress?: () => void;
   elevation?: number;
 }
 
@@ -34,6 +36,7 @@ export const Card: React.FC<CardProps> = ({
   children,
   style,
   onPress,
+  onLongPress,
   elevation = 4,
 }) => {
   const { colors } = useTheme();
@@ -85,6 +88,7 @@ export const Card: React.FC<CardProps> = ({
     return (
       <AnimatedTouchable
         onPress={onPress}
+        onLongPress={onLongPress}
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         activeOpacity={1}
@@ -0,0 +1,199 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  PanResponder,
+  StyleSheet,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface ValueSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  // Where the fill starts; sliders centered on zero fill outward from it
+  origin?: number;
+  formatValue?: (value: number) => string;
+  onValueChange: (value: number) => void;
+  // Called once when the finger lifts, with the final value
+  onSlidingComplete?: (value: number) => void;
+}
+
+const THUMB_SIZE = 18;
+
+const decimalsOf = (step: number): number => {
+  const text = String(step);
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+};
+
+// Draggable horizontal slider for editor parameters
+export const ValueSlider: React.FC<ValueSliderProps> = ({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  origin = min,
+  formatValue = v => String(v),
+  onValueChange,
+  onSlidingComplete,
+}) => {
+  const { colors } = useTheme();
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // The responder outlives renders, so it reads props through a ref
+  const latest = useRef({ min, max, step, value, onValueChange });
+  latest.current = { min, max, step, value, onValueChange };
+  const completeRef = useRef(onSlidingComplete);
+  completeRef.current = onSlidingComplete;
+  const gesture = useRef({ startX: 0, value });
+
+  const responder = useMemo(() => {
+    const valueAt = (x: number) => {
+      const current = latest.current;
+      const ratio =
+        trackWidth > 0 ? Math.max(0, Math.min(1, x / trackWidth)) : 0;
+      const raw = current.min + ratio * (current.max - current.min);
+      const stepped = Math.round(raw / current.step) * current.step;
+      return Number(stepped.toFixed(decimalsOf(current.step)));
+    };
+    const update = (x: number) => {
+      const next = valueAt(x);
+      if (next !== gesture.current.value) {
+        gesture.current.value = next;
+        latest.current.onValueChange(next);
+      }
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the drag when it drifts vertically inside a scroll view
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        gesture.current = {
+          startX: event.nativeEvent.locationX,
+          value: latest.current.value,
+        };
+        update(gesture.current.startX);
+      },
+      onPanResponderMove: (_event, state) => {
+        update(gesture.current.startX + state.dx);
+      },
+      onPanResponderRelease: () => {
+        completeRef.current?.(gesture.current.value);
+      },
+      onPanResponderTerminate: () => {
+        completeRef.current?.(gesture.current.value);
+      },
+    });
+  }, [trackWidth]);
+
+  const range = max - min || 1;
+  const toPercent = (v: number) =>
+    Math.max(0, Math.min(1, (v - min) / range)) * 100;
+  const valuePercent = toPercent(value);
+  const originPercent = toPercent(origin);
+
+  return (
+    <View
+      style={styles.container}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={label}
+      accessibilityValue={{ min, max, now: value, text: formatValue(value) }}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={event => {
+        const delta =
+          event.nativeEvent.actionName === 'increment' ? step : -step;
+        const next = Math.max(min, Math.min(max, value + delta));
+        onValueChange(next);
+        onSlidingComplete?.(next);
+      }}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.label, { color: colors.onBackground }]}>
+          {label}
+        </Text>
+        <Text style={[styles.value, { color: colors.onSurface }]}>
+          {formatValue(value)}
+        </Text>
+      </View>
+      <View
+        style={styles.touchArea}
+        onLayout={(event: LayoutChangeEvent) =>
+          setTrackWidth(event.nativeEvent.layout.width)
+        }
+        {...responder.panHandlers}
+      >
+        <View
+          style={[styles.track, { backgroundColor: colors.surface }]}
+          pointerEvents="none"
+        >
+          <View
+            style={[
+              styles.fill,
+              {
+                left: `${Math.min(valuePercent, originPercent)}%`,
+                width: `${Math.abs(valuePercent - originPercent)}%`,
+                backgroundColor: colors.primary,
+              },
+            ]}
+          />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[
+            styles.thumb,
+            { left: `${valuePercent}%`, backgroundColor: colors.primary },
+          ]}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: SPACING.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  label: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '500',
+  },
+  value: {
+    ...TYPOGRAPHY.caption,
+  },
+  touchArea: {
+    height: 32,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+  },
+  fill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderRadius: 3,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    marginLeft: -THUMB_SIZE / 2,
+  },
+});
@@ -8,3 +8,4 @@ export { Snackbar } from './Snackbar';
 export { ThemeToggle } from './ThemeToggle';
 export { ErrorBoundary } from './ErrorBoundary';
 export { ErrorDisplay } from './ErrorDisplay';
+export { ValueSlider } from './ValueSlider';
@@ -0,0 +1,500 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { ValueSlider } from '../common/ValueSlider';
+import { CurveEditor } from './CurveEditor';
+import { ImageOperation } from '../../services/imageProcessor';
+import {
+  EditOperation,
+  replaceOperation,
+  withOperationId,
+} from '../../services/editGraph';
+import {
+  ChannelSettings,
+  CurvePoint,
+  DEFAULT_LEVELS,
+  DEFAULT_TONE,
+  IDENTITY_CURVE,
+  LevelsSettings,
+  TONE_CHANNELS,
+  ToneChannel,
+  ToneSettings,
+  isIdentityCurve,
+  isIdentityLevels,
+  isIdentityTone,
+} from '../../services/raster';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+export interface AdjustSettings {
+  tone: ToneSettings;
+  curves: ChannelSettings<CurvePoint[]>;
+  levels: ChannelSettings<LevelsSettings>;
+}
+
+// Each section of the panel owns one node of the edit graph
+export type AdjustOperationType = 'tone' | 'curves' | 'levels';
+
+export const ADJUST_OPERATION_TYPES: AdjustOperationType[] = [
+  'tone',
+  'curves',
+  'levels',
+];
+
+export const DEFAULT_ADJUST_SETTINGS: AdjustSettings = {
+  tone: DEFAULT_TONE,
+  curves: {
+    master: IDENTITY_CURVE,
+    red: IDENTITY_CURVE,
+    green: IDENTITY_CURVE,
+    blue: IDENTITY_CURVE,
+  },
+  levels: {
+    master: DEFAULT_LEVELS,
+    red: DEFAULT_LEVELS,
+    green: DEFAULT_LEVELS,
+    blue: DEFAULT_LEVELS,
+  },
+};
+
+const withoutType = <T extends { type: string }>({
+  type: _type,
+  ...rest
+}: T): Omit<T, 'type'> => rest;
+
+// Reads the panel state back from the nodes a previous apply created
+export const getAdjustSettings = (
+  operations: ImageOperation[],
+): AdjustSettings => {
+  const settings = { ...DEFAULT_ADJUST_SETTINGS };
+  for (const operation of operations) {
+    if (operation.type === 'tone') {
+      settings.tone = withoutType(operation);
+    } else if (operation.type === 'curves') {
+      settings.curves = withoutType(operation);
+    } else if (operation.type === 'levels') {
+      settings.levels = withoutType(operation);
+    }
+  }
+  return settings;
+};
+
+// The node each section contributes, or null when it changes nothing
+export const getAdjustOperation = (
+  settings: AdjustSettings,
+  type: AdjustOperationType,
+): ImageOperation | null => {
+  switch (type) {
+    case 'tone':
+      return isIdentityTone(settings.tone)
+        ? null
+        : { type: 'tone', ...settings.tone };
+    case 'curves':
+      return TONE_CHANNELS.every(channel =>
+        isIdentityCurve(settings.curves[channel]),
+      )
+        ? null
+        : { type: 'curves', ...settings.curves };
+    case 'levels':
+      return TONE_CHANNELS.every(channel =>
+        isIdentityLevels(settings.levels[channel]),
+      )
+        ? null
+        : { type: 'levels', ...settings.levels };
+  }
+};
+
+// Writes every section's node into the graph, reusing node ids so the
+// sections keep their place
+export const applyAdjustSettings = (
+  operations: EditOperation[],
+  settings: AdjustSettings,
+): EditOperation[] => {
+  let next = operations;
+  for (const type of ADJUST_OPERATION_TYPES) {
+    const existing = operations.find(op => op.type === type);
+    const operation = getAdjustOperation(settings, type);
+    next = replaceOperation(
+      next,
+      op => op.type === type,
+      operation &&
+        (existing
+          ? { ...operation, id: existing.id }
+          : withOperationId(operation)),
+    );
+  }
+  return next;
+};
+
+interface AdjustToolProps {
+  initialSettings?: AdjustSettings;
+  // Fires on every change so the canvas can preview it
+  onChange: (settings: AdjustSettings) => void;
+  // Fires when a drag ends or a discrete change is made, closing the step
+  onChangeComplete?: () => void;
+  onApply: (settings: AdjustSettings) => void;
+  onCancel: () => void;
+}
+
+type Section = 'light' | 'curves' | 'levels';
+
+const SECTIONS: { id: Section; name: string }[] = [
+  { id: 'light', name: 'Light' },
+  { id: 'curves', name: 'Curves' },
+  { id: 'levels', name: 'Levels' },
+];
+
+const CHANNEL_LABELS: Record<ToneChannel, string> = {
+  master: 'RGB',
+  red: 'Red',
+  green: 'Green',
+  blue: 'Blue',
+};
+
+const CHANNEL_COLORS: Record<Exclude<ToneChannel, 'master'>, string> = {
+  red: '#E53935',
+  green: '#43A047',
+  blue: '#1E88E5',
+};
+
+const LIGHT_SLIDERS: {
+  key: keyof ToneSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'exposure', label: 'Exposure', min: -4, max: 4, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 },
+  { key: 'whites', label: 'Whites', min: -100, max: 100, step: 1 },
+  { key: 'blacks', label: 'Blacks', min: -100, max: 100, step: 1 },
+];
+
+const formatSigned = (value: number, decimals = 0) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`;
+
+// Gamma is edited on a log scale so 1.0 sits in the middle of the slider
+const gammaToSlider = (gamma: number) => Math.round(Math.log10(gamma) * 100);
+const sliderToGamma = (value: number) =>
+  Number(Math.pow(10, value / 100).toFixed(2));
+
+export const AdjustTool: React.FC<AdjustToolProps> = ({
+  initialSettings = DEFAULT_ADJUST_SETTINGS,
+  onChange,
+  onChangeComplete,
+  onApply,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+  const [settings, setSettings] = useState(initialSettings);
+  const [section, setSection] = useState<Section>('light');
+  const [channel, setChannel] = useState<ToneChannel>('master');
+
+  const update = (next: AdjustSettings) => {
+    setSettings(next);
+    onChange(next);
+  };
+
+  const completeChange = () => onChangeComplete?.();
+
+  const updateTone = (key: keyof ToneSettings, value: number) =>
+    update({ ...settings, tone: { ...settings.tone, [key]: value } });
+
+  const updateCurve = (points: CurvePoint[]) =>
+    update({ ...settings, curves: { ...settings.curves, [channel]: points } });
+
+  const updateLevels = (changes: Partial<LevelsSettings>) => {
+    const levels = { ...settings.levels[channel], ...changes };
+    // Input points stay at least one level apart
+    if (changes.inputBlack !== undefined) {
+      levels.inputWhite = Math.max(levels.inputWhite, levels.inputBlack + 1);
+    }
+    if (changes.inputWhite !== undefined) {
+      levels.inputBlack = Math.min(levels.inputBlack, levels.inputWhite - 1);
+    }
+    update({ ...settings, levels: { ...settings.levels, [channel]: levels } });
+  };
+
+  const resetSection = () => {
+    switch (section) {
+      case 'light':
+        update({ ...settings, tone: DEFAULT_TONE });
+        break;
+      case 'curves':
+        updateCurve(IDENTITY_CURVE);
+        break;
+      case 'levels':
+        update({
+          ...settings,
+          levels: { ...settings.levels, [channel]: DEFAULT_LEVELS },
+        });
+        break;
+    }
+    completeChange();
+    triggerHapticFeedback('light');
+  };
+
+  const channelColor =
+    channel === 'master' ? colors.onBackground : CHANNEL_COLORS[channel];
+
+  const renderChannelPicker = () => (
+    <View style={styles.channelRow}>
+      {TONE_CHANNELS.map(id => {
+        const isActive = channel === id;
+        return (
+          <TouchableOpacity
+            key={id}
+            style={[
+              styles.channelChip,
+              {
+                borderColor:
+                  id === 'master' ? colors.primary : CHANNEL_COLORS[id],
+              },
+              isActive && { backgroundColor: colors.primary + '20' },
+            ]}
+            onPress={() => setChannel(id)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.channelText, { color: colors.onBackground }]}>
+              {CHANNEL_LABELS[id]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderLight = () =>
+    LIGHT_SLIDERS.map(slider => (
+      <ValueSlider
+        key={slider.key}
+        label={slider.label}
+        value={settings.tone[slider.key]}
+        min={slider.min}
+        max={slider.max}
+        step={slider.step}
+        origin={0}
+        formatValue={value =>
+          formatSigned(value, slider.key === 'exposure' ? 2 : 0)
+        }
+        onValueChange={value => updateTone(slider.key, value)}
+        onSlidingComplete={completeChange}
+      />
+    ));
+
+  const renderCurves = () => (
+    <>
+      {renderChannelPicker()}
+      <CurveEditor
+        points={settings.curves[channel]}
+        color={channelColor}
+        onChange={updateCurve}
+        onChangeComplete={completeChange}
+      />
+    </>
+  );
+
+  const renderLevels = () => {
+    const levels = settings.levels[channel];
+    return (
+      <>
+        {renderChannelPicker()}
+        <ValueSlider
+          label="Input Black"
+          value={levels.inputBlack}
+          min={0}
+          max={254}
+          onValueChange={value => updateLevels({ inputBlack: value })}
+          onSlidingComplete={completeChange}
+        />
+        <ValueSlider
+          label="Input White"
+          value={levels.inputWhite}
+          min={1}
+          max={255}
+          onValueChange={value => updateLevels({ inputWhite: value })}
+          onSlidingComplete={completeChange}
+        />
+        <ValueSlider
+          label="Midtones (Gamma)"
+          value={gammaToSlider(levels.gamma)}
+          min={-100}
+          max={100}
+          origin={0}
+          formatValue={value => sliderToGamma(value).toFixed(2)}
+          onValueChange={value => updateLevels({ gamma: sliderToGamma(value) })}
+          onSlidingComplete={completeChange}
+        />
+        <ValueSlider
+          label="Output Black"
+          value={levels.outputBlack}
+          min={0}
+          max={255}
+          onValueChange={value => updateLevels({ outputBlack: value })}
+          onSlidingComplete={completeChange}
+        />
+        <ValueSlider
+          label="Output White"
+          value={levels.outputWhite}
+          min={0}
+          max={255}
+          onValueChange={value => updateLevels({ outputWhite: value })}
+          onSlidingComplete={completeChange}
+        />
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.sectionRow}>
+        {SECTIONS.map(item => {
+          const isActive = section === item.id;
+          return (
+            <TouchableOpacity
+              key={item.id}
+              style={[
+                styles.sectionTab,
+                isActive && { backgroundColor: colors.primary + '20' },
+              ]}
+              onPress={() => setSection(item.id)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text
+                style={[
+                  styles.sectionText,
+                  { color: isActive ? colors.primary : colors.onBackground },
+                ]}
+              >
+                {item.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.resetButton} onPress={resetSection}>
+          <Text style={[styles.resetText, { color: colors.primary }]}>
+            Reset
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.controls}
+        contentContainerStyle={styles.controlsContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {section === 'light' && renderLight()}
+        {section === 'curves' && renderCurves()}
+        {section === 'levels' && renderLevels()}
+      </ScrollView>
+
+      <View style={styles.actionButtons}>
+        <TouchableOpacity
+          style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+          onPress={onCancel}
+        >
+          <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.applyButton, { backgroundColor: colors.primary }]}
+          onPress={() => onApply(settings)}
+        >
+          <Text style={[styles.applyText, { color: colors.onPrimary }]}>
+            Apply
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: SPACING.md,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  sectionTab: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 8,
+    marginRight: SPACING.xs,
+  },
+  sectionText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '600',
+  },
+  resetButton: {
+    marginLeft: 'auto',
+    padding: SPACING.sm,
+  },
+  resetText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '500',
+  },
+  controls: {
+    flex: 1,
+  },
+  controlsContent: {
+    paddingBottom: SPACING.md,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    marginBottom: SPACING.md,
+  },
+  channelChip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: SPACING.sm,
+  },
+  channelText: {
+    ...TYPOGRAPHY.caption,
+    fontWeight: '600',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: SPACING.sm,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+});
@@ -1,306 +1,600 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  Dimensions,
   Image,
   PanResponder,
+  ScrollView,
 } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withSpring,
-  withTiming,
-  withSequence,
-} from 'react-native-reanimated';
 import { useTheme } from '../../utils/theme';
-import {
-  triggerHapticFeedback,
-  useAccessibility,
-} from '../../utils/accessibility';
+import { triggerHapticFeedback } from '../../utils/accessibility';
 import { ElevatedButton } from '../common/ElevatedButton';
 import { Card } from '../common/Card';
+import { ValueSlider } from '../common/ValueSlider';
 import { TYPOGRAPHY } from '../../constants/typography';
 import { SPACING } from '../../constants/spacing';
-import { MaskedBlurPreview } from './MaskedBlurPreview';
+import { MaskPoint, MaskShape, RedactionMode } from '../../services/raster';
+
+// One blur node: its mask in document pixels and how it hides the area
+export interface BlurMask {
+  // Graph node the mask edits, or null for a mask that is not applied yet
+  id: string | null;
+  shapes: MaskShape[];
+  mode: RedactionMode;
+  intensity: number; // 0..100, Gaussian strength
+  blockSize: number; // pixelate cell size in document pixels
+  color: string; // solid fill
+}
+
+type MaskSettings = Omit<BlurMask, 'id' | 'shapes'>;
+
+const REDACTION_MODES: { mode: RedactionMode; label: string }[] = [
+  { mode: 'gaussian', label: 'Blur' },
+  { mode: 'pixelate', label: 'Pixelate' },
+  { mode: 'solid', label: 'Solid' },
+];
+
+const FILL_COLORS = ['#000000', '#FFFFFF', '#808080'];
+
+type BrushMode = 'brush' | 'erase' | 'ellipse' | 'rect';
 
-const { width } = Dimensions.get('window');
+const BRUSH_MODES: { mode: BrushMode; label: string }[] = [
+  { mode: 'brush', label: 'Brush' },
+  { mode: 'erase', label: 'Eraser' },
+  { mode: 'ellipse', label: 'Ellipse' },
+  { mode: 'rect', label: 'Rectangle' },
+];
+
+// Ellipses and rectangles smaller than this, in document pixels, are taps
+const MIN_SHAPE_SIZE = 2;
+const DEFAULT_INTENSITY = 20;
+const DEFAULT_BLOCK_SIZE = 12; // display points
 
 interface BlurToolProps {
   imageUri: string;
-  imageWidth: number; // display size on stage
-  imageHeight: number; // display size on stage
-  actualImageWidth?: number; // for conversion when applying, optional
-  actualImageHeight?: number;
-  initialIntensity?: number;
-  onApply: (data: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    intensity: number;
-  }) => void;
+  imageWidth: number; // space available on stage
+  imageHeight: number;
+  actualImageWidth: number; // document size the masks refer to
+  actualImageHeight: number;
+  // Every blur mask in the graph plus new ones; the editor previews them
+  masks: BlurMask[];
+  // Masks made before a straighten or perspective node, which the stage
+  // cannot show
+  hiddenMaskCount?: number;
+  onChange: (masks: BlurMask[]) => void;
+  onApply: () => void;
   onCancel: () => void;
 }
 
+// Stroke points closer than this to the previous one are skipped
+const getPointSpacing = (size: number) => Math.max(2, size / 4);
+
+// Grows the shape being drawn toward the finger
+const extendShape = (
+  shape: MaskShape,
+  start: MaskPoint,
+  point: MaskPoint,
+): MaskShape => {
+  if (shape.type === 'stroke') {
+    const last = shape.points[shape.points.length - 1];
+    return Math.hypot(point.x - last.x, point.y - last.y) <
+      getPointSpacing(shape.size)
+      ? shape
+      : { ...shape, points: [...shape.points, point] };
+  }
+  return {
+    ...shape,
+    x: Math.min(start.x, point.x),
+    y: Math.min(start.y, point.y),
+    width: Math.abs(point.x - start.x),
+    height: Math.abs(point.y - start.y),
+  };
+};
+
+// Round dab or straight run of a stroke, drawn as Views since there is no
+// vector layer
+const Dab: React.FC<{ point: MaskPoint; size: number; color: string }> = ({
+  point,
+  size,
+  color,
+}) => (
+  <View
+    style={[
+      styles.shape,
+      {
+        left: point.x - size / 2,
+        top: point.y - size / 2,
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: color,
+      },
+    ]}
+  />
+);
+
+const Run: React.FC<{
+  from: MaskPoint;
+  to: MaskPoint;
+  size: number;
+  color: string;
+}> = ({ from, to, size, color }) => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return (
+    <View
+      style={[
+        styles.shape,
+        {
+          left: (from.x + to.x) / 2 - length / 2,
+          top: (from.y + to.y) / 2 - size / 2,
+          width: length,
+          height: size,
+          backgroundColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+};
+
+// A mask shape on the stage, `scale` display points per document pixel
+const ShapeOverlay: React.FC<{
+  shape: MaskShape;
+  scale: number;
+  color: string;
+}> = ({ shape, scale, color }) => {
+  if (shape.type === 'stroke') {
+    const size = shape.size * scale;
+    const points = shape.points.map(({ x, y }) => ({
+      x: x * scale,
+      y: y * scale,
+    }));
+    return (
+      <>
+        {points.map((point, i) => (
+          <React.Fragment key={i}>
+            <Dab point={point} size={size} color={color} />
+            {i > 0 && (
+              <Run from={points[i - 1]} to={point} size={size} color={color} />
+            )}
+          </React.Fragment>
+        ))}
+      </>
+    );
+  }
+
+  const width = Math.max(1, shape.width * scale);
+  const height = Math.max(1, shape.height * scale);
+  if (shape.type === 'rect') {
+    return (
+      <View
+        style={[
+          styles.shape,
+          styles.shapeOutline,
+          {
+            left: shape.x * scale,
+            top: shape.y * scale,
+            width,
+            height,
+            borderColor: color,
+          },
+        ]}
+      />
+    );
+  }
+  // borderRadius only rounds into a stadium, so squash a circle instead
+  return (
+    <View
+      style={[
+        styles.shape,
+        styles.shapeOutline,
+        {
+          left: shape.x * scale,
+          top: shape.y * scale + (height - width) / 2,
+          width,
+          height: width,
+          borderRadius: width / 2,
+          borderColor: color,
+          transform: [{ scaleY: height / width }],
+        },
+      ]}
+    />
+  );
+};
+
+// Paints blur masks with a brush, an eraser, ellipses and rectangles. Masks
+// are kept in document pixels so they survive later resizes of the graph.
 export const BlurTool: React.FC<BlurToolProps> = ({
   imageUri,
   imageWidth,
   imageHeight,
   actualImageWidth,
   actualImageHeight,
-  initialIntensity = 20,
+  masks,
+  hiddenMaskCount = 0,
+  onChange,
   onApply,
   onCancel,
 }) => {
   const { colors } = useTheme();
-  const { reduceMotionEnabled } = useAccessibility();
-
-  const [intensity, setIntensity] = useState(initialIntensity);
-  // Selection rectangle (like Crop)
-  const initialRect = {
-    x: imageWidth * 0.2,
-    y: imageHeight * 0.2,
-    width: imageWidth * 0.6,
-    height: imageHeight * 0.5,
+
+  // masks.length selects the mask that the next shape starts
+  const [selected, setSelected] = useState(masks.length);
+  const [mode, setMode] = useState<BrushMode>('brush');
+  // Brush size and feather are in display points, like the finger
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(50);
+  const [feather, setFeather] = useState(20);
+  const [draft, setDraft] = useState<MaskShape | null>(null);
+
+  // Stage sized to the image so touches map straight to document pixels
+  const scale = Math.min(
+    imageWidth / actualImageWidth,
+    imageHeight / actualImageHeight,
+  );
+  const stageWidth = actualImageWidth * scale;
+  const stageHeight = actualImageHeight * scale;
+
+  // Settings the next new mask starts with
+  const [defaults, setDefaults] = useState<MaskSettings>({
+    mode: 'gaussian',
+    intensity: DEFAULT_INTENSITY,
+    blockSize: DEFAULT_BLOCK_SIZE / scale,
+    color: FILL_COLORS[0],
+  });
+  const current: BlurMask = masks[selected] ?? {
+    id: null,
+    shapes: [],
+    ...defaults,
   };
-  const selX = useSharedValue(initialRect.x);
-  const selY = useSharedValue(initialRect.y);
-  const selW = useSharedValue(initialRect.width);
-  const selH = useSharedValue(initialRect.height);
-  const [rect, setRect] = useState(initialRect);
-
-  // Animation values
-  const intensityIndicatorOpacity = useSharedValue(1);
-
-  const handleIntensityChange = (newIntensity: number) => {
-    const clampedIntensity = Math.max(0, Math.min(100, newIntensity));
-    setIntensity(clampedIntensity);
-    triggerHapticFeedback('light');
-
-    intensityIndicatorOpacity.value = withSequence(
-      withTiming(0.7, { duration: 100 }),
-      withTiming(1, { duration: 100 }),
+  // Slider positions while dragging; block size is in display points
+  const [intensity, setIntensity] = useState(current.intensity);
+  const [blockSize, setBlockSize] = useState(
+    Math.round(current.blockSize * scale),
+  );
+
+  const updateMask = (mask: BlurMask) => {
+    onChange(
+      selected < masks.length
+        ? masks.map((existing, i) => (i === selected ? mask : existing))
+        : [...masks, mask],
     );
   };
 
-  const intensityIndicatorStyle = useAnimatedStyle(() => ({
-    opacity: intensityIndicatorOpacity.value,
-  }));
-
-  // Stage overlay styles
-  const overlayStyle = useAnimatedStyle(() => ({
-    transform: [{ translateX: selX.value }, { translateY: selY.value }],
-    width: selW.value,
-    height: selH.value,
-  }));
-
-  // Drag to move selection
-  const dragStart = useRef({ x: 0, y: 0 }).current;
-  const dragResponder = useRef(
-    PanResponder.create({
+  const updateSettings = (settings: Partial<MaskSettings>) => {
+    if (selected < masks.length) {
+      updateMask({ ...current, ...settings });
+    } else {
+      setDefaults({ ...defaults, ...settings });
+    }
+  };
+
+  const selectMask = (index: number, mask: MaskSettings = defaults) => {
+    setSelected(index);
+    setIntensity(mask.intensity);
+    setBlockSize(Math.round(mask.blockSize * scale));
+  };
+
+  const latest = useRef({ current, mode, brushSize, hardness, feather });
+  latest.current = { current, mode, brushSize, hardness, feather };
+  const updateMaskRef = useRef(updateMask);
+  updateMaskRef.current = updateMask;
+  const drawing = useRef<{ start: MaskPoint; shape: MaskShape } | null>(null);
+
+  const responder = useMemo(() => {
+    const toDocument = (x: number, y: number): MaskPoint => ({
+      x: Math.max(0, Math.min(actualImageWidth, x / scale)),
+      y: Math.max(0, Math.min(actualImageHeight, y / scale)),
+    });
+    const finish = () => {
+      const stroke = drawing.current;
+      drawing.current = null;
+      setDraft(null);
+      if (!stroke) {
+        return;
+      }
+      const { shape } = stroke;
+      if (
+        shape.type !== 'stroke' &&
+        (shape.width < MIN_SHAPE_SIZE || shape.height < MIN_SHAPE_SIZE)
+      ) {
+        return;
+      }
+      const mask = latest.current.current;
+      updateMaskRef.current({ ...mask, shapes: [...mask.shapes, shape] });
+      triggerHapticFeedback('light');
+    };
+
+    return PanResponder.create({
       onStartShouldSetPanResponder: () => true,
-      onPanResponderGrant: () => {
-        dragStart.x = selX.value;
-        dragStart.y = selY.value;
-      },
-      onPanResponderMove: (_evt, gesture) => {
-        const nx = Math.max(
-          0,
-          Math.min(dragStart.x + gesture.dx, imageWidth - selW.value),
-        );
-        const ny = Math.max(
-          0,
-          Math.min(dragStart.y + gesture.dy, imageHeight - selH.value),
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        const settings = latest.current;
+        const start = toDocument(
+          event.nativeEvent.locationX,
+          event.nativeEvent.locationY,
         );
-        selX.value = nx;
-        selY.value = ny;
-        setRect(r => ({ ...r, x: nx, y: ny }));
+        const shape: MaskShape =
+          settings.mode === 'brush' || settings.mode === 'erase'
+            ? {
+                type: 'stroke',
+                points: [start],
+                size: settings.brushSize / scale,
+                hardness: settings.hardness,
+                erase: settings.mode === 'erase',
+              }
+            : {
+                type: settings.mode,
+                ...start,
+                width: 0,
+                height: 0,
+                feather: settings.feather / scale,
+              };
+        drawing.current = { start, shape };
+        setDraft(shape);
       },
-    }),
-  ).current;
-
-  // Corner handles to resize
-  const sizeStart = useRef({ x: 0, y: 0, w: 0, h: 0 }).current;
-  const MIN_SIZE = 40;
-  const clamp = (v: number, min: number, max: number) =>
-    Math.max(min, Math.min(v, max));
-  const corner = (name: 'tl' | 'tr' | 'bl' | 'br') =>
-    PanResponder.create({
-      onStartShouldSetPanResponder: () => true,
-      onPanResponderGrant: () => {
-        sizeStart.x = selX.value;
-        sizeStart.y = selY.value;
-        sizeStart.w = selW.value;
-        sizeStart.h = selH.value;
-      },
-      onPanResponderMove: (_e, g) => {
-        let nx = sizeStart.x,
-          ny = sizeStart.y,
-          nw = sizeStart.w,
-          nh = sizeStart.h;
-        if (name === 'br') {
-          nw = clamp(sizeStart.w + g.dx, MIN_SIZE, imageWidth - sizeStart.x);
-          nh = clamp(sizeStart.h + g.dy, MIN_SIZE, imageHeight - sizeStart.y);
-        }
-        if (name === 'bl') {
-          nx = clamp(
-            sizeStart.x + g.dx,
-            0,
-            sizeStart.x + sizeStart.w - MIN_SIZE,
-          );
-          nw = clamp(sizeStart.w - (nx - sizeStart.x), MIN_SIZE, imageWidth);
-          nh = clamp(sizeStart.h + g.dy, MIN_SIZE, imageHeight - sizeStart.y);
+      onPanResponderMove: (_event, gesture) => {
+        const stroke = drawing.current;
+        if (!stroke) {
+          return;
         }
-        if (name === 'tr') {
-          ny = clamp(
-            sizeStart.y + g.dy,
-            0,
-            sizeStart.y + sizeStart.h - MIN_SIZE,
-          );
-          nh = clamp(sizeStart.h - (ny - sizeStart.y), MIN_SIZE, imageHeight);
-          nw = clamp(sizeStart.w + g.dx, MIN_SIZE, imageWidth - sizeStart.x);
-        }
-        if (name === 'tl') {
-          nx = clamp(
-            sizeStart.x + g.dx,
-            0,
-            sizeStart.x + sizeStart.w - MIN_SIZE,
-          );
-          ny = clamp(
-            sizeStart.y + g.dy,
-            0,
-            sizeStart.y + sizeStart.h - MIN_SIZE,
-          );
-          nw = clamp(sizeStart.w - (nx - sizeStart.x), MIN_SIZE, imageWidth);
-          nh = clamp(sizeStart.h - (ny - sizeStart.y), MIN_SIZE, imageHeight);
+        const point = toDocument(
+          stroke.start.x * scale + gesture.dx,
+          stroke.start.y * scale + gesture.dy,
+        );
+        const shape = extendShape(stroke.shape, stroke.start, point);
+        if (shape !== stroke.shape) {
+          stroke.shape = shape;
+          setDraft(shape);
         }
-        // Ensure inside bounds
-        nx = clamp(nx, 0, imageWidth - nw);
-        ny = clamp(ny, 0, imageHeight - nh);
-        selX.value = nx;
-        selY.value = ny;
-        selW.value = nw;
-        selH.value = nh;
-        setRect({ x: nx, y: ny, width: nw, height: nh });
       },
+      onPanResponderRelease: finish,
+      onPanResponderTerminate: finish,
     });
-  const tl = useRef(corner('tl')).current;
-  const tr = useRef(corner('tr')).current;
-  const bl = useRef(corner('bl')).current;
-  const br = useRef(corner('br')).current;
-
-  const toApplyData = () => {
-    const sx = actualImageWidth ? actualImageWidth / imageWidth : 1;
-    const sy = actualImageHeight ? actualImageHeight / imageHeight : 1;
-    return {
-      x: Math.round(selX.value * sx),
-      y: Math.round(selY.value * sy),
-      width: Math.round(selW.value * sx),
-      height: Math.round(selH.value * sy),
-      intensity,
-    };
-  };
+  }, [scale, actualImageWidth, actualImageHeight]);
+
+  const isBrush = mode === 'brush' || mode === 'erase';
+  const shapes = draft ? [...current.shapes, draft] : current.shapes;
 
   return (
     <View style={styles.container}>
-      {/* Stage with image and live masked blur */}
+      {/* Stage with the live preview and the selected mask's shapes */}
       <View style={styles.stageCard}>
         <View
-          style={[styles.stage, { width: imageWidth, height: imageHeight }]}
+          style={[styles.stage, { width: stageWidth, height: stageHeight }]}
+          {...responder.panHandlers}
         >
           <Image
             source={{ uri: imageUri }}
             style={styles.stageImage}
             resizeMode="contain"
           />
-          <MaskedBlurPreview
-            uri={imageUri}
-            rect={rect}
-            intensity={intensity}
-            canvasWidth={imageWidth}
-            canvasHeight={imageHeight}
-          />
-
-          {/* Selection overlay */}
-          <Animated.View
-            style={[styles.selection, overlayStyle]}
-            {...dragResponder.panHandlers}
+          <View
+            style={styles.maskLayer}
+            pointerEvents="none"
+            needsOffscreenAlphaCompositing
           >
-            <View style={styles.selectionFrame} />
-            {/* Handles */}
-            <View style={[styles.handle, styles.tl]} {...tl.panHandlers} />
-            <View style={[styles.handle, styles.tr]} {...tr.panHandlers} />
-            <View style={[styles.handle, styles.bl]} {...bl.panHandlers} />
-            <View style={[styles.handle, styles.br]} {...br.panHandlers} />
-          </Animated.View>
+            {shapes.map((shape, i) => (
+              <ShapeOverlay
+                key={i}
+                shape={shape}
+                scale={scale}
+                color={shape.erase ? colors.error : colors.primary}
+              />
+            ))}
+          </View>
         </View>
       </View>
 
-      {/* Intensity Control */}
       <Card style={styles.controlCard}>
-        <Text style={[styles.controlTitle, { color: colors.onBackground }]}>
-          Blur Intensity: {intensity}%
-        </Text>
-        <View style={styles.sliderContainer}>
-          <TouchableOpacity
-            style={[styles.sliderTrack, { backgroundColor: colors.surface }]}
-            onPress={event => {
-              const { locationX } = event.nativeEvent;
-              const trackWidth = width - SPACING.xl * 4;
-              const newIntensity = Math.round((locationX / trackWidth) * 100);
-              handleIntensityChange(newIntensity);
-            }}
-          >
-            <Animated.View
-              style={[
-                styles.sliderFill,
-                {
-                  width: `${intensity}%`,
-                  backgroundColor: colors.primary,
-                },
-                intensityIndicatorStyle,
-              ]}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {[...masks, null].map((mask, i) => {
+            const isActive = i === selected;
+            return (
+              <TouchableOpacity
+                key={mask?.id ?? `new_${i}`}
+                style={[
+                  styles.chip,
+                  { borderColor: colors.primary },
+                  isActive && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => selectMask(i, mask ?? defaults)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: isActive ? colors.onPrimary : colors.primary },
+                  ]}
+                >
+                  {mask ? `Mask ${i + 1}` : '+ New mask'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.chipRow}>
+          {BRUSH_MODES.map(option => {
+            const isActive = option.mode === mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[
+                  styles.chip,
+                  styles.modeChip,
+                  { borderColor: colors.primary },
+                  isActive && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => setMode(option.mode)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: isActive ? colors.onPrimary : colors.primary },
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {isBrush ? (
+          <>
+            <ValueSlider
+              label="Size"
+              value={brushSize}
+              min={5}
+              max={150}
+              onValueChange={setBrushSize}
             />
-            <Animated.View
-              style={[
-                styles.sliderThumb,
-                {
-                  left: `${intensity}%`,
-                  backgroundColor: colors.primary,
-                },
-                intensityIndicatorStyle,
-              ]}
+            <ValueSlider
+              label="Hardness"
+              value={hardness}
+              min={0}
+              max={100}
+              formatValue={value => `${value}%`}
+              onValueChange={setHardness}
             />
-          </TouchableOpacity>
-        </View>
-        <View style={styles.sliderLabels}>
-          <Text style={[styles.sliderLabel, { color: colors.onSurface }]}>
-            0%
-          </Text>
-          <Text style={[styles.sliderLabel, { color: colors.onSurface }]}>
-            100%
-          </Text>
+          </>
+        ) : (
+          <ValueSlider
+            label="Feather"
+            value={feather}
+            min={0}
+            max={100}
+            onValueChange={setFeather}
+          />
+        )}
+
+        <View style={styles.chipRow}>
+          {REDACTION_MODES.map(option => {
+            const isActive = option.mode === current.mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[
+                  styles.chip,
+                  styles.modeChip,
+                  { borderColor: colors.primary },
+                  isActive && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => updateSettings({ mode: option.mode })}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: isActive ? colors.onPrimary : colors.primary },
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
+        {/* Rendering is slow, so the preview only follows a finished drag */}
+        {current.mode === 'gaussian' && (
+          <ValueSlider
+            label="Intensity"
+            value={intensity}
+            min={1}
+            max={100}
+            formatValue={value => `${value}%`}
+            onValueChange={setIntensity}
+            onSlidingComplete={value => updateSettings({ intensity: value })}
+          />
+        )}
+        {current.mode === 'pixelate' && (
+          <ValueSlider
+            label="Block size"
+            value={blockSize}
+            min={4}
+            max={40}
+            onValueChange={setBlockSize}
+            onSlidingComplete={value =>
+              updateSettings({ blockSize: value / scale })
+            }
+          />
+        )}
+        {current.mode === 'solid' && (
+          <View style={styles.colorRow}>
+            {FILL_COLORS.map(color => (
+              <TouchableOpacity
+                key={color}
+                style={[
+                  styles.colorOption,
+                  { backgroundColor: color },
+                  current.color === color && {
+                    borderColor: colors.primary,
+                  },
+                ]}
+                onPress={() => updateSettings({ color })}
+                accessibilityLabel={`Fill with ${color}`}
+                accessibilityRole="button"
+                accessibilityState={{ selected: current.color === color }}
+              />
+            ))}
+          </View>
+        )}
 
-        {/* Intensity Preview Bars */}
-        <View style={styles.intensityPreview}>
-          {[20, 40, 60, 80, 100].map(value => (
-            <View
-              key={value}
-              style={[
-                styles.intensityBar,
-                {
-                  backgroundColor:
-                    intensity >= value ? colors.primary : colors.surface,
-                  opacity: intensity >= value ? 1 : 0.3,
-                },
-              ]}
-            />
-          ))}
+        <View style={styles.maskActions}>
+          <TouchableOpacity
+            style={styles.maskAction}
+            disabled={!current.shapes.length}
+            onPress={() =>
+              updateMask({ ...current, shapes: current.shapes.slice(0, -1) })
+            }
+          >
+            <Text style={[styles.maskActionText, { color: colors.primary }]}>
+              Undo shape
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.maskAction}
+            disabled={!current.shapes.length}
+            onPress={() => updateMask({ ...current, shapes: [] })}
+          >
+            <Text style={[styles.maskActionText, { color: colors.primary }]}>
+              Clear
+            </Text>
+          </TouchableOpacity>
+          {selected < masks.length && (
+            <TouchableOpacity
+              style={styles.maskAction}
+              onPress={() => {
+                onChange(masks.filter((_mask, i) => i !== selected));
+                selectMask(masks.length - 1);
+              }}
+            >
+              <Text style={[styles.maskActionText, { color: colors.error }]}>
+                Delete mask
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
+        {hiddenMaskCount > 0 && (
+          <Text style={[styles.hiddenNote, { color: colors.onSurface }]}>
+            {hiddenMaskCount === 1
+              ? '1 blur made before straightening or correcting perspective cannot be edited here.'
+              : `${hiddenMaskCount} blurs made before straightening or correcting perspective cannot be edited here.`}
+          </Text>
+        )}
       </Card>
 
       {/* Action Buttons */}
@@ -316,7 +610,7 @@ export const BlurTool: React.FC<BlurToolProps> = ({
 
         <ElevatedButton
           title="Apply Blur"
-          onPress={() => onApply(toApplyData())}
+          onPress={onApply}
           style={styles.applyButton}
         />
       </View>
@@ -340,101 +634,65 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
   stageImage: { width: '100%', height: '100%' },
-  selection: { position: 'absolute' },
-  selectionFrame: { flex: 1, borderWidth: 2, borderColor: '#FFFFFF99' },
-  handle: {
-    position: 'absolute',
-    width: 20,
-    height: 20,
-    backgroundColor: '#fff',
+  maskLayer: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.35,
   },
-  tl: { top: -10, left: -10 },
-  tr: { top: -10, right: -10 },
-  bl: { bottom: -10, left: -10 },
-  br: { bottom: -10, right: -10 },
+  shape: { position: 'absolute' },
+  shapeOutline: { borderWidth: 2 },
   controlCard: {
     padding: SPACING.lg,
     marginBottom: SPACING.md,
   },
-  controlTitle: {
-    ...TYPOGRAPHY.body1,
-    fontWeight: '600',
-    marginBottom: SPACING.md,
-  },
-  sliderContainer: {
-    marginBottom: SPACING.sm,
-  },
-  sliderTrack: {
-    height: 6,
-    borderRadius: 3,
-    position: 'relative',
-  },
-  sliderFill: {
-    height: '100%',
-    borderRadius: 3,
-  },
-  sliderThumb: {
-    position: 'absolute',
-    top: -4,
-    width: 16,
-    height: 16,
-    borderRadius: 8,
-    marginLeft: -8,
-  },
-  sliderLabels: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-  },
-  sliderLabel: {
-    ...TYPOGRAPHY.caption,
-  },
-  quickButtons: {
+  chipRow: {
     flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginTop: SPACING.md,
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
   },
-  quickButton: {
+  chip: {
     paddingHorizontal: SPACING.md,
-    paddingVertical: SPACING.sm,
-    borderRadius: 6,
-    minWidth: 60,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    borderWidth: 1,
     alignItems: 'center',
   },
-  quickButtonActive: {
-    elevation: 2,
+  modeChip: {
+    flex: 1,
+    paddingHorizontal: SPACING.xs,
   },
-  quickButtonText: {
+  chipText: {
     ...TYPOGRAPHY.caption,
     fontWeight: '500',
   },
-  intensityPreview: {
+  colorRow: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginTop: SPACING.md,
-    paddingHorizontal: SPACING.sm,
-  },
-  intensityBar: {
-    width: 20,
-    height: 40,
-    borderRadius: 4,
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
   },
-  undoCard: {
-    marginBottom: SPACING.md,
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#ddd',
   },
-  undoButton: {
+  maskActions: {
     flexDirection: 'row',
-    alignItems: 'center',
-    padding: SPACING.lg,
-    borderRadius: 8,
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
   },
-  undoIcon: {
-    fontSize: 20,
-    marginRight: SPACING.sm,
+  maskAction: {
+    paddingVertical: SPACING.xs,
   },
-  undoText: {
-    ...TYPOGRAPHY.body1,
+  maskActionText: {
+    ...TYPOGRAPHY.body2,
     fontWeight: '500',
   },
+  hiddenNote: {
+    ...TYPOGRAPHY.caption,
+    marginTop: SPACING.sm,
+    opacity: 0.7,
+  },
   actionButtons: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Switch,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { ElevatedButton } from '../common/ElevatedButton';
+import { Card } from '../common/Card';
+import type { ImageOperation } from '../../services/imageProcessor';
+import {
+  EDIT_GROUPS,
+  EditGroup,
+  countEditGroups,
+} from '../../services/editClipboard';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+// Crops and text rarely fit another photo, so they are opt-in
+const DEFAULT_GROUPS: EditGroup[] = ['adjustments', 'filters', 'blur'];
+
+interface CopyEditsDialogProps {
+  visible: boolean;
+  // Graph the edits are copied from
+  operations: ImageOperation[];
+  onCopy: (groups: EditGroup[]) => void;
+  onClose: () => void;
+}
+
+export const CopyEditsDialog: React.FC<CopyEditsDialogProps> = ({
+  visible,
+  operations,
+  onCopy,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const counts = useMemo(() => countEditGroups(operations), [operations]);
+  const [groups, setGroups] = useState<EditGroup[]>(DEFAULT_GROUPS);
+
+  useEffect(() => {
+    if (visible) {
+      setGroups(DEFAULT_GROUPS);
+    }
+  }, [visible]);
+
+  const selected = groups.filter(group => counts[group] > 0);
+
+  const toggleGroup = (group: EditGroup, enabled: boolean) => {
+    setGroups(current =>
+      enabled ? [...current, group] : current.filter(id => id !== group),
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <Card style={styles.dialog}>
+          <Text style={[styles.title, { color: colors.onBackground }]}>
+            Copy Edits
+          </Text>
+          <Text style={[styles.hint, { color: colors.onSurface }]}>
+            Choose what to paste onto other photos
+          </Text>
+
+          {EDIT_GROUPS.map(group => {
+            const count = counts[group.id];
+            return (
+              <View key={group.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text
+                    style={[
+                      styles.groupName,
+                      { color: colors.onBackground },
+                      !count && styles.groupEmpty,
+                    ]}
+                  >
+                    {group.name}
+                    {count ? ` (${count})` : ''}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.groupDescription,
+                      { color: colors.onSurface },
+                    ]}
+                  >
+                    {count ? group.description : 'Nothing to copy'}
+                  </Text>
+                </View>
+                <Switch
+                  value={count > 0 && groups.includes(group.id)}
+                  onValueChange={enabled => toggleGroup(group.id, enabled)}
+                  disabled={!count}
+                  trackColor={{ true: colors.primary, false: colors.surface }}
+                  accessibilityLabel={`Copy ${group.name}`}
+                />
+              </View>
+            );
+          })}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <ElevatedButton
+              title="Copy"
+              onPress={() => {
+                onCopy(selected);
+                onClose();
+              }}
+              disabled={!selected.length}
+              style={styles.copyButton}
+            />
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    padding: SPACING.lg,
+  },
+  title: {
+    ...TYPOGRAPHY.headline2,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+  },
+  rowText: {
+    flex: 1,
+  },
+  groupName: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  groupEmpty: {
+    opacity: 0.5,
+  },
+  groupDescription: {
+    ...TYPOGRAPHY.caption,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.lg,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  copyButton: {
+    flex: 1,
+  },
+});
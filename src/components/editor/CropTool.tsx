@@ -17,6 +17,16 @@ import { useTheme } from '../../utils/theme';
 import { triggerHapticFeedback } from '../../utils/accessibility';
 import { TYPOGRAPHY } from '../../constants/typography';
 import { SPACING } from '../../constants/spacing';
+import { ValueSlider } from '../common/ValueSlider';
+import { PerspectiveGuide } from './PerspectiveGuide';
+import {
+  KeystoneSettings,
+  NEUTRAL_KEYSTONE,
+  Quad,
+  getFrameQuad,
+  getKeystoneQuad,
+  getRectifiedSize,
+} from '../../services/raster';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -26,8 +36,14 @@ interface CropToolProps {
   imageHeight: number;
   actualImageWidth?: number;
   actualImageHeight?: number;
+  // Crop being revised, in actual image coordinates
+  initialCrop?: CropData;
   onCropChange: (cropData: CropData) => void;
   onApply: (cropData: CropData) => void;
+  // Enables the perspective mode; corners are in actual image coordinates
+  onApplyPerspective?: (perspective: PerspectiveData) => void;
+  // The two modes may show the document at different points of the graph
+  onModeChange?: (mode: CropMode) => void;
   onCancel: () => void;
 }
 
@@ -39,6 +55,21 @@ interface CropData {
   aspectRatio?: number;
 }
 
+interface PerspectiveData {
+  corners: Quad;
+  width: number;
+  height: number;
+}
+
+export type CropMode = 'rectangle' | 'perspective';
+
+const CROP_MODES: { id: CropMode; label: string }[] = [
+  { id: 'rectangle', label: 'Rectangle' },
+  { id: 'perspective', label: 'Perspective' },
+];
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
 const ASPECT_RATIOS = [
   { label: 'Free', ratio: null },
   { label: '1:1', ratio: 1 },
@@ -54,26 +85,47 @@ export const CropTool: React.FC<CropToolProps> = ({
   imageHeight,
   actualImageWidth,
   actualImageHeight,
+  initialCrop,
   onCropChange,
   onApply,
+  onApplyPerspective,
+  onModeChange,
   onCancel,
 }) => {
   const { colors } = useTheme();
+  const [mode, setMode] = useState<CropMode>('rectangle');
+  // Perspective corners in display coordinates, like the crop overlay
+  const [corners, setCorners] = useState<Quad>(() =>
+    getFrameQuad(imageWidth, imageHeight),
+  );
+  const [keystone, setKeystone] = useState<KeystoneSettings>(NEUTRAL_KEYSTONE);
   const [selectedAspectRatio, setSelectedAspectRatio] = useState<number | null>(
     null,
   );
-  const [cropData, setCropData] = useState<CropData>({
-    x: 0,
-    y: 0,
-    width: imageWidth,
-    height: imageHeight,
-  });
-
-  // Animation values for crop overlay
-  const cropX = useSharedValue(imageWidth * 0.1);
-  const cropY = useSharedValue(imageHeight * 0.1);
-  const cropWidth = useSharedValue(imageWidth * 0.8);
-  const cropHeight = useSharedValue(imageHeight * 0.8);
+  const [cropData, setCropData] = useState<CropData>(
+    initialCrop ?? {
+      x: 0,
+      y: 0,
+      width: imageWidth,
+      height: imageHeight,
+    },
+  );
+
+  // Animation values for crop overlay, starting from the crop being revised
+  const initialScaleX = actualImageWidth ? actualImageWidth / imageWidth : 1;
+  const initialScaleY = actualImageHeight ? actualImageHeight / imageHeight : 1;
+  const cropX = useSharedValue(
+    initialCrop ? initialCrop.x / initialScaleX : imageWidth * 0.1,
+  );
+  const cropY = useSharedValue(
+    initialCrop ? initialCrop.y / initialScaleY : imageHeight * 0.1,
+  );
+  const cropWidth = useSharedValue(
+    initialCrop ? initialCrop.width / initialScaleX : imageWidth * 0.8,
+  );
+  const cropHeight = useSharedValue(
+    initialCrop ? initialCrop.height / initialScaleY : imageHeight * 0.8,
+  );
 
   const cropOverlayStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: cropX.value }, { translateY: cropY.value }],
@@ -173,7 +225,20 @@ export const CropTool: React.FC<CropToolProps> = ({
     setTimeout(updateCropData, 300);
   };
 
+  // The sliders describe the whole quad, so moving one replaces any corners
+  // dragged by hand
+  const handleKeystoneChange = (next: KeystoneSettings) => {
+    setKeystone(next);
+    setCorners(getKeystoneQuad(imageWidth, imageHeight, next));
+  };
+
   const handleReset = () => {
+    if (mode === 'perspective') {
+      setKeystone(NEUTRAL_KEYSTONE);
+      setCorners(getFrameQuad(imageWidth, imageHeight));
+      triggerHapticFeedback('medium');
+      return;
+    }
     cropX.value = withSpring(imageWidth * 0.1);
     cropY.value = withSpring(imageHeight * 0.1);
     cropWidth.value = withSpring(imageWidth * 0.8);
@@ -184,7 +249,20 @@ export const CropTool: React.FC<CropToolProps> = ({
   };
 
   const handleApply = () => {
-    onApply(cropData);
+    if (mode === 'perspective' && onApplyPerspective) {
+      const scaleX = actualImageWidth ? actualImageWidth / imageWidth : 1;
+      const scaleY = actualImageHeight ? actualImageHeight / imageHeight : 1;
+      const actualCorners = corners.map(({ x, y }) => ({
+        x: x * scaleX,
+        y: y * scaleY,
+      })) as Quad;
+      onApplyPerspective({
+        corners: actualCorners,
+        ...getRectifiedSize(actualCorners),
+      });
+    } else {
+      onApply(cropData);
+    }
     triggerHapticFeedback('heavy');
   };
 
@@ -330,6 +408,16 @@ export const CropTool: React.FC<CropToolProps> = ({
             resizeMode="contain"
           />
 
+          {mode === 'perspective' ? (
+            <PerspectiveGuide
+              width={imageWidth}
+              height={imageHeight}
+              corners={corners}
+              color={colors.primary}
+              onChange={setCorners}
+            />
+          ) : (
+          <>
           {/* Dim areas outside crop */}
           <Animated.View
             style={[styles.dimPiece, topDimStyle]}
@@ -422,6 +510,8 @@ export const CropTool: React.FC<CropToolProps> = ({
             />
           </View>
           </Animated.View>
+          </>
+          )}
         </View>
       </View>
 
@@ -433,7 +523,71 @@ export const CropTool: React.FC<CropToolProps> = ({
           Crop & Resize
         </Text>
 
-        {/* Aspect Ratio Buttons */}
+        {onApplyPerspective && (
+          <View style={styles.modeButtons}>
+            {CROP_MODES.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={[
+                  styles.modeButton,
+                  { borderColor: colors.primary },
+                  mode === item.id && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => {
+                  setMode(item.id);
+                  onModeChange?.(item.id);
+                  triggerHapticFeedback('light');
+                }}
+                accessibilityRole="button"
+                accessibilityState={{ selected: mode === item.id }}
+              >
+                <Text
+                  style={[
+                    styles.aspectRatioText,
+                    {
+                      color:
+                        mode === item.id ? colors.onPrimary : colors.primary,
+                    },
+                  ]}
+                >
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {mode === 'perspective' ? (
+          <View style={styles.aspectRatioContainer}>
+            <Text style={[styles.sectionLabel, { color: colors.onSurface }]}>
+              Drag the corners onto the edges of the page or wall, or use
+              keystone
+            </Text>
+            <ValueSlider
+              label="Vertical"
+              value={keystone.vertical}
+              min={-100}
+              max={100}
+              origin={0}
+              formatValue={formatSigned}
+              onValueChange={vertical =>
+                handleKeystoneChange({ ...keystone, vertical })
+              }
+            />
+            <ValueSlider
+              label="Horizontal"
+              value={keystone.horizontal}
+              min={-100}
+              max={100}
+              origin={0}
+              formatValue={formatSigned}
+              onValueChange={horizontal =>
+                handleKeystoneChange({ ...keystone, horizontal })
+              }
+            />
+          </View>
+        ) : (
+        /* Aspect Ratio Buttons */
         <View style={styles.aspectRatioContainer}>
           <Text style={[styles.sectionLabel, { color: colors.onSurface }]}>
             Aspect Ratio
@@ -466,6 +620,7 @@ export const CropTool: React.FC<CropToolProps> = ({
             ))}
           </View>
         </View>
+        )}
 
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
@@ -496,7 +651,7 @@ export const CropTool: React.FC<CropToolProps> = ({
               onPress={handleApply}
             >
               <Text style={[styles.applyText, { color: colors.onPrimary }]}>
-                Apply Crop
+                {mode === 'perspective' ? 'Apply Perspective' : 'Apply Crop'}
               </Text>
             </TouchableOpacity>
           </View>
@@ -610,6 +765,18 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: SPACING.md,
   },
+  modeButtons: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  modeButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: SPACING.sm,
+    alignItems: 'center',
+  },
   aspectRatioContainer: {
     marginBottom: SPACING.lg,
   },
@@ -0,0 +1,246 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  PanResponder,
+  StyleSheet,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { CurvePoint, sampleCurve } from '../../services/raster';
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  color: string;
+  onChange: (points: CurvePoint[]) => void;
+  // Called once when the finger lifts
+  onChangeComplete?: () => void;
+}
+
+// Touches closer than this to a control point pick it up instead of adding one
+const HIT_RADIUS = 24;
+// Dragging an inner point this far outside the box removes it
+const REMOVE_MARGIN = 32;
+const SAMPLE_COUNT = 64;
+const DOT_SIZE = 3;
+const HANDLE_SIZE = 14;
+
+const sortPoints = (points: CurvePoint[]): CurvePoint[] =>
+  [...points].sort((a, b) => a[0] - b[0]);
+
+// Tone curve editor: tap to add a control point, drag to move it, drag an
+// inner point off the top or bottom to remove it. Inputs run left to right and
+// outputs bottom to top, both 0..255.
+export const CurveEditor: React.FC<CurveEditorProps> = ({
+  points,
+  color,
+  onChange,
+  onChangeComplete,
+}) => {
+  const { colors } = useTheme();
+  const [size, setSize] = useState(0);
+
+  const latest = useRef({ points, onChange, onChangeComplete });
+  latest.current = { points, onChange, onChangeComplete };
+  const drag = useRef<{
+    index: number;
+    points: CurvePoint[];
+    origin: CurvePoint;
+    startY: number;
+  } | null>(null);
+
+  const responder = useMemo(() => {
+    const toValue = (px: number) =>
+      Math.round(Math.max(0, Math.min(255, (px / (size || 1)) * 255)));
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event: GestureResponderEvent) => {
+        const { locationX, locationY } = event.nativeEvent;
+        const sorted = sortPoints(latest.current.points);
+        const scale = size / 255;
+
+        let index = -1;
+        let nearest = HIT_RADIUS;
+        sorted.forEach(([x, y], i) => {
+          const distance = Math.hypot(
+            x * scale - locationX,
+            size - y * scale - locationY,
+          );
+          if (distance < nearest) {
+            nearest = distance;
+            index = i;
+          }
+        });
+
+        let next = sorted;
+        if (index === -1) {
+          const point: CurvePoint = [
+            toValue(locationX),
+            255 - toValue(locationY),
+          ];
+          if (sorted.some(([x]) => x === point[0])) {
+            return;
+          }
+          next = sortPoints([...sorted, point]);
+          index = next.indexOf(point);
+          latest.current.onChange(next);
+        }
+        drag.current = {
+          index,
+          points: next,
+          origin: next[index],
+          startY: locationY,
+        };
+      },
+      onPanResponderMove: (_event, gesture) => {
+        const current = drag.current;
+        if (!current || size === 0) {
+          return;
+        }
+        const { index, points: base, origin } = current;
+        const isEndpoint = index === 0 || index === base.length - 1;
+        const y = current.startY + gesture.dy;
+
+        if (!isEndpoint && (y < -REMOVE_MARGIN || y > size + REMOVE_MARGIN)) {
+          drag.current = null;
+          latest.current.onChange(base.filter((_point, i) => i !== index));
+          return;
+        }
+
+        // Points keep their order; each stays strictly between its neighbours
+        const minX = index > 0 ? base[index - 1][0] + 1 : 0;
+        const maxX = index < base.length - 1 ? base[index + 1][0] - 1 : 255;
+        const scale = 255 / size;
+        const moved: CurvePoint = [
+          Math.round(
+            Math.max(minX, Math.min(maxX, origin[0] + gesture.dx * scale)),
+          ),
+          Math.round(
+            Math.max(0, Math.min(255, origin[1] - gesture.dy * scale)),
+          ),
+        ];
+        latest.current.onChange(
+          base.map((point, i) => (i === index ? moved : point)),
+        );
+      },
+      onPanResponderRelease: () => {
+        drag.current = null;
+        latest.current.onChangeComplete?.();
+      },
+      onPanResponderTerminate: () => {
+        drag.current = null;
+        latest.current.onChangeComplete?.();
+      },
+    });
+  }, [size]);
+
+  const samples = useMemo(() => sampleCurve(points, SAMPLE_COUNT), [points]);
+  const scale = size / 255;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: colors.surface,
+          borderColor: colors.onSurface + '33',
+        },
+      ]}
+      onLayout={(event: LayoutChangeEvent) =>
+        setSize(event.nativeEvent.layout.width)
+      }
+      {...responder.panHandlers}
+    >
+      {[0.25, 0.5, 0.75].map(position => (
+        <React.Fragment key={position}>
+          <View
+            pointerEvents="none"
+            style={[
+              styles.gridLine,
+              styles.gridVertical,
+              { left: `${position * 100}%`, backgroundColor: colors.onSurface },
+            ]}
+          />
+          <View
+            pointerEvents="none"
+            style={[
+              styles.gridLine,
+              styles.gridHorizontal,
+              { top: `${position * 100}%`, backgroundColor: colors.onSurface },
+            ]}
+          />
+        </React.Fragment>
+      ))}
+      {size > 0 &&
+        samples.map((value, i) => (
+          <View
+            key={i}
+            pointerEvents="none"
+            style={[
+              styles.dot,
+              {
+                left: (i / (SAMPLE_COUNT - 1)) * size - DOT_SIZE / 2,
+                top: size - value * scale - DOT_SIZE / 2,
+                backgroundColor: color,
+              },
+            ]}
+          />
+        ))}
+      {size > 0 &&
+        points.map(([x, y]) => (
+          <View
+            key={`${x}:${y}`}
+            pointerEvents="none"
+            style={[
+              styles.handle,
+              {
+                left: x * scale - HANDLE_SIZE / 2,
+                top: size - y * scale - HANDLE_SIZE / 2,
+                borderColor: color,
+                backgroundColor: colors.background,
+              },
+            ]}
+          />
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    aspectRatio: 1,
+    borderWidth: 1,
+    borderRadius: 4,
+  },
+  gridLine: {
+    position: 'absolute',
+    opacity: 0.15,
+  },
+  gridVertical: {
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+  },
+  gridHorizontal: {
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    borderWidth: 2,
+  },
+});
@@ -0,0 +1,251 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Switch,
+  PanResponder,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { FilterLayer, getFilterPreset } from '../../services/filterRegistry';
+import type { BlendMode } from '../../services/raster';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+const ROW_HEIGHT = 48;
+
+export const BLEND_MODE_NAMES: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  softLight: 'Soft Light',
+};
+
+// Legacy ids have no preset; show them as "Grayscale" rather than "grayscale"
+const getLayerName = ({ filterType }: FilterLayer) =>
+  getFilterPreset(filterType)?.name ??
+  filterType.charAt(0).toUpperCase() + filterType.slice(1);
+
+interface FilterStackListProps {
+  // Bottom to top, in the order they are applied
+  layers: FilterLayer[];
+  selectedId?: string;
+  onSelect: (id: string) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  // Indices into `layers`
+  onMove: (from: number, to: number) => void;
+}
+
+interface LayerRowProps {
+  layer: FilterLayer;
+  row: number;
+  isSelected: boolean;
+  // Row offset while this or another row is being dragged
+  offset: number;
+  isDragging: boolean;
+  onDrag: (row: number, dy: number) => void;
+  onDrop: (row: number, dy: number) => void;
+  onSelect: () => void;
+  onToggle: (enabled: boolean) => void;
+  onRemove: () => void;
+}
+
+const LayerRow: React.FC<LayerRowProps> = ({
+  layer,
+  row,
+  isSelected,
+  offset,
+  isDragging,
+  onDrag,
+  onDrop,
+  onSelect,
+  onToggle,
+  onRemove,
+}) => {
+  const { colors } = useTheme();
+
+  // The responder outlives renders; read the row and callbacks through a ref
+  const latest = useRef({ row, onDrag, onDrop });
+  latest.current = { row, onDrag, onDrop };
+
+  const handle = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => {
+          triggerHapticFeedback('light');
+          latest.current.onDrag(latest.current.row, 0);
+        },
+        onPanResponderMove: (_event, gesture) =>
+          latest.current.onDrag(latest.current.row, gesture.dy),
+        onPanResponderRelease: (_event, gesture) =>
+          latest.current.onDrop(latest.current.row, gesture.dy),
+        onPanResponderTerminate: () =>
+          latest.current.onDrop(latest.current.row, 0),
+      }),
+    [],
+  );
+
+  return (
+    <View
+      style={[
+        styles.row,
+        {
+          backgroundColor: isSelected ? colors.primary + '20' : colors.surface,
+          transform: [{ translateY: offset }],
+        },
+        isDragging && styles.rowDragging,
+      ]}
+    >
+      <View
+        style={styles.handle}
+        {...handle.panHandlers}
+        accessibilityLabel="Drag to reorder"
+      >
+        <Text style={[styles.handleText, { color: colors.onSurface }]}>≡</Text>
+      </View>
+      <TouchableOpacity style={styles.rowBody} onPress={onSelect}>
+        <Text
+          style={[
+            styles.layerName,
+            { color: isSelected ? colors.primary : colors.onBackground },
+            !layer.enabled && styles.layerNameDisabled,
+          ]}
+          numberOfLines={1}
+        >
+          {getLayerName(layer)}
+        </Text>
+        <Text style={[styles.layerDetails, { color: colors.onSurface }]}>
+          {BLEND_MODE_NAMES[layer.blendMode]} · {layer.opacity}%
+        </Text>
+      </TouchableOpacity>
+      <Switch
+        value={layer.enabled}
+        onValueChange={onToggle}
+        trackColor={{ true: colors.primary, false: colors.surface }}
+        accessibilityLabel={`Show ${getLayerName(layer)}`}
+      />
+      <TouchableOpacity
+        style={styles.removeButton}
+        onPress={onRemove}
+        accessibilityLabel={`Remove ${getLayerName(layer)}`}
+      >
+        <Text style={[styles.removeText, { color: colors.onSurface }]}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+// The stack with its top layer first, as in layer panels elsewhere. Rows are
+// reordered by dragging their handle.
+export const FilterStackList: React.FC<FilterStackListProps> = ({
+  layers,
+  selectedId,
+  onSelect,
+  onToggle,
+  onRemove,
+  onMove,
+}) => {
+  const [drag, setDrag] = useState<{ row: number; dy: number } | null>(null);
+  const rows = [...layers].reverse();
+  const toLayerIndex = (row: number) => layers.length - 1 - row;
+
+  const getTargetRow = (row: number, dy: number) =>
+    Math.max(0, Math.min(rows.length - 1, row + Math.round(dy / ROW_HEIGHT)));
+
+  const getOffset = (row: number) => {
+    if (!drag) {
+      return 0;
+    }
+    if (row === drag.row) {
+      return drag.dy;
+    }
+    const target = getTargetRow(drag.row, drag.dy);
+    if (drag.row < target && row > drag.row && row <= target) {
+      return -ROW_HEIGHT;
+    }
+    if (target < drag.row && row >= target && row < drag.row) {
+      return ROW_HEIGHT;
+    }
+    return 0;
+  };
+
+  const handleDrop = (row: number, dy: number) => {
+    setDrag(null);
+    const target = getTargetRow(row, dy);
+    if (target !== row) {
+      onMove(toLayerIndex(row), toLayerIndex(target));
+      triggerHapticFeedback('medium');
+    }
+  };
+
+  return (
+    <View>
+      {rows.map((layer, row) => (
+        <LayerRow
+          key={layer.id}
+          layer={layer}
+          row={row}
+          isSelected={layer.id === selectedId}
+          offset={getOffset(row)}
+          isDragging={drag?.row === row}
+          onDrag={(dragRow, dy) => setDrag({ row: dragRow, dy })}
+          onDrop={handleDrop}
+          onSelect={() => onSelect(layer.id)}
+          onToggle={enabled => onToggle(layer.id, enabled)}
+          onRemove={() => onRemove(layer.id)}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingRight: SPACING.sm,
+  },
+  rowDragging: {
+    zIndex: 1,
+    elevation: 4,
+  },
+  handle: {
+    width: 40,
+    height: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  handleText: {
+    fontSize: 20,
+  },
+  rowBody: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  layerName: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '600',
+  },
+  layerNameDisabled: {
+    opacity: 0.5,
+  },
+  layerDetails: {
+    ...TYPOGRAPHY.caption,
+  },
+  removeButton: {
+    padding: SPACING.sm,
+    marginLeft: SPACING.xs,
+  },
+  removeText: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Image, Text, StyleSheet } from 'react-native';
+import { imageProcessor, ImageOperation } from '../../services/imageProcessor';
+
+// The image and edit graph filter thumbnails are rendered over
+export interface FilterThumbnailSource {
+  uri: string;
+  operations: ImageOperation[];
+}
+
+interface FilterThumbnailProps {
+  source?: FilterThumbnailSource;
+  filterId: string;
+  // A user preset's look, rendered in place of the filter preset
+  look?: ImageOperation[];
+  // Shown until the render is ready, or when there is none
+  fallback: string;
+}
+
+export const FilterThumbnail: React.FC<FilterThumbnailProps> = ({
+  source,
+  filterId,
+  look,
+  fallback,
+}) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThumbnail(null);
+    if (!source) {
+      return;
+    }
+    let active = true;
+    imageProcessor
+      .renderFilterThumbnail(source.uri, source.operations, filterId, look)
+      .then(uri => {
+        if (active) {
+          setThumbnail(uri);
+        }
+      })
+      // Superseded or undecodable; the card keeps its icon
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, [source, filterId, look]);
+
+  return thumbnail ? (
+    <Image
+      source={{ uri: thumbnail }}
+      style={styles.image}
+      resizeMode="cover"
+    />
+  ) : (
+    <Text style={styles.icon}>{fallback}</Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  image: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 8,
+  },
+  icon: {
+    fontSize: 30,
+  },
+});
@@ -5,6 +5,7 @@ import {
   TouchableOpacity,
   ScrollView,
   FlatList,
+  Alert,
   StyleSheet,
 } from 'react-native';
 import Animated, {
@@ -20,104 +21,98 @@ import { useTheme } from '../../utils/theme';
 import { triggerHapticFeedback, useAccessibility } from '../../utils/accessibility';
 import { ElevatedButton } from '../common/ElevatedButton';
 import { Card } from '../common/Card';
+import { LutImportDialog } from './LutImportDialog';
+import { PresetDialog } from './PresetDialog';
+import { FilterThumbnail, FilterThumbnailSource } from './FilterThumbnail';
+import { BLEND_MODE_NAMES, FilterStackList } from './FilterStackList';
+import { useLuts } from '../../hooks/useLuts';
+import { usePresets } from '../../hooks/usePresets';
 import { TYPOGRAPHY } from '../../constants/typography';
 import { SPACING } from '../../constants/spacing';
+import {
+  FILTER_CATEGORIES,
+  FILTER_PRESETS,
+  FilterCategory,
+  FilterLayer,
+  FilterPreset,
+} from '../../services/filterRegistry';
+import type { BlendMode } from '../../services/raster';
+import { LUT_CATEGORY } from '../../services/lutService';
+import { PRESET_CATEGORY } from '../../services/presetService';
+import type { UserPreset } from '../../services/presetFormat';
+import type { ImageOperation } from '../../services/imageProcessor';
+
+const BLEND_MODES = Object.keys(BLEND_MODE_NAMES) as BlendMode[];
+
+const createLayerId = () =>
+  `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+type PresetDialogState =
+  | { mode: 'save' }
+  | { mode: 'rename'; preset: UserPreset }
+  | { mode: 'import' };
 
 interface FilterToolProps {
-  onFilterSelect: (filterId: string, intensity: number) => void;
-  onIntensityChange: (intensity: number) => void;
+  // Filter stack, bottom to top
+  layers: FilterLayer[];
+  onChange: (layers: FilterLayer[]) => void;
   onApply: () => void;
   onCancel: () => void;
-  selectedFilter?: string;
-  currentIntensity?: number;
-}
-
-interface Filter {
-  id: string;
-  name: string;
-  category: string;
-  preview: string;
-  isPremium?: boolean;
+  // Color edits and filters as currently previewed, for "Save as Preset"
+  look: ImageOperation[];
+  // Replaces the photo's look with the preset's
+  onApplyPreset: (preset: UserPreset) => void;
+  // Photo and edits the filter cards preview; cards show icons without it
+  thumbnailSource?: FilterThumbnailSource;
 }
 
-interface FilterCategory {
-  id: string;
-  name: string;
-  icon: string;
-}
-
-const FILTER_CATEGORIES: FilterCategory[] = [
-  { id: 'color_balance', name: 'Color Balance', icon: '🎛️' },
-  { id: 'monochrome', name: 'Monochrome', icon: '⚫' },
-  { id: 'vintage_retro', name: 'Vintage/Retro', icon: '📷' },
-  { id: 'hdr', name: 'HDR Boost', icon: '🔆' },
-  { id: 'cinematic', name: 'Cinematic', icon: '🎬' },
-  { id: 'focus', name: 'Blur/Focus', icon: '📸' },
-  { id: 'vibrance_saturation', name: 'Vibrance & Sat', icon: '💠' },
-  { id: 'warm_cold', name: 'Warm & Cold', icon: '♨️❄️' },
-  { id: 'pop_art', name: 'Pop Art', icon: '🎨' },
-  { id: 'film_grain', name: 'Film Grain', icon: '🧵' },
-];
-
-const FILTERS: Filter[] = [
-  // Color Balance
-  { id: 'color_balance', name: 'Color Balance', category: 'color_balance', preview: '🎛️' },
-
-  // Monochrome
-  { id: 'bw_classic', name: 'Classic B/W', category: 'monochrome', preview: '◻️' },
-  { id: 'sepia', name: 'Sepia', category: 'monochrome', preview: '🏛️' },
-  { id: 'bw_cold', name: 'Cold Mono', category: 'monochrome', preview: '🔷' },
-
-  // Vintage / Retro
-  { id: 'vintage_70s', name: '70s Film', category: 'vintage_retro', preview: '📼' },
-  { id: 'retro_90s', name: '90s Retro', category: 'vintage_retro', preview: '📺' },
-  { id: 'vintage_fade', name: 'Fade', category: 'vintage_retro', preview: '📜' },
-
-  // HDR Boost
-  { id: 'hdr_boost', name: 'HDR Boost', category: 'hdr', preview: '🔆' },
-
-  // Cinematic Look
-  { id: 'cinematic', name: 'Cinematic', category: 'cinematic', preview: '🎬' },
-
-  // Blur / Focus
-  { id: 'tilt_shift', name: 'Tilt-Shift', category: 'focus', preview: '📍' },
-  { id: 'soft_focus', name: 'Soft Focus', category: 'focus', preview: '🌫️' },
-
-  // Vibrance & Saturation
-  { id: 'vibrance', name: 'Vibrance', category: 'vibrance_saturation', preview: '💠' },
-  { id: 'saturation', name: 'Saturation', category: 'vibrance_saturation', preview: '🌈' },
-
-  // Warm & Cold Tone
-  { id: 'warm_tone', name: 'Warm Tone', category: 'warm_cold', preview: '🌅' },
-  { id: 'cool_tone', name: 'Cold Tone', category: 'warm_cold', preview: '🧊' },
-
-  // Pop Art / Artistic
-  { id: 'pop_art', name: 'Pop Art', category: 'pop_art', preview: '🟣' },
-
-  // Film Grain / Texture
-  { id: 'film_grain', name: 'Film Grain', category: 'film_grain', preview: '🧵' },
-];
-
 export const FilterTool: React.FC<FilterToolProps> = ({
-  onFilterSelect,
-  onIntensityChange,
+  layers,
+  onChange,
   onApply,
   onCancel,
-  selectedFilter = 'none',
-  currentIntensity = 50,
+  look,
+  onApplyPreset,
+  thumbnailSource,
 }) => {
   const { colors } = useTheme();
   const { reduceMotionEnabled } = useAccessibility();
 
   const [activeCategory, setActiveCategory] = useState('color_balance');
-  const [intensity, setIntensity] = useState(currentIntensity);
-  const [appliedFilter, setAppliedFilter] = useState(selectedFilter);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [showLutImport, setShowLutImport] = useState(false);
+  const { luts, importLut, removeLut } = useLuts();
+  const { presets, savePreset, renamePreset, deletePreset, importPreset, exportPreset } =
+    usePresets();
+  // Long-pressed preset whose rename, export and delete actions are shown
+  const [managedPresetId, setManagedPresetId] = useState<string | null>(null);
+  const [presetDialog, setPresetDialog] = useState<PresetDialogState | null>(null);
+  const managedPreset = presets.find(preset => preset.id === managedPresetId);
 
   // Animation values
   const categoryIndicatorPosition = useSharedValue(0);
   const filterPreviewScale = useSharedValue(1);
   const intensityBarOpacity = useSharedValue(1);
 
+  // Opacity and blend mode controls edit the selected layer, or the top one
+  const selectedLayer =
+    layers.find(layer => layer.id === selectedLayerId) ?? layers[layers.length - 1];
+
+  const updateLayer = (id: string, changes: Partial<FilterLayer>) => {
+    onChange(layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
+  };
+
+  const removeLayers = (remove: (layer: FilterLayer) => boolean) => {
+    onChange(layers.filter(layer => !remove(layer)));
+  };
+
+  const moveLayer = (from: number, to: number) => {
+    const next = [...layers];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
   const handleCategorySelect = (categoryId: string, index: number) => {
     setActiveCategory(categoryId);
     triggerHapticFeedback('light');
@@ -130,9 +125,50 @@ export const FilterTool: React.FC<FilterToolProps> = ({
     }
   };
 
-  const handleFilterSelect = (filter: Filter) => {
-    setAppliedFilter(filter.id);
-    onFilterSelect(filter.id, intensity);
+  // Adds the filter on top of the stack
+  const handleFilterSelect = (filter: FilterPreset) => {
+    const layer: FilterLayer = {
+      id: createLayerId(),
+      filterType: filter.id,
+      opacity: 100,
+      blendMode: 'normal',
+      enabled: true,
+    };
+    onChange([...layers, layer]);
+    setSelectedLayerId(layer.id);
+    triggerHapticFeedback('medium');
+
+    if (!reduceMotionEnabled) {
+      filterPreviewScale.value = withSequence(
+        withSpring(1.1, { damping: 8, stiffness: 300 }),
+        withSpring(1, { damping: 12, stiffness: 200 })
+      );
+    }
+  };
+
+  const handleLutLongPress = (lut: FilterPreset) => {
+    triggerHapticFeedback('medium');
+    Alert.alert(
+      `Delete "${lut.name}"?`,
+      'Projects using this LUT will show the photo without it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            removeLayers(layer => layer.filterType === lut.id);
+            await removeLut(lut.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePresetSelect = (preset: UserPreset) => {
+    setManagedPresetId(null);
+    setSelectedLayerId(null);
+    onApplyPreset(preset);
     triggerHapticFeedback('medium');
 
     if (!reduceMotionEnabled) {
@@ -143,10 +179,42 @@ export const FilterTool: React.FC<FilterToolProps> = ({
     }
   };
 
-  const handleIntensityChange = (newIntensity: number) => {
-    const clampedIntensity = Math.max(0, Math.min(100, newIntensity));
-    setIntensity(clampedIntensity);
-    onIntensityChange(clampedIntensity);
+  const handlePresetDelete = (preset: UserPreset) => {
+    Alert.alert(
+      `Delete "${preset.name}"?`,
+      'Photos already edited with it keep their look.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setManagedPresetId(null);
+            await deletePreset(preset.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePresetDialogSubmit = async (value: string) => {
+    if (presetDialog?.mode === 'save') {
+      await savePreset(value, look);
+    } else if (presetDialog?.mode === 'rename') {
+      await renamePreset(presetDialog.preset.id, value);
+    } else {
+      setManagedPresetId((await importPreset(value)).id);
+    }
+    triggerHapticFeedback('medium');
+  };
+
+  const handleOpacityChange = (newOpacity: number) => {
+    if (!selectedLayer) {
+      return;
+    }
+    updateLayer(selectedLayer.id, {
+      opacity: Math.max(0, Math.min(100, newOpacity)),
+    });
     triggerHapticFeedback('light');
 
     intensityBarOpacity.value = withSequence(
@@ -167,7 +235,31 @@ export const FilterTool: React.FC<FilterToolProps> = ({
     opacity: intensityBarOpacity.value,
   }));
 
-  const filteredFilters = FILTERS.filter(filter => filter.category === activeCategory);
+  const filteredFilters =
+    activeCategory === LUT_CATEGORY
+      ? luts
+      : FILTER_PRESETS.filter(filter => filter.category === activeCategory);
+
+  const presetDialogProps =
+    presetDialog?.mode === 'import'
+      ? {
+          title: 'Import Preset',
+          hint: 'A preset .json file from a file path or a link, or its pasted contents',
+          placeholder: 'File path, https:// link or JSON',
+          submitLabel: 'Import',
+          multiline: true,
+        }
+      : {
+          title: presetDialog?.mode === 'rename' ? 'Rename Preset' : 'Save as Preset',
+          hint:
+            presetDialog?.mode === 'rename'
+              ? undefined
+              : 'Saves the color adjustments and filter stack, not crops or retouching',
+          placeholder: 'Preset name',
+          submitLabel: presetDialog?.mode === 'rename' ? 'Rename' : 'Save',
+          initialValue: presetDialog?.mode === 'rename' ? presetDialog.preset.name : '',
+          maxLength: 60,
+        };
 
   const renderCategoryTab = (category: FilterCategory, index: number) => {
     const isActive = activeCategory === category.id;
@@ -194,8 +286,8 @@ export const FilterTool: React.FC<FilterToolProps> = ({
     );
   };
 
-  const renderFilterItem = ({ item }: { item: Filter }) => {
-    const isSelected = appliedFilter === item.id;
+  const renderFilterItem = ({ item }: { item: FilterPreset }) => {
+    const isSelected = layers.some(layer => layer.filterType === item.id);
 
     return (
       <TouchableOpacity
@@ -205,10 +297,17 @@ export const FilterTool: React.FC<FilterToolProps> = ({
           isSelected && [styles.filterItemSelected, { borderColor: colors.primary }],
         ]}
         onPress={() => handleFilterSelect(item)}
+        onLongPress={
+          item.category === LUT_CATEGORY ? () => handleLutLongPress(item) : undefined
+        }
         activeOpacity={0.8}
       >
         <Animated.View style={[styles.filterPreview, filterPreviewStyle]}>
-          <Text style={styles.filterPreviewIcon}>{item.preview}</Text>
+          <FilterThumbnail
+            source={thumbnailSource}
+            filterId={item.id}
+            fallback={item.preview}
+          />
           {item.isPremium && (
             <View style={[styles.premiumBadge, { backgroundColor: '#FFD700' }]}>
               <Text style={styles.premiumIcon}>⭐</Text>
@@ -229,6 +328,98 @@ export const FilterTool: React.FC<FilterToolProps> = ({
     );
   };
 
+  const renderPresetItem = ({ item }: { item: UserPreset }) => {
+    const isManaged = item.id === managedPresetId;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.filterItem,
+          { backgroundColor: colors.surface },
+          isManaged && [styles.filterItemSelected, { borderColor: colors.primary }],
+        ]}
+        onPress={() => handlePresetSelect(item)}
+        onLongPress={() => {
+          setManagedPresetId(item.id);
+          triggerHapticFeedback('medium');
+        }}
+        activeOpacity={0.8}
+      >
+        <Animated.View style={[styles.filterPreview, filterPreviewStyle]}>
+          <FilterThumbnail
+            source={thumbnailSource}
+            filterId={item.id}
+            look={item.operations}
+            fallback="⭐"
+          />
+        </Animated.View>
+
+        <Text
+          style={[
+            styles.filterName,
+            { color: isManaged ? colors.primary : colors.onBackground },
+          ]}
+          numberOfLines={1}
+        >
+          {item.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPresetFooter = () => (
+    <View style={styles.listFooter}>
+      {managedPreset && (
+        <View style={styles.presetActions}>
+          {[
+            { label: 'Rename', onPress: () => setPresetDialog({ mode: 'rename', preset: managedPreset }) },
+            { label: 'Export', onPress: () => exportPreset(managedPreset) },
+            { label: 'Delete', onPress: () => handlePresetDelete(managedPreset) },
+            { label: 'Done', onPress: () => setManagedPresetId(null) },
+          ].map(action => (
+            <TouchableOpacity
+              key={action.label}
+              style={[styles.blendChip, { backgroundColor: colors.surface }]}
+              onPress={action.onPress}
+            >
+              <Text style={[styles.blendChipText, { color: colors.onBackground }]}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      <View style={styles.presetActions}>
+        <TouchableOpacity
+          style={[
+            styles.footerButton,
+            { borderColor: colors.primary },
+            !look.length && styles.footerButtonDisabled,
+          ]}
+          onPress={() => setPresetDialog({ mode: 'save' })}
+          disabled={!look.length}
+        >
+          <Text style={[styles.footerButtonText, { color: colors.primary }]}>
+            + Save as Preset
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.footerButton, { borderColor: colors.primary }]}
+          onPress={() => setPresetDialog({ mode: 'import' })}
+        >
+          <Text style={[styles.footerButtonText, { color: colors.primary }]}>
+            Import
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.footerHint, { color: colors.onSurface }]}>
+        {presets.length
+          ? 'Tap a preset to apply it, long-press to manage it'
+          : 'Save your color edits and filters to reuse them on other photos'}
+      </Text>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
       {/* Category Tabs */}
@@ -253,21 +444,71 @@ export const FilterTool: React.FC<FilterToolProps> = ({
 
       {/* Filter Grid */}
       <View style={styles.filtersContainer}>
-        <FlatList
-          data={filteredFilters}
-          renderItem={renderFilterItem}
-          keyExtractor={(item) => item.id}
-          numColumns={3}
-          showsVerticalScrollIndicator={false}
-          contentContainerStyle={styles.filtersGrid}
-        />
+        {activeCategory === PRESET_CATEGORY ? (
+          <FlatList
+            data={presets}
+            renderItem={renderPresetItem}
+            keyExtractor={(item) => item.id}
+            numColumns={3}
+            initialNumToRender={9}
+            windowSize={3}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.filtersGrid}
+            ListFooterComponent={renderPresetFooter()}
+          />
+        ) : (
+          <FlatList
+            data={filteredFilters}
+            renderItem={renderFilterItem}
+            keyExtractor={(item) => item.id}
+            numColumns={3}
+            // Thumbnails render as cards mount, so only mount what is near view
+            initialNumToRender={9}
+            windowSize={3}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.filtersGrid}
+            ListFooterComponent={
+              activeCategory === LUT_CATEGORY ? (
+                <View style={styles.listFooter}>
+                  <TouchableOpacity
+                    style={[styles.footerButton, { borderColor: colors.primary }]}
+                    onPress={() => setShowLutImport(true)}
+                  >
+                    <Text style={[styles.footerButtonText, { color: colors.primary }]}>
+                      + Import .cube LUT
+                    </Text>
+                  </TouchableOpacity>
+                  <Text style={[styles.footerHint, { color: colors.onSurface }]}>
+                    {luts.length
+                      ? 'Long-press a LUT to delete it'
+                      : 'Bring in looks from your desktop grading tools'}
+                  </Text>
+                </View>
+              ) : null
+            }
+          />
+        )}
       </View>
 
-      {/* Intensity Control */}
-      {appliedFilter !== 'none' && (
+      {/* Filter Stack */}
+      {layers.length > 0 && (
+        <Card style={styles.stackCard}>
+          <FilterStackList
+            layers={layers}
+            selectedId={selectedLayer?.id}
+            onSelect={setSelectedLayerId}
+            onToggle={(id, enabled) => updateLayer(id, { enabled })}
+            onRemove={id => removeLayers(layer => layer.id === id)}
+            onMove={moveLayer}
+          />
+        </Card>
+      )}
+
+      {/* Opacity and Blend Mode of the selected layer */}
+      {selectedLayer && (
         <Card style={styles.intensityCard}>
           <Text style={[styles.intensityTitle, { color: colors.onBackground }]}>
-            Intensity: {intensity}%
+            Opacity: {selectedLayer.opacity}%
           </Text>
 
           <View style={styles.sliderContainer}>
@@ -276,15 +517,15 @@ export const FilterTool: React.FC<FilterToolProps> = ({
               onPress={(event) => {
                 const { locationX } = event.nativeEvent;
                 const trackWidth = 280;
-                const newIntensity = Math.round((locationX / trackWidth) * 100);
-                handleIntensityChange(newIntensity);
+                const newOpacity = Math.round((locationX / trackWidth) * 100);
+                handleOpacityChange(newOpacity);
               }}
             >
               <Animated.View
                 style={[
                   styles.sliderFill,
                   {
-                    width: `${intensity}%`,
+                    width: `${selectedLayer.opacity}%`,
                     backgroundColor: colors.primary,
                   },
                   intensityBarStyle,
@@ -294,7 +535,7 @@ export const FilterTool: React.FC<FilterToolProps> = ({
                 style={[
                   styles.sliderThumb,
                   {
-                    left: `${intensity}%`,
+                    left: `${selectedLayer.opacity}%`,
                     backgroundColor: colors.primary,
                   },
                   intensityBarStyle,
@@ -315,15 +556,47 @@ export const FilterTool: React.FC<FilterToolProps> = ({
                 key={value}
                 style={[
                   styles.intensityLevel,
-                  {
-                    backgroundColor: intensity >= value ? colors.primary : colors.surface,
-                    opacity: intensity >= value ? 1 : 0.3,
-                  },
+                  selectedLayer.opacity >= value
+                    ? [styles.intensityLevelActive, { backgroundColor: colors.primary }]
+                    : [styles.intensityLevelInactive, { backgroundColor: colors.surface }],
                   intensityBarStyle,
                 ]}
               />
             ))}
           </View>
+
+          {/* Blend Mode */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.blendModes}
+          >
+            {BLEND_MODES.map((mode) => {
+              const isActive = selectedLayer.blendMode === mode;
+              return (
+                <TouchableOpacity
+                  key={mode}
+                  style={[
+                    styles.blendChip,
+                    { backgroundColor: isActive ? colors.primary : colors.surface },
+                  ]}
+                  onPress={() => {
+                    updateLayer(selectedLayer.id, { blendMode: mode });
+                    triggerHapticFeedback('light');
+                  }}
+                >
+                  <Text
+                    style={[
+                      styles.blendChipText,
+                      { color: isActive ? colors.onPrimary : colors.onBackground },
+                    ]}
+                  >
+                    {BLEND_MODE_NAMES[mode]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
         </Card>
       )}
 
@@ -344,6 +617,21 @@ export const FilterTool: React.FC<FilterToolProps> = ({
           style={styles.applyButton}
         />
       </View>
+
+      <LutImportDialog
+        visible={showLutImport}
+        onImport={async (uri, options) => {
+          handleFilterSelect(await importLut(uri, options));
+        }}
+        onClose={() => setShowLutImport(false)}
+      />
+
+      <PresetDialog
+        visible={presetDialog !== null}
+        {...presetDialogProps}
+        onSubmit={handlePresetDialogSubmit}
+        onClose={() => setPresetDialog(null)}
+      />
     </View>
   );
 };
@@ -412,9 +700,6 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.xs,
     position: 'relative',
   },
-  filterPreviewIcon: {
-    fontSize: 30,
-  },
   premiumBadge: {
     position: 'absolute',
     top: -4,
@@ -433,6 +718,39 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  listFooter: {
+    alignItems: 'center',
+    padding: SPACING.md,
+  },
+  footerButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+  },
+  footerButtonText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  footerButtonDisabled: {
+    opacity: 0.5,
+  },
+  presetActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  footerHint: {
+    ...TYPOGRAPHY.caption,
+    marginTop: SPACING.sm,
+  },
+  stackCard: {
+    marginHorizontal: SPACING.md,
+    padding: SPACING.xs,
+  },
   intensityCard: {
     margin: SPACING.md,
   },
@@ -479,6 +797,25 @@ const styles = StyleSheet.create({
     height: 30,
     borderRadius: 4,
   },
+  intensityLevelActive: {
+    opacity: 1,
+  },
+  intensityLevelInactive: {
+    opacity: 0.3,
+  },
+  blendModes: {
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  blendChip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 16,
+  },
+  blendChipText: {
+    ...TYPOGRAPHY.caption,
+    fontWeight: '500',
+  },
   actionButtons: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { ValueSlider } from '../common/ValueSlider';
+import {
+  DEFAULT_HSL_SETTINGS,
+  HSL_BANDS,
+  HslAdjustment,
+  HslBand,
+  HslSettings,
+  NEUTRAL_HSL_ADJUSTMENT,
+} from '../../services/raster';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface HslToolProps {
+  initialSettings?: HslSettings;
+  // Fires on every change so the canvas can preview it
+  onChange: (settings: HslSettings) => void;
+  onApply: (settings: HslSettings) => void;
+  onCancel: () => void;
+}
+
+const BAND_SWATCHES: Record<HslBand, string> = {
+  red: '#E53935',
+  orange: '#FB8C00',
+  yellow: '#FDD835',
+  green: '#43A047',
+  aqua: '#00ACC1',
+  blue: '#1E88E5',
+  purple: '#8E24AA',
+  magenta: '#D81B60',
+};
+
+const SLIDERS: { key: keyof HslAdjustment; label: string }[] = [
+  { key: 'hue', label: 'Hue' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'luminance', label: 'Luminance' },
+];
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+// Color mixer: hue, saturation and luminance for each of eight hue bands
+export const HslTool: React.FC<HslToolProps> = ({
+  initialSettings = DEFAULT_HSL_SETTINGS,
+  onChange,
+  onApply,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+  const [settings, setSettings] = useState(initialSettings);
+  const [band, setBand] = useState<HslBand>('red');
+
+  const update = (next: HslSettings) => {
+    setSettings(next);
+    onChange(next);
+  };
+
+  const updateBand = (key: keyof HslAdjustment, value: number) =>
+    update({ ...settings, [band]: { ...settings[band], [key]: value } });
+
+  const resetBand = () => {
+    update({ ...settings, [band]: NEUTRAL_HSL_ADJUSTMENT });
+    triggerHapticFeedback('light');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.onBackground }]}>
+          Color Mixer
+        </Text>
+        <TouchableOpacity style={styles.resetButton} onPress={resetBand}>
+          <Text style={[styles.resetText, { color: colors.primary }]}>
+            Reset {capitalize(band)}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.bandRow}>
+        {HSL_BANDS.map(id => {
+          const isActive = band === id;
+          const adjustment = settings[id];
+          const isEdited =
+            adjustment.hue !== 0 ||
+            adjustment.saturation !== 0 ||
+            adjustment.luminance !== 0;
+          return (
+            <TouchableOpacity
+              key={id}
+              style={[
+                styles.bandSwatch,
+                { backgroundColor: BAND_SWATCHES[id] },
+                isActive && [
+                  styles.bandSwatchActive,
+                  { borderColor: colors.onBackground },
+                ],
+              ]}
+              onPress={() => setBand(id)}
+              accessibilityRole="button"
+              accessibilityLabel={capitalize(id)}
+              accessibilityState={{ selected: isActive }}
+            >
+              {isEdited && (
+                <View
+                  style={[
+                    styles.editedDot,
+                    { backgroundColor: colors.background },
+                  ]}
+                />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {SLIDERS.map(slider => (
+        <ValueSlider
+          key={slider.key}
+          label={slider.label}
+          value={settings[band][slider.key]}
+          min={-100}
+          max={100}
+          origin={0}
+          formatValue={formatSigned}
+          onValueChange={value => updateBand(slider.key, value)}
+        />
+      ))}
+
+      <View style={styles.actionButtons}>
+        <TouchableOpacity
+          style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+          onPress={onCancel}
+        >
+          <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.applyButton, { backgroundColor: colors.primary }]}
+          onPress={() => onApply(settings)}
+        >
+          <Text style={[styles.applyText, { color: colors.onPrimary }]}>
+            Apply
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.md,
+  },
+  title: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  resetButton: {
+    marginLeft: 'auto',
+    padding: SPACING.xs,
+  },
+  resetText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '500',
+  },
+  bandRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.md,
+  },
+  bandSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bandSwatchActive: {
+    transform: [{ scale: 1.15 }],
+  },
+  editedDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 'auto',
+    paddingTop: SPACING.sm,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { ElevatedButton } from '../common/ElevatedButton';
+import { Card } from '../common/Card';
+import type { ImportLutOptions } from '../../services/lutService';
+import type { LutInterpolation } from '../../services/raster';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface LutImportDialogProps {
+  visible: boolean;
+  // Rejects with the reason a file could not be used
+  onImport: (uri: string, options: ImportLutOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const INTERPOLATIONS: Array<{ id: LutInterpolation; label: string }> = [
+  { id: 'tetrahedral', label: 'Tetrahedral' },
+  { id: 'trilinear', label: 'Trilinear' },
+];
+
+export const LutImportDialog: React.FC<LutImportDialogProps> = ({
+  visible,
+  onImport,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const [uri, setUri] = useState('');
+  const [name, setName] = useState('');
+  const [interpolation, setInterpolation] =
+    useState<LutInterpolation>('tetrahedral');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setUri('');
+    setName('');
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      await onImport(uri.trim(), { name, interpolation });
+      close();
+    } catch (importError) {
+      setError(
+        importError instanceof Error
+          ? importError.message
+          : 'The file could not be imported',
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={close}
+    >
+      <View style={styles.backdrop}>
+        <Card style={styles.dialog}>
+          <Text style={[styles.title, { color: colors.onBackground }]}>
+            Import .cube LUT
+          </Text>
+          <Text style={[styles.hint, { color: colors.onSurface }]}>
+            1D or 3D tables up to 65 points, from a file path or a link
+          </Text>
+
+          <TextInput
+            style={[
+              styles.input,
+              { color: colors.onBackground, backgroundColor: colors.surface },
+            ]}
+            placeholder="File path or https:// link"
+            placeholderTextColor={colors.onSurface}
+            value={uri}
+            onChangeText={setUri}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              { color: colors.onBackground, backgroundColor: colors.surface },
+            ]}
+            placeholder="Name (optional)"
+            placeholderTextColor={colors.onSurface}
+            value={name}
+            onChangeText={setName}
+            maxLength={40}
+          />
+
+          <Text style={[styles.label, { color: colors.onBackground }]}>
+            Interpolation
+          </Text>
+          <View style={styles.chips}>
+            {INTERPOLATIONS.map(option => {
+              const isActive = interpolation === option.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: isActive
+                        ? colors.primary
+                        : colors.surface,
+                    },
+                  ]}
+                  onPress={() => setInterpolation(option.id)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      {
+                        color: isActive
+                          ? colors.onPrimary
+                          : colors.onBackground,
+                      },
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {error && (
+            <Text style={[styles.error, { color: colors.error }]}>{error}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+              onPress={close}
+              disabled={importing}
+            >
+              <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            {importing ? (
+              <ActivityIndicator
+                style={styles.importButton}
+                color={colors.primary}
+              />
+            ) : (
+              <ElevatedButton
+                title="Import"
+                onPress={handleImport}
+                disabled={!uri.trim()}
+                style={styles.importButton}
+              />
+            )}
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    padding: SPACING.lg,
+  },
+  title: {
+    ...TYPOGRAPHY.headline2,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption,
+    marginBottom: SPACING.md,
+  },
+  input: {
+    ...TYPOGRAPHY.body1,
+    borderRadius: 8,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  label: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '600',
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 16,
+  },
+  chipText: {
+    ...TYPOGRAPHY.caption,
+    fontWeight: '500',
+  },
+  error: {
+    ...TYPOGRAPHY.caption,
+    marginTop: SPACING.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.lg,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  importButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,168 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { PhotoMetadata } from '../../services/codecs';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface MetadataPanelProps {
+  // Null while the original is still being read
+  metadata: PhotoMetadata | null;
+  onClose: () => void;
+}
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${seconds} s` : `1/${Math.round(1 / seconds)} s`;
+
+// Model strings usually repeat the make ("Canon" / "Canon EOS R6")
+const formatCamera = ({ make, model }: PhotoMetadata) =>
+  make && model && !model.toLowerCase().startsWith(make.toLowerCase())
+    ? `${make} ${model}`
+    : model ?? make;
+
+const formatExposure = ({
+  exposureTime,
+  fNumber,
+  iso,
+  focalLength,
+}: PhotoMetadata) =>
+  [
+    exposureTime && formatExposureTime(exposureTime),
+    fNumber && `f/${Math.round(fNumber * 10) / 10}`,
+    iso && `ISO ${iso}`,
+    focalLength && `${Math.round(focalLength)} mm`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// "2024:05:01 14:03:22" as "2024-05-01 14:03"
+const formatDate = (date: string) =>
+  date.replace(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}).*$/, '$1-$2-$3 $4');
+
+const formatLocation = ({ gps }: PhotoMetadata) => {
+  if (!gps) {
+    return undefined;
+  }
+  const latitude = `${Math.abs(gps.latitude).toFixed(5)}° ${
+    gps.latitude < 0 ? 'S' : 'N'
+  }`;
+  const longitude = `${Math.abs(gps.longitude).toFixed(5)}° ${
+    gps.longitude < 0 ? 'W' : 'E'
+  }`;
+  return gps.altitude === undefined
+    ? `${latitude}, ${longitude}`
+    : `${latitude}, ${longitude} · ${Math.round(gps.altitude)} m`;
+};
+
+// Read-only view of the original photo's EXIF and IPTC fields. What an
+// export keeps of them is chosen on the export screen.
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({
+  metadata,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+
+  const rows = metadata
+    ? [
+        { label: 'Camera', value: formatCamera(metadata) },
+        { label: 'Lens', value: metadata.lens },
+        { label: 'Exposure', value: formatExposure(metadata) },
+        {
+          label: 'Taken',
+          value: metadata.dateTaken && formatDate(metadata.dateTaken),
+        },
+        { label: 'Location', value: formatLocation(metadata) },
+        { label: 'Title', value: metadata.title },
+        { label: 'Caption', value: metadata.caption },
+        { label: 'Author', value: metadata.author },
+        { label: 'Copyright', value: metadata.copyright },
+      ].filter(row => !!row.value)
+    : [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.onBackground }]}>
+          Photo Info
+        </Text>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={[styles.closeText, { color: colors.primary }]}>
+            Close
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {!metadata ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : rows.length === 0 ? (
+        <Text style={[styles.empty, { color: colors.onSurface }]}>
+          This photo has no camera or credit information.
+        </Text>
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {rows.map(row => (
+            <View key={row.label} style={styles.row}>
+              <Text style={[styles.label, { color: colors.onSurface }]}>
+                {row.label}
+              </Text>
+              <Text
+                style={[styles.value, { color: colors.onBackground }]}
+                selectable
+              >
+                {row.value}
+              </Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.md,
+  },
+  title: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  closeButton: {
+    marginLeft: 'auto',
+    padding: SPACING.xs,
+  },
+  closeText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '500',
+  },
+  empty: {
+    ...TYPOGRAPHY.body2,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: SPACING.xs,
+  },
+  label: {
+    ...TYPOGRAPHY.body2,
+    width: 88,
+    opacity: 0.7,
+  },
+  value: {
+    ...TYPOGRAPHY.body2,
+    flex: 1,
+  },
+});
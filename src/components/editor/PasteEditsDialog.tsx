@@ -0,0 +1,331 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { ElevatedButton } from '../common/ElevatedButton';
+import { Card } from '../common/Card';
+import { PasteFailure, useEditClipboard } from '../../hooks/useEditClipboard';
+import type { RecentProject } from '../../services/storageService';
+import { EDIT_GROUPS } from '../../services/editClipboard';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface PasteEditsDialogProps {
+  visible: boolean;
+  // Projects that can be pasted onto
+  projects: RecentProject[];
+  // Ids checked when the dialog opens
+  initialSelection?: string[];
+  onClose: () => void;
+}
+
+type PasteStatus =
+  | { state: 'selecting' }
+  | { state: 'pasting'; completed: number; total: number }
+  | { state: 'done'; pasted: number; failures: PasteFailure[] };
+
+export const PasteEditsDialog: React.FC<PasteEditsDialogProps> = ({
+  visible,
+  projects,
+  initialSelection,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const { copiedEdits, pasteIntoProjects } = useEditClipboard();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [status, setStatus] = useState<PasteStatus>({ state: 'selecting' });
+  const cancelled = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(initialSelection ?? []);
+      setStatus({ state: 'selecting' });
+    }
+  }, [visible, initialSelection]);
+
+  const copiedNames = EDIT_GROUPS.filter(group =>
+    copiedEdits?.groups.includes(group.id),
+  )
+    .map(group => group.name)
+    .join(', ');
+
+  const toggleProject = (id: string) => {
+    setSelected(current =>
+      current.includes(id)
+        ? current.filter(selectedId => selectedId !== id)
+        : [...current, id],
+    );
+    triggerHapticFeedback('light');
+  };
+
+  const handlePaste = async () => {
+    const targets = projects.filter(project => selected.includes(project.id));
+    cancelled.current = false;
+    setStatus({ state: 'pasting', completed: 0, total: targets.length });
+    let pasted = 0;
+    const failures = await pasteIntoProjects(
+      targets,
+      (completed, total) => {
+        pasted = completed;
+        setStatus({ state: 'pasting', completed, total });
+      },
+      () => cancelled.current,
+    );
+    setStatus({ state: 'done', pasted: pasted - failures.length, failures });
+    triggerHapticFeedback(failures.length ? 'heavy' : 'medium');
+  };
+
+  const renderProject = ({ item }: { item: RecentProject }) => {
+    const isSelected = selected.includes(item.id);
+    return (
+      <TouchableOpacity
+        style={[
+          styles.projectRow,
+          isSelected && { backgroundColor: colors.primary + '20' },
+        ]}
+        onPress={() => toggleProject(item.id)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: isSelected }}
+      >
+        {item.thumbnailUri ? (
+          <Image source={{ uri: item.thumbnailUri }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, { backgroundColor: colors.surface }]}>
+            <Text>📷</Text>
+          </View>
+        )}
+        <View style={styles.projectText}>
+          <Text
+            style={[styles.projectName, { color: colors.onBackground }]}
+            numberOfLines={1}
+          >
+            {item.name}
+          </Text>
+          <Text style={[styles.projectDate, { color: colors.onSurface }]}>
+            {new Date(item.lastModified).toLocaleDateString()}
+          </Text>
+        </View>
+        <Text style={[styles.check, { color: colors.primary }]}>
+          {isSelected ? '✓' : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderBody = () => {
+    switch (status.state) {
+      case 'pasting':
+        return (
+          <View style={styles.progress}>
+            <ActivityIndicator color={colors.primary} />
+            <Text style={[styles.progressText, { color: colors.onBackground }]}>
+              Pasting {Math.min(status.completed + 1, status.total)} of{' '}
+              {status.total}…
+            </Text>
+          </View>
+        );
+      case 'done':
+        return (
+          <View>
+            <Text style={[styles.summary, { color: colors.onBackground }]}>
+              Pasted onto {status.pasted}{' '}
+              {status.pasted === 1 ? 'project' : 'projects'}
+            </Text>
+            {status.failures.map(({ project, message }) => (
+              <Text
+                key={project.id}
+                style={[styles.failure, { color: colors.error }]}
+              >
+                {project.name}: {message}
+              </Text>
+            ))}
+          </View>
+        );
+      default:
+        return (
+          <FlatList
+            style={styles.projectList}
+            data={projects}
+            renderItem={renderProject}
+            keyExtractor={item => item.id}
+            ListEmptyComponent={
+              <Text style={[styles.hint, { color: colors.onSurface }]}>
+                No other recent projects
+              </Text>
+            }
+          />
+        );
+    }
+  };
+
+  const renderActions = () => {
+    switch (status.state) {
+      case 'pasting':
+        return (
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+            onPress={() => {
+              cancelled.current = true;
+            }}
+          >
+            <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+              Stop
+            </Text>
+          </TouchableOpacity>
+        );
+      case 'done':
+        return (
+          <ElevatedButton
+            title="Done"
+            onPress={onClose}
+            style={styles.pasteButton}
+          />
+        );
+      default:
+        return (
+          <>
+            <TouchableOpacity
+              style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <ElevatedButton
+              title={selected.length ? `Paste (${selected.length})` : 'Paste'}
+              onPress={handlePaste}
+              disabled={!selected.length || !copiedEdits}
+              style={styles.pasteButton}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      // Projects are being rewritten; leave only through Stop
+      onRequestClose={status.state === 'pasting' ? undefined : onClose}
+    >
+      <View style={styles.backdrop}>
+        <Card style={styles.dialog}>
+          <Text style={[styles.title, { color: colors.onBackground }]}>
+            Paste Edits
+          </Text>
+          <Text style={[styles.hint, { color: colors.onSurface }]}>
+            {copiedNames
+              ? `${copiedNames}, replacing the same kinds of edits`
+              : 'Copy edits from a photo first'}
+          </Text>
+
+          {renderBody()}
+
+          <View style={styles.actions}>{renderActions()}</View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    padding: SPACING.lg,
+    maxHeight: '80%',
+  },
+  title: {
+    ...TYPOGRAPHY.headline2,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption,
+    marginBottom: SPACING.md,
+  },
+  projectList: {
+    flexGrow: 0,
+  },
+  projectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm,
+    borderRadius: 8,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  projectText: {
+    flex: 1,
+    marginLeft: SPACING.md,
+  },
+  projectName: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  projectDate: {
+    ...TYPOGRAPHY.caption,
+  },
+  check: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '700',
+    width: 24,
+    textAlign: 'center',
+  },
+  progress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.md,
+  },
+  progressText: {
+    ...TYPOGRAPHY.body1,
+  },
+  summary: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+    marginBottom: SPACING.sm,
+  },
+  failure: {
+    ...TYPOGRAPHY.caption,
+    marginBottom: SPACING.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.lg,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  pasteButton: {
+    flex: 1,
+  },
+});
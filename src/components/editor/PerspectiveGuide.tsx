@@ -0,0 +1,180 @@
+import React, { useMemo, useRef } from 'react';
+import { View, PanResponder, StyleSheet } from 'react-native';
+import {
+  Quad,
+  QuadPoint,
+  getFrameQuad,
+  getPerspectiveTransform,
+  isConvexQuad,
+  projectPoint,
+} from '../../services/raster';
+
+interface PerspectiveGuideProps {
+  // Stage size; corners are in the same display coordinates
+  width: number;
+  height: number;
+  corners: Quad;
+  color: string;
+  onChange: (corners: Quad) => void;
+  // Called once when the finger lifts
+  onChangeComplete?: () => void;
+}
+
+const HANDLE_SIZE = 28;
+const LINE_WIDTH = 2;
+const GRID_DIVISIONS = 3;
+
+const CORNER_LABELS = [
+  'Top left corner',
+  'Top right corner',
+  'Bottom right corner',
+  'Bottom left corner',
+];
+
+// Straight segment drawn as a rotated View, since there is no vector layer
+const Segment: React.FC<{
+  from: QuadPoint;
+  to: QuadPoint;
+  color: string;
+  thickness: number;
+  opacity?: number;
+}> = ({ from, to, color, thickness, opacity = 1 }) => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.segment,
+        {
+          left: (from.x + to.x) / 2 - length / 2,
+          top: (from.y + to.y) / 2 - thickness / 2,
+          width: length,
+          height: thickness,
+          opacity,
+          backgroundColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+};
+
+// Four independently draggable corners for perspective correction. The grid
+// is projected through the same homography as the warp, so lines that should
+// be straight or parallel in the result can be lined up against it.
+export const PerspectiveGuide: React.FC<PerspectiveGuideProps> = ({
+  width,
+  height,
+  corners,
+  color,
+  onChange,
+  onChangeComplete,
+}) => {
+  const latest = useRef({ corners, onChange, onChangeComplete });
+  latest.current = { corners, onChange, onChangeComplete };
+  const dragStart = useRef<QuadPoint>({ x: 0, y: 0 });
+
+  const responders = useMemo(
+    () =>
+      [0, 1, 2, 3].map(index =>
+        PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onMoveShouldSetPanResponder: () => true,
+          onPanResponderTerminationRequest: () => false,
+          onPanResponderGrant: () => {
+            dragStart.current = { ...latest.current.corners[index] };
+          },
+          onPanResponderMove: (_event, gesture) => {
+            const moved = {
+              x: Math.max(0, Math.min(width, dragStart.current.x + gesture.dx)),
+              y: Math.max(
+                0,
+                Math.min(height, dragStart.current.y + gesture.dy),
+              ),
+            };
+            const next = latest.current.corners.map((point, i) =>
+              i === index ? moved : point,
+            ) as Quad;
+            // A corner cannot cross the diagonal; the warp needs a convex quad
+            if (isConvexQuad(next)) {
+              latest.current.onChange(next);
+            }
+          },
+          onPanResponderRelease: () => latest.current.onChangeComplete?.(),
+          onPanResponderTerminate: () => latest.current.onChangeComplete?.(),
+        }),
+      ),
+    [width, height],
+  );
+
+  const gridLines = useMemo(() => {
+    const matrix = getPerspectiveTransform(getFrameQuad(1, 1), corners);
+    if (!matrix) {
+      return [];
+    }
+    const lines: [QuadPoint, QuadPoint][] = [];
+    for (let i = 1; i < GRID_DIVISIONS; i++) {
+      const t = i / GRID_DIVISIONS;
+      lines.push([projectPoint(matrix, t, 0), projectPoint(matrix, t, 1)]);
+      lines.push([projectPoint(matrix, 0, t), projectPoint(matrix, 1, t)]);
+    }
+    return lines;
+  }, [corners]);
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container]}>
+      {gridLines.map(([from, to], i) => (
+        <Segment
+          key={`grid-${i}`}
+          from={from}
+          to={to}
+          color={color}
+          thickness={1}
+          opacity={0.5}
+        />
+      ))}
+      {corners.map((point, i) => (
+        <Segment
+          key={`edge-${i}`}
+          from={point}
+          to={corners[(i + 1) % 4]}
+          color={color}
+          thickness={LINE_WIDTH}
+        />
+      ))}
+      {corners.map((point, i) => (
+        <View
+          key={`corner-${i}`}
+          style={[
+            styles.handle,
+            {
+              left: point.x - HANDLE_SIZE / 2,
+              top: point.y - HANDLE_SIZE / 2,
+              borderColor: color,
+            },
+          ]}
+          accessibilityLabel={CORNER_LABELS[i]}
+          {...responders[i].panHandlers}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'visible',
+  },
+  segment: {
+    position: 'absolute',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    borderWidth: 3,
+    backgroundColor: 'rgba(255,255,255,0.6)',
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { ElevatedButton } from '../common/ElevatedButton';
+import { Card } from '../common/Card';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+// Single text field prompt for naming, renaming and importing presets
+interface PresetDialogProps {
+  visible: boolean;
+  title: string;
+  hint?: string;
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  // Room for pasted preset JSON
+  multiline?: boolean;
+  maxLength?: number;
+  // Rejects with the reason the value could not be used
+  onSubmit: (value: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const PresetDialog: React.FC<PresetDialogProps> = ({
+  visible,
+  title,
+  hint,
+  placeholder,
+  submitLabel,
+  initialValue = '',
+  multiline = false,
+  maxLength,
+  onSubmit,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const [value, setValue] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+      setError(null);
+    }
+  }, [visible, initialValue]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(value.trim());
+      onClose();
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Something went wrong',
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <Card style={styles.dialog}>
+          <Text style={[styles.title, { color: colors.onBackground }]}>
+            {title}
+          </Text>
+          {hint && (
+            <Text style={[styles.hint, { color: colors.onSurface }]}>
+              {hint}
+            </Text>
+          )}
+
+          <TextInput
+            style={[
+              styles.input,
+              multiline && styles.inputMultiline,
+              { color: colors.onBackground, backgroundColor: colors.surface },
+            ]}
+            placeholder={placeholder}
+            placeholderTextColor={colors.onSurface}
+            value={value}
+            onChangeText={setValue}
+            multiline={multiline}
+            maxLength={maxLength}
+            autoCapitalize={multiline ? 'none' : 'sentences'}
+            autoCorrect={!multiline}
+            autoFocus
+          />
+
+          {error && (
+            <Text style={[styles.error, { color: colors.error }]}>{error}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+              onPress={onClose}
+              disabled={submitting}
+            >
+              <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            {submitting ? (
+              <ActivityIndicator
+                style={styles.submitButton}
+                color={colors.primary}
+              />
+            ) : (
+              <ElevatedButton
+                title={submitLabel}
+                onPress={handleSubmit}
+                disabled={!value.trim()}
+                style={styles.submitButton}
+              />
+            )}
+          </View>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    padding: SPACING.lg,
+  },
+  title: {
+    ...TYPOGRAPHY.headline2,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption,
+    marginBottom: SPACING.md,
+  },
+  input: {
+    ...TYPOGRAPHY.body1,
+    borderRadius: 8,
+    padding: SPACING.md,
+  },
+  inputMultiline: {
+    height: 120,
+    textAlignVertical: 'top',
+  },
+  error: {
+    ...TYPOGRAPHY.caption,
+    marginTop: SPACING.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.lg,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  submitButton: {
+    flex: 1,
+  },
+});
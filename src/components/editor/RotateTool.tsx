@@ -1,83 +1,72 @@
-import React, { useRef, useState } from 'react';
+import React from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  Dimensions,
-  Image,
-  ViewStyle,
 } from 'react-native';
-// No preview and no view-shot: use processor rotation
 import { useTheme } from '../../utils/theme';
 import { triggerHapticFeedback } from '../../utils/accessibility';
 import { TYPOGRAPHY } from '../../constants/typography';
 import { SPACING } from '../../constants/spacing';
+import { StraightenDial } from './StraightenDial';
 
-const { width: screenWidth } = Dimensions.get('window');
+export interface StraightenSettings {
+  angle: number; // clockwise degrees, -45..45
+  // Crop to the inscribed rectangle, or keep the frame and fill the corners
+  autoCrop: boolean;
+}
+
+export const DEFAULT_STRAIGHTEN: StraightenSettings = {
+  angle: 0,
+  autoCrop: true,
+};
+
+const CORNER_MODES: { autoCrop: boolean; label: string }[] = [
+  { autoCrop: true, label: 'Auto-crop' },
+  { autoCrop: false, label: 'Fill corners' },
+];
 
 interface RotateToolProps {
-  imageUri: string;
-  onRotate: (processedUri: string, finalize?: boolean) => void;
-  outputWidth?: number;
-  outputHeight?: number;
+  // Clockwise degrees to add to the document rotation
+  onRotate: (angle: number) => void;
+  // Mirrors the document; the editor folds it into the current orientation
+  onFlip: (direction: 'horizontal' | 'vertical') => void;
+  // Straightening is previewed by the editor, so it is controlled
+  straighten: StraightenSettings;
+  onStraightenChange: (settings: StraightenSettings) => void;
+  onApply: () => void;
   onCancel: () => void;
 }
 
-// Rotation is fixed at 90° clockwise per apply
-
+// Rotations are recorded as edit graph nodes and rendered from the original
 export const RotateTool: React.FC<RotateToolProps> = ({
-  imageUri,
   onRotate,
-  outputWidth,
-  outputHeight,
+  onFlip,
+  straighten,
+  onStraightenChange,
+  onApply,
   onCancel,
 }) => {
   const { colors } = useTheme();
 
-  // Current rotation angle selected via buttons
-  const [rotationAngle, setRotationAngle] = useState<number>(90);
-
-  const MAX_DIM = 2048; // lower cap to avoid iOS capture stalls
-  const baseW = Math.min(outputWidth || Math.round(screenWidth * 0.6), MAX_DIM);
-  const baseH = Math.min(outputHeight || Math.round(screenWidth * 0.6), MAX_DIM);
-  const stageW = rotationAngle === 90 || rotationAngle === 270 ? baseH : baseW;
-  const stageH = rotationAngle === 90 || rotationAngle === 270 ? baseW : baseH;
-
-  const stageStyle: ViewStyle = {}; // not used anymore
-
-  const handleApply = async () => {
-    // Do NOT rotate again on Apply; just finalize current state
-    onRotate(imageUri, true);
+  const rotateLeft = () => {
+    onRotate(-90);
+    triggerHapticFeedback('heavy');
   };
 
-  const rotateViaProcessor = async (angle: number, finalize = false) => {
-    try {
-      const { imageProcessor } = await import('../../services/imageProcessor');
-      const result = await imageProcessor.processImage(imageUri, [
-        { type: 'rotate', angle },
-      ]);
-      if (result.processedUri) {
-        onRotate(result.processedUri, finalize);
-        triggerHapticFeedback('heavy');
-      }
-    } catch (e) {
-      console.error('Processor rotate failed:', e);
-    }
+  const rotateRight = () => {
+    onRotate(90);
+    triggerHapticFeedback('heavy');
   };
 
-  const rotateLeft = async () => {
-    await rotateViaProcessor(270, false);
-  };
-
-  const rotateRight = async () => {
-    await rotateViaProcessor(90, false);
+  const flip = (direction: 'horizontal' | 'vertical') => {
+    onFlip(direction);
+    triggerHapticFeedback('heavy');
   };
 
   return (
     <View style={styles.container}>
-      {/* no hidden stage; rotation handled by processor */}
-
       {/* Minimal controls with Rotate Left/Right and Cancel/Apply */}
       <View style={[styles.controlsContainer, { backgroundColor: colors.surface }]}>
         <Text style={[styles.toolTitle, { color: colors.onBackground }]}>Rotate</Text>
@@ -97,6 +86,59 @@ export const RotateTool: React.FC<RotateToolProps> = ({
             <Text style={[styles.rotationText, { color: colors.onBackground }]}>Right 90°</Text>
           </TouchableOpacity>
         </View>
+        <View style={styles.rotationButtons}>
+          <TouchableOpacity
+            style={[styles.rotationButton, { backgroundColor: colors.background }]}
+            onPress={() => flip('horizontal')}
+            accessibilityRole="button"
+            accessibilityLabel="Flip horizontally"
+          >
+            <Text style={styles.rotationIcon}>⇋</Text>
+            <Text style={[styles.rotationText, { color: colors.onBackground }]}>Flip H</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.rotationButton, { backgroundColor: colors.background }]}
+            onPress={() => flip('vertical')}
+            accessibilityRole="button"
+            accessibilityLabel="Flip vertically"
+          >
+            <Text style={styles.rotationIcon}>⇵</Text>
+            <Text style={[styles.rotationText, { color: colors.onBackground }]}>Flip V</Text>
+          </TouchableOpacity>
+        </View>
+        <StraightenDial
+          value={straighten.angle}
+          onValueChange={angle => onStraightenChange({ ...straighten, angle })}
+        />
+        <View style={styles.cornerModes}>
+          {CORNER_MODES.map(mode => {
+            const isActive = straighten.autoCrop === mode.autoCrop;
+            return (
+              <TouchableOpacity
+                key={mode.label}
+                style={[
+                  styles.cornerMode,
+                  { borderColor: colors.primary },
+                  isActive && { backgroundColor: colors.primary },
+                ]}
+                onPress={() =>
+                  onStraightenChange({ ...straighten, autoCrop: mode.autoCrop })
+                }
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text
+                  style={[
+                    styles.cornerModeText,
+                    { color: isActive ? colors.onPrimary : colors.primary },
+                  ]}
+                >
+                  {mode.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
         <View style={styles.actionButtons}>
           <TouchableOpacity
             style={[styles.cancelButton, { backgroundColor: colors.background }]}
@@ -106,7 +148,7 @@ export const RotateTool: React.FC<RotateToolProps> = ({
           </TouchableOpacity>
           <TouchableOpacity
             style={[styles.applyButton, { backgroundColor: colors.primary }]}
-            onPress={handleApply}
+            onPress={onApply}
           >
             <Text style={[styles.applyText, { color: colors.onPrimary }]}>Apply</Text>
           </TouchableOpacity>
@@ -120,11 +162,6 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
-  actualImage: {
-    width: '100%',
-    height: '100%',
-    borderRadius: 8,
-  },
   controlsContainer: {
     padding: SPACING.md,
     borderTopLeftRadius: 16,
@@ -154,6 +191,21 @@ const styles = StyleSheet.create({
     ...TYPOGRAPHY.body2,
     fontWeight: '600',
   },
+  cornerModes: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  cornerMode: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: SPACING.sm,
+    alignItems: 'center',
+  },
+  cornerModeText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '600',
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
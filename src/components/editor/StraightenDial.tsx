@@ -0,0 +1,193 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  PanResponder,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface StraightenDialProps {
+  // Clockwise degrees, -45..45 in 0.1 steps
+  value: number;
+  onValueChange: (value: number) => void;
+  // Called once when the finger lifts, with the final value
+  onSlidingComplete?: (value: number) => void;
+}
+
+const MAX_ANGLE = 45;
+// Dragging one tick spacing turns the dial by one degree
+const PIXELS_PER_DEGREE = 12;
+const TICKS = Array.from(
+  { length: MAX_ANGLE * 2 + 1 },
+  (_, i) => i - MAX_ANGLE,
+);
+
+const roundToTenth = (value: number) =>
+  Math.round(Math.max(-MAX_ANGLE, Math.min(MAX_ANGLE, value)) * 10) / 10;
+
+const formatAngle = (value: number) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}°`;
+
+// Ruler dial for fine rotation: the scale slides under a fixed center mark.
+// Passing zero gives a haptic detent, and tapping the readout levels it.
+export const StraightenDial: React.FC<StraightenDialProps> = ({
+  value,
+  onValueChange,
+  onSlidingComplete,
+}) => {
+  const { colors } = useTheme();
+
+  const latest = useRef({ value, onValueChange, onSlidingComplete });
+  latest.current = { value, onValueChange, onSlidingComplete };
+  const gesture = useRef({ start: 0, value });
+
+  const responder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => {
+          gesture.current = {
+            start: latest.current.value,
+            value: latest.current.value,
+          };
+        },
+        onPanResponderMove: (_event, state) => {
+          // Dragging left brings higher angles under the mark
+          const next = roundToTenth(
+            gesture.current.start - state.dx / PIXELS_PER_DEGREE,
+          );
+          const previous = gesture.current.value;
+          if (next === previous) {
+            return;
+          }
+          if (next === 0 || Math.sign(next) === -Math.sign(previous)) {
+            triggerHapticFeedback('light');
+          }
+          gesture.current.value = next;
+          latest.current.onValueChange(next);
+        },
+        onPanResponderRelease: () =>
+          latest.current.onSlidingComplete?.(gesture.current.value),
+        onPanResponderTerminate: () =>
+          latest.current.onSlidingComplete?.(gesture.current.value),
+      }),
+    [],
+  );
+
+  const commit = (next: number) => {
+    onValueChange(next);
+    onSlidingComplete?.(next);
+  };
+
+  return (
+    <View
+      style={styles.container}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel="Straighten"
+      accessibilityValue={{
+        min: -MAX_ANGLE,
+        max: MAX_ANGLE,
+        now: value,
+        text: formatAngle(value),
+      }}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={event =>
+        commit(
+          roundToTenth(
+            value + (event.nativeEvent.actionName === 'increment' ? 0.1 : -0.1),
+          ),
+        )
+      }
+    >
+      <TouchableOpacity onPress={() => commit(0)} disabled={value === 0}>
+        <Text style={[styles.value, { color: colors.onBackground }]}>
+          {formatAngle(value)}
+        </Text>
+      </TouchableOpacity>
+      <View style={styles.dial} {...responder.panHandlers}>
+        <View
+          pointerEvents="none"
+          style={[
+            styles.scale,
+            { transform: [{ translateX: -value * PIXELS_PER_DEGREE }] },
+          ]}
+        >
+          {TICKS.map(tick => {
+            const isMajor = tick % 5 === 0;
+            return (
+              <View
+                key={tick}
+                style={[
+                  styles.tick,
+                  isMajor ? styles.majorTick : styles.minorTick,
+                  {
+                    left: tick * PIXELS_PER_DEGREE,
+                    backgroundColor: colors.onSurface,
+                  },
+                ]}
+              />
+            );
+          })}
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.centerMark, { backgroundColor: colors.primary }]}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: SPACING.md,
+  },
+  value: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: SPACING.xs,
+  },
+  dial: {
+    height: 36,
+    overflow: 'hidden',
+    justifyContent: 'center',
+  },
+  // Zero-width anchor at the dial's center; ticks hang off it
+  scale: {
+    position: 'absolute',
+    left: '50%',
+    top: 0,
+    bottom: 0,
+  },
+  tick: {
+    position: 'absolute',
+    bottom: 9,
+    width: 1,
+  },
+  majorTick: {
+    height: 18,
+    opacity: 0.9,
+  },
+  minorTick: {
+    height: 10,
+    opacity: 0.4,
+  },
+  centerMark: {
+    position: 'absolute',
+    left: '50%',
+    marginLeft: -1,
+    top: 0,
+    bottom: 0,
+    width: 2,
+    borderRadius: 1,
+  },
+});
@@ -0,0 +1,180 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { triggerHapticFeedback } from '../../utils/accessibility';
+import { ValueSlider } from '../common/ValueSlider';
+import {
+  NEUTRAL_WHITE_BALANCE,
+  WhiteBalanceSettings,
+} from '../../services/raster';
+import { TYPOGRAPHY } from '../../constants/typography';
+import { SPACING } from '../../constants/spacing';
+
+interface WhiteBalanceToolProps {
+  settings: WhiteBalanceSettings;
+  onChange: (settings: WhiteBalanceSettings) => void;
+  // While picking, the next tap on the canvas samples a neutral color
+  isPicking: boolean;
+  onTogglePicker: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+// Temperature and tint sliders plus a neutral-gray eyedropper. The canvas
+// owns the eyedropper tap, so the settings are controlled by the editor.
+export const WhiteBalanceTool: React.FC<WhiteBalanceToolProps> = ({
+  settings,
+  onChange,
+  isPicking,
+  onTogglePicker,
+  onApply,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.onBackground }]}>
+          White Balance
+        </Text>
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => {
+            onChange(NEUTRAL_WHITE_BALANCE);
+            triggerHapticFeedback('light');
+          }}
+        >
+          <Text style={[styles.resetText, { color: colors.primary }]}>
+            Reset
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[
+          styles.pickerButton,
+          { borderColor: colors.primary },
+          isPicking && { backgroundColor: colors.primary },
+        ]}
+        onPress={onTogglePicker}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isPicking }}
+      >
+        <Text
+          style={[
+            styles.pickerText,
+            { color: isPicking ? colors.onPrimary : colors.primary },
+          ]}
+        >
+          {isPicking
+            ? 'Tap something white or gray in the photo'
+            : '💧 Pick Neutral Gray'}
+        </Text>
+      </TouchableOpacity>
+
+      <ValueSlider
+        label="Temperature"
+        value={settings.temperature}
+        min={-100}
+        max={100}
+        origin={0}
+        formatValue={formatSigned}
+        onValueChange={temperature => onChange({ ...settings, temperature })}
+      />
+      <ValueSlider
+        label="Tint"
+        value={settings.tint}
+        min={-100}
+        max={100}
+        origin={0}
+        formatValue={formatSigned}
+        onValueChange={tint => onChange({ ...settings, tint })}
+      />
+
+      <View style={styles.actionButtons}>
+        <TouchableOpacity
+          style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+          onPress={onCancel}
+        >
+          <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.applyButton, { backgroundColor: colors.primary }]}
+          onPress={onApply}
+        >
+          <Text style={[styles.applyText, { color: colors.onPrimary }]}>
+            Apply
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.md,
+  },
+  title: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  resetButton: {
+    marginLeft: 'auto',
+    padding: SPACING.xs,
+  },
+  resetText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '500',
+  },
+  pickerButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: SPACING.sm,
+    alignItems: 'center',
+    marginBottom: SPACING.md,
+  },
+  pickerText: {
+    ...TYPOGRAPHY.body2,
+    fontWeight: '600',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 'auto',
+    paddingTop: SPACING.sm,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+  },
+});
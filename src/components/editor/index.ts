@@ -1,9 +1,31 @@
 export { TextTool } from './TextTool';
 export { BlurTool } from './BlurTool';
+export type { BlurMask } from './BlurTool';
 export { FilterTool } from './FilterTool';
+export { FilterThumbnail } from './FilterThumbnail';
+export { FilterStackList } from './FilterStackList';
+export type { FilterThumbnailSource } from './FilterThumbnail';
 export { CropTool } from './CropTool';
-export { RotateTool } from './RotateTool';
-export { FilteredPreview } from './FilteredPreview';
-export { FilteredExtractor } from './FilteredExtractor';
+export type { CropMode } from './CropTool';
+export { RotateTool, DEFAULT_STRAIGHTEN } from './RotateTool';
+export type { StraightenSettings } from './RotateTool';
+export { LutImportDialog } from './LutImportDialog';
+export { PresetDialog } from './PresetDialog';
+export { CopyEditsDialog } from './CopyEditsDialog';
+export { PasteEditsDialog } from './PasteEditsDialog';
 export { MaskedBlurPreview } from './MaskedBlurPreview';
 export { MaskedBlurExtractor } from './MaskedBlurExtractor';
+export {
+  AdjustTool,
+  ADJUST_OPERATION_TYPES,
+  applyAdjustSettings,
+  getAdjustOperation,
+  getAdjustSettings,
+} from './AdjustTool';
+export type { AdjustSettings } from './AdjustTool';
+export { CurveEditor } from './CurveEditor';
+export { PerspectiveGuide } from './PerspectiveGuide';
+export { StraightenDial } from './StraightenDial';
+export { HslTool } from './HslTool';
+export { WhiteBalanceTool } from './WhiteBalanceTool';
+export { MetadataPanel } from './MetadataPanel';
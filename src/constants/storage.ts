@@ -0,0 +1,11 @@
+export const STORAGE_LIMITS = {
+  // Shared by the recentProjects slice and StorageService file cleanup
+  maxRecentProjects: 20,
+} as const;
+
+// Keys StorageService wrote before recent projects and preferences moved into
+// the persisted redux state. Read once by the v3 persist migration.
+export const LEGACY_STORAGE_KEYS = {
+  USER_PREFERENCES: 'user_preferences',
+  RECENT_PROJECTS: 'recent_projects',
+} as const;
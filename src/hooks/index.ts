@@ -1,2 +1,5 @@
 export * from './useStorage';
 export * from './useImageProcessing';
+export * from './useLuts';
+export * from './usePresets';
+export * from './useLiveEdit';
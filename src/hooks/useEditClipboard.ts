@@ -0,0 +1,128 @@
+import { useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../store';
+import {
+  clearCopiedEdits,
+  setCopiedEdits,
+} from '../store/slices/clipboardSlice';
+import { updateProject } from '../store/slices/recentProjectsSlice';
+import type { RecentProject } from '../services/storageService';
+import {
+  Dimensions,
+  EditOperation,
+  toImageOperations,
+} from '../services/editGraph';
+import { EditGroup, copyEdits, pasteEdits } from '../services/editClipboard';
+import type { ProjectSession } from '../services/projectFormat';
+import { projectService } from '../services/projectService';
+import { imageProcessor } from '../services/imageProcessor';
+
+export interface PasteFailure {
+  project: RecentProject;
+  message: string;
+}
+
+// Edit session of a recent project. Entries from before project files were
+// saved only have their photo, and start from an empty graph.
+const loadProjectSession = async (
+  project: RecentProject,
+): Promise<ProjectSession> => {
+  if (project.projectData) {
+    return projectService.loadProject(project.id);
+  }
+  const { width, height } = await imageProcessor.getImageSize(
+    project.originalUri,
+  );
+  return {
+    id: project.id,
+    name: project.name,
+    sourceUri: project.originalUri,
+    width,
+    height,
+    operations: [],
+    view: { zoom: 1, pan: { x: 0, y: 0 } },
+    createdAt: project.createdAt,
+    modifiedAt: project.lastModified,
+  };
+};
+
+export const useEditClipboard = () => {
+  const dispatch = useDispatch();
+  const copiedEdits = useSelector((state: RootState) => state.clipboard.edits);
+
+  const copy = useCallback(
+    (
+      operations: EditOperation[],
+      original: Dimensions,
+      groups: EditGroup[],
+    ) => {
+      dispatch(setCopiedEdits(copyEdits(operations, original, groups)));
+    },
+    [dispatch],
+  );
+
+  const clear = useCallback(() => {
+    dispatch(clearCopiedEdits());
+  }, [dispatch]);
+
+  // Pastes onto recent projects one at a time, saving each project's files
+  // and rendering a new thumbnail. Stops early once `isCancelled` says so.
+  // Resolves with the projects that could not be changed.
+  const pasteIntoProjects = useCallback(
+    async (
+      projects: RecentProject[],
+      onProgress?: (completed: number, total: number) => void,
+      isCancelled?: () => boolean,
+    ): Promise<PasteFailure[]> => {
+      if (!copiedEdits) {
+        return [];
+      }
+      const failures: PasteFailure[] = [];
+      for (let i = 0; i < projects.length && !isCancelled?.(); i++) {
+        const project = projects[i];
+        try {
+          const session = await loadProjectSession(project);
+          const operations = pasteEdits(
+            session.operations,
+            session,
+            copiedEdits,
+          );
+          const manifest = await projectService.saveProject({
+            ...session,
+            operations,
+          });
+          const projectData = await projectService.getProjectReference(
+            manifest.id,
+          );
+          const thumbnailUri = await imageProcessor.renderThumbnail(
+            session.sourceUri,
+            toImageOperations(operations),
+          );
+          dispatch(
+            updateProject({
+              id: project.id,
+              updates: { projectData, thumbnailUri, isSaved: false },
+            }),
+          );
+        } catch (error) {
+          console.error(`Failed to paste edits onto ${project.name}:`, error);
+          failures.push({
+            project,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+        onProgress?.(i + 1, projects.length);
+      }
+      return failures;
+    },
+    [dispatch, copiedEdits],
+  );
+
+  return {
+    copiedEdits,
+    copyEdits: copy,
+    clearCopiedEdits: clear,
+    loadProjectSession,
+    pasteIntoProjects,
+  };
+};
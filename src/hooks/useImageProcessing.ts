@@ -1,5 +1,12 @@
 import { useState, useCallback, useRef } from 'react';
-import { imageProcessor, ImageOperation, ProcessingResult } from '../services/imageProcessor';
+import {
+  imageProcessor,
+  BatchItemStatus,
+  ImageOperation,
+  ProcessingResult,
+  UnsupportedSourceError,
+} from '../services/imageProcessor';
+import { MetadataOptions } from '../services/codecs';
 import { useErrorHandler } from '../utils/errorHandler';
 
 export interface ImageProcessingOptions {
@@ -7,12 +14,16 @@ export interface ImageProcessingOptions {
   format?: 'jpeg' | 'png';
   generateThumbnail?: boolean;
   priority?: 'low' | 'normal' | 'high';
+  metadata?: MetadataOptions;
 }
 
 export interface BatchProcessingOptions {
   quality?: number;
   format?: 'jpeg' | 'png';
+  metadata?: MetadataOptions;
   onProgress?: (completed: number, total: number) => void;
+  onItemProgress?: (index: number, status: BatchItemStatus) => void;
+  isCancelled?: () => boolean;
 }
 
 export const useImageProcessing = () => {
@@ -47,6 +58,10 @@ export const useImageProcessing = () => {
       return result;
     } catch (error) {
       handleError(error, { context: 'imageProcessing', imageUri, operations });
+      // The caller tells the user which edits could not be applied
+      if (error instanceof UnsupportedSourceError) {
+        throw error;
+      }
       return null;
     } finally {
       setTimeout(() => {
@@ -255,48 +270,53 @@ export const useImageTransformations = () => {
 export const useImagePreview = () => {
   const [previewUri, setPreviewUri] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Renders can overlap while a slider moves; only the newest one is shown
+  const latestRequestRef = useRef(0);
 
   const generatePreview = useCallback(async (
     imageUri: string,
     operations: ImageOperation[],
-    options: { maxWidth?: number; maxHeight?: number; quality?: number } = {}
+    options: { maxWidth?: number; maxHeight?: number } = {}
   ) => {
+    const requestId = ++latestRequestRef.current;
     try {
       setIsGenerating(true);
 
-      // Create a low-quality preview version
-      const previewOperations = [
-        ...operations,
-        { type: 'resize' as const, width: options.maxWidth || 400, height: options.maxHeight || 400 },
-      ];
-
-      const result = await imageProcessor.processImage(imageUri, previewOperations, {
-        quality: options.quality || 70,
-        format: 'jpeg',
-        priority: 'high',
-      });
+      const maxSize = Math.max(options.maxWidth || 1080, options.maxHeight || 1080);
+      const uri = await imageProcessor.renderPreview(imageUri, operations, maxSize);
 
-      if (result) {
-        setPreviewUri(result.processedUri);
+      if (requestId === latestRequestRef.current) {
+        setPreviewUri(uri);
       }
-
-      return result;
+      return uri;
     } catch (error) {
       console.error('Failed to generate preview:', error);
       return null;
     } finally {
-      setIsGenerating(false);
+      if (requestId === latestRequestRef.current) {
+        setIsGenerating(false);
+      }
     }
   }, []);
 
   const clearPreview = useCallback(() => {
+    latestRequestRef.current++;
     setPreviewUri(null);
+    setIsGenerating(false);
   }, []);
 
+  // Eyedropper reads from the same preview-resolution render
+  const sampleColor = useCallback((
+    imageUri: string,
+    operations: ImageOperation[],
+    point: { x: number; y: number }
+  ) => imageProcessor.sampleColor(imageUri, operations, point), []);
+
   return {
     previewUri,
     isGenerating,
     generatePreview,
     clearPreview,
+    sampleColor,
   };
 };
@@ -0,0 +1,63 @@
+import { useCallback, useRef } from 'react';
+import { useDispatch, useStore } from 'react-redux';
+import {
+  EditorCheckpoint,
+  EditorState,
+  restoreCheckpoint,
+  sealHistory,
+  setOperations,
+} from '../store/slices/editorSlice';
+import type { EditOperation } from '../services/editGraph';
+
+// For tools that write the edit graph while their controls move. Changes
+// between two `seal` calls (one slider drag) merge into a single undo step;
+// `cancel` puts the graph and its undo and redo stacks back as `begin`
+// found them.
+export const useLiveEdit = (coalesceKey: string) => {
+  const dispatch = useDispatch();
+  const store = useStore<{ editor: EditorState }>();
+  const checkpoint = useRef<EditorCheckpoint | null>(null);
+
+  const takeCheckpoint = useCallback(() => {
+    const { operations, history } = store.getState().editor;
+    checkpoint.current = {
+      operations,
+      past: history.past,
+      future: history.future,
+    };
+  }, [store]);
+
+  const begin = useCallback(() => {
+    // Nothing from before the tool opened merges into its first step
+    dispatch(sealHistory());
+    takeCheckpoint();
+  }, [dispatch, takeCheckpoint]);
+
+  const change = useCallback(
+    (operations: EditOperation[]) => {
+      if (checkpoint.current === null) {
+        takeCheckpoint();
+      }
+      dispatch(setOperations(operations, coalesceKey));
+    },
+    [dispatch, coalesceKey, takeCheckpoint],
+  );
+
+  const seal = useCallback(() => {
+    dispatch(sealHistory());
+  }, [dispatch]);
+
+  const finish = useCallback(() => {
+    dispatch(sealHistory());
+    checkpoint.current = null;
+  }, [dispatch]);
+
+  const cancel = useCallback(() => {
+    if (checkpoint.current !== null) {
+      dispatch(restoreCheckpoint(checkpoint.current));
+    }
+    checkpoint.current = null;
+  }, [dispatch]);
+
+  return { begin, change, seal, finish, cancel };
+};
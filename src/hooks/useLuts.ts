@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ImportLutOptions, lutService } from '../services/lutService';
+import type { FilterPreset } from '../services/filterRegistry';
+import { handleStorageError } from '../utils/errorHandler';
+
+// Imported LUTs as filter presets. Import errors are left to the caller,
+// which shows why a file was rejected.
+export const useLuts = () => {
+  const [luts, setLuts] = useState<FilterPreset[]>(() => lutService.getLuts());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    lutService.loadLuts().then(() => {
+      if (active) {
+        setLuts(lutService.getLuts());
+        setLoading(false);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const importLut = useCallback(
+    async (uri: string, options?: ImportLutOptions) => {
+      const preset = await lutService.importLut(uri, options);
+      setLuts(lutService.getLuts());
+      return preset;
+    },
+    [],
+  );
+
+  const removeLut = useCallback(async (id: string) => {
+    try {
+      await lutService.removeLut(id);
+    } catch (error) {
+      console.error('Failed to remove LUT:', error);
+      handleStorageError({ context: { operation: 'removeLut' } });
+    }
+    setLuts(lutService.getLuts());
+  }, []);
+
+  return {
+    luts,
+    loading,
+    importLut,
+    removeLut,
+  };
+};
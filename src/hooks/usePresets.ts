@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react';
+import Share from 'react-native-share';
+import { presetService } from '../services/presetService';
+import type { UserPreset } from '../services/presetFormat';
+import type { ImageOperation } from '../services/imageProcessor';
+import { handleStorageError } from '../utils/errorHandler';
+
+// Saved user presets. Save, rename and import errors are left to the caller,
+// which shows why a name or file was rejected.
+export const usePresets = () => {
+  const [presets, setPresets] = useState<UserPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setPresets(await presetService.getPresets());
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    presetService.getPresets().then(stored => {
+      if (active) {
+        setPresets(stored);
+        setLoading(false);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const savePreset = useCallback(
+    async (name: string, operations: ImageOperation[]) => {
+      const preset = await presetService.savePreset(name, operations);
+      await refresh();
+      return preset;
+    },
+    [refresh],
+  );
+
+  const renamePreset = useCallback(
+    async (id: string, name: string) => {
+      const preset = await presetService.renamePreset(id, name);
+      await refresh();
+      return preset;
+    },
+    [refresh],
+  );
+
+  const deletePreset = useCallback(
+    async (id: string) => {
+      try {
+        await presetService.deletePreset(id);
+      } catch (error) {
+        console.error('Failed to delete preset:', error);
+        handleStorageError({ context: { operation: 'deletePreset' } });
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const importPreset = useCallback(
+    async (source: string) => {
+      const preset = await presetService.importPreset(source);
+      await refresh();
+      return preset;
+    },
+    [refresh],
+  );
+
+  // Opens the share sheet with the preset as a JSON file
+  const exportPreset = useCallback(async (preset: UserPreset) => {
+    try {
+      const url = await presetService.exportPreset(preset);
+      await Share.open({
+        url,
+        type: 'application/json',
+        filename: preset.name,
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Failed to export preset:', error);
+      handleStorageError({ context: { operation: 'exportPreset' } });
+    }
+  }, []);
+
+  return {
+    presets,
+    loading,
+    savePreset,
+    renamePreset,
+    deletePreset,
+    importPreset,
+    exportPreset,
+  };
+};
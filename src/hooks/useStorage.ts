@@ -1,14 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { storageService, UserPreferences, RecentProject, CachedAsset } from '../services/storageService';
+import { storageService, RecentProject, CachedAsset } from '../services/storageService';
 import {
-  setTheme,
-  setQualityPreference,
-  setFormatPreference,
-  addLastUsedTool,
-  setHapticFeedback,
-  setSoundEffects,
+  UserPreferences,
+  updatePreferences as updatePreferencesAction,
   resetPreferences,
 } from '../store/slices/userPreferencesSlice';
 import {
@@ -16,89 +12,23 @@ import {
   updateProject,
   removeProject,
   clearAllProjects,
+  setProjects,
 } from '../store/slices/recentProjectsSlice';
 import { handleStorageError } from '../utils/errorHandler';
 
-export const useStorage = () => {
-  const dispatch = useDispatch();
-
-  // Sync user preferences from Redux to local storage
-  const syncUserPreferences = useCallback(async (preferences: UserPreferences) => {
-    try {
-      await storageService.setUserPreferences(preferences);
-    } catch (error) {
-      console.error('Failed to sync user preferences:', error);
-    }
-  }, []);
-
-  // Sync recent projects from Redux to local storage
-  const syncRecentProjects = useCallback(async (projects: RecentProject[]) => {
-    try {
-      // This would be handled by Redux persist, but we can add additional logic here
-      console.log('Recent projects updated:', projects.length);
-    } catch (error) {
-      console.error('Failed to sync recent projects:', error);
-    }
-  }, []);
-
-  return {
-    syncUserPreferences,
-    syncRecentProjects,
-  };
-};
+// Preferences and recent projects are persisted with the redux state, so the
+// hooks below only dispatch. Files are released by the store's listener.
 
 export const useUserPreferences = () => {
   const dispatch = useDispatch();
   const preferences = useSelector((state: RootState) => state.userPreferences);
 
   const updatePreferences = useCallback(async (updates: Partial<UserPreferences>) => {
-    try {
-      // Update Redux state
-      if (updates.theme !== undefined) {
-        dispatch(setTheme(updates.theme));
-      }
-      if (updates.qualityPreference !== undefined) {
-        dispatch(setQualityPreference(updates.qualityPreference));
-      }
-      if (updates.formatPreference !== undefined) {
-        dispatch(setFormatPreference(updates.formatPreference));
-      }
-      if (updates.hapticFeedback !== undefined) {
-        dispatch(setHapticFeedback(updates.hapticFeedback));
-      }
-      if (updates.soundEffects !== undefined) {
-        dispatch(setSoundEffects(updates.soundEffects));
-      }
-
-      // Sync to local storage
-      const currentPrefs = await storageService.getUserPreferences();
-      if (currentPrefs) {
-        await storageService.updateUserPreferences(updates);
-      }
-    } catch (error) {
-      console.error('Failed to update preferences:', error);
-      handleStorageError({ context: { operation: 'updatePreferences' } });
-    }
+    dispatch(updatePreferencesAction(updates));
   }, [dispatch]);
 
   const resetAllPreferences = useCallback(async () => {
-    try {
-      dispatch(resetPreferences());
-      await storageService.setUserPreferences({
-        theme: 'light',
-        lastUsedTools: [],
-        qualityPreference: 90,
-        formatPreference: 'jpeg',
-        hapticFeedback: true,
-        soundEffects: false,
-        autoSave: true,
-        highContrastMode: false,
-        reduceMotion: false,
-      });
-    } catch (error) {
-      console.error('Failed to reset preferences:', error);
-      handleStorageError({ context: { operation: 'resetPreferences' } });
-    }
+    dispatch(resetPreferences());
   }, [dispatch]);
 
   return {
@@ -112,17 +42,20 @@ export const useRecentProjects = () => {
   const dispatch = useDispatch();
   const projects = useSelector((state: RootState) => state.recentProjects);
 
-  const saveProject = useCallback(async (projectData: Omit<RecentProject, 'id' | 'createdAt' | 'lastModified'>) => {
+  // Passing the id of an existing entry replaces it (re-saving a project)
+  const saveProject = useCallback(async (projectData: Omit<RecentProject, 'id' | 'createdAt' | 'lastModified'> & { id?: string }) => {
     try {
+      const existing = projectData.id ? projects.find(p => p.id === projectData.id) : undefined;
       const project: RecentProject = {
         ...projectData,
-        id: `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: Date.now(),
+        id: projectData.id || `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: existing?.name ?? projectData.name,
+        createdAt: existing?.createdAt ?? Date.now(),
         lastModified: Date.now(),
       };
 
-      await storageService.addRecentProject(project);
       dispatch(addProject(project));
+      await storageService.incrementAppStat('totalEdits');
 
       return project.id;
     } catch (error) {
@@ -130,36 +63,18 @@ export const useRecentProjects = () => {
       handleStorageError({ context: { operation: 'saveProject' } });
       return null;
     }
-  }, [dispatch]);
+  }, [dispatch, projects]);
 
   const updateProjectData = useCallback(async (projectId: string, updates: Partial<RecentProject>) => {
-    try {
-      await storageService.updateRecentProject(projectId, updates);
-      dispatch(updateProject({ id: projectId, updates }));
-    } catch (error) {
-      console.error('Failed to update project:', error);
-      handleStorageError({ context: { operation: 'updateProject' } });
-    }
+    dispatch(updateProject({ id: projectId, updates }));
   }, [dispatch]);
 
   const deleteProject = useCallback(async (projectId: string) => {
-    try {
-      await storageService.removeRecentProject(projectId);
-      dispatch(removeProject(projectId));
-    } catch (error) {
-      console.error('Failed to delete project:', error);
-      handleStorageError({ context: { operation: 'deleteProject' } });
-    }
+    dispatch(removeProject(projectId));
   }, [dispatch]);
 
   const clearAllProjectsData = useCallback(async () => {
-    try {
-      await storageService.clearRecentProjects();
-      dispatch(clearAllProjects());
-    } catch (error) {
-      console.error('Failed to clear all projects:', error);
-      handleStorageError({ context: { operation: 'clearAllProjects' } });
-    }
+    dispatch(clearAllProjects());
   }, [dispatch]);
 
   return {
@@ -291,12 +206,15 @@ export const useStorageCleanup = () => {
 };
 
 export const useDataExport = () => {
+  const dispatch = useDispatch();
+  const userPreferences = useSelector((state: RootState) => state.userPreferences);
+  const recentProjects = useSelector((state: RootState) => state.recentProjects);
   const [exporting, setExporting] = useState(false);
 
   const exportData = useCallback(async () => {
     try {
       setExporting(true);
-      const data = await storageService.exportData();
+      const data = await storageService.exportData({ userPreferences, recentProjects });
       return data;
     } catch (error) {
       console.error('Failed to export data:', error);
@@ -305,12 +223,18 @@ export const useDataExport = () => {
     } finally {
       setExporting(false);
     }
-  }, []);
+  }, [userPreferences, recentProjects]);
 
   const importData = useCallback(async (jsonData: string) => {
     try {
       setExporting(true);
-      await storageService.importData(jsonData);
+      const data = await storageService.importData(jsonData);
+      if (data.userPreferences) {
+        dispatch(updatePreferencesAction(data.userPreferences));
+      }
+      if (data.recentProjects) {
+        dispatch(setProjects(data.recentProjects));
+      }
       return true;
     } catch (error) {
       console.error('Failed to import data:', error);
@@ -319,7 +243,7 @@ export const useDataExport = () => {
     } finally {
       setExporting(false);
     }
-  }, []);
+  }, [dispatch]);
 
   return {
     exporting,
@@ -5,6 +5,7 @@ import { RootStackParamList } from './types';
 import { SplashScreen } from '../screens/SplashScreen';
 import { PhotoSelectionScreen } from '../screens/PhotoSelectionScreen';
 import { EditorScreen } from '../screens/EditorScreen';
+import { BatchEditScreen } from '../screens/BatchEditScreen';
 import { SaveExportScreen } from '../screens/SaveExportScreen';
 import { PremiumScreen } from '../screens/PremiumScreen';
 import { MainNavigator } from './MainNavigator';
@@ -52,6 +53,14 @@ export const RootNavigator: React.FC = () => {
             gestureEnabled: false,
           }}
         />
+        <Stack.Screen
+          name="BatchEdit"
+          component={BatchEditScreen}
+          options={{
+            headerShown: false,
+            gestureEnabled: false,
+          }}
+        />
         <Stack.Screen
           name="SaveExport"
           component={SaveExportScreen}
@@ -9,6 +9,9 @@ export type RootStackParamList = {
     imageUri: string;
     projectId?: string;
   };
+  BatchEdit: {
+    imageUris: string[];
+  };
   SaveExport: {
     editedImageUri: string;
     originalUri: string;
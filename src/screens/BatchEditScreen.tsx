@@ -0,0 +1,770 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Image,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraRoll } from '@react-native-camera-roll/camera-roll';
+import { RootStackParamList } from '../navigation/types';
+import { useTheme } from '../utils/theme';
+import { triggerHapticFeedback } from '../utils/accessibility';
+import { Card } from '../components/common/Card';
+import { IconButton } from '../components/common/IconButton';
+import { ElevatedButton } from '../components/common/ElevatedButton';
+import { Toolbar } from '../components/common/Toolbar';
+import { ValueSlider } from '../components/common/ValueSlider';
+import { useImageProcessing } from '../hooks/useImageProcessing';
+import { useUserPreferences } from '../hooks/useStorage';
+import {
+  imageProcessor,
+  BatchItemStatus,
+  ImageOperation,
+  ProcessingResult,
+} from '../services/imageProcessor';
+import {
+  BatchRecipe,
+  DEFAULT_BATCH_RECIPE,
+  DEFAULT_WATERMARK,
+  WATERMARK_POSITIONS,
+  Watermark,
+  buildBatchOperations,
+  isEmptyRecipe,
+} from '../services/batchRecipe';
+import { Dimensions } from '../services/editGraph';
+import {
+  FILTER_CATEGORIES,
+  FilterPreset,
+  getFilterPresets,
+} from '../services/filterRegistry';
+import { TYPOGRAPHY } from '../constants/typography';
+import { SPACING } from '../constants/spacing';
+
+type BatchEditScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'BatchEdit'
+>;
+type BatchEditScreenRouteProp = RouteProp<RootStackParamList, 'BatchEdit'>;
+
+// Photos the recipe is previewed on before the whole batch runs
+const SAMPLE_COUNT = 3;
+const SAMPLE_SIZE = 480;
+// Wait for sliders to settle before re-rendering the samples
+const SAMPLE_DELAY = 300;
+
+const RESIZE_OPTIONS: Array<{ maxSize: number | null; label: string }> = [
+  { maxSize: null, label: 'Original' },
+  { maxSize: 3840, label: '3840 px' },
+  { maxSize: 2048, label: '2048 px' },
+  { maxSize: 1080, label: '1080 px' },
+];
+
+const WATERMARK_COLORS = [
+  { color: '#ffffffcc', label: 'White' },
+  { color: '#000000cc', label: 'Black' },
+];
+
+type ItemStatus = BatchItemStatus | { state: 'pending' };
+
+type BatchPhase = 'editing' | 'processing' | 'done';
+
+const getPhotoName = (uri: string): string =>
+  decodeURIComponent(uri.split('/').pop()?.split('?')[0] || uri);
+
+interface ChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, active, onPress }) => {
+  const { colors } = useTheme();
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { borderColor: colors.primary },
+        active && { backgroundColor: colors.primary },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          { color: active ? colors.onPrimary : colors.primary },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export const BatchEditScreen: React.FC = () => {
+  const navigation = useNavigation<BatchEditScreenNavigationProp>();
+  const route = useRoute<BatchEditScreenRouteProp>();
+  const { colors } = useTheme();
+  const { processBatch } = useImageProcessing();
+  const { preferences } = useUserPreferences();
+  const { imageUris } = route.params;
+
+  const [recipe, setRecipe] = useState<BatchRecipe>(DEFAULT_BATCH_RECIPE);
+  const [samples, setSamples] = useState<Array<string | undefined>>([]);
+  const [phase, setPhase] = useState<BatchPhase>('editing');
+  const [statuses, setStatuses] = useState<ItemStatus[]>([]);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const sizes = useRef(new Map<string, Dimensions>());
+  const cancelled = useRef(false);
+
+  const sampleUris = useMemo(
+    () => imageUris.slice(0, SAMPLE_COUNT),
+    [imageUris],
+  );
+
+  const filters = useMemo(
+    () => FILTER_CATEGORIES.flatMap(category => getFilterPresets(category.id)),
+    [],
+  );
+
+  // Leaving the screen stops the batch after the photo in progress and
+  // frees the sample copies
+  useEffect(
+    () => () => {
+      cancelled.current = true;
+      imageProcessor.releaseSamples();
+    },
+    [],
+  );
+
+  const getSize = useCallback(async (uri: string): Promise<Dimensions> => {
+    const known = sizes.current.get(uri);
+    if (known) {
+      return known;
+    }
+    const size = await imageProcessor.getImageSize(uri);
+    sizes.current.set(uri, size);
+    return size;
+  }, []);
+
+  useEffect(() => {
+    let stale = false;
+    const timer = setTimeout(async () => {
+      for (let i = 0; i < sampleUris.length && !stale; i++) {
+        const uri = sampleUris[i];
+        try {
+          const operations = buildBatchOperations(recipe, await getSize(uri));
+          const preview = await imageProcessor.renderSample(
+            uri,
+            operations,
+            SAMPLE_SIZE,
+            `batch_${i}`,
+          );
+          if (!stale) {
+            setSamples(current => {
+              const next = [...current];
+              next[i] = preview;
+              return next;
+            });
+          }
+        } catch (error) {
+          console.error(`Failed to render batch sample ${uri}:`, error);
+        }
+      }
+    }, SAMPLE_DELAY);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [recipe, sampleUris, getSize]);
+
+  const updateRecipe = (updates: Partial<BatchRecipe>) => {
+    setRecipe(current => ({ ...current, ...updates }));
+  };
+
+  const updateWatermark = (updates: Partial<Watermark>) => {
+    setRecipe(current => ({
+      ...current,
+      watermark: { ...(current.watermark ?? DEFAULT_WATERMARK), ...updates },
+    }));
+  };
+
+  const setItemStatus = (index: number, status: ItemStatus) => {
+    setStatuses(current => {
+      const next = [...current];
+      next[index] = status;
+      return next;
+    });
+  };
+
+  const saveResult = async (index: number, result: ProcessingResult) => {
+    try {
+      await CameraRoll.save(result.processedUri, {
+        type: 'photo',
+        album: 'OfflinePhotoEditor',
+      });
+      setItemStatus(index, { state: 'done', result });
+    } catch (error) {
+      console.error('Failed to save to gallery:', error);
+      setItemStatus(index, {
+        state: 'failed',
+        message: 'Could not save to Photos',
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    cancelled.current = false;
+    setWasCancelled(false);
+    setStatuses(imageUris.map(() => ({ state: 'pending' })));
+    setPhase('processing');
+
+    // Resizing and watermarks depend on each photo's size; photos whose
+    // size cannot be read fail before the batch starts
+    const images: Array<{ uri: string; operations: ImageOperation[] }> = [];
+    const indices: number[] = [];
+    for (let i = 0; i < imageUris.length; i++) {
+      try {
+        const size = await getSize(imageUris[i]);
+        images.push({
+          uri: imageUris[i],
+          operations: buildBatchOperations(recipe, size),
+        });
+        indices.push(i);
+      } catch (error) {
+        console.error(`Failed to read ${imageUris[i]}:`, error);
+        setItemStatus(i, {
+          state: 'failed',
+          message: 'Could not read the photo',
+        });
+      }
+    }
+
+    // Each photo is saved while the next one is processed
+    const saves: Promise<void>[] = [];
+    await processBatch(images, {
+      quality: preferences.qualityPreference || 90,
+      format: preferences.formatPreference || 'jpeg',
+      metadata: { policy: preferences.metadataPolicy || 'strip-gps' },
+      isCancelled: () => cancelled.current,
+      onItemProgress: (i, status) => {
+        if (status.state === 'done') {
+          saves.push(saveResult(indices[i], status.result));
+        } else {
+          setItemStatus(indices[i], status);
+        }
+      },
+    });
+    await Promise.all(saves);
+
+    setWasCancelled(cancelled.current);
+    setPhase('done');
+    triggerHapticFeedback('medium');
+  };
+
+  const handleCancel = () => {
+    cancelled.current = true;
+  };
+
+  const counts = statuses.reduce(
+    (total, status) => {
+      total[status.state]++;
+      return total;
+    },
+    { pending: 0, processing: 0, done: 0, failed: 0 },
+  );
+  const handled = counts.done + counts.failed;
+
+  const renderSamples = () => (
+    <Card style={styles.card}>
+      <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+        Preview
+      </Text>
+      <View style={styles.sampleRow}>
+        {sampleUris.map((uri, i) => (
+          <Image
+            key={uri}
+            source={{ uri: samples[i] ?? uri }}
+            style={[styles.sample, { backgroundColor: colors.surface }]}
+            resizeMode="cover"
+          />
+        ))}
+      </View>
+      <Text style={[styles.hint, { color: colors.onSurface }]}>
+        {imageUris.length > sampleUris.length
+          ? `First ${sampleUris.length} of ${imageUris.length} photos`
+          : `${imageUris.length} photos`}
+      </Text>
+    </Card>
+  );
+
+  const renderAdjustments = () => (
+    <Card style={styles.card}>
+      <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+        Adjustments
+      </Text>
+      <ValueSlider
+        label="Brightness"
+        value={recipe.brightness}
+        min={-100}
+        max={100}
+        origin={0}
+        onValueChange={brightness => updateRecipe({ brightness })}
+      />
+      <ValueSlider
+        label="Contrast"
+        value={recipe.contrast}
+        min={-100}
+        max={100}
+        origin={0}
+        onValueChange={contrast => updateRecipe({ contrast })}
+      />
+      <ValueSlider
+        label="Saturation"
+        value={recipe.saturation}
+        min={-100}
+        max={100}
+        origin={0}
+        onValueChange={saturation => updateRecipe({ saturation })}
+      />
+    </Card>
+  );
+
+  const renderFilterChip = (filter: FilterPreset) => (
+    <Chip
+      key={filter.id}
+      label={filter.name}
+      active={recipe.filter?.filterType === filter.id}
+      onPress={() =>
+        updateRecipe({
+          filter: {
+            filterType: filter.id,
+            intensity: recipe.filter?.intensity ?? 100,
+          },
+        })
+      }
+    />
+  );
+
+  const renderFilter = () => (
+    <Card style={styles.card}>
+      <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+        Filter
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        <Chip
+          label="None"
+          active={!recipe.filter}
+          onPress={() => updateRecipe({ filter: null })}
+        />
+        {filters.map(renderFilterChip)}
+      </ScrollView>
+      {recipe.filter && (
+        <ValueSlider
+          label="Intensity"
+          value={recipe.filter.intensity}
+          min={0}
+          max={100}
+          formatValue={value => `${value}%`}
+          onValueChange={intensity =>
+            setRecipe(current => ({
+              ...current,
+              filter: current.filter && { ...current.filter, intensity },
+            }))
+          }
+        />
+      )}
+    </Card>
+  );
+
+  const renderResize = () => (
+    <Card style={styles.card}>
+      <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+        Longest Edge
+      </Text>
+      <View style={styles.chipRow}>
+        {RESIZE_OPTIONS.map(option => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            active={recipe.maxSize === option.maxSize}
+            onPress={() => updateRecipe({ maxSize: option.maxSize })}
+          />
+        ))}
+      </View>
+      <Text style={[styles.hint, { color: colors.onSurface }]}>
+        Smaller photos keep their size
+      </Text>
+    </Card>
+  );
+
+  const renderWatermark = () => {
+    const watermark = recipe.watermark ?? DEFAULT_WATERMARK;
+    return (
+      <Card style={styles.card}>
+        <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+          Watermark
+        </Text>
+        <TextInput
+          style={[
+            styles.textInput,
+            { color: colors.onBackground, borderColor: colors.surface },
+          ]}
+          placeholder="Watermark text"
+          placeholderTextColor={colors.onSurface}
+          value={watermark.text}
+          onChangeText={text => updateWatermark({ text })}
+          maxLength={60}
+        />
+        {watermark.text.trim() !== '' && (
+          <>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.chipRow}
+            >
+              {WATERMARK_POSITIONS.map(position => (
+                <Chip
+                  key={position.id}
+                  label={position.name}
+                  active={watermark.position === position.id}
+                  onPress={() => updateWatermark({ position: position.id })}
+                />
+              ))}
+            </ScrollView>
+            <View style={styles.chipRow}>
+              {WATERMARK_COLORS.map(option => (
+                <Chip
+                  key={option.color}
+                  label={option.label}
+                  active={watermark.color === option.color}
+                  onPress={() => updateWatermark({ color: option.color })}
+                />
+              ))}
+            </View>
+            <ValueSlider
+              label="Size"
+              value={watermark.size}
+              min={2}
+              max={15}
+              formatValue={value => `${value}%`}
+              onValueChange={size => updateWatermark({ size })}
+            />
+          </>
+        )}
+      </Card>
+    );
+  };
+
+  const renderStatus = (status: ItemStatus) => {
+    switch (status.state) {
+      case 'processing':
+        return `${Math.round(status.progress)}%`;
+      case 'done':
+        return 'Saved';
+      case 'failed':
+        return status.message;
+      default:
+        return phase === 'done' ? 'Skipped' : 'Waiting';
+    }
+  };
+
+  const renderItem = ({ item, index }: { item: string; index: number }) => {
+    const status = statuses[index] ?? { state: 'pending' };
+    return (
+      <View style={styles.itemRow}>
+        <Image source={{ uri: item }} style={styles.itemThumbnail} />
+        <View style={styles.itemText}>
+          <Text
+            style={[styles.itemName, { color: colors.onBackground }]}
+            numberOfLines={1}
+          >
+            {getPhotoName(item)}
+          </Text>
+          <Text
+            style={[
+              styles.itemStatus,
+              {
+                color:
+                  status.state === 'failed' ? colors.error : colors.onSurface,
+              },
+            ]}
+            numberOfLines={2}
+          >
+            {renderStatus(status)}
+          </Text>
+          {status.state === 'processing' && (
+            <View
+              style={[
+                styles.progressTrack,
+                { backgroundColor: colors.surface },
+              ]}
+            >
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    backgroundColor: colors.primary,
+                    width: `${status.progress}%`,
+                  },
+                ]}
+              />
+            </View>
+          )}
+        </View>
+        <Text style={[styles.itemIcon, { color: colors.primary }]}>
+          {status.state === 'done'
+            ? '✓'
+            : status.state === 'failed'
+            ? '⚠️'
+            : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderSummary = () => (
+    <Card style={styles.card}>
+      <Text style={[styles.sectionTitle, { color: colors.onBackground }]}>
+        {phase === 'done'
+          ? `Saved ${counts.done} of ${imageUris.length} photos`
+          : `Processing ${Math.min(handled + 1, imageUris.length)} of ${
+              imageUris.length
+            }…`}
+      </Text>
+      {phase === 'done' && (wasCancelled || counts.failed > 0) && (
+        <Text style={[styles.hint, { color: colors.onSurface }]}>
+          {[
+            counts.failed > 0 && `${counts.failed} failed`,
+            wasCancelled && `${counts.pending} skipped after cancelling`,
+          ]
+            .filter(Boolean)
+            .join(', ')}
+        </Text>
+      )}
+    </Card>
+  );
+
+  const renderActions = () => {
+    switch (phase) {
+      case 'processing':
+        return (
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: colors.surface }]}
+            onPress={handleCancel}
+          >
+            <Text style={[styles.cancelText, { color: colors.onBackground }]}>
+              Cancel
+            </Text>
+          </TouchableOpacity>
+        );
+      case 'done':
+        return (
+          <ElevatedButton
+            title="Done"
+            onPress={() => navigation.navigate('Main')}
+            style={styles.actionButton}
+          />
+        );
+      default:
+        return (
+          <ElevatedButton
+            title={`Apply to ${imageUris.length} Photos`}
+            onPress={handleRun}
+            disabled={isEmptyRecipe(recipe)}
+            style={styles.actionButton}
+          />
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <Toolbar style={styles.header}>
+        <View style={styles.headerLeft}>
+          <IconButton
+            icon={<Text style={styles.backIcon}>←</Text>}
+            onPress={() => navigation.goBack()}
+            disabled={phase === 'processing'}
+          />
+        </View>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, { color: colors.onBackground }]}>
+            Batch Edit
+          </Text>
+        </View>
+        <View style={styles.headerRight} />
+      </Toolbar>
+
+      {phase === 'editing' ? (
+        <ScrollView contentContainerStyle={styles.content}>
+          {renderSamples()}
+          {renderAdjustments()}
+          {renderFilter()}
+          {renderResize()}
+          {renderWatermark()}
+        </ScrollView>
+      ) : (
+        <FlatList
+          data={imageUris}
+          renderItem={renderItem}
+          keyExtractor={item => item}
+          extraData={statuses}
+          ListHeaderComponent={renderSummary()}
+          contentContainerStyle={styles.content}
+        />
+      )}
+
+      <View style={[styles.bottomActions, { backgroundColor: colors.surface }]}>
+        {renderActions()}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerCenter: {
+    flex: 2,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    ...TYPOGRAPHY.headline2,
+    fontWeight: '600',
+  },
+  headerRight: {
+    flex: 1,
+  },
+  backIcon: {
+    fontSize: 20,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  card: {
+    padding: SPACING.md,
+  },
+  sectionTitle: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '600',
+    marginBottom: SPACING.sm,
+  },
+  hint: {
+    ...TYPOGRAPHY.caption,
+  },
+  sampleRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  sample: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  chipText: {
+    ...TYPOGRAPHY.caption,
+    fontWeight: '500',
+  },
+  textInput: {
+    ...TYPOGRAPHY.body1,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+  },
+  itemThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+  },
+  itemText: {
+    flex: 1,
+    marginLeft: SPACING.md,
+  },
+  itemName: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+  itemStatus: {
+    ...TYPOGRAPHY.caption,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: SPACING.xs,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  itemIcon: {
+    ...TYPOGRAPHY.body1,
+    width: 32,
+    textAlign: 'center',
+  },
+  bottomActions: {
+    padding: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  actionButton: {
+    width: '100%',
+  },
+  cancelButton: {
+    padding: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelText: {
+    ...TYPOGRAPHY.body1,
+    fontWeight: '500',
+  },
+});
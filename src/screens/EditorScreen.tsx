@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,6 +8,9 @@ import {
   ScrollView,
   Alert,
   Image,
+  Pressable,
+  LayoutChangeEvent,
+  GestureResponderEvent,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -21,7 +24,52 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useDispatch, useSelector } from 'react-redux';
 import { RootStackParamList } from '../navigation/types';
+import { RootState } from '../store';
+import {
+  addOperation,
+  openProject,
+  redo,
+  removeOperation,
+  selectCanRedo,
+  selectCanUndo,
+  setCurrentImage,
+  setHistoryLimit,
+  setOperations,
+  undo,
+  updateOperation,
+} from '../store/slices/editorSlice';
+import { ImageOperation, imageProcessor } from '../services/imageProcessor';
+import { PhotoMetadata } from '../services/codecs';
+import {
+  HslSettings,
+  NEUTRAL_WHITE_BALANCE,
+  WhiteBalanceSettings,
+  getNeutralizingWhiteBalance,
+  isNeutralHsl,
+} from '../services/raster';
+import {
+  DocumentTransform,
+  EditOperation,
+  IDENTITY_TRANSFORM,
+  appendOrientation,
+  createOperationId,
+  getCropToolBase,
+  getDocumentDimensions,
+  getDocumentTransform,
+  getTransformScale,
+  invertTransform,
+  isLookOperation,
+  replaceLook,
+  replaceOperation,
+  toImageOperations,
+  transformMaskShape,
+  withOperationId,
+} from '../services/editGraph';
+import { projectService } from '../services/projectService';
+import { pasteEdits } from '../services/editClipboard';
+import type { FilterLayer } from '../services/filterRegistry';
 import { useTheme } from '../utils/theme';
 import { triggerHapticFeedback } from '../utils/accessibility';
 import { IconButton } from '../components/common/IconButton';
@@ -31,14 +79,26 @@ import {
   FilterTool,
   CropTool,
   RotateTool,
+  DEFAULT_STRAIGHTEN,
+  StraightenSettings,
+  AdjustTool,
+  applyAdjustSettings,
+  getAdjustSettings,
+  HslTool,
+  WhiteBalanceTool,
+  MetadataPanel,
+  BlurMask,
+  CropMode,
 } from '../components/editor';
 import { BlurTool as BlurToolComponent } from '../components/editor/BlurTool';
-import { FilteredPreview } from '../components/editor/FilteredPreview';
-import { FilteredExtractor } from '../components/editor/FilteredExtractor';
-import { MaskedBlurExtractor } from '../components/editor/MaskedBlurExtractor';
+import { CopyEditsDialog } from '../components/editor/CopyEditsDialog';
+import { PasteEditsDialog } from '../components/editor/PasteEditsDialog';
 import { TYPOGRAPHY } from '../constants/typography';
 import { SPACING } from '../constants/spacing';
 import { useImagePreview } from '../hooks/useImageProcessing';
+import { useEditClipboard } from '../hooks/useEditClipboard';
+import { useLiveEdit } from '../hooks/useLiveEdit';
+import { useRecentProjects, useUserPreferences } from '../hooks/useStorage';
 
 const { width, height } = Dimensions.get('window');
 
@@ -55,6 +115,163 @@ interface EditingTool {
   isPremium?: boolean;
 }
 
+// Blur tool intensity (0..100) to Gaussian sigma in image pixels, and back
+const blurRadius = (intensity: number) =>
+  Math.max(0, Math.min(100, intensity)) * 0.2;
+const blurIntensity = (radius: number) =>
+  Math.round(Math.min(100, radius / 0.2));
+
+// Blur nodes as Blur tool masks, moved from the document each node sees to
+// the rendered one the tool draws on. Rectangle and whole-image blurs from
+// before masks existed become a single hard rectangle. Settings of the other
+// redaction modes get defaults, used if the mask is switched to them. Nodes
+// a later straighten or perspective node moves out of reach are left out.
+const getBlurMasks = (
+  operations: EditOperation[],
+  original: { width: number; height: number },
+): BlurMask[] => {
+  const graph = toImageOperations(operations);
+  return operations.flatMap((operation, index) => {
+    const transform =
+      operation.type === 'blur'
+        ? getDocumentTransform(original, graph, index)
+        : null;
+    if (operation.type !== 'blur' || !transform) {
+      return [];
+    }
+    const document = getDocumentDimensions(original, graph.slice(0, index));
+    const scale = getTransformScale(transform);
+    const shapes = operation.mask ?? [
+      {
+        type: 'rect' as const,
+        ...(operation.region ?? { x: 0, y: 0, ...document }),
+        feather: 0,
+      },
+    ];
+    return [
+      {
+        id: operation.id,
+        mode: operation.redaction?.mode ?? 'gaussian',
+        intensity: blurIntensity(operation.radius),
+        blockSize:
+          (operation.redaction?.mode === 'pixelate'
+            ? operation.redaction.blockSize
+            : Math.max(document.width, document.height) / 25) * scale,
+        color:
+          operation.redaction?.mode === 'solid'
+            ? operation.redaction.color
+            : '#000000',
+        shapes: shapes.map(shape => transformMaskShape(shape, transform)),
+      },
+    ];
+  });
+};
+
+// Writes the Blur tool's masks back into the graph, each node's shapes moved
+// back into the document it sees. Existing nodes keep their place, emptied
+// ones are removed and new masks go on top. Nodes the tool could not show
+// stay as they are.
+const applyBlurMasks = (
+  operations: EditOperation[],
+  masks: BlurMask[],
+  original: { width: number; height: number },
+): EditOperation[] => {
+  const graph = toImageOperations(operations);
+  const toOperation = (
+    { mode, intensity, blockSize, color, shapes }: BlurMask,
+    transform: DocumentTransform,
+  ): ImageOperation => {
+    const scale = getTransformScale(transform);
+    return {
+      type: 'blur',
+      radius: blurRadius(intensity),
+      mask: shapes.map(shape => transformMaskShape(shape, transform)),
+      redaction:
+        mode === 'pixelate'
+          ? { mode, blockSize: blockSize * scale }
+          : mode === 'solid'
+          ? { mode, color }
+          : undefined,
+    };
+  };
+  const kept = operations.flatMap((operation, index) => {
+    const transform =
+      operation.type === 'blur'
+        ? getDocumentTransform(original, graph, index)
+        : null;
+    if (operation.type !== 'blur' || !transform) {
+      return [operation];
+    }
+    const mask = masks.find(({ id }) => id === operation.id);
+    return mask?.shapes.length
+      ? [{ ...toOperation(mask, invertTransform(transform)), id: operation.id }]
+      : [];
+  });
+  const added = masks
+    .filter(mask => !mask.id && mask.shapes.length)
+    .map(mask => withOperationId(toOperation(mask, IDENTITY_TRANSFORM)));
+  return [...kept, ...added];
+};
+
+// Filter nodes as the Filter tool's stack. Single filters from before
+// stacks existed become normal layers at their intensity.
+const getFilterStack = (operations: EditOperation[]): FilterLayer[] =>
+  operations.flatMap((operation): FilterLayer[] => {
+    if (operation.type === 'filterStack') {
+      return operation.layers;
+    }
+    return operation.type === 'filter'
+      ? [
+          {
+            id: operation.id,
+            filterType: operation.filterType,
+            opacity: operation.intensity,
+            blendMode: 'normal',
+            enabled: true,
+          },
+        ]
+      : [];
+  });
+
+// Writes the Filter tool's stack back as one node in place of the first
+// filter node; any other filter nodes are folded into it
+const applyFilterStack = (
+  operations: EditOperation[],
+  layers: FilterLayer[],
+): EditOperation[] => {
+  const isFilterNode = (operation: EditOperation) =>
+    operation.type === 'filter' || operation.type === 'filterStack';
+  const first = operations.find(isFilterNode);
+  return replaceOperation(
+    operations.filter(
+      operation => operation === first || !isFilterNode(operation),
+    ),
+    isFilterNode,
+    layers.length
+      ? { type: 'filterStack', layers, id: first?.id ?? createOperationId() }
+      : null,
+  );
+};
+
+// Maps a point on the canvas to document pixels. The image is drawn with
+// resizeMode="contain", so it is centered with letterboxing on one axis.
+const canvasToDocumentPoint = (
+  point: { x: number; y: number },
+  canvas: { width: number; height: number },
+  document: { width: number; height: number },
+): { x: number; y: number } | null => {
+  const scale = Math.min(
+    canvas.width / document.width,
+    canvas.height / document.height,
+  );
+  const x = (point.x - (canvas.width - document.width * scale) / 2) / scale;
+  const y = (point.y - (canvas.height - document.height * scale) / 2) / scale;
+  if (x < 0 || y < 0 || x >= document.width || y >= document.height) {
+    return null;
+  }
+  return { x, y };
+};
+
 const EDITING_TOOLS: EditingTool[] = [
   { id: 'text', name: 'Text', icon: '📝' },
   { id: 'blur', name: 'Blur', icon: '🌫️' },
@@ -62,6 +279,9 @@ const EDITING_TOOLS: EditingTool[] = [
   { id: 'crop', name: 'Crop', icon: '✂️' },
   { id: 'rotate', name: 'Rotate', icon: '🔄' },
   { id: 'brightness', name: 'Adjust', icon: '☀️' },
+  { id: 'hsl', name: 'Color', icon: '🌈' },
+  { id: 'whiteBalance', name: 'White Bal.', icon: '🌡️' },
+  { id: 'info', name: 'Info', icon: 'ℹ️' },
   { id: 'sticker', name: 'Stickers', icon: '🎯', isPremium: true },
   { id: 'effects', name: 'Effects', icon: '✨', isPremium: true },
 ];
@@ -72,40 +292,341 @@ export const EditorScreen: React.FC = () => {
   const { colors } = useTheme();
 
   const { imageUri, projectId } = route.params;
-  // Keep current image URI to reflect edits (e.g., cropping)
-  const [currentImageUri, setCurrentImageUri] = useState<string>(imageUri);
+  const dispatch = useDispatch();
+  // The original is never modified; edits live in the slice's edit graph
+  const currentImage = useSelector(
+    (state: RootState) => state.editor.currentImage,
+  );
+  const operations = useSelector((state: RootState) => state.editor.operations);
+  const currentProjectId = useSelector(
+    (state: RootState) => state.editor.projectId,
+  );
+  const canUndo = useSelector(selectCanUndo);
+  const canRedo = useSelector(selectCanRedo);
 
   const [selectedTool, setSelectedTool] = useState<string | null>(null);
   const [showToolOptions, setShowToolOptions] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [showGrid, setShowGrid] = useState(false);
+  // Image the edit graph applies to; a reopened project uses its own copy
+  const [sourceUri, setSourceUri] = useState(imageUri);
 
   // Tool-specific states
-  const [textElements, setTextElements] = useState<any[]>([]);
-  const [appliedFilters, setAppliedFilters] = useState<any[]>([]);
-  const [pendingFilter, setPendingFilter] = useState<{
-    id: string;
-    intensity: number;
-  } | null>(null);
-  const [extractingFilter, setExtractingFilter] = useState<{
-    id: string;
-    intensity: number;
-  } | null>(null);
-  const [extractingBlur, setExtractingBlur] = useState<{
-    rect: { x: number; y: number; width: number; height: number };
-    intensity: number;
-  } | null>(null);
-  const [blurAreas, setBlurAreas] = useState<any[]>([]);
-  const [editHistory, setEditHistory] = useState<any[]>([]);
-  const [currentEditIndex, setCurrentEditIndex] = useState(-1);
-  const [imageDimensions, setImageDimensions] = useState<{
+  const [pendingFilterLayers, setPendingFilterLayers] = useState<
+    FilterLayer[] | null
+  >(null);
+  const [pendingHsl, setPendingHsl] = useState<HslSettings | null>(null);
+  const [pendingWhiteBalance, setPendingWhiteBalance] =
+    useState<WhiteBalanceSettings | null>(null);
+  const [isPickingNeutral, setIsPickingNeutral] = useState(false);
+  const [pendingStraighten, setPendingStraighten] =
+    useState<StraightenSettings | null>(null);
+  const [pendingBlurMasks, setPendingBlurMasks] = useState<BlurMask[] | null>(
+    null,
+  );
+  const [cropMode, setCropMode] = useState<CropMode>('rectangle');
+  const [canvasSize, setCanvasSize] = useState<{
     width: number;
     height: number;
   } | null>(null);
-  // Live preview for filters
-  const { previewUri, isGenerating, generatePreview, clearPreview } =
-    useImagePreview();
+  const [showCopyEdits, setShowCopyEdits] = useState(false);
+  const [showPasteEdits, setShowPasteEdits] = useState(false);
+  const { copiedEdits, copyEdits } = useEditClipboard();
+  const { projects: recentProjects, saveProject } = useRecentProjects();
+  const { preferences } = useUserPreferences();
+  // The Adjust panel edits the graph live, one undo step per slider drag
+  const adjustEdit = useLiveEdit('adjust');
+
+  useEffect(() => {
+    dispatch(setHistoryLimit(preferences.historyLimit));
+  }, [dispatch, preferences.historyLimit]);
+  const [photoMetadata, setPhotoMetadata] = useState<{
+    uri: string;
+    metadata: PhotoMetadata;
+  } | null>(null);
+  // Rendered edit graph shown on the canvas
+  const {
+    previewUri,
+    isGenerating,
+    generatePreview,
+    clearPreview,
+    sampleColor,
+  } = useImagePreview();
+
+  const isCurrentImage = currentImage?.originalUri === sourceUri;
+  const displayUri = previewUri || sourceUri;
+  const appliedFilterCount = getFilterStack(operations).filter(
+    layer => layer.enabled,
+  ).length;
+  const filterLayers = pendingFilterLayers ?? getFilterStack(operations);
+  const blurOperations = operations.filter(op => op.type === 'blur');
+  const hslOperation = operations.find(op => op.type === 'hsl');
+  const whiteBalanceOperation = operations.find(
+    op => op.type === 'whiteBalance',
+  );
+  const whiteBalance =
+    pendingWhiteBalance ??
+    (whiteBalanceOperation?.type === 'whiteBalance'
+      ? {
+          temperature: whiteBalanceOperation.temperature,
+          tint: whiteBalanceOperation.tint,
+        }
+      : NEUTRAL_WHITE_BALANCE);
+  const straightenOperation = operations.find(op => op.type === 'straighten');
+  const straighten =
+    pendingStraighten ??
+    (straightenOperation?.type === 'straighten'
+      ? {
+          angle: straightenOperation.angle,
+          autoCrop: straightenOperation.autoCrop,
+        }
+      : DEFAULT_STRAIGHTEN);
+
+  // Size of the rendered document, which crop and blur coordinates refer to
+  const imageDimensions = useMemo(
+    () =>
+      isCurrentImage && currentImage
+        ? getDocumentDimensions(currentImage, toImageOperations(operations))
+        : null,
+    [isCurrentImage, currentImage, operations],
+  );
+  // The crop tool revises the last crop node in the space it crops, showing
+  // the document as it was before that node. Perspective corners go after
+  // the whole graph, so that mode shows the cropped document.
+  const cropIndex = operations.map(op => op.type).lastIndexOf('crop');
+  const cropOperation = cropIndex === -1 ? null : operations[cropIndex];
+  const cropBase = getCropToolBase(operations, cropMode);
+  const isRecropping = selectedTool === 'crop' && cropBase < operations.length;
+  const cropDimensions = useMemo(
+    () =>
+      isCurrentImage && currentImage
+        ? getDocumentDimensions(
+            currentImage,
+            toImageOperations(operations.slice(0, cropBase)),
+          )
+        : null,
+    [isCurrentImage, currentImage, operations, cropBase],
+  );
+  const committedBlurMasks = useMemo(
+    () =>
+      isCurrentImage && currentImage
+        ? getBlurMasks(operations, currentImage)
+        : [],
+    [isCurrentImage, currentImage, operations],
+  );
+  const blurMasks = pendingBlurMasks ?? committedBlurMasks;
+  const hiddenBlurCount =
+    operations.filter(op => op.type === 'blur').length -
+    committedBlurMasks.length;
+
+  // Filter cards preview the committed graph with each filter on top
+  const filterThumbnailSource = useMemo(
+    () =>
+      isCurrentImage
+        ? { uri: sourceUri, operations: toImageOperations(operations) }
+        : undefined,
+    [isCurrentImage, sourceUri, operations],
+  );
+
+  // Graph plus the filters or adjustments being previewed, which replace the
+  // existing nodes they will revise on apply
+  const previewOperations = useMemo((): ImageOperation[] => {
+    let edited = isRecropping ? operations.slice(0, cropBase) : operations;
+    if (pendingBlurMasks && currentImage) {
+      edited = applyBlurMasks(edited, pendingBlurMasks, currentImage);
+    }
+    if (pendingFilterLayers) {
+      edited = applyFilterStack(edited, pendingFilterLayers);
+    }
+    let graph = toImageOperations(edited);
+    if (pendingHsl) {
+      graph = replaceOperation(
+        graph,
+        op => op.type === 'hsl',
+        isNeutralHsl(pendingHsl) ? null : { type: 'hsl', bands: pendingHsl },
+      );
+    }
+    if (pendingWhiteBalance) {
+      const { temperature, tint } = pendingWhiteBalance;
+      graph = replaceOperation(
+        graph,
+        op => op.type === 'whiteBalance',
+        temperature === 0 && tint === 0
+          ? null
+          : { type: 'whiteBalance', temperature, tint },
+      );
+    }
+    if (pendingStraighten) {
+      graph = replaceOperation(
+        graph,
+        op => op.type === 'straighten',
+        pendingStraighten.angle === 0
+          ? null
+          : { type: 'straighten', ...pendingStraighten },
+      );
+    }
+    return graph;
+  }, [
+    operations,
+    currentImage,
+    isRecropping,
+    cropBase,
+    pendingFilterLayers,
+    pendingHsl,
+    pendingWhiteBalance,
+    pendingStraighten,
+    pendingBlurMasks,
+  ]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const openImage = () =>
+      imageProcessor.getImageSize(imageUri).then(dimensions => {
+        if (!cancelled) {
+          setSourceUri(imageUri);
+          dispatch(
+            setCurrentImage({
+              uri: imageUri,
+              width: dimensions.width,
+              height: dimensions.height,
+              originalUri: imageUri,
+            }),
+          );
+        }
+      });
+
+    const openSession = async (id: string) => {
+      try {
+        const session = await projectService.loadProject(id);
+        if (cancelled) {
+          return;
+        }
+        setSourceUri(session.sourceUri);
+        setZoom(session.view.zoom);
+        setPan(session.view.pan);
+        dispatch(
+          openProject({
+            projectId: session.id,
+            image: {
+              uri: session.sourceUri,
+              width: session.width,
+              height: session.height,
+              originalUri: session.sourceUri,
+            },
+            operations: session.operations,
+            zoom: session.view.zoom,
+            pan: session.view.pan,
+          }),
+        );
+      } catch (error) {
+        console.error('Failed to open project:', error);
+        Alert.alert(
+          'Project Unavailable',
+          'The saved edits could not be restored. Opening the photo without them.',
+        );
+        await openImage();
+      }
+    };
+
+    (projectId ? openSession(projectId) : openImage()).catch(error => {
+      console.error('Failed to load image dimensions:', error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, imageUri, projectId]);
+
+  // Leaving the editor keeps the session under Recent Edits, so it can be
+  // reopened without exporting first. Saving does not hold up navigation.
+  useEffect(() => {
+    const saveSession = async () => {
+      if (!currentImage || !isCurrentImage) {
+        return;
+      }
+      if (!currentProjectId && operations.length === 0) {
+        return;
+      }
+      const manifest = await projectService.saveProject({
+        id: currentProjectId || undefined,
+        name: sourceUri.split('/').pop()?.split('.')[0] || 'Untitled',
+        sourceUri,
+        width: currentImage.width,
+        height: currentImage.height,
+        operations,
+        view: { zoom, pan },
+      });
+      const projectData = await projectService.getProjectReference(manifest.id);
+      const thumbnailUri = await imageProcessor.renderThumbnail(
+        sourceUri,
+        toImageOperations(operations),
+      );
+      const existing = recentProjects.find(
+        project => project.id === manifest.id,
+      );
+      await saveProject({
+        id: manifest.id,
+        name: manifest.name,
+        thumbnailUri,
+        originalUri: sourceUri,
+        fileSize: existing?.fileSize ?? 0,
+        edits: [],
+        isSaved: false,
+        projectData,
+      });
+    };
+
+    return navigation.addListener('beforeRemove', () => {
+      saveSession().catch(error => {
+        console.error('Failed to save edit session:', error);
+      });
+    });
+  }, [
+    navigation,
+    currentImage,
+    isCurrentImage,
+    currentProjectId,
+    operations,
+    sourceUri,
+    zoom,
+    pan,
+    recentProjects,
+    saveProject,
+  ]);
+
+  useEffect(() => {
+    if (!isCurrentImage) {
+      return;
+    }
+    if (previewOperations.length === 0) {
+      clearPreview();
+    } else {
+      generatePreview(sourceUri, previewOperations);
+    }
+  }, [
+    isCurrentImage,
+    sourceUri,
+    previewOperations,
+    generatePreview,
+    clearPreview,
+  ]);
+
+  // Metadata is read when the info panel first opens for a source, since
+  // library photos have to be copied out before they can be parsed
+  useEffect(() => {
+    if (selectedTool !== 'info' || photoMetadata?.uri === sourceUri) {
+      return;
+    }
+    let cancelled = false;
+    imageProcessor.readMetadata(sourceUri).then(metadata => {
+      if (!cancelled) {
+        setPhotoMetadata({ uri: sourceUri, metadata });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTool, sourceUri, photoMetadata]);
 
   // Animation values
   const toolbarTranslateY = useSharedValue(0);
@@ -176,7 +697,7 @@ export const EditorScreen: React.FC = () => {
   const handleBack = () => {
     Alert.alert(
       'Exit Editor',
-      'Are you sure you want to exit? Any unsaved changes will be lost.',
+      'Are you sure you want to exit? Your edits stay under Recent Edits.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -188,122 +709,156 @@ export const EditorScreen: React.FC = () => {
     );
   };
 
-  const addToHistory = (action: any) => {
-    const newHistory = editHistory.slice(0, currentEditIndex + 1);
-    newHistory.push(action);
-    setEditHistory(newHistory);
-    setCurrentEditIndex(newHistory.length - 1);
+  // Edit graph mutations; the editor slice records each as an undo step
+  const commitOperation = (operation: ImageOperation) => {
+    dispatch(addOperation({ operation: withOperationId(operation) }));
   };
 
-  const handleUndo = () => {
-    if (currentEditIndex >= 0) {
-      const action = editHistory[currentEditIndex];
-
-      // Reverse the action based on type
-      switch (action.type) {
-        case 'ADD_TEXT':
-          setTextElements(prev => prev.filter(el => el.id !== action.data.id));
-          break;
-        case 'ADD_FILTER':
-          setAppliedFilters(prev => prev.filter(f => f.id !== action.data.id));
-          break;
-        case 'ADD_BLUR':
-          setBlurAreas(prev => prev.filter(b => b.id !== action.data.id));
-          break;
+  const reviseOperation = (before: EditOperation, after: EditOperation) => {
+    dispatch(updateOperation({ id: before.id, updates: after }));
+  };
+
+  const deleteOperation = (operation: EditOperation) => {
+    dispatch(removeOperation(operation.id));
+  };
+
+  // Tools that own a single node revise it in place, or remove it once reset
+  const replaceToolOperation = (
+    existing: EditOperation | undefined,
+    next: ImageOperation | null,
+  ) => {
+    if (!existing) {
+      if (next) {
+        commitOperation(next);
       }
+    } else if (!next) {
+      deleteOperation(existing);
+    } else {
+      reviseOperation(existing, { ...next, id: existing.id });
+    }
+  };
+
+  // Samples the tapped spot from the graph without white balance, which is
+  // what the balance node receives when it sits after the other color edits,
+  // and picks the settings that turn it gray
+  const handleNeutralPick = async (event: GestureResponderEvent) => {
+    if (!canvasSize || !imageDimensions) {
+      return;
+    }
+    const point = canvasToDocumentPoint(
+      { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY },
+      canvasSize,
+      imageDimensions,
+    );
+    if (!point) {
+      return;
+    }
+    setIsPickingNeutral(false);
+    try {
+      const [r, g, b] = await sampleColor(
+        sourceUri,
+        toImageOperations(operations).filter(op => op.type !== 'whiteBalance'),
+        point,
+      );
+      setPendingWhiteBalance(getNeutralizingWhiteBalance(r, g, b));
+      triggerHapticFeedback('medium');
+    } catch (error) {
+      console.error('Failed to sample color:', error);
+      Alert.alert('Error', 'Could not read the color at that point.');
+    }
+  };
 
-      setCurrentEditIndex(currentEditIndex - 1);
+  const handleUndo = () => {
+    if (canUndo) {
+      dispatch(undo());
       triggerHapticFeedback('medium');
     }
   };
 
   const handleRedo = () => {
-    if (currentEditIndex < editHistory.length - 1) {
-      const nextIndex = currentEditIndex + 1;
-      const action = editHistory[nextIndex];
-
-      // Reapply the action
-      switch (action.type) {
-        case 'ADD_TEXT':
-          setTextElements(prev => [...prev, action.data]);
-          break;
-        case 'ADD_FILTER':
-          setAppliedFilters(prev => [...prev, action.data]);
-          break;
-        case 'ADD_BLUR':
-          setBlurAreas(prev => [...prev, action.data]);
-          break;
-      }
-
-      setCurrentEditIndex(nextIndex);
+    if (canRedo) {
+      dispatch(redo());
       triggerHapticFeedback('medium');
     }
   };
 
+  // Consecutive turns and flips collapse into one orientation, so the graph
+  // never holds a chain of them
+  const handleRotate = (angle: number) => {
+    dispatch(
+      setOperations(appendOrientation(operations, { type: 'rotate', angle })),
+    );
+  };
+
+  const handleFlip = (direction: 'horizontal' | 'vertical') => {
+    dispatch(
+      setOperations(appendOrientation(operations, { type: 'flip', direction })),
+    );
+  };
+
   const handleSave = () => {
     const editData = {
-      textElements,
-      appliedFilters,
-      blurAreas,
+      projectId: currentProjectId,
+      operations,
       zoom,
       pan,
     };
 
     navigation.navigate('SaveExport', {
-      editedImageUri: currentImageUri,
-      originalUri: imageUri,
+      editedImageUri: displayUri,
+      originalUri: sourceUri,
       editData,
-      hasEdits:
-        textElements.length > 0 ||
-        appliedFilters.length > 0 ||
-        blurAreas.length > 0,
+      hasEdits: operations.length > 0,
     });
 
     triggerHapticFeedback('heavy');
   };
 
+  // Copy and paste work on committed edits, so only with no tool open
+  const canCopyEdits = !selectedTool && isCurrentImage && operations.length > 0;
+  const canPasteEdits = !selectedTool && isCurrentImage && !!copiedEdits;
+
+  const handlePasteEdits = () => {
+    Alert.alert('Paste Edits', 'Where should the copied edits go?', [
+      {
+        text: 'This Photo',
+        onPress: () => {
+          if (copiedEdits && currentImage) {
+            dispatch(
+              setOperations(pasteEdits(operations, currentImage, copiedEdits)),
+            );
+            triggerHapticFeedback('medium');
+          }
+        },
+      },
+      { text: 'Recent Projects…', onPress: () => setShowPasteEdits(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleShare = () => {
     // TODO: Implement share functionality
     console.log('Share');
   };
 
-  const getImageDimensions = async (
-    uri: string,
-  ): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve, reject) => {
-      Image.getSize(
-        uri,
-        (width, height) => {
-          resolve({ width, height });
-        },
-        error => {
-          console.error('Failed to get image dimensions:', error);
-          reject(error);
-        },
-      );
-    });
-  };
-
-  const handleToolSelect = async (toolId: string) => {
+  const handleToolSelect = (toolId: string) => {
+    // Switching tools drops whatever the open panel was previewing
+    setPendingFilterLayers(null);
+    if (selectedTool === 'brightness') {
+      adjustEdit.cancel();
+    } else if (toolId === 'brightness') {
+      adjustEdit.begin();
+    }
+    setPendingHsl(null);
+    setPendingWhiteBalance(null);
+    setIsPickingNeutral(false);
+    setPendingStraighten(null);
+    setPendingBlurMasks(null);
+    setCropMode('rectangle');
     if (selectedTool === toolId) {
       setSelectedTool(null);
     } else {
       setSelectedTool(toolId);
-
-      // If crop/rotate/blur tool is selected, get image dimensions
-      if (
-        (toolId === 'crop' || toolId === 'rotate' || toolId === 'blur') &&
-        currentImageUri &&
-        !imageDimensions
-      ) {
-        try {
-          const dimensions = await getImageDimensions(currentImageUri);
-          setImageDimensions(dimensions);
-          console.log('Image dimensions loaded:', dimensions);
-        } catch (error) {
-          console.error('Failed to load image dimensions:', error);
-        }
-      }
     }
   };
 
@@ -413,19 +968,14 @@ export const EditorScreen: React.FC = () => {
                 // Update effect of current text element
               }}
               onApply={() => {
-                const newTextElement = {
-                  id: Date.now().toString(),
+                commitOperation({
+                  type: 'text',
                   text: 'Sample Text',
                   fontSize: 24,
                   color: '#000000',
                   x: 50,
                   y: 50,
-                  alignment: 'center',
-                  effect: 'none',
-                };
-
-                setTextElements(prev => [...prev, newTextElement]);
-                addToHistory({ type: 'ADD_TEXT', data: newTextElement });
+                });
                 setSelectedTool(null);
                 triggerHapticFeedback('heavy');
               }}
@@ -440,31 +990,33 @@ export const EditorScreen: React.FC = () => {
         case 'filters':
           return (
             <FilterTool
-              onFilterSelect={(filterId, intensity) => {
-                setPendingFilter({ id: filterId, intensity });
-                // Live preview handled by FilteredPreview; no need to generate low-res preview here
-              }}
-              onIntensityChange={intensity => {
-                setPendingFilter(prev =>
-                  prev ? { ...prev, intensity } : prev,
+              thumbnailSource={filterThumbnailSource}
+              layers={filterLayers}
+              // Previewed by rendering the graph with the pending stack
+              onChange={setPendingFilterLayers}
+              look={previewOperations.filter(isLookOperation)}
+              onApplyPreset={preset => {
+                // Applied right away as one undo step; the tool's stack then
+                // shows the preset's filters
+                dispatch(
+                  setOperations(replaceLook(operations, preset.operations)),
                 );
-                // Live preview handled by FilteredPreview
+                setPendingFilterLayers(null);
               }}
-              onApply={async () => {
-                const chosen = pendingFilter ?? { id: 'none', intensity: 0 };
-                if (!currentImageUri || chosen.id === 'none') {
-                  setSelectedTool(null);
-                  return;
+              onApply={() => {
+                if (pendingFilterLayers) {
+                  dispatch(
+                    setOperations(
+                      applyFilterStack(operations, pendingFilterLayers),
+                    ),
+                  );
                 }
-                // Trigger hidden extraction, handled below in a hidden component
-                setExtractingFilter({
-                  id: chosen.id,
-                  intensity: chosen.intensity,
-                });
+                setPendingFilterLayers(null);
+                setSelectedTool(null);
+                triggerHapticFeedback('heavy');
               }}
               onCancel={() => {
-                clearPreview();
-                setPendingFilter(null);
+                setPendingFilterLayers(null);
                 setSelectedTool(null);
               }}
             />
@@ -473,70 +1025,41 @@ export const EditorScreen: React.FC = () => {
         case 'crop':
           return (
             <CropTool
-              imageUri={currentImageUri}
+              imageUri={displayUri}
               imageWidth={width * 0.8}
               imageHeight={height * 0.6}
-              actualImageWidth={imageDimensions?.width}
-              actualImageHeight={imageDimensions?.height}
+              actualImageWidth={cropDimensions?.width}
+              actualImageHeight={cropDimensions?.height}
+              initialCrop={
+                cropOperation?.type === 'crop' ? cropOperation : undefined
+              }
+              onModeChange={setCropMode}
               onCropChange={cropData => {
                 // Handle crop preview changes
                 console.log('Crop changed:', cropData);
               }}
-              onApply={async cropData => {
-                try {
-                  console.log('🔄 Applying crop with data:', cropData);
-                  console.log('📷 Image URI:', currentImageUri);
-
-                  // Apply crop transformation using image processor
-                  const { imageProcessor } = await import(
-                    '../services/imageProcessor'
-                  );
-
-                  const result = await imageProcessor.processImage(
-                    currentImageUri,
-                    [
-                      {
-                        type: 'crop',
-                        x: cropData.x,
-                        y: cropData.y,
-                        width: cropData.width,
-                        height: cropData.height,
-                      },
-                    ],
-                  );
-
-                  console.log('✅ Crop applied successfully:', result);
-
-                  // Update the image URI with the cropped result
-                  if (
-                    result.processedUri &&
-                    result.processedUri !== currentImageUri
-                  ) {
-                    setCurrentImageUri(result.processedUri);
-                    try {
-                      const dims = await getImageDimensions(
-                        result.processedUri,
-                      );
-                      setImageDimensions(dims);
-                    } catch (_e) {}
-                    console.log(
-                      '📸 New cropped image URI:',
-                      result.processedUri,
-                    );
-                  }
-
-                  addToHistory({ type: 'CROP', data: cropData });
-                  setSelectedTool(null);
-                  triggerHapticFeedback('heavy');
-
-                  Alert.alert('Success', 'Image cropped successfully!');
-                } catch (error) {
-                  console.error('❌ Failed to apply crop:', error);
-                  Alert.alert(
-                    'Crop Error',
-                    `Failed to crop image: ${error.message}\n\nPlease try again or select a different crop area.`,
-                  );
+              onApply={cropData => {
+                const crop = {
+                  type: 'crop' as const,
+                  x: cropData.x,
+                  y: cropData.y,
+                  width: cropData.width,
+                  height: cropData.height,
+                };
+                if (cropOperation) {
+                  reviseOperation(cropOperation, {
+                    ...crop,
+                    id: cropOperation.id,
+                  });
+                } else {
+                  commitOperation(crop);
                 }
+                setSelectedTool(null);
+                triggerHapticFeedback('heavy');
+              }}
+              onApplyPerspective={perspective => {
+                commitOperation({ type: 'perspective', ...perspective });
+                setSelectedTool(null);
               }}
               onCancel={() => setSelectedTool(null)}
             />
@@ -545,75 +1068,109 @@ export const EditorScreen: React.FC = () => {
         case 'rotate':
           return (
             <RotateTool
-              imageUri={currentImageUri}
-              onRotate={async (processedUri, finalize) => {
-                try {
-                  // Update canvas to show the rotated image
-                  setCurrentImageUri(processedUri);
-                  try {
-                    const dims = await getImageDimensions(processedUri);
-                    setImageDimensions(dims);
-                  } catch (_e) {}
-
-                  addToHistory({
-                    type: 'ROTATE',
-                    data: { uri: processedUri },
-                  });
-
-                  if (finalize) {
-                    setSelectedTool(null);
-                    triggerHapticFeedback('heavy');
-                  }
-                } catch (error) {
-                  console.error('Failed to apply rotation:', error);
-                  Alert.alert('Error', 'Failed to apply rotation');
+              onRotate={handleRotate}
+              onFlip={handleFlip}
+              straighten={straighten}
+              onStraightenChange={setPendingStraighten}
+              onApply={() => {
+                setPendingStraighten(null);
+                setSelectedTool(null);
+                if (pendingStraighten) {
+                  replaceToolOperation(
+                    straightenOperation,
+                    pendingStraighten.angle === 0
+                      ? null
+                      : { type: 'straighten', ...pendingStraighten },
+                  );
                 }
+                triggerHapticFeedback('heavy');
+              }}
+              onCancel={() => {
+                setPendingStraighten(null);
+                setSelectedTool(null);
               }}
-              outputWidth={imageDimensions?.width}
-              outputHeight={imageDimensions?.height}
-              onCancel={() => setSelectedTool(null)}
             />
           );
 
         case 'brightness':
           return (
-            <View style={styles.adjustTool}>
-              <Text style={[styles.toolTitle, { color: colors.onBackground }]}>
-                Adjust Image
-              </Text>
-              <Text style={[styles.toolSubtitle, { color: colors.onSurface }]}>
-                Fine-tune brightness, contrast, and saturation
-              </Text>
-              <View style={styles.toolActions}>
-                <TouchableOpacity
-                  style={[
-                    styles.cancelButton,
-                    { backgroundColor: colors.surface },
-                  ]}
-                  onPress={() => setSelectedTool(null)}
-                >
-                  <Text
-                    style={[styles.cancelText, { color: colors.onBackground }]}
-                  >
-                    Cancel
-                  </Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[
-                    styles.applyButton,
-                    { backgroundColor: colors.primary },
-                  ]}
-                  onPress={() => {
-                    setSelectedTool(null);
-                    triggerHapticFeedback('heavy');
-                  }}
-                >
-                  <Text style={[styles.applyText, { color: colors.onPrimary }]}>
-                    Apply
-                  </Text>
-                </TouchableOpacity>
-              </View>
-            </View>
+            <AdjustTool
+              initialSettings={getAdjustSettings(toImageOperations(operations))}
+              onChange={settings =>
+                adjustEdit.change(applyAdjustSettings(operations, settings))
+              }
+              onChangeComplete={adjustEdit.seal}
+              onApply={() => {
+                adjustEdit.finish();
+                setSelectedTool(null);
+                triggerHapticFeedback('heavy');
+              }}
+              onCancel={() => {
+                adjustEdit.cancel();
+                setSelectedTool(null);
+              }}
+            />
+          );
+
+        case 'hsl':
+          return (
+            <HslTool
+              initialSettings={
+                hslOperation?.type === 'hsl' ? hslOperation.bands : undefined
+              }
+              onChange={setPendingHsl}
+              onApply={bands => {
+                setPendingHsl(null);
+                setSelectedTool(null);
+                replaceToolOperation(
+                  hslOperation,
+                  isNeutralHsl(bands) ? null : { type: 'hsl', bands },
+                );
+                triggerHapticFeedback('heavy');
+              }}
+              onCancel={() => {
+                setPendingHsl(null);
+                setSelectedTool(null);
+              }}
+            />
+          );
+
+        case 'whiteBalance':
+          return (
+            <WhiteBalanceTool
+              settings={whiteBalance}
+              onChange={setPendingWhiteBalance}
+              isPicking={isPickingNeutral}
+              onTogglePicker={() => setIsPickingNeutral(picking => !picking)}
+              onApply={() => {
+                const { temperature, tint } = whiteBalance;
+                setPendingWhiteBalance(null);
+                setIsPickingNeutral(false);
+                setSelectedTool(null);
+                replaceToolOperation(
+                  whiteBalanceOperation,
+                  temperature === 0 && tint === 0
+                    ? null
+                    : { type: 'whiteBalance', temperature, tint },
+                );
+                triggerHapticFeedback('heavy');
+              }}
+              onCancel={() => {
+                setPendingWhiteBalance(null);
+                setIsPickingNeutral(false);
+                setSelectedTool(null);
+              }}
+            />
+          );
+
+        case 'info':
+          return (
+            <MetadataPanel
+              metadata={
+                photoMetadata?.uri === sourceUri ? photoMetadata.metadata : null
+              }
+              onClose={() => setSelectedTool(null)}
+            />
           );
 
         default:
@@ -671,7 +1228,11 @@ export const EditorScreen: React.FC = () => {
           </View>
 
           <View style={styles.toolbarCenter}>
-            <TouchableOpacity onPress={handleUndo} style={styles.toolbarButton}>
+            <TouchableOpacity
+              onPress={handleUndo}
+              disabled={!canUndo}
+              style={[styles.toolbarButton, !canUndo && styles.disabledButton]}
+            >
               <Text
                 style={[
                   styles.toolbarButtonText,
@@ -682,7 +1243,11 @@ export const EditorScreen: React.FC = () => {
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity onPress={handleRedo} style={styles.toolbarButton}>
+            <TouchableOpacity
+              onPress={handleRedo}
+              disabled={!canRedo}
+              style={[styles.toolbarButton, !canRedo && styles.disabledButton]}
+            >
               <Text
                 style={[
                   styles.toolbarButtonText,
@@ -695,6 +1260,44 @@ export const EditorScreen: React.FC = () => {
           </View>
 
           <View style={styles.toolbarRight}>
+            <TouchableOpacity
+              onPress={() => setShowCopyEdits(true)}
+              disabled={!canCopyEdits}
+              style={[
+                styles.toolbarButton,
+                !canCopyEdits && styles.disabledButton,
+              ]}
+              accessibilityLabel="Copy edits"
+            >
+              <Text
+                style={[
+                  styles.toolbarButtonText,
+                  { color: colors.onBackground },
+                ]}
+              >
+                📋
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={handlePasteEdits}
+              disabled={!canPasteEdits}
+              style={[
+                styles.toolbarButton,
+                !canPasteEdits && styles.disabledButton,
+              ]}
+              accessibilityLabel="Paste edits"
+            >
+              <Text
+                style={[
+                  styles.toolbarButtonText,
+                  { color: colors.onBackground },
+                ]}
+              >
+                📥
+              </Text>
+            </TouchableOpacity>
+
             <TouchableOpacity onPress={handleSave} style={styles.toolbarButton}>
               <Text
                 style={[styles.toolbarButtonText, { color: colors.primary }]}
@@ -724,63 +1327,36 @@ export const EditorScreen: React.FC = () => {
       <View style={styles.canvasContainer}>
         <Animated.View style={[styles.canvas, canvasAnimatedStyle]}>
           {/* Selected Image */}
-          {currentImageUri ? (
-            <View style={styles.imageContainer}>
-              {pendingFilter ? (
-                <FilteredPreview
-                  uri={currentImageUri}
-                  filterId={pendingFilter.id}
-                  intensity={pendingFilter.intensity}
-                />
-              ) : (
-                <Image
-                  source={{ uri: previewUri || currentImageUri }}
-                  style={styles.selectedImage}
-                  resizeMode="contain"
-                />
-              )}
-
-              {/* Text Elements Overlay */}
-              {textElements.map(textElement => (
-                <View
-                  key={textElement.id}
-                  style={[
-                    styles.textOverlay,
-                    {
-                      left: textElement.x,
-                      top: textElement.y,
-                    },
-                  ]}
-                >
-                  <Text
-                    style={[
-                      styles.overlayText,
-                      {
-                        fontSize: textElement.fontSize,
-                        color: textElement.color,
-                        textAlign: textElement.alignment,
-                      },
-                    ]}
-                  >
-                    {textElement.text}
-                  </Text>
-                </View>
-              ))}
+          {displayUri ? (
+            <View
+              style={styles.imageContainer}
+              onLayout={(event: LayoutChangeEvent) =>
+                setCanvasSize({
+                  width: event.nativeEvent.layout.width,
+                  height: event.nativeEvent.layout.height,
+                })
+              }
+            >
+              <Image
+                source={{ uri: displayUri }}
+                style={styles.selectedImage}
+                resizeMode="contain"
+              />
 
               {/* Filter Indicator */}
-              {appliedFilters.length > 0 && (
+              {appliedFilterCount > 0 && (
                 <View style={styles.filterIndicator}>
                   <Text
                     style={[styles.indicatorText, { color: colors.onPrimary }]}
                   >
-                    {appliedFilters.length} Filter
-                    {appliedFilters.length > 1 ? 's' : ''}
+                    {appliedFilterCount} Filter
+                    {appliedFilterCount > 1 ? 's' : ''}
                   </Text>
                 </View>
               )}
 
               {/* Blur Areas Indicator */}
-              {blurAreas.length > 0 && (
+              {blurOperations.length > 0 && (
                 <View style={[styles.blurIndicator, { top: 40 }]}>
                   <Text
                     style={[styles.indicatorText, { color: colors.onPrimary }]}
@@ -790,36 +1366,50 @@ export const EditorScreen: React.FC = () => {
                 </View>
               )}
 
+              {/* White balance eyedropper */}
+              {selectedTool === 'whiteBalance' && isPickingNeutral && (
+                <Pressable
+                  style={StyleSheet.absoluteFill}
+                  onPress={handleNeutralPick}
+                  accessibilityLabel="Pick a neutral color"
+                />
+              )}
+
               {/* Blur Tool Overlay */}
-              {selectedTool === 'blur' &&
-                currentImageUri &&
-                imageDimensions && (
-                  <View style={styles.blurToolOverlay}>
-                    <BlurToolComponent
-                      imageUri={currentImageUri}
-                      imageWidth={width * 0.8}
-                      imageHeight={height * 0.6}
-                      actualImageWidth={imageDimensions.width}
-                      actualImageHeight={imageDimensions.height}
-                      onApply={data => {
-                        const newArea = { id: Date.now().toString(), ...data };
-                        setBlurAreas(prev => [...prev, newArea]);
-                        addToHistory({ type: 'ADD_BLUR', data: newArea });
-                        // Bake final image via extractor component mounted below
-                        setExtractingBlur({
-                          rect: {
-                            x: data.x,
-                            y: data.y,
-                            width: data.width,
-                            height: data.height,
-                          },
-                          intensity: data.intensity,
-                        });
-                      }}
-                      onCancel={() => setSelectedTool(null)}
-                    />
-                  </View>
-                )}
+              {selectedTool === 'blur' && imageDimensions && (
+                <View style={styles.blurToolOverlay}>
+                  <BlurToolComponent
+                    imageUri={displayUri}
+                    imageWidth={width * 0.8}
+                    imageHeight={height * 0.6}
+                    actualImageWidth={imageDimensions.width}
+                    actualImageHeight={imageDimensions.height}
+                    masks={blurMasks}
+                    hiddenMaskCount={hiddenBlurCount}
+                    onChange={setPendingBlurMasks}
+                    onApply={() => {
+                      if (pendingBlurMasks && currentImage) {
+                        dispatch(
+                          setOperations(
+                            applyBlurMasks(
+                              operations,
+                              pendingBlurMasks,
+                              currentImage,
+                            ),
+                          ),
+                        );
+                      }
+                      setPendingBlurMasks(null);
+                      setSelectedTool(null);
+                      triggerHapticFeedback('heavy');
+                    }}
+                    onCancel={() => {
+                      setPendingBlurMasks(null);
+                      setSelectedTool(null);
+                    }}
+                  />
+                </View>
+              )}
             </View>
           ) : (
             <View style={styles.imagePlaceholder}>
@@ -891,69 +1481,6 @@ export const EditorScreen: React.FC = () => {
         </View>
       </View>
 
-      {/* Hidden extractor to bake filter on Apply */}
-      {extractingFilter && currentImageUri ? (
-        <FilteredExtractor
-          uri={currentImageUri}
-          filterId={extractingFilter.id}
-          intensity={extractingFilter.intensity}
-          onDone={async uri => {
-            try {
-              setCurrentImageUri(uri);
-              try {
-                const dims = await getImageDimensions(uri);
-                setImageDimensions(dims);
-              } catch (_e) {}
-              const entry = {
-                id: Date.now().toString(),
-                filterId: extractingFilter.id,
-                intensity: extractingFilter.intensity,
-              };
-              setAppliedFilters(prev => [...prev, entry]);
-              addToHistory({ type: 'ADD_FILTER', data: entry });
-            } finally {
-              setExtractingFilter(null);
-              clearPreview();
-              setPendingFilter(null);
-              setSelectedTool(null);
-              triggerHapticFeedback('heavy');
-            }
-          }}
-          onError={msg => {
-            console.error('Filter extraction error:', msg);
-            setExtractingFilter(null);
-            Alert.alert('Filter Error', msg || 'Failed to apply filter');
-          }}
-        />
-      ) : null}
-
-      {/* Hidden extractor to bake masked blur on Apply */}
-      {extractingBlur && currentImageUri ? (
-        <MaskedBlurExtractor
-          uri={currentImageUri}
-          rect={extractingBlur.rect}
-          intensity={extractingBlur.intensity}
-          onDone={async uri => {
-            try {
-              setCurrentImageUri(uri);
-              try {
-                const dims = await getImageDimensions(uri);
-                setImageDimensions(dims);
-              } catch (_e) {}
-            } finally {
-              setExtractingBlur(null);
-              setSelectedTool(null);
-              triggerHapticFeedback('heavy');
-            }
-          }}
-          onError={msg => {
-            console.error('Masked blur extraction error:', msg);
-            Alert.alert('Blur Error', msg || 'Failed to apply blur');
-            setExtractingBlur(null);
-          }}
-        />
-      ) : null}
-
       {/* Tool Categories Bar */}
       <Animated.View
         style={[
@@ -979,6 +1506,25 @@ export const EditorScreen: React.FC = () => {
           {renderToolOptions()}
         </Animated.View>
       )}
+
+      <CopyEditsDialog
+        visible={showCopyEdits}
+        operations={operations}
+        onCopy={groups => {
+          if (currentImage) {
+            copyEdits(operations, currentImage, groups);
+            triggerHapticFeedback('medium');
+          }
+        }}
+        onClose={() => setShowCopyEdits(false)}
+      />
+      <PasteEditsDialog
+        visible={showPasteEdits}
+        projects={recentProjects.filter(
+          project => project.id !== currentProjectId,
+        )}
+        onClose={() => setShowPasteEdits(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -1013,6 +1559,9 @@ const styles = StyleSheet.create({
   toolbarButtonText: {
     fontSize: 18,
   },
+  disabledButton: {
+    opacity: 0.4,
+  },
   canvasContainer: {
     flex: 1,
     position: 'relative',
@@ -1033,18 +1582,6 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
-  textOverlay: {
-    position: 'absolute',
-    backgroundColor: 'rgba(255, 255, 255, 0.8)',
-    padding: SPACING.xs,
-    borderRadius: 4,
-    borderWidth: 1,
-    borderColor: '#6200EE',
-    borderStyle: 'dashed',
-  },
-  overlayText: {
-    ...TYPOGRAPHY.body1,
-  },
   filterIndicator: {
     position: 'absolute',
     top: 10,
@@ -1216,48 +1753,6 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   // Tool-specific styles
-  toolTitle: {
-    ...TYPOGRAPHY.headline2,
-    fontWeight: '600',
-    textAlign: 'center',
-    marginBottom: SPACING.md,
-  },
-  toolSubtitle: {
-    ...TYPOGRAPHY.body2,
-    textAlign: 'center',
-    marginBottom: SPACING.lg,
-    opacity: 0.8,
-  },
-  toolActions: {
-    flexDirection: 'row',
-    gap: SPACING.md,
-    marginTop: SPACING.lg,
-  },
-  cancelButton: {
-    flex: 1,
-    padding: SPACING.md,
-    borderRadius: 8,
-    alignItems: 'center',
-  },
-  cancelText: {
-    ...TYPOGRAPHY.body1,
-    fontWeight: '500',
-  },
-  applyButton: {
-    flex: 1,
-    padding: SPACING.md,
-    borderRadius: 8,
-    alignItems: 'center',
-  },
-  applyText: {
-    ...TYPOGRAPHY.body1,
-    fontWeight: '600',
-  },
-
-  // Adjust tool styles
-  adjustTool: {
-    padding: SPACING.lg,
-  },
   blurToolOverlay: {
     position: 'absolute',
     top: 0,
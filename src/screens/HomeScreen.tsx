@@ -1,10 +1,12 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   FlatList,
+  Image,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -14,17 +16,24 @@ import { RootStackParamList } from '../navigation/types';
 import { useTheme } from '../utils/theme';
 // Animation hooks temporarily disabled
 import { useRecentProjects } from '../hooks/useStorage';
+import { useEditClipboard } from '../hooks/useEditClipboard';
+import { RecentProject } from '../store/slices/recentProjectsSlice';
 import { ElevatedButton } from '../components/common/ElevatedButton';
 import { IconButton } from '../components/common/IconButton';
 import { ThemeToggle } from '../components/common/ThemeToggle';
 import { Card } from '../components/common/Card';
 import { Toolbar } from '../components/common/Toolbar';
+import { CopyEditsDialog } from '../components/editor/CopyEditsDialog';
+import { PasteEditsDialog } from '../components/editor/PasteEditsDialog';
+import type { EditOperation } from '../services/editGraph';
+import type { ProjectSession } from '../services/projectFormat';
 import { TYPOGRAPHY } from '../constants/typography';
 import { SPACING } from '../constants/spacing';
 
 // const { width } = Dimensions.get('window'); // Temporarily unused
 const HERO_CARD_HEIGHT = 200;
 const RECENT_EDIT_CARD_SIZE = 120;
+const NO_OPERATIONS: EditOperation[] = [];
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
@@ -32,6 +41,14 @@ export const HomeScreen: React.FC = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { colors } = useTheme();
   const { projects: recentProjects } = useRecentProjects();
+  const { copiedEdits, copyEdits, loadProjectSession } = useEditClipboard();
+  // Project edits are being copied from, and the one long-pressed to paste
+  const [copySource, setCopySource] = useState<ProjectSession | null>(null);
+  const [pasteTarget, setPasteTarget] = useState<RecentProject | null>(null);
+  const pasteSelection = useMemo(
+    () => (pasteTarget ? [pasteTarget.id] : []),
+    [pasteTarget],
+  );
 
   // Animations temporarily disabled to fix rendering issues
 
@@ -111,24 +128,51 @@ export const HomeScreen: React.FC = () => {
     navigation.navigate('PhotoSelection', { source: 'gallery' });
   };
 
-  const handleRecentProjectPress = (projectId: string) => {
+  const handleRecentProjectPress = (project: RecentProject) => {
+    // Entries without saved project files only reopen the photo
     navigation.navigate('Editor', {
-      imageUri: '', // This would come from the project data
-      projectId,
+      imageUri: project.originalUri,
+      projectId: project.projectData ? project.id : undefined,
     });
   };
 
-  // Long press handler temporarily removed due to Card component limitations
+  const handleCopyEdits = async (project: RecentProject) => {
+    try {
+      setCopySource(await loadProjectSession(project));
+    } catch (error) {
+      console.error('Failed to open project for copying:', error);
+      Alert.alert('Error', 'Could not read the edits of this project.');
+    }
+  };
+
+  const handleRecentProjectLongPress = (project: RecentProject) => {
+    Alert.alert(project.name || 'Project', undefined, [
+      { text: 'Copy Edits', onPress: () => handleCopyEdits(project) },
+      ...(copiedEdits
+        ? [{ text: 'Paste Edits', onPress: () => setPasteTarget(project) }]
+        : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
 
-  const renderRecentProject = ({ item, index }: { item: any; index: number }) => {
+  const renderRecentProject = ({ item, index }: { item: RecentProject; index: number }) => {
     return (
       <View style={[{ marginRight: SPACING.md }]}>
         <Card
           style={styles.recentEditCard}
-          onPress={() => handleRecentProjectPress(item.id)}
+          onPress={() => handleRecentProjectPress(item)}
+          onLongPress={() => handleRecentProjectLongPress(item)}
         >
           <View style={styles.recentEditImage}>
-            <Text style={styles.recentEditPlaceholder}>📷</Text>
+            {item.thumbnailUri ? (
+              <Image
+                source={{ uri: item.thumbnailUri }}
+                style={styles.recentEditThumbnail}
+                resizeMode="cover"
+              />
+            ) : (
+              <Text style={styles.recentEditPlaceholder}>📷</Text>
+            )}
           </View>
           <View style={styles.recentEditInfo}>
             <Text
@@ -220,6 +264,23 @@ export const HomeScreen: React.FC = () => {
           style={styles.fab}
         />
       </View>
+
+      <CopyEditsDialog
+        visible={copySource !== null}
+        operations={copySource?.operations ?? NO_OPERATIONS}
+        onCopy={groups => {
+          if (copySource) {
+            copyEdits(copySource.operations, copySource, groups);
+          }
+        }}
+        onClose={() => setCopySource(null)}
+      />
+      <PasteEditsDialog
+        visible={pasteTarget !== null}
+        projects={recentProjects}
+        initialSelection={pasteSelection}
+        onClose={() => setPasteTarget(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -303,6 +364,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     marginBottom: SPACING.sm,
+    overflow: 'hidden',
+  },
+  recentEditThumbnail: {
+    width: '100%',
+    height: '100%',
   },
   recentEditPlaceholder: {
     fontSize: 32,
@@ -35,6 +35,8 @@ const { width } = Dimensions.get('window');
 const GRID_COLUMNS = 3;
 const GRID_SPACING = SPACING.sm;
 const PHOTO_SIZE = (width - (GRID_COLUMNS + 1) * GRID_SPACING) / GRID_COLUMNS;
+// Selecting more than one photo opens batch editing
+const MAX_SELECTION = 50;
 
 type PhotoSelectionScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -260,10 +262,10 @@ export const PhotoSelectionScreen: React.FC = () => {
     if (selectedPhotos.includes(photoId)) {
       setSelectedPhotos(prev => prev.filter(id => id !== photoId));
     } else {
-      if (selectedPhotos.length >= 5) {
+      if (selectedPhotos.length >= MAX_SELECTION) {
         Alert.alert(
           'Selection Limit',
-          'You can select up to 5 photos at once.',
+          `You can select up to ${MAX_SELECTION} photos at once.`,
           [{ text: 'OK' }],
         );
         return;
@@ -282,6 +284,15 @@ export const PhotoSelectionScreen: React.FC = () => {
       return;
     }
 
+    if (selectedPhotos.length > 1) {
+      navigation.navigate('BatchEdit', {
+        imageUris: selectedPhotos
+          .map(id => photos.find(photo => photo.id === id)?.uri)
+          .filter((uri): uri is string => !!uri),
+      });
+      return;
+    }
+
     const selectedPhotoData = photos.find(
       photo => photo.id === selectedPhotos[0],
     );
@@ -374,7 +385,7 @@ export const PhotoSelectionScreen: React.FC = () => {
         <View style={styles.headerRight}>
           {selectedPhotos.length > 0 && (
             <Text style={[styles.selectionCount, { color: colors.primary }]}>
-              {selectedPhotos.length}/5
+              {selectedPhotos.length}/{MAX_SELECTION}
             </Text>
           )}
         </View>
@@ -462,9 +473,11 @@ export const PhotoSelectionScreen: React.FC = () => {
           style={[styles.bottomActions, { backgroundColor: colors.surface }]}
         >
           <ElevatedButton
-            title={`Edit ${selectedPhotos.length} Photo${
-              selectedPhotos.length > 1 ? 's' : ''
-            }`}
+            title={
+              selectedPhotos.length > 1
+                ? `Batch Edit ${selectedPhotos.length} Photos`
+                : 'Edit Photo'
+            }
             onPress={handleContinue}
             style={styles.continueButton}
           />
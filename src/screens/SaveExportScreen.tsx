@@ -8,6 +8,8 @@ import {
   Alert,
   ScrollView,
   Image,
+  Switch,
+  TextInput,
 } from 'react-native';
 import { CameraRoll } from '@react-native-camera-roll/camera-roll';
 import RNFS from 'react-native-fs';
@@ -23,11 +25,18 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useDispatch, useSelector } from 'react-redux';
 import { RootStackParamList } from '../navigation/types';
+import { RootState } from '../store';
+import { fitLongEdge, getDocumentDimensions, toImageOperations } from '../services/editGraph';
+import { projectService } from '../services/projectService';
+import { ProjectReference } from '../services/projectFormat';
+import { setProjectId } from '../store/slices/editorSlice';
 import { useTheme } from '../utils/theme';
 import { useImageProcessing } from '../hooks/useImageProcessing';
-import { useUserPreferences } from '../hooks/useStorage';
-import { ImageOperation } from '../services/imageProcessor';
+import { useUserPreferences, useRecentProjects } from '../hooks/useStorage';
+import { ImageOperation, UnsupportedSourceError } from '../services/imageProcessor';
+import { MetadataPolicy } from '../services/codecs';
 import { IconButton } from '../components/common/IconButton';
 import { ElevatedButton } from '../components/common/ElevatedButton';
 import { Toolbar } from '../components/common/Toolbar';
@@ -38,6 +47,12 @@ import { SPACING } from '../constants/spacing';
 
 const { width } = Dimensions.get('window');
 
+const METADATA_POLICIES: { key: MetadataPolicy; label: string; desc: string }[] = [
+  { key: 'keep', label: 'Keep all', desc: 'Camera details, location and credits are kept' },
+  { key: 'strip-gps', label: 'No location', desc: 'Everything but the GPS position is kept' },
+  { key: 'strip-all', label: 'Remove all', desc: 'The export carries no metadata from the original' },
+];
+
 type SaveExportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SaveExport'>;
 type SaveExportScreenRouteProp = RouteProp<RootStackParamList, 'SaveExport'>;
 
@@ -47,8 +62,14 @@ export const SaveExportScreen: React.FC = () => {
   const { colors } = useTheme();
   const { processImage, isProcessing, progress, currentOperation } = useImageProcessing();
   const { preferences, updatePreferences } = useUserPreferences();
-
-  const { editedImageUri, originalUri } = route.params;
+  const { saveProject } = useRecentProjects();
+
+  const { editedImageUri, originalUri, editData } = route.params;
+  // The export is rendered from the original through the full edit graph;
+  // editedImageUri is only the on-screen preview
+  const documentOperations = useSelector((state: RootState) => state.editor.operations);
+  const currentImage = useSelector((state: RootState) => state.editor.currentImage);
+  const dispatch = useDispatch();
   const insets = useSafeAreaInsets();
   const QUALITY_STEP = 5; // percent step
   const snapQuality = (q: number) =>
@@ -58,6 +79,10 @@ export const SaveExportScreen: React.FC = () => {
   const [format, setFormat] = useState<'jpeg' | 'png'>(preferences.formatPreference || 'jpeg');
   const [resolution, setResolution] = useState<'original' | 'hd' | '4k'>('original');
   const [saveLocation, setSaveLocation] = useState<'gallery' | 'app'>('gallery');
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>(preferences.metadataPolicy || 'strip-gps');
+  const [embedAuthorInfo, setEmbedAuthorInfo] = useState(!!preferences.embedAuthorInfo);
+  const [authorName, setAuthorName] = useState(preferences.authorName || '');
+  const [copyrightNotice, setCopyrightNotice] = useState(preferences.copyrightNotice || '');
   const [isSuccess, setIsSuccess] = useState(false);
   const sliderWidthRef = useRef(0);
 
@@ -142,27 +167,81 @@ export const SaveExportScreen: React.FC = () => {
       await updatePreferences({
         qualityPreference: quality,
         formatPreference: format,
+        metadataPolicy,
+        embedAuthorInfo,
+        authorName: authorName.trim(),
+        copyrightNotice: copyrightNotice.trim(),
       });
 
       // Prepare operations based on user selections
-      const operations: ImageOperation[] = [];
-
-      // Add resolution operation if not original
-      if (resolution !== 'original') {
-        const dimensions = resolution === 'hd' ? { width: 1920, height: 1080 } : { width: 3840, height: 2160 };
-        operations.push({ type: 'resize', width: dimensions.width, height: dimensions.height });
+      const operations: ImageOperation[] = toImageOperations(documentOperations);
+
+      // Bring the long edge within the chosen size, keeping the aspect ratio
+      if (resolution !== 'original' && currentImage) {
+        const fitted = fitLongEdge(
+          getDocumentDimensions(currentImage, operations),
+          resolution === 'hd' ? 1920 : 3840,
+        );
+        if (fitted) {
+          operations.push({ type: 'resize', ...fitted });
+        }
       }
 
       // Process the image
-      const result = await processImage(editedImageUri, operations, {
+      const result = await processImage(originalUri, operations, {
         quality,
         format,
         generateThumbnail: true,
+        metadata: {
+          policy: metadataPolicy,
+          author: embedAuthorInfo ? authorName.trim() : undefined,
+          copyright: embedAuthorInfo ? copyrightNotice.trim() : undefined,
+        },
       });
 
       if (result) {
         console.log('Image processed successfully:', result);
 
+        const name = originalUri.split('/').pop()?.split('.')[0] || 'Untitled';
+
+        // Save the full edit session so it can be reopened from Recent Edits.
+        // The export itself does not depend on this succeeding.
+        let projectId: string | undefined = editData?.projectId || undefined;
+        let projectData: ProjectReference | undefined;
+        if (currentImage) {
+          try {
+            const manifest = await projectService.saveProject({
+              id: projectId,
+              name,
+              sourceUri: originalUri,
+              width: currentImage.width,
+              height: currentImage.height,
+              operations: documentOperations,
+              view: {
+                zoom: editData?.zoom ?? 1,
+                pan: editData?.pan ?? { x: 0, y: 0 },
+              },
+            });
+            projectId = manifest.id;
+            projectData = await projectService.getProjectReference(manifest.id);
+            dispatch(setProjectId(manifest.id));
+          } catch (error) {
+            console.error('Failed to save project files:', error);
+          }
+        }
+
+        // Record the export so it shows up under Recent Edits
+        await saveProject({
+          id: projectId,
+          name,
+          thumbnailUri: result.thumbnailUri || '',
+          originalUri,
+          fileSize: result.fileSize,
+          edits: [],
+          isSaved: true,
+          projectData,
+        });
+
         // Persist according to saveLocation
         if (saveLocation === 'gallery') {
           try {
@@ -200,7 +279,12 @@ export const SaveExportScreen: React.FC = () => {
       }
     } catch (error) {
       console.error('Export failed:', error);
-      Alert.alert('Export Failed', 'An error occurred while exporting your image.');
+      Alert.alert(
+        'Export Failed',
+        error instanceof UnsupportedSourceError
+          ? error.message
+          : 'An error occurred while exporting your image.',
+      );
     }
   };
 
@@ -323,6 +407,76 @@ export const SaveExportScreen: React.FC = () => {
     </Card>
   );
 
+  const renderMetadataOptions = () => (
+    <Card style={styles.optionCard}>
+      <Text style={[styles.optionTitle, { color: colors.onBackground }]}>
+        Metadata
+      </Text>
+      <View style={styles.formatButtons}>
+        {METADATA_POLICIES.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[
+              styles.formatButton,
+              styles.metadataButton,
+              metadataPolicy === option.key && styles.formatButtonActive,
+              { backgroundColor: metadataPolicy === option.key ? colors.primary : colors.surface },
+            ]}
+            onPress={() => setMetadataPolicy(option.key)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: metadataPolicy === option.key }}
+          >
+            <Text
+              style={[
+                styles.formatButtonText,
+                { color: metadataPolicy === option.key ? colors.onPrimary : colors.onBackground },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={[styles.metadataDescription, { color: colors.onSurface }]}>
+        {format === 'png'
+          ? 'PNG exports carry no metadata.'
+          : METADATA_POLICIES.find((option) => option.key === metadataPolicy)?.desc}
+      </Text>
+      <View style={styles.authorToggle}>
+        <Text style={[styles.authorToggleLabel, { color: colors.onBackground }]}>
+          Add author and copyright
+        </Text>
+        <Switch
+          value={embedAuthorInfo}
+          onValueChange={setEmbedAuthorInfo}
+          trackColor={{ true: colors.primary, false: colors.surface }}
+          accessibilityLabel="Add author and copyright"
+        />
+      </View>
+      {embedAuthorInfo && (
+        <>
+          <TextInput
+            style={[styles.authorInput, { color: colors.onBackground, backgroundColor: colors.surface }]}
+            placeholder="Author"
+            placeholderTextColor={colors.onSurface}
+            value={authorName}
+            onChangeText={setAuthorName}
+            autoCapitalize="words"
+            maxLength={120}
+          />
+          <TextInput
+            style={[styles.authorInput, { color: colors.onBackground, backgroundColor: colors.surface }]}
+            placeholder="Copyright notice"
+            placeholderTextColor={colors.onSurface}
+            value={copyrightNotice}
+            onChangeText={setCopyrightNotice}
+            maxLength={200}
+          />
+        </>
+      )}
+    </Card>
+  );
+
   const renderResolutionSelector = () => (
     <Card style={styles.optionCard}>
       <Text style={[styles.optionTitle, { color: colors.onBackground }]}>
@@ -331,8 +485,8 @@ export const SaveExportScreen: React.FC = () => {
       <View style={styles.resolutionButtons}>
         {[
           { key: 'original', label: 'Original', desc: 'Keep original size' },
-          { key: 'hd', label: 'HD (1920x1080)', desc: 'High definition' },
-          { key: '4k', label: '4K (3840x2160)', desc: 'Ultra high definition' },
+          { key: 'hd', label: 'HD (1920 px long edge)', desc: 'High definition' },
+          { key: '4k', label: '4K (3840 px long edge)', desc: 'Ultra high definition' },
         ].map((option) => (
           <TouchableOpacity
             key={option.key}
@@ -485,6 +639,7 @@ export const SaveExportScreen: React.FC = () => {
           <View style={styles.optionsContainer}>
             {renderQualitySlider()}
             {renderFormatSelector()}
+            {renderMetadataOptions()}
             {renderResolutionSelector()}
             {renderSaveLocation()}
           </View>
@@ -663,6 +818,29 @@ const styles = StyleSheet.create({
     ...TYPOGRAPHY.body2,
     fontWeight: '600',
   },
+  metadataButton: {
+    paddingHorizontal: SPACING.sm,
+  },
+  metadataDescription: {
+    ...TYPOGRAPHY.caption,
+    marginTop: SPACING.sm,
+  },
+  authorToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: SPACING.md,
+  },
+  authorToggleLabel: {
+    ...TYPOGRAPHY.body2,
+  },
+  authorInput: {
+    ...TYPOGRAPHY.body2,
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 8,
+  },
   resolutionButtons: {
     gap: SPACING.sm,
   },
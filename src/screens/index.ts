@@ -2,5 +2,6 @@ export { SplashScreen } from './SplashScreen';
 export { HomeScreen } from './HomeScreen';
 export { PhotoSelectionScreen } from './PhotoSelectionScreen';
 export { EditorScreen } from './EditorScreen';
+export { BatchEditScreen } from './BatchEditScreen';
 export { SaveExportScreen } from './SaveExportScreen';
 export { PremiumScreen } from './PremiumScreen';
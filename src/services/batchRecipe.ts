@@ -0,0 +1,155 @@
+import type { ImageOperation } from './imageProcessor';
+import { Dimensions, fitLongEdge } from './editGraph';
+import { GLYPH_ADVANCE_X, GLYPH_ADVANCE_Y } from './raster/bitmapFont';
+
+// One recipe applied to every photo of a batch. Sizes in a recipe are
+// relative to the photo, so its operations are built per photo from that
+// photo's own dimensions.
+
+export type WatermarkPosition =
+  | 'topLeft'
+  | 'topRight'
+  | 'center'
+  | 'bottomLeft'
+  | 'bottomRight';
+
+export const WATERMARK_POSITIONS: Array<{
+  id: WatermarkPosition;
+  name: string;
+}> = [
+  { id: 'topLeft', name: 'Top Left' },
+  { id: 'topRight', name: 'Top Right' },
+  { id: 'center', name: 'Center' },
+  { id: 'bottomLeft', name: 'Bottom Left' },
+  { id: 'bottomRight', name: 'Bottom Right' },
+];
+
+export interface Watermark {
+  text: string;
+  position: WatermarkPosition;
+  size: number; // Line height as a percentage of the shorter edge
+  color: string;
+}
+
+export interface BatchRecipe {
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  saturation: number; // -100..100
+  filter: { filterType: string; intensity: number } | null;
+  // Longest edge in pixels; photos already smaller keep their size
+  maxSize: number | null;
+  watermark: Watermark | null;
+}
+
+export const DEFAULT_BATCH_RECIPE: BatchRecipe = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  filter: null,
+  maxSize: null,
+  watermark: null,
+};
+
+export const DEFAULT_WATERMARK: Watermark = {
+  text: '',
+  position: 'bottomRight',
+  size: 4,
+  color: '#ffffffcc',
+};
+
+// Gap between a watermark and the edges, as a fraction of the shorter edge
+const WATERMARK_MARGIN = 0.03;
+
+const MIN_WATERMARK_FONT_SIZE = 8;
+
+const placeWatermark = (
+  watermark: Watermark,
+  text: string,
+  size: Dimensions,
+): ImageOperation => {
+  const shorter = Math.min(size.width, size.height);
+  const fontSize = Math.max(
+    MIN_WATERMARK_FONT_SIZE,
+    Math.round((shorter * watermark.size) / 100),
+  );
+  const margin = Math.round(shorter * WATERMARK_MARGIN);
+  const textWidth =
+    (text.length * GLYPH_ADVANCE_X * fontSize) / GLYPH_ADVANCE_Y;
+
+  let x: number;
+  let y: number;
+  switch (watermark.position) {
+    case 'topLeft':
+      x = margin;
+      y = margin;
+      break;
+    case 'topRight':
+      x = size.width - margin - textWidth;
+      y = margin;
+      break;
+    case 'center':
+      x = (size.width - textWidth) / 2;
+      y = (size.height - fontSize) / 2;
+      break;
+    case 'bottomLeft':
+      x = margin;
+      y = size.height - margin - fontSize;
+      break;
+    default:
+      x = size.width - margin - textWidth;
+      y = size.height - margin - fontSize;
+  }
+
+  // Text wider than the photo starts at its left edge and runs off the right
+  return {
+    type: 'text',
+    text,
+    x: Math.max(0, Math.round(x)),
+    y: Math.max(0, Math.round(y)),
+    fontSize,
+    color: watermark.color,
+  };
+};
+
+// Operations for one photo of the batch: adjustments and the filter first,
+// then the resize, with the watermark placed last on the resized photo so
+// it is neither filtered nor resampled.
+export const buildBatchOperations = (
+  recipe: BatchRecipe,
+  size: Dimensions,
+): ImageOperation[] => {
+  const operations: ImageOperation[] = [];
+  if (recipe.brightness) {
+    operations.push({ type: 'brightness', value: recipe.brightness });
+  }
+  if (recipe.contrast) {
+    operations.push({ type: 'contrast', value: recipe.contrast });
+  }
+  if (recipe.saturation) {
+    operations.push({ type: 'saturation', value: recipe.saturation });
+  }
+  if (recipe.filter && recipe.filter.intensity > 0) {
+    operations.push({ type: 'filter', ...recipe.filter });
+  }
+
+  let output = size;
+  const fitted = recipe.maxSize ? fitLongEdge(size, recipe.maxSize) : null;
+  if (fitted) {
+    output = fitted;
+    operations.push({ type: 'resize', ...output });
+  }
+
+  const text = recipe.watermark?.text.trim();
+  if (recipe.watermark && text) {
+    operations.push(placeWatermark(recipe.watermark, text, output));
+  }
+  return operations;
+};
+
+export const isEmptyRecipe = (recipe: BatchRecipe): boolean =>
+  !recipe.brightness &&
+  !recipe.contrast &&
+  !recipe.saturation &&
+  !(recipe.filter && recipe.filter.intensity > 0) &&
+  !recipe.maxSize &&
+  !recipe.watermark?.text.trim();
@@ -0,0 +1,133 @@
+/* eslint-disable no-bitwise */
+// Big-endian byte helpers shared by the codecs
+
+export class ImageCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageCodecError';
+  }
+}
+
+export const readUint16 = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] << 8) | bytes[offset + 1];
+
+export const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+
+export const writeUint32 = (
+  bytes: Uint8Array,
+  offset: number,
+  value: number,
+): void => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// Append-only byte buffer that doubles its capacity as needed
+export class ByteWriter {
+  private buffer: Uint8Array;
+  length = 0;
+
+  constructor(initialSize = 4096) {
+    this.buffer = new Uint8Array(Math.max(16, Math.ceil(initialSize)));
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra > this.buffer.length) {
+      let size = this.buffer.length * 2;
+      while (size < this.length + extra) {
+        size *= 2;
+      }
+      const next = new Uint8Array(size);
+      next.set(this.buffer.subarray(0, this.length));
+      this.buffer = next;
+    }
+  }
+
+  writeByte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeUint16(value: number) {
+    this.writeByte(value >>> 8);
+    this.writeByte(value);
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Text fields in metadata blocks are UTF-8 (or its ASCII subset)
+export const encodeUtf8 = (text: string): Uint8Array => {
+  const writer = new ByteWriter(text.length * 2);
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      writer.writeByte(code);
+    } else if (code < 0x800) {
+      writer.writeByte(0xc0 | (code >> 6));
+      writer.writeByte(0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      writer.writeByte(0xe0 | (code >> 12));
+      writer.writeByte(0x80 | ((code >> 6) & 0x3f));
+      writer.writeByte(0x80 | (code & 0x3f));
+    } else {
+      writer.writeByte(0xf0 | (code >> 18));
+      writer.writeByte(0x80 | ((code >> 12) & 0x3f));
+      writer.writeByte(0x80 | ((code >> 6) & 0x3f));
+      writer.writeByte(0x80 | (code & 0x3f));
+    }
+  }
+  return writer.toBytes();
+};
+
+// Invalid sequences are read as Latin-1, which is what older cameras and
+// editors wrote into fields that were meant to be ASCII
+export const decodeUtf8 = (bytes: Uint8Array): string => {
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    const extra = lead >= 0xf0 ? 3 : lead >= 0xe0 ? 2 : lead >= 0xc0 ? 1 : 0;
+    let code = extra ? lead & (0x3f >> extra) : lead;
+    let valid = lead < 0x80 || (extra > 0 && i + extra < bytes.length);
+    for (let k = 1; valid && k <= extra; k++) {
+      const next = bytes[i + k];
+      valid = (next & 0xc0) === 0x80;
+      code = (code << 6) | (next & 0x3f);
+    }
+    if (valid) {
+      text += String.fromCodePoint(code);
+      i += extra + 1;
+    } else {
+      text += String.fromCharCode(lead);
+      i++;
+    }
+  }
+  return text;
+};
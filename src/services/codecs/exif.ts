@@ -0,0 +1,388 @@
+/* eslint-disable no-bitwise */
+// EXIF (TIFF-structured) metadata in JPEG APP1 segments
+import { ImageCodecError, decodeUtf8, encodeUtf8 } from './bytes';
+import { MAX_SEGMENT_DATA, readJpegSegments } from './jpeg';
+
+export const EXIF_TAGS = {
+  imageWidth: 0x0100,
+  imageLength: 0x0101,
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  lensModel: 0xa434,
+} as const;
+
+export const GPS_TAGS = {
+  latitudeRef: 0x0001,
+  latitude: 0x0002,
+  longitudeRef: 0x0003,
+  longitude: 0x0004,
+  altitudeRef: 0x0005,
+  altitude: 0x0006,
+} as const;
+
+// Sub-directory pointers; the writer lays the directories out itself
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Values that are offsets into the original file (image strips, the embedded
+// thumbnail, the interoperability directory) or blocks with private internal
+// offsets (maker notes). They are wrong once the entries move, so they are
+// not written.
+const UNMOVABLE_TAGS = new Set([
+  0x0111, 0x0117, 0x0201, 0x0202, 0x927c, 0xa005,
+]);
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_UNDEFINED = 7;
+const TYPE_SLONG = 9;
+const TYPE_SRATIONAL = 10;
+const TYPE_IFD = 13;
+
+// Bytes per value for each field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+  13: 4,
+};
+
+// "Exif\0\0"
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0];
+
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Value bytes in the byte order of the directories they belong to
+  value: Uint8Array;
+}
+
+// The directories of one EXIF block: IFD0 and its EXIF and GPS
+// sub-directories. Pointer entries are followed rather than listed, and the
+// thumbnail directory (IFD1) is not read.
+export interface ExifDirectories {
+  littleEndian: boolean;
+  ifd0: TiffEntry[];
+  exif: TiffEntry[];
+  gps: TiffEntry[];
+}
+
+const isExifSegment = (data: Uint8Array) =>
+  data.length >= 14 && EXIF_HEADER.every((byte, i) => data[i] === byte);
+
+// TIFF data can be either byte order; "II" marks little-endian
+const createTiffReader = (bytes: Uint8Array, littleEndian: boolean) => {
+  const uint16 = (offset: number) =>
+    littleEndian
+      ? bytes[offset] | (bytes[offset + 1] << 8)
+      : (bytes[offset] << 8) | bytes[offset + 1];
+  const uint32 = (offset: number) =>
+    (littleEndian
+      ? bytes[offset] |
+        (bytes[offset + 1] << 8) |
+        (bytes[offset + 2] << 16) |
+        (bytes[offset + 3] << 24)
+      : (bytes[offset] << 24) |
+        (bytes[offset + 1] << 16) |
+        (bytes[offset + 2] << 8) |
+        bytes[offset + 3]) >>> 0;
+  return { uint16, uint32 };
+};
+
+const createTiffWriter = (bytes: Uint8Array, littleEndian: boolean) => {
+  const uint16 = (offset: number, value: number) => {
+    bytes[offset + (littleEndian ? 0 : 1)] = value & 0xff;
+    bytes[offset + (littleEndian ? 1 : 0)] = (value >>> 8) & 0xff;
+  };
+  const uint32 = (offset: number, value: number) => {
+    for (let i = 0; i < 4; i++) {
+      bytes[offset + (littleEndian ? i : 3 - i)] = (value >>> (i * 8)) & 0xff;
+    }
+  };
+  return { uint16, uint32 };
+};
+
+// Entries of the directory at `offset`. Entries of unknown types or with
+// values outside the block are skipped.
+const readDirectory = (
+  tiff: Uint8Array,
+  offset: number,
+  littleEndian: boolean,
+): TiffEntry[] => {
+  const { uint16, uint32 } = createTiffReader(tiff, littleEndian);
+  const entries: TiffEntry[] = [];
+  if (offset < 8 || offset + 2 > tiff.length) {
+    return entries;
+  }
+  const count = uint16(offset);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) {
+      break;
+    }
+    const type = uint16(entry + 2);
+    const valueCount = uint32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    const start = size > 4 ? uint32(entry + 8) : entry + 8;
+    if (size === 0 || start + size > tiff.length) {
+      continue;
+    }
+    entries.push({
+      tag: uint16(entry),
+      type,
+      count: valueCount,
+      value: tiff.slice(start, start + size),
+    });
+  }
+  return entries;
+};
+
+export const findTiffEntry = (
+  entries: TiffEntry[],
+  tag: number,
+): TiffEntry | undefined => entries.find(entry => entry.tag === tag);
+
+// Numeric values of an entry, with rationals divided out (NaN for a zero
+// denominator). Text, signed byte/short and floating point entries read as
+// empty.
+export const readTiffNumbers = (
+  entry: TiffEntry,
+  littleEndian: boolean,
+): number[] => {
+  const { uint16, uint32 } = createTiffReader(entry.value, littleEndian);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    switch (entry.type) {
+      case TYPE_BYTE:
+      case TYPE_UNDEFINED:
+        values.push(entry.value[i]);
+        break;
+      case TYPE_SHORT:
+        values.push(uint16(i * 2));
+        break;
+      case TYPE_LONG:
+      case TYPE_IFD:
+        values.push(uint32(i * 4));
+        break;
+      case TYPE_SLONG:
+        values.push(uint32(i * 4) | 0);
+        break;
+      case TYPE_RATIONAL:
+      case TYPE_SRATIONAL: {
+        const signed = entry.type === TYPE_SRATIONAL;
+        const numerator = uint32(i * 8);
+        const denominator = uint32(i * 8 + 4);
+        values.push(
+          signed
+            ? (numerator | 0) / (denominator | 0)
+            : numerator / denominator,
+        );
+        break;
+      }
+      default:
+        return [];
+    }
+  }
+  return values;
+};
+
+// Text of an ASCII entry, up to the first NUL and trimmed. Fields with several
+// parts (Copyright holds photographer and editor) give the first.
+export const readTiffText = (entry: TiffEntry): string | undefined => {
+  if (entry.type !== TYPE_ASCII && entry.type !== TYPE_UNDEFINED) {
+    return undefined;
+  }
+  const end = entry.value.indexOf(0);
+  const text = decodeUtf8(
+    end >= 0 ? entry.value.subarray(0, end) : entry.value,
+  ).trim();
+  return text || undefined;
+};
+
+export const createTextEntry = (tag: number, text: string): TiffEntry => {
+  const encoded = encodeUtf8(text);
+  const value = new Uint8Array(encoded.length + 1);
+  value.set(encoded);
+  return { tag, type: TYPE_ASCII, count: value.length, value };
+};
+
+export const createShortEntry = (
+  tag: number,
+  value: number,
+  littleEndian: boolean,
+): TiffEntry => {
+  const bytes = new Uint8Array(2);
+  createTiffWriter(bytes, littleEndian).uint16(0, value);
+  return { tag, type: TYPE_SHORT, count: 1, value: bytes };
+};
+
+export const createLongEntry = (
+  tag: number,
+  value: number,
+  littleEndian: boolean,
+): TiffEntry => {
+  const bytes = new Uint8Array(4);
+  createTiffWriter(bytes, littleEndian).uint32(0, value);
+  return { tag, type: TYPE_LONG, count: 1, value: bytes };
+};
+
+// The first parseable EXIF block, or null when there is none
+export const readExifDirectories = (
+  bytes: Uint8Array,
+): ExifDirectories | null => {
+  for (const { marker, data } of readJpegSegments(bytes)) {
+    if (marker !== 0xe1 || !isExifSegment(data)) {
+      continue;
+    }
+    const tiff = data.subarray(EXIF_HEADER.length);
+    const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+    const { uint16, uint32 } = createTiffReader(tiff, littleEndian);
+    if (uint16(2) !== 42) {
+      continue;
+    }
+    const ifd0 = readDirectory(tiff, uint32(4), littleEndian);
+    const subDirectory = (tag: number) => {
+      const pointer = findTiffEntry(ifd0, tag);
+      const [offset] = pointer ? readTiffNumbers(pointer, littleEndian) : [];
+      return offset ? readDirectory(tiff, offset, littleEndian) : [];
+    };
+    return {
+      littleEndian,
+      ifd0: ifd0.filter(
+        ({ tag }) => tag !== EXIF_IFD_POINTER && tag !== GPS_IFD_POINTER,
+      ),
+      exif: subDirectory(EXIF_IFD_POINTER),
+      gps: subDirectory(GPS_IFD_POINTER),
+    };
+  }
+  return null;
+};
+
+// Bytes a directory takes, including its out-of-line values
+const getDirectorySize = (entries: TiffEntry[]) =>
+  entries.reduce(
+    (size, { value }) =>
+      value.length > 4 ? size + value.length + (value.length % 2) : size,
+    2 + entries.length * 12 + 4,
+  );
+
+// Serializes the directories as an APP1 payload, in their own byte order.
+// IFD0 comes first, then the EXIF and GPS directories when they have entries,
+// each followed by its out-of-line values. There is no thumbnail directory.
+export const writeExifSegment = (directories: ExifDirectories): Uint8Array => {
+  const { littleEndian } = directories;
+  const movable = (entries: TiffEntry[]) =>
+    entries.filter(
+      ({ tag }) =>
+        !UNMOVABLE_TAGS.has(tag) &&
+        tag !== EXIF_IFD_POINTER &&
+        tag !== GPS_IFD_POINTER,
+    );
+  const ifd0 = movable(directories.ifd0);
+  const exif = movable(directories.exif);
+  const gps = movable(directories.gps);
+
+  // Pointer values are filled in once the layout is known
+  const exifPointer = createLongEntry(EXIF_IFD_POINTER, 0, littleEndian);
+  const gpsPointer = createLongEntry(GPS_IFD_POINTER, 0, littleEndian);
+  if (exif.length) {
+    ifd0.push(exifPointer);
+  }
+  if (gps.length) {
+    ifd0.push(gpsPointer);
+  }
+
+  const directoryList = [ifd0, exif, gps].filter(
+    (entries, i) => i === 0 || entries.length > 0,
+  );
+  const offsets: number[] = [];
+  let total = 8;
+  for (const entries of directoryList) {
+    offsets.push(total);
+    total += getDirectorySize(entries);
+  }
+  if (EXIF_HEADER.length + total > MAX_SEGMENT_DATA) {
+    throw new ImageCodecError('EXIF data does not fit in one segment');
+  }
+  if (exif.length) {
+    createTiffWriter(exifPointer.value, littleEndian).uint32(0, offsets[1]);
+  }
+  if (gps.length) {
+    createTiffWriter(gpsPointer.value, littleEndian).uint32(
+      0,
+      offsets[directoryList.length - 1],
+    );
+  }
+
+  const output = new Uint8Array(EXIF_HEADER.length + total);
+  output.set(EXIF_HEADER);
+  const tiff = output.subarray(EXIF_HEADER.length);
+  const { uint16, uint32 } = createTiffWriter(tiff, littleEndian);
+  tiff[0] = tiff[1] = littleEndian ? 0x49 : 0x4d;
+  uint16(2, 42);
+  uint32(4, 8);
+
+  directoryList.forEach((unsorted, d) => {
+    // Readers may binary search, so entries go in ascending tag order
+    const entries = [...unsorted].sort((a, b) => a.tag - b.tag);
+    const offset = offsets[d];
+    let data = offset + 2 + entries.length * 12 + 4;
+    uint16(offset, entries.length);
+    entries.forEach(({ tag, type, count, value }, i) => {
+      const entry = offset + 2 + i * 12;
+      uint16(entry, tag);
+      uint16(entry + 2, type);
+      uint32(entry + 4, count);
+      if (value.length <= 4) {
+        tiff.set(value, entry + 8);
+      } else {
+        uint32(entry + 8, data);
+        tiff.set(value, data);
+        data += value.length + (value.length % 2);
+      }
+    });
+    // The next-directory offset stays 0
+  });
+  return output;
+};
+
+// EXIF orientation, 1-8: how the stored pixels must be turned and mirrored to
+// display upright. Files without the tag, or with a broken one, report 1.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const directories = readExifDirectories(bytes);
+  if (!directories) {
+    return 1;
+  }
+  const entry = findTiffEntry(directories.ifd0, EXIF_TAGS.orientation);
+  const [value] = entry ? readTiffNumbers(entry, directories.littleEndian) : [];
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+// Orientations 5-8 store the image on its side
+export const isTransposedOrientation = (orientation: number): boolean =>
+  orientation >= 5 && orientation <= 8;
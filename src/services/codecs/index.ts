@@ -0,0 +1,31 @@
+export * from './bytes';
+export * from './zlib';
+export * from './png';
+export * from './jpeg';
+export * from './exif';
+export * from './iptc';
+export * from './metadata';
+
+import { isJpeg } from './jpeg';
+import { isPng } from './png';
+
+// Sniffs the container format from the leading bytes, independent of the
+// file extension
+export const detectImageFormat = (
+  bytes: Uint8Array,
+): 'jpeg' | 'png' | 'webp' | null => {
+  if (isJpeg(bytes)) {
+    return 'jpeg';
+  }
+  if (isPng(bytes)) {
+    return 'png';
+  }
+  if (
+    bytes.length >= 12 &&
+    String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  return null;
+};
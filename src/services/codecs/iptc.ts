@@ -0,0 +1,136 @@
+/* eslint-disable no-bitwise */
+// IPTC-IIM records inside the Photoshop image resources of a JPEG APP13
+// segment
+import {
+  ByteWriter,
+  decodeUtf8,
+  encodeUtf8,
+  readUint16,
+  readUint32,
+} from './bytes';
+import { readJpegSegments } from './jpeg';
+
+// Application record (2) datasets
+export const IPTC_DATASETS = {
+  objectName: 5,
+  byline: 80,
+  copyrightNotice: 116,
+  caption: 120,
+} as const;
+
+export interface IptcDataset {
+  record: number;
+  dataset: number;
+  value: Uint8Array;
+}
+
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const RESOURCE_SIGNATURE = '8BIM';
+const IPTC_RESOURCE_ID = 0x0404;
+// Dataset 1:90, coded character set. ESC % G declares UTF-8.
+const UTF8_CHARSET = new Uint8Array([0x1b, 0x25, 0x47]);
+
+const hasText = (bytes: Uint8Array, offset: number, text: string) =>
+  offset + text.length <= bytes.length &&
+  Array.from(text).every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+const readDatasets = (block: Uint8Array): IptcDataset[] => {
+  const datasets: IptcDataset[] = [];
+  let pos = 0;
+  while (pos + 5 <= block.length && block[pos] === 0x1c) {
+    const length = readUint16(block, pos + 3);
+    // Extended lengths are only used for binary objects; stop there
+    if (length & 0x8000 || pos + 5 + length > block.length) {
+      break;
+    }
+    datasets.push({
+      record: block[pos + 1],
+      dataset: block[pos + 2],
+      value: block.slice(pos + 5, pos + 5 + length),
+    });
+    pos += 5 + length;
+  }
+  return datasets;
+};
+
+// Datasets of the first IPTC resource in the file, in file order
+export const readIptcDatasets = (bytes: Uint8Array): IptcDataset[] => {
+  for (const { marker, data } of readJpegSegments(bytes)) {
+    if (marker !== 0xed || !hasText(data, 0, PHOTOSHOP_HEADER)) {
+      continue;
+    }
+    let pos = PHOTOSHOP_HEADER.length;
+    while (hasText(data, pos, RESOURCE_SIGNATURE) && pos + 8 <= data.length) {
+      const id = readUint16(data, pos + 4);
+      // Pascal name, padded to an even length including its length byte
+      const nameLength = data[pos + 6];
+      pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+      if (pos + 4 > data.length) {
+        break;
+      }
+      const size = readUint32(data, pos);
+      pos += 4;
+      if (pos + size > data.length) {
+        break;
+      }
+      if (id === IPTC_RESOURCE_ID) {
+        return readDatasets(data.subarray(pos, pos + size));
+      }
+      pos += size + (size % 2);
+    }
+  }
+  return [];
+};
+
+// Text of the first application record dataset with this number
+export const readIptcText = (
+  datasets: IptcDataset[],
+  dataset: number,
+): string | undefined => {
+  const match = datasets.find(
+    entry => entry.record === 2 && entry.dataset === dataset,
+  );
+  const text = match && decodeUtf8(match.value).trim();
+  return text || undefined;
+};
+
+export const createIptcText = (dataset: number, text: string): IptcDataset => ({
+  record: 2,
+  dataset,
+  value: encodeUtf8(text),
+});
+
+// APP13 payload with a single IPTC resource. The application record datasets
+// are written after a character set dataset declaring UTF-8, so text values
+// must be UTF-8 encoded; other records are left out.
+export const writeIptcSegment = (datasets: IptcDataset[]): Uint8Array => {
+  const block = new ByteWriter();
+  const records = [
+    { record: 1, dataset: 90, value: UTF8_CHARSET },
+    ...datasets.filter(
+      ({ record, value }) => record === 2 && value.length < 0x8000,
+    ),
+  ];
+  for (const { record, dataset, value } of records) {
+    block.writeByte(0x1c);
+    block.writeByte(record);
+    block.writeByte(dataset);
+    block.writeUint16(value.length);
+    block.writeBytes(value);
+  }
+  const iptc = block.toBytes();
+
+  const writer = new ByteWriter(iptc.length + 32);
+  writer.writeBytes(encodeUtf8(PHOTOSHOP_HEADER));
+  writer.writeBytes(encodeUtf8(RESOURCE_SIGNATURE));
+  writer.writeUint16(IPTC_RESOURCE_ID);
+  // Empty name: the length byte plus one byte of padding
+  writer.writeUint16(0);
+  writer.writeUint16(iptc.length >>> 16);
+  writer.writeUint16(iptc.length);
+  writer.writeBytes(iptc);
+  if (iptc.length % 2) {
+    writer.writeByte(0);
+  }
+  return writer.toBytes();
+};
@@ -0,0 +1,982 @@
+/* eslint-disable no-bitwise */
+// Baseline (sequential Huffman) JPEG decoder and encoder. Progressive and
+// arithmetic-coded files are rejected with an ImageCodecError so callers can
+// fall back to the native pipeline.
+import { RasterCodec, RasterImage, clamp, createRaster } from '../raster';
+import { ByteWriter, ImageCodecError, readUint16 } from './bytes';
+
+// Natural (row-major) index of the k-th coefficient in zigzag order
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+// DCT basis: COS_TABLE[u * 8 + x] = c(u) / 2 * cos((2x + 1) * u * pi / 16)
+const COS_TABLE = (() => {
+  const table = new Float32Array(64);
+  for (let u = 0; u < 8; u++) {
+    const cu = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = (cu / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+const isJpegMarker = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] === 0xff && bytes[offset + 1] !== 0x00;
+
+export const isJpeg = (bytes: Uint8Array): boolean =>
+  bytes.length >= 3 &&
+  bytes[0] === 0xff &&
+  bytes[1] === 0xd8 &&
+  bytes[2] === 0xff;
+
+// ---------------------------------------------------------------------------
+// Header
+
+export interface JpegSegment {
+  marker: number;
+  data: Uint8Array;
+}
+
+// Marker segments up to the first scan, where the metadata lives. Stops at a
+// truncated segment, so a partial read of the file start is enough.
+export const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  if (!isJpeg(bytes)) {
+    return segments;
+  }
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const length = readUint16(bytes, pos + 2);
+    if (length < 2 || pos + 2 + length > bytes.length) {
+      break;
+    }
+    segments.push({ marker, data: bytes.subarray(pos + 4, pos + 2 + length) });
+    pos += 2 + length;
+  }
+  return segments;
+};
+
+// Largest payload a marker segment can hold; the length field counts itself
+export const MAX_SEGMENT_DATA = 0xffff - 2;
+
+// Inserts marker segments after SOI and a leading JFIF APP0, which must stay
+// first in the file
+export const insertJpegSegments = (
+  bytes: Uint8Array,
+  segments: JpegSegment[],
+): Uint8Array => {
+  if (!isJpeg(bytes)) {
+    throw new ImageCodecError('Not a JPEG file');
+  }
+  let insertAt = 2;
+  const [first] = readJpegSegments(bytes);
+  if (first?.marker === 0xe0) {
+    insertAt += 4 + first.data.length;
+  }
+
+  const writer = new ByteWriter(bytes.length + 4096);
+  writer.writeBytes(bytes.subarray(0, insertAt));
+  for (const { marker, data } of segments) {
+    if (data.length > MAX_SEGMENT_DATA) {
+      throw new ImageCodecError('Marker segment is too large');
+    }
+    writer.writeByte(0xff);
+    writer.writeByte(marker);
+    writer.writeUint16(data.length + 2);
+    writer.writeBytes(data);
+  }
+  writer.writeBytes(bytes.subarray(insertAt));
+  return writer.toBytes();
+};
+
+// Stored pixel size from the frame header, before any EXIF orientation
+export const readJpegDimensions = (
+  bytes: Uint8Array,
+): { width: number; height: number } | null => {
+  const frame = readJpegSegments(bytes).find(
+    ({ marker }) =>
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc,
+  );
+  if (!frame || frame.data.length < 5) {
+    return null;
+  }
+  return {
+    height: readUint16(frame.data, 1),
+    width: readUint16(frame.data, 3),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Decoding
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+const buildDecodeTable = (
+  counts: Uint8Array,
+  values: Uint8Array,
+): HuffmanTable => {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(18);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valueOffset[length] = k - code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  // Sentinel so decoding terminates on corrupt data
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valueOffset, values };
+};
+
+class EntropyReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array, public position: number) {}
+
+  private readBit(): number {
+    if (this.bitCount === 0) {
+      let byte = 0;
+      if (this.position < this.data.length) {
+        byte = this.data[this.position];
+        if (byte === 0xff) {
+          const next = this.data[this.position + 1];
+          if (next === 0x00) {
+            this.position += 2;
+          } else {
+            // Hit a marker: feed zeros without consuming it
+            byte = 0;
+          }
+        } else {
+          this.position++;
+        }
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtended(length: number): number {
+    if (length === 0) {
+      return 0;
+    }
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length++;
+    }
+    if (length > 16) {
+      throw new ImageCodecError('Invalid JPEG Huffman code');
+    }
+    return table.values[table.valueOffset[length] + code];
+  }
+
+  // Skips to and past the next RSTn marker, discarding buffered bits
+  restart() {
+    this.bitCount = 0;
+    while (this.position + 1 < this.data.length) {
+      if (
+        this.data[this.position] === 0xff &&
+        this.data[this.position + 1] >= 0xd0 &&
+        this.data[this.position + 1] <= 0xd7
+      ) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+
+  // Moves past the remaining entropy-coded bytes to the next marker
+  seekMarker() {
+    this.bitCount = 0;
+    while (
+      this.position + 1 < this.data.length &&
+      !isJpegMarker(this.data, this.position)
+    ) {
+      this.position++;
+    }
+  }
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Decoded samples, padded to whole MCUs
+  plane: Uint8ClampedArray;
+  planeWidth: number;
+  dcPredictor: number;
+}
+
+// Dequantized coefficients in natural order -> 8x8 samples in the plane
+const inverseDct = (
+  coefficients: Float32Array,
+  plane: Uint8ClampedArray,
+  planeWidth: number,
+  blockRow: number,
+  blockCol: number,
+  scratch: Float32Array,
+) => {
+  // Rows: scratch[v * 8 + x] = sum_u C[u][x] * F[v][u]
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) {
+        sum += COS_TABLE[u * 8 + x] * coefficients[v * 8 + u];
+      }
+      scratch[v * 8 + x] = sum;
+    }
+  }
+  const originX = blockCol * 8;
+  const originY = blockRow * 8;
+  for (let y = 0; y < 8; y++) {
+    const rowStart = (originY + y) * planeWidth + originX;
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += COS_TABLE[v * 8 + y] * scratch[v * 8 + x];
+      }
+      plane[rowStart + x] = sum + 128;
+    }
+  }
+};
+
+export const decodeJpeg = (bytes: Uint8Array): RasterImage => {
+  if (!isJpeg(bytes)) {
+    throw new ImageCodecError('Not a JPEG file');
+  }
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: FrameComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let mcusPerLine = 0;
+  let mcusPerColumn = 0;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let hasJfif = false;
+
+  const coefficients = new Float32Array(64);
+  const scratch = new Float32Array(64);
+
+  let pos = 2;
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    pos += 2;
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff || marker === 0x00 || marker === 0x01) {
+      pos--;
+      continue;
+    }
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+
+    const length = readUint16(bytes, pos);
+    const segment = bytes.subarray(pos + 2, pos + length);
+    pos += length;
+
+    switch (marker) {
+      case 0xe0:
+        hasJfif =
+          segment[0] === 0x4a &&
+          segment[1] === 0x46 &&
+          segment[2] === 0x49 &&
+          segment[3] === 0x46;
+        break;
+      case 0xee:
+        // "Adobe" APP14 carries the color transform flag
+        if (
+          segment[0] === 0x41 &&
+          segment[1] === 0x64 &&
+          segment.length >= 12
+        ) {
+          adobeTransform = segment[11];
+        }
+        break;
+      case 0xdb: {
+        let p = 0;
+        while (p < segment.length) {
+          const precision = segment[p] >> 4;
+          const id = segment[p] & 0x0f;
+          p++;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision
+              ? readUint16(segment, p + k * 2)
+              : segment[p + k];
+          }
+          p += precision ? 128 : 64;
+          quantTables[id] = table;
+        }
+        break;
+      }
+      case 0xc4: {
+        let p = 0;
+        while (p < segment.length) {
+          const tableClass = segment[p] >> 4;
+          const id = segment[p] & 0x0f;
+          const counts = segment.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, c) => sum + c, 0);
+          const values = segment.slice(p + 17, p + 17 + total);
+          p += 17 + total;
+          const table = buildDecodeTable(counts, values);
+          if (tableClass === 0) {
+            dcTables[id] = table;
+          } else {
+            acTables[id] = table;
+          }
+        }
+        break;
+      }
+      case 0xdd:
+        restartInterval = readUint16(segment, 0);
+        break;
+      case 0xc0:
+      case 0xc1: {
+        height = readUint16(segment, 1);
+        width = readUint16(segment, 3);
+        const count = segment[5];
+        if (width === 0 || height === 0) {
+          throw new ImageCodecError('JPEG has zero dimensions');
+        }
+        components = [];
+        for (let i = 0; i < count; i++) {
+          const base = 6 + i * 3;
+          components.push({
+            id: segment[base],
+            h: segment[base + 1] >> 4,
+            v: segment[base + 1] & 0x0f,
+            quantTable: segment[base + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            plane: new Uint8ClampedArray(0),
+            planeWidth: 0,
+            dcPredictor: 0,
+          });
+        }
+        maxH = Math.max(...components.map(c => c.h));
+        maxV = Math.max(...components.map(c => c.v));
+        mcusPerLine = Math.ceil(width / (8 * maxH));
+        mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const component of components) {
+          component.blocksPerLine = Math.ceil(
+            Math.ceil((width * component.h) / maxH) / 8,
+          );
+          component.blocksPerColumn = Math.ceil(
+            Math.ceil((height * component.v) / maxV) / 8,
+          );
+          component.planeWidth = mcusPerLine * component.h * 8;
+          component.plane = new Uint8ClampedArray(
+            component.planeWidth * mcusPerColumn * component.v * 8,
+          );
+        }
+        break;
+      }
+      case 0xc2:
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new ImageCodecError(
+          marker === 0xc2
+            ? 'Progressive JPEG is not supported'
+            : 'Unsupported JPEG encoding',
+        );
+      case 0xda: {
+        if (components.length === 0) {
+          throw new ImageCodecError('JPEG scan before frame header');
+        }
+        const scanCount = segment[0];
+        const scanComponents: FrameComponent[] = [];
+        const scanDc: HuffmanTable[] = [];
+        const scanAc: HuffmanTable[] = [];
+        for (let i = 0; i < scanCount; i++) {
+          const id = segment[1 + i * 2];
+          const tables = segment[2 + i * 2];
+          const component = components.find(c => c.id === id);
+          if (!component) {
+            throw new ImageCodecError('JPEG scan references unknown component');
+          }
+          component.dcPredictor = 0;
+          scanComponents.push(component);
+          scanDc.push(dcTables[tables >> 4]);
+          scanAc.push(acTables[tables & 0x0f]);
+        }
+
+        const reader = new EntropyReader(bytes, pos);
+
+        const decodeBlock = (
+          index: number,
+          blockRow: number,
+          blockCol: number,
+        ) => {
+          const component = scanComponents[index];
+          const quant = quantTables[component.quantTable];
+          if (!quant) {
+            throw new ImageCodecError('JPEG is missing a quantization table');
+          }
+          coefficients.fill(0);
+
+          const dcLength = reader.decode(scanDc[index]);
+          component.dcPredictor += reader.receiveExtended(dcLength);
+          coefficients[0] = component.dcPredictor * quant[0];
+
+          for (let k = 1; k < 64; ) {
+            const rs = reader.decode(scanAc[index]);
+            const size = rs & 0x0f;
+            const run = rs >> 4;
+            if (size === 0) {
+              if (run !== 15) {
+                break;
+              }
+              k += 16;
+              continue;
+            }
+            k += run;
+            if (k > 63) {
+              break;
+            }
+            coefficients[ZIGZAG[k]] = reader.receiveExtended(size) * quant[k];
+            k++;
+          }
+
+          inverseDct(
+            coefficients,
+            component.plane,
+            component.planeWidth,
+            blockRow,
+            blockCol,
+            scratch,
+          );
+        };
+
+        const resetPredictors = () => {
+          for (const component of scanComponents) {
+            component.dcPredictor = 0;
+          }
+        };
+
+        if (scanComponents.length === 1) {
+          // Non-interleaved: one block per MCU, component's own block grid
+          const component = scanComponents[0];
+          const total = component.blocksPerLine * component.blocksPerColumn;
+          for (let n = 0; n < total; n++) {
+            if (restartInterval && n > 0 && n % restartInterval === 0) {
+              reader.restart();
+              resetPredictors();
+            }
+            decodeBlock(
+              0,
+              Math.floor(n / component.blocksPerLine),
+              n % component.blocksPerLine,
+            );
+          }
+        } else {
+          const total = mcusPerLine * mcusPerColumn;
+          for (let n = 0; n < total; n++) {
+            if (restartInterval && n > 0 && n % restartInterval === 0) {
+              reader.restart();
+              resetPredictors();
+            }
+            const mcuRow = Math.floor(n / mcusPerLine);
+            const mcuCol = n % mcusPerLine;
+            scanComponents.forEach((component, index) => {
+              for (let v = 0; v < component.v; v++) {
+                for (let h = 0; h < component.h; h++) {
+                  decodeBlock(
+                    index,
+                    mcuRow * component.v + v,
+                    mcuCol * component.h + h,
+                  );
+                }
+              }
+            });
+          }
+        }
+
+        reader.seekMarker();
+        pos = reader.position;
+        break;
+      }
+      default:
+        // APPn, COM and other segments are not needed for pixels
+        break;
+    }
+  }
+
+  if (components.length === 0) {
+    throw new ImageCodecError('JPEG has no frame');
+  }
+
+  const image = createRaster(width, height);
+  const out = image.data;
+  const sample = (component: FrameComponent, x: number, y: number) =>
+    component.plane[
+      Math.floor((y * component.v) / maxV) * component.planeWidth +
+        Math.floor((x * component.h) / maxH)
+    ];
+
+  // Adobe transform 0 means the three channels are stored as plain RGB
+  const isRgb =
+    components.length === 3 &&
+    !hasJfif &&
+    (adobeTransform === 0 ||
+      (adobeTransform === null &&
+        components[0].id === 0x52 &&
+        components[1].id === 0x47 &&
+        components[2].id === 0x42));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      if (components.length === 1) {
+        const value = sample(components[0], x, y);
+        out[o] = value;
+        out[o + 1] = value;
+        out[o + 2] = value;
+      } else if (components.length === 3) {
+        const c0 = sample(components[0], x, y);
+        const c1 = sample(components[1], x, y);
+        const c2 = sample(components[2], x, y);
+        if (isRgb) {
+          out[o] = c0;
+          out[o + 1] = c1;
+          out[o + 2] = c2;
+        } else {
+          out[o] = c0 + 1.402 * (c2 - 128);
+          out[o + 1] = c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128);
+          out[o + 2] = c0 + 1.772 * (c1 - 128);
+        }
+      } else if (components.length === 4) {
+        let c = sample(components[0], x, y);
+        let m = sample(components[1], x, y);
+        let ye = sample(components[2], x, y);
+        const k = sample(components[3], x, y);
+        if (adobeTransform === 2) {
+          // YCCK: convert the first three channels back to (inverted) CMY
+          const r = c + 1.402 * (ye - 128);
+          const g = c - 0.344136 * (m - 128) - 0.714136 * (ye - 128);
+          const b = c + 1.772 * (m - 128);
+          c = 255 - clamp(r, 0, 255);
+          m = 255 - clamp(g, 0, 255);
+          ye = 255 - clamp(b, 0, 255);
+        }
+        // Adobe writes CMYK inverted, so these are already 255 - ink
+        out[o] = (c * k) / 255;
+        out[o + 1] = (m * k) / 255;
+        out[o + 2] = (ye * k) / 255;
+      } else {
+        throw new ImageCodecError(
+          `Unsupported JPEG component count ${components.length}`,
+        );
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  return image;
+};
+
+// ---------------------------------------------------------------------------
+// Encoding
+
+// ITU-T T.81 Annex K example tables, natural order
+// prettier-ignore
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+// prettier-ignore
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+const DC_LUMA_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_CHROMA_COUNTS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+const AC_LUMA_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+// prettier-ignore
+const AC_LUMA_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+  0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+  0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+  0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+  0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+  0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+  0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+  0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+  0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+  0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+  0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+];
+
+const AC_CHROMA_COUNTS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+// prettier-ignore
+const AC_CHROMA_VALUES = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+  0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+  0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+  0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+  0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+  0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+  0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+  0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+  0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+  0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+  0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+];
+
+interface HuffmanCodes {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+const buildEncodeTable = (counts: number[], values: number[]): HuffmanCodes => {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[values[k]] = code;
+      lengths[values[k]] = length;
+      code++;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+};
+
+// IJG quality scaling of a base table
+const scaleQuantTable = (base: number[], quality: number): number[] => {
+  const q = clamp(Math.round(quality), 1, 100);
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return base.map(v => clamp(Math.floor((v * scale + 50) / 100), 1, 255));
+};
+
+class EntropyWriter {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private out: ByteWriter) {}
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bitBuffer = (this.bitBuffer << 1) | ((value >> i) & 1);
+      this.bitCount++;
+      if (this.bitCount === 8) {
+        this.out.writeByte(this.bitBuffer);
+        // Byte stuffing: 0xFF in entropy data is followed by 0x00
+        if (this.bitBuffer === 0xff) {
+          this.out.writeByte(0);
+        }
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  // Pads the last byte with 1 bits
+  flush() {
+    if (this.bitCount > 0) {
+      this.write((1 << (8 - this.bitCount)) - 1, 8 - this.bitCount);
+    }
+  }
+}
+
+const bitLength = (value: number) => {
+  let magnitude = Math.abs(value);
+  let length = 0;
+  while (magnitude) {
+    length++;
+    magnitude >>= 1;
+  }
+  return length;
+};
+
+const writeSegment = (out: ByteWriter, marker: number, payload: number[]) => {
+  out.writeByte(0xff);
+  out.writeByte(marker);
+  out.writeUint16(payload.length + 2);
+  out.writeBytes(payload);
+};
+
+// Encodes an RGBA raster as baseline JFIF. Transparent pixels are flattened
+// onto white. Chroma is subsampled 4:2:0 below quality 90, 4:4:4 above.
+export const encodeJpeg = (image: RasterImage, quality = 90): Uint8Array => {
+  const { width, height, data } = image;
+  const lumaQuant = scaleQuantTable(LUMA_QUANT, quality);
+  const chromaQuant = scaleQuantTable(CHROMA_QUANT, quality);
+  const subsample = quality < 90 ? 2 : 1;
+
+  const dcLuma = buildEncodeTable(DC_LUMA_COUNTS, DC_VALUES);
+  const acLuma = buildEncodeTable(AC_LUMA_COUNTS, AC_LUMA_VALUES);
+  const dcChroma = buildEncodeTable(DC_CHROMA_COUNTS, DC_VALUES);
+  const acChroma = buildEncodeTable(AC_CHROMA_COUNTS, AC_CHROMA_VALUES);
+
+  const out = new ByteWriter(width * height * 0.5 + 1024);
+  out.writeByte(0xff);
+  out.writeByte(0xd8);
+
+  // JFIF 1.01, no density units, 1:1 aspect, no thumbnail
+  writeSegment(
+    out,
+    0xe0,
+    [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0],
+  );
+  writeSegment(out, 0xdb, [
+    0x00,
+    ...ZIGZAG.map(n => lumaQuant[n]),
+    0x01,
+    ...ZIGZAG.map(n => chromaQuant[n]),
+  ]);
+  writeSegment(out, 0xc0, [
+    8,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    3,
+    1,
+    (subsample << 4) | subsample,
+    0,
+    2,
+    0x11,
+    1,
+    3,
+    0x11,
+    1,
+  ]);
+  writeSegment(out, 0xc4, [
+    0x00,
+    ...DC_LUMA_COUNTS,
+    ...DC_VALUES,
+    0x10,
+    ...AC_LUMA_COUNTS,
+    ...AC_LUMA_VALUES,
+    0x01,
+    ...DC_CHROMA_COUNTS,
+    ...DC_VALUES,
+    0x11,
+    ...AC_CHROMA_COUNTS,
+    ...AC_CHROMA_VALUES,
+  ]);
+  writeSegment(out, 0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+  const writer = new EntropyWriter(out);
+  const predictors = [0, 0, 0];
+  const block = new Float32Array(64);
+  const scratch = new Float32Array(64);
+
+  // Fills `block` with level-shifted samples of one channel. Each block
+  // sample averages `scale` x `scale` source pixels (chroma subsampling).
+  const loadBlock = (
+    channel: 0 | 1 | 2,
+    originX: number,
+    originY: number,
+    scale: number,
+  ) => {
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let sy = 0; sy < scale; sy++) {
+          for (let sx = 0; sx < scale; sx++) {
+            // Edge pixels are replicated into the MCU padding
+            const px = Math.min(originX + x * scale + sx, width - 1);
+            const py = Math.min(originY + y * scale + sy, height - 1);
+            const i = (py * width + px) * 4;
+            const alpha = data[i + 3] / 255;
+            const r = data[i] * alpha + 255 * (1 - alpha);
+            const g = data[i + 1] * alpha + 255 * (1 - alpha);
+            const b = data[i + 2] * alpha + 255 * (1 - alpha);
+            if (channel === 0) {
+              sum += 0.299 * r + 0.587 * g + 0.114 * b;
+            } else if (channel === 1) {
+              sum += -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+            } else {
+              sum += 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+            }
+          }
+        }
+        block[y * 8 + x] = sum / (scale * scale) - 128;
+      }
+    }
+  };
+
+  const encodeBlock = (
+    channel: 0 | 1 | 2,
+    quant: number[],
+    dcTable: HuffmanCodes,
+    acTable: HuffmanCodes,
+  ) => {
+    // Forward DCT, rows then columns
+    for (let y = 0; y < 8; y++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let x = 0; x < 8; x++) {
+          sum += COS_TABLE[u * 8 + x] * block[y * 8 + x];
+        }
+        scratch[y * 8 + u] = sum;
+      }
+    }
+
+    const quantized = new Int32Array(64);
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) {
+          sum += COS_TABLE[v * 8 + y] * scratch[y * 8 + u];
+        }
+        quantized[v * 8 + u] = Math.round(sum / quant[v * 8 + u]);
+      }
+    }
+
+    const dc = quantized[0];
+    const diff = dc - predictors[channel];
+    predictors[channel] = dc;
+    const dcSize = bitLength(diff);
+    writer.write(dcTable.codes[dcSize], dcTable.lengths[dcSize]);
+    if (dcSize) {
+      writer.write(diff < 0 ? diff + (1 << dcSize) - 1 : diff, dcSize);
+    }
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = quantized[ZIGZAG[k]];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.write(acTable.codes[0xf0], acTable.lengths[0xf0]);
+        run -= 16;
+      }
+      const size = bitLength(value);
+      const symbol = (run << 4) | size;
+      writer.write(acTable.codes[symbol], acTable.lengths[symbol]);
+      writer.write(value < 0 ? value + (1 << size) - 1 : value, size);
+      run = 0;
+    }
+    if (run > 0) {
+      writer.write(acTable.codes[0x00], acTable.lengths[0x00]);
+    }
+  };
+
+  const mcuSize = 8 * subsample;
+  for (let mcuY = 0; mcuY < height; mcuY += mcuSize) {
+    for (let mcuX = 0; mcuX < width; mcuX += mcuSize) {
+      for (let v = 0; v < subsample; v++) {
+        for (let h = 0; h < subsample; h++) {
+          loadBlock(0, mcuX + h * 8, mcuY + v * 8, 1);
+          encodeBlock(0, lumaQuant, dcLuma, acLuma);
+        }
+      }
+      loadBlock(1, mcuX, mcuY, subsample);
+      encodeBlock(1, chromaQuant, dcChroma, acChroma);
+      loadBlock(2, mcuX, mcuY, subsample);
+      encodeBlock(2, chromaQuant, dcChroma, acChroma);
+    }
+  }
+
+  writer.flush();
+  out.writeByte(0xff);
+  out.writeByte(0xd9);
+  return out.toBytes();
+};
+
+export const jpegCodec: RasterCodec = {
+  decode: decodeJpeg,
+  encode: encodeJpeg,
+};
@@ -0,0 +1,246 @@
+// Photo metadata across the EXIF and IPTC blocks of a JPEG: a readable
+// summary for display, and the segments an export carries over
+import { decodeUtf8 } from './bytes';
+import {
+  EXIF_TAGS,
+  GPS_TAGS,
+  TiffEntry,
+  createLongEntry,
+  createShortEntry,
+  createTextEntry,
+  findTiffEntry,
+  readExifDirectories,
+  readTiffNumbers,
+  readTiffText,
+  writeExifSegment,
+} from './exif';
+import {
+  IPTC_DATASETS,
+  IptcDataset,
+  createIptcText,
+  readIptcDatasets,
+  readIptcText,
+  writeIptcSegment,
+} from './iptc';
+import { JpegSegment, readJpegSegments } from './jpeg';
+
+// What an export keeps from the original: everything, everything but the
+// location, or nothing
+export type MetadataPolicy = 'keep' | 'strip-gps' | 'strip-all';
+
+export interface GpsPosition {
+  latitude: number; // degrees, negative south
+  longitude: number; // degrees, negative west
+  altitude?: number; // metres above sea level
+}
+
+// Text fields prefer IPTC over the EXIF equivalent, which cameras fill in
+// with less care
+export interface PhotoMetadata {
+  make?: string;
+  model?: string;
+  lens?: string;
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // millimetres
+  // As stored, "YYYY:MM:DD HH:MM:SS" in the camera's local time
+  dateTaken?: string;
+  gps?: GpsPosition;
+  title?: string;
+  author?: string;
+  copyright?: string;
+  caption?: string;
+}
+
+export interface MetadataOptions {
+  policy: MetadataPolicy;
+  // Written over the original's values under every policy when non-empty
+  author?: string;
+  copyright?: string;
+}
+
+// "ICC_PROFILE\0"
+const isIccSegment = ({ marker, data }: JpegSegment) =>
+  marker === 0xe2 &&
+  data.length > 14 &&
+  decodeUtf8(data.subarray(0, 12)) === 'ICC_PROFILE\0';
+
+const readGps = (
+  gps: TiffEntry[],
+  littleEndian: boolean,
+): GpsPosition | undefined => {
+  const coordinate = (tag: number, refTag: number, negativeRef: string) => {
+    const entry = findTiffEntry(gps, tag);
+    const [degrees, minutes = 0, seconds = 0] = entry
+      ? readTiffNumbers(entry, littleEndian)
+      : [];
+    const value = degrees + minutes / 60 + seconds / 3600;
+    if (!Number.isFinite(value)) {
+      return undefined;
+    }
+    const ref = findTiffEntry(gps, refTag);
+    return ref && readTiffText(ref) === negativeRef ? -value : value;
+  };
+  const latitude = coordinate(GPS_TAGS.latitude, GPS_TAGS.latitudeRef, 'S');
+  const longitude = coordinate(GPS_TAGS.longitude, GPS_TAGS.longitudeRef, 'W');
+  if (latitude === undefined || longitude === undefined) {
+    return undefined;
+  }
+
+  const altitudeEntry = findTiffEntry(gps, GPS_TAGS.altitude);
+  const [altitude] = altitudeEntry
+    ? readTiffNumbers(altitudeEntry, littleEndian)
+    : [];
+  const altitudeRef = findTiffEntry(gps, GPS_TAGS.altitudeRef);
+  // Reference 1 means below sea level
+  const belowSea = !!altitudeRef && altitudeRef.value[0] === 1;
+  return {
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude)
+      ? belowSea
+        ? -altitude
+        : altitude
+      : undefined,
+  };
+};
+
+export const readPhotoMetadata = (bytes: Uint8Array): PhotoMetadata => {
+  const directories = readExifDirectories(bytes);
+  const datasets = readIptcDatasets(bytes);
+  const littleEndian = directories?.littleEndian ?? false;
+  const ifd0 = directories?.ifd0 ?? [];
+  const exif = directories?.exif ?? [];
+
+  const text = (entries: TiffEntry[], tag: number) => {
+    const entry = findTiffEntry(entries, tag);
+    return entry && readTiffText(entry);
+  };
+  // Zero means unknown for every value read this way
+  const number = (entries: TiffEntry[], tag: number) => {
+    const entry = findTiffEntry(entries, tag);
+    const [value] = entry ? readTiffNumbers(entry, littleEndian) : [];
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return {
+    make: text(ifd0, EXIF_TAGS.make),
+    model: text(ifd0, EXIF_TAGS.model),
+    lens: text(exif, EXIF_TAGS.lensModel),
+    exposureTime: number(exif, EXIF_TAGS.exposureTime),
+    fNumber: number(exif, EXIF_TAGS.fNumber),
+    iso: number(exif, EXIF_TAGS.iso),
+    focalLength: number(exif, EXIF_TAGS.focalLength),
+    dateTaken:
+      text(exif, EXIF_TAGS.dateTimeOriginal) ?? text(ifd0, EXIF_TAGS.dateTime),
+    gps: directories ? readGps(directories.gps, littleEndian) : undefined,
+    title:
+      readIptcText(datasets, IPTC_DATASETS.objectName) ??
+      text(ifd0, EXIF_TAGS.imageDescription),
+    author:
+      readIptcText(datasets, IPTC_DATASETS.byline) ??
+      text(ifd0, EXIF_TAGS.artist),
+    copyright:
+      readIptcText(datasets, IPTC_DATASETS.copyrightNotice) ??
+      text(ifd0, EXIF_TAGS.copyright),
+    caption: readIptcText(datasets, IPTC_DATASETS.caption),
+  };
+};
+
+const withEntry = (entries: TiffEntry[], entry: TiffEntry) => [
+  ...entries.filter(({ tag }) => tag !== entry.tag),
+  entry,
+];
+
+const withDataset = (datasets: IptcDataset[], dataset: IptcDataset) => [
+  ...datasets.filter(
+    ({ record, dataset: number }) =>
+      record !== dataset.record || number !== dataset.dataset,
+  ),
+  dataset,
+];
+
+// Segments to insert into an export of `source` (the original file's bytes,
+// or at least its header) that was rendered upright at `size`.
+//
+// EXIF is rewritten rather than copied: the orientation becomes 1, the pixel
+// size is updated, and the embedded thumbnail is dropped since it shows the
+// unedited photo. IPTC is re-encoded as UTF-8. The ICC profile says how to
+// read the pixel values rather than anything about the photo, so it is kept
+// under every policy. XMP is not carried over; it repeats EXIF and IPTC and
+// can hold orientation and crop settings that no longer apply.
+export const buildMetadataSegments = (
+  source: Uint8Array | null,
+  { policy, author, copyright }: MetadataOptions,
+  size: { width: number; height: number },
+): JpegSegment[] => {
+  const original = policy === 'strip-all' ? null : source;
+  const directories = (original && readExifDirectories(original)) || {
+    littleEndian: false,
+    ifd0: [],
+    exif: [],
+    gps: [],
+  };
+  const { littleEndian } = directories;
+
+  let ifd0 = directories.ifd0.filter(
+    ({ tag }) => tag !== EXIF_TAGS.imageWidth && tag !== EXIF_TAGS.imageLength,
+  );
+  let exif = directories.exif;
+  const gps = policy === 'keep' ? directories.gps : [];
+  if (author) {
+    ifd0 = withEntry(ifd0, createTextEntry(EXIF_TAGS.artist, author));
+  }
+  if (copyright) {
+    ifd0 = withEntry(ifd0, createTextEntry(EXIF_TAGS.copyright, copyright));
+  }
+
+  const segments: JpegSegment[] = [];
+  if (ifd0.length || exif.length || gps.length) {
+    ifd0 = withEntry(
+      ifd0,
+      createShortEntry(EXIF_TAGS.orientation, 1, littleEndian),
+    );
+    if (exif.length) {
+      exif = withEntry(
+        exif,
+        createLongEntry(EXIF_TAGS.pixelXDimension, size.width, littleEndian),
+      );
+      exif = withEntry(
+        exif,
+        createLongEntry(EXIF_TAGS.pixelYDimension, size.height, littleEndian),
+      );
+    }
+    segments.push({
+      marker: 0xe1,
+      data: writeExifSegment({ littleEndian, ifd0, exif, gps }),
+    });
+  }
+
+  if (source) {
+    segments.push(...readJpegSegments(source).filter(isIccSegment));
+  }
+
+  let datasets = original
+    ? readIptcDatasets(original)
+        .filter(({ record }) => record === 2)
+        .map(({ dataset, value }) => createIptcText(dataset, decodeUtf8(value)))
+    : [];
+  if (author) {
+    datasets = withDataset(
+      datasets,
+      createIptcText(IPTC_DATASETS.byline, author),
+    );
+  }
+  if (copyright) {
+    datasets = withDataset(
+      datasets,
+      createIptcText(IPTC_DATASETS.copyrightNotice, copyright),
+    );
+  }
+  if (datasets.length) {
+    segments.push({ marker: 0xed, data: writeIptcSegment(datasets) });
+  }
+  return segments;
+};
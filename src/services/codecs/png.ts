@@ -0,0 +1,400 @@
+/* eslint-disable no-bitwise */
+import { RasterCodec, RasterImage, createRaster } from '../raster';
+import { deflate, inflate } from './zlib';
+import { ImageCodecError, concatBytes, readUint32, writeUint32 } from './bytes';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Adam7 pass origins and steps: [xStart, yStart, xStep, yStep]
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+let crcTable: Uint32Array | null = null;
+
+export const crc32 = (bytes: Uint8Array, start = 0, end = bytes.length) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length >= 8 && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+};
+
+// Reverses PNG scanline filters in place. Each row is prefixed with its
+// filter type byte; returns the offset just past the last row.
+const unfilter = (
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bpp: number,
+): number => {
+  let pos = offset;
+  let prevRow = -1;
+  for (let y = 0; y < rows; y++) {
+    const filter = data[pos];
+    const row = pos + 1;
+    for (let x = 0; x < rowBytes; x++) {
+      const a = x >= bpp ? data[row + x - bpp] : 0;
+      const b = prevRow >= 0 ? data[prevRow + x] : 0;
+      const c = x >= bpp && prevRow >= 0 ? data[prevRow + x - bpp] : 0;
+      let value = data[row + x];
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          value += a;
+          break;
+        case 2:
+          value += b;
+          break;
+        case 3:
+          value += (a + b) >> 1;
+          break;
+        case 4:
+          value += paeth(a, b, c);
+          break;
+        default:
+          throw new ImageCodecError(`Invalid PNG filter type ${filter}`);
+      }
+      data[row + x] = value & 0xff;
+    }
+    prevRow = row;
+    pos = row + rowBytes;
+  }
+  return pos;
+};
+
+// Reads sample n of a row at the image's bit depth, scaled to 0..255
+// (palette indices are returned unscaled)
+const readSample = (
+  data: Uint8Array,
+  row: number,
+  index: number,
+  bitDepth: number,
+  scale: boolean,
+): number => {
+  switch (bitDepth) {
+    case 16:
+      return data[row + index * 2];
+    case 8:
+      return data[row + index];
+    default: {
+      const perByte = 8 / bitDepth;
+      const byte = data[row + Math.floor(index / perByte)];
+      const shift = 8 - bitDepth * ((index % perByte) + 1);
+      const value = (byte >> shift) & ((1 << bitDepth) - 1);
+      return scale ? (value * 255) / ((1 << bitDepth) - 1) : value;
+    }
+  }
+};
+
+// Full 16-bit sample, used to match tRNS keys exactly
+const readRawSample = (
+  data: Uint8Array,
+  row: number,
+  index: number,
+  bitDepth: number,
+): number =>
+  bitDepth === 16
+    ? (data[row + index * 2] << 8) | data[row + index * 2 + 1]
+    : readSample(data, row, index, bitDepth, false);
+
+export const decodePng = (bytes: Uint8Array): RasterImage => {
+  if (!isPng(bytes)) {
+    throw new ImageCodecError('Not a PNG file');
+  }
+
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idatChunks: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = readUint32(bytes, pos);
+    const type = String.fromCharCode(
+      bytes[pos + 4],
+      bytes[pos + 5],
+      bytes[pos + 6],
+      bytes[pos + 7],
+    );
+    const dataStart = pos + 8;
+    if (dataStart + length + 4 > bytes.length) {
+      throw new ImageCodecError('Truncated PNG chunk');
+    }
+    const chunk = bytes.subarray(dataStart, dataStart + length);
+
+    if (type === 'IHDR') {
+      header = {
+        width: readUint32(chunk, 0),
+        height: readUint32(chunk, 4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idatChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    pos = dataStart + length + 4;
+  }
+
+  if (!header) {
+    throw new ImageCodecError('PNG is missing IHDR');
+  }
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0) {
+    throw new ImageCodecError(`Unsupported PNG color type ${colorType}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new ImageCodecError('Indexed PNG is missing PLTE');
+  }
+
+  const compressed = concatBytes(idatChunks);
+
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const data = inflate(
+    compressed,
+    (Math.ceil((width * bitsPerPixel) / 8) + 1) * height,
+  );
+
+  const image = createRaster(width, height);
+  const out = image.data;
+
+  const writePixels = (
+    row: number,
+    count: number,
+    pixelIndex: (i: number) => number,
+  ) => {
+    for (let i = 0; i < count; i++) {
+      const o = pixelIndex(i) * 4;
+      let r: number;
+      let g: number;
+      let b: number;
+      let a = 255;
+
+      if (colorType === 3) {
+        const index = readSample(data, row, i, bitDepth, false);
+        r = palette![index * 3];
+        g = palette![index * 3 + 1];
+        b = palette![index * 3 + 2];
+        if (transparency && index < transparency.length) {
+          a = transparency[index];
+        }
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = readSample(data, row, i * channels, bitDepth, true);
+        if (colorType === 4) {
+          a = readSample(data, row, i * channels + 1, bitDepth, true);
+        } else if (
+          transparency &&
+          readRawSample(data, row, i, bitDepth) ===
+            ((transparency[0] << 8) | transparency[1])
+        ) {
+          a = 0;
+        }
+      } else {
+        r = readSample(data, row, i * channels, bitDepth, true);
+        g = readSample(data, row, i * channels + 1, bitDepth, true);
+        b = readSample(data, row, i * channels + 2, bitDepth, true);
+        if (colorType === 6) {
+          a = readSample(data, row, i * channels + 3, bitDepth, true);
+        } else if (
+          transparency &&
+          transparency.length >= 6 &&
+          readRawSample(data, row, i * 3, bitDepth) ===
+            ((transparency[0] << 8) | transparency[1]) &&
+          readRawSample(data, row, i * 3 + 1, bitDepth) ===
+            ((transparency[2] << 8) | transparency[3]) &&
+          readRawSample(data, row, i * 3 + 2, bitDepth) ===
+            ((transparency[4] << 8) | transparency[5])
+        ) {
+          a = 0;
+        }
+      }
+
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = a;
+    }
+  };
+
+  if (interlace === 0) {
+    const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+    unfilter(data, 0, rowBytes, height, bpp);
+    for (let y = 0; y < height; y++) {
+      writePixels(y * (rowBytes + 1) + 1, width, i => y * width + i);
+    }
+  } else {
+    let passOffset = 0;
+    for (const [x0, y0, dx, dy] of ADAM7_PASSES) {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      if (passWidth <= 0 || passHeight <= 0) {
+        continue;
+      }
+      const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+      unfilter(data, passOffset, rowBytes, passHeight, bpp);
+      for (let py = 0; py < passHeight; py++) {
+        const y = y0 + py * dy;
+        writePixels(
+          passOffset + py * (rowBytes + 1) + 1,
+          passWidth,
+          i => y * width + x0 + i * dx,
+        );
+      }
+      passOffset += passHeight * (rowBytes + 1);
+    }
+  }
+
+  return image;
+};
+
+const writeChunk = (
+  parts: Uint8Array[],
+  type: string,
+  data: Uint8Array,
+): void => {
+  const chunk = new Uint8Array(data.length + 12);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  writeUint32(chunk, data.length + 8, crc32(chunk, 4, data.length + 8));
+  parts.push(chunk);
+};
+
+// Encodes 8-bit RGBA, or RGB when every pixel is opaque. Each row uses the
+// filter with the smallest sum of absolute residuals (libpng's heuristic).
+export const encodePng = (image: RasterImage): Uint8Array => {
+  const { width, height, data } = image;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) {
+      opaque = false;
+      break;
+    }
+  }
+
+  const channels = opaque ? 3 : 4;
+  const rowBytes = width * channels;
+  const raw = new Uint8Array(rowBytes * height);
+  for (let y = 0, o = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      raw[o++] = data[i];
+      raw[o++] = data[i + 1];
+      raw[o++] = data[i + 2];
+      if (!opaque) {
+        raw[o++] = data[i + 3];
+      }
+    }
+  }
+
+  const filtered = new Uint8Array((rowBytes + 1) * height);
+  const candidate = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const prev = y > 0 ? row - rowBytes : -1;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    const outRow = y * (rowBytes + 1);
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < rowBytes; x++) {
+        const a = x >= channels ? raw[row + x - channels] : 0;
+        const b = prev >= 0 ? raw[prev + x] : 0;
+        const c = x >= channels && prev >= 0 ? raw[prev + x - channels] : 0;
+        let predicted = 0;
+        if (filter === 1) {
+          predicted = a;
+        } else if (filter === 2) {
+          predicted = b;
+        } else if (filter === 3) {
+          predicted = (a + b) >> 1;
+        } else if (filter === 4) {
+          predicted = paeth(a, b, c);
+        }
+        const value = (raw[row + x] - predicted) & 0xff;
+        candidate[x] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        filtered[outRow] = filter;
+        filtered.set(candidate, outRow + 1);
+      }
+    }
+    filtered[outRow] = bestFilter;
+  }
+
+  const ihdr = new Uint8Array(13);
+  writeUint32(ihdr, 0, width);
+  writeUint32(ihdr, 4, height);
+  ihdr[8] = 8;
+  ihdr[9] = opaque ? 2 : 6;
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  writeChunk(parts, 'IHDR', ihdr);
+  writeChunk(parts, 'IDAT', deflate(filtered));
+  writeChunk(parts, 'IEND', new Uint8Array(0));
+  return concatBytes(parts);
+};
+
+export const pngCodec: RasterCodec = {
+  decode: decodePng,
+  // PNG is lossless; quality does not apply
+  encode: image => encodePng(image),
+};
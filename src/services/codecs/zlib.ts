@@ -0,0 +1,496 @@
+/* eslint-disable no-bitwise */
+// Minimal zlib (RFC 1950) / DEFLATE (RFC 1951) implementation used by the
+// PNG codec. Inflate supports stored, fixed and dynamic Huffman blocks.
+// Deflate emits a single fixed-Huffman block with hash-chain LZ77 matching,
+// which keeps the encoder small at the cost of a few percent of file size.
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+export class ZlibError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZlibError';
+  }
+}
+
+export const adler32 = (data: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; ) {
+    // 5552 is the largest block that cannot overflow before the modulo
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+// Growable output buffer
+class ByteSink {
+  private buffer: Uint8Array;
+  length = 0;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(Math.max(1024, Math.ceil(initialSize)));
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra > this.buffer.length) {
+      let size = this.buffer.length * 2;
+      while (size < this.length + extra) {
+        size *= 2;
+      }
+      const next = new Uint8Array(size);
+      next.set(this.buffer.subarray(0, this.length));
+      this.buffer = next;
+    }
+  }
+
+  push(byte: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  copyWithin(distance: number, length: number) {
+    this.ensure(length);
+    const start = this.length - distance;
+    // Overlapping copies must run byte by byte
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length++] = this.buffer[start + i];
+    }
+  }
+
+  append(bytes: Uint8Array) {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array, public position: number) {}
+
+  readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) {
+        throw new ZlibError('Unexpected end of compressed data');
+      }
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  alignToByte() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  readByte(): number {
+    if (this.position >= this.data.length) {
+      throw new ZlibError('Unexpected end of compressed data');
+    }
+    return this.data[this.position++];
+  }
+}
+
+// Canonical Huffman table in the counts/symbols form used by zlib's puff.c
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffmanTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) {
+    offsets[len] = offsets[len - 1] + counts[len - 1];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+  return { counts, symbols };
+};
+
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len < 16; len++) {
+    code |= reader.readBits(1);
+    const count = table.counts[len];
+    if (code - first < count) {
+      return table.symbols[index + (code - first)];
+    }
+    index += count;
+    first += count;
+    first <<= 1;
+    code <<= 1;
+  }
+  throw new ZlibError('Invalid Huffman code');
+};
+
+let fixedTables: { literal: HuffmanTable; distance: HuffmanTable } | null =
+  null;
+
+const getFixedTables = () => {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = {
+      literal: buildHuffmanTable(lengths),
+      distance: buildHuffmanTable(new Uint8Array(30).fill(5)),
+    };
+  }
+  return fixedTables;
+};
+
+const readDynamicTables = (reader: BitReader) => {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length; ) {
+    const symbol = decodeSymbol(reader, codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new ZlibError('Repeat with no previous code length');
+      }
+      value = lengths[i - 1];
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new ZlibError('Code lengths overflow');
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    literal: buildHuffmanTable(lengths.subarray(0, literalCount)),
+    distance: buildHuffmanTable(lengths.subarray(literalCount)),
+  };
+};
+
+const inflateBlockData = (
+  reader: BitReader,
+  out: ByteSink,
+  literal: HuffmanTable,
+  distance: HuffmanTable,
+) => {
+  for (;;) {
+    const symbol = decodeSymbol(reader, literal);
+    if (symbol < 256) {
+      out.push(symbol);
+    } else if (symbol === 256) {
+      return;
+    } else {
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new ZlibError('Invalid length symbol');
+      }
+      const length =
+        LENGTH_BASE[lengthIndex] + reader.readBits(LENGTH_EXTRA[lengthIndex]);
+      const distanceSymbol = decodeSymbol(reader, distance);
+      if (distanceSymbol >= DIST_BASE.length) {
+        throw new ZlibError('Invalid distance symbol');
+      }
+      const dist =
+        DIST_BASE[distanceSymbol] + reader.readBits(DIST_EXTRA[distanceSymbol]);
+      if (dist > out.length) {
+        throw new ZlibError('Distance too far back');
+      }
+      out.copyWithin(dist, length);
+    }
+  }
+};
+
+// Inflates a raw DEFLATE stream starting at `offset`
+export const inflateRaw = (
+  data: Uint8Array,
+  offset = 0,
+  sizeHint = data.length * 4,
+): Uint8Array => {
+  const reader = new BitReader(data, offset);
+  const out = new ByteSink(sizeHint);
+
+  let isFinal = 0;
+  while (!isFinal) {
+    isFinal = reader.readBits(1);
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      reader.alignToByte();
+      const len = reader.readByte() | (reader.readByte() << 8);
+      const nlen = reader.readByte() | (reader.readByte() << 8);
+      if ((len ^ 0xffff) !== nlen) {
+        throw new ZlibError('Stored block length mismatch');
+      }
+      if (reader.position + len > data.length) {
+        throw new ZlibError('Unexpected end of compressed data');
+      }
+      out.append(data.subarray(reader.position, reader.position + len));
+      reader.position += len;
+    } else if (type === 1) {
+      const tables = getFixedTables();
+      inflateBlockData(reader, out, tables.literal, tables.distance);
+    } else if (type === 2) {
+      const tables = readDynamicTables(reader);
+      inflateBlockData(reader, out, tables.literal, tables.distance);
+    } else {
+      throw new ZlibError('Invalid block type');
+    }
+  }
+
+  return out.toBytes();
+};
+
+// Inflates a zlib-wrapped stream and verifies its Adler-32 checksum
+export const inflate = (data: Uint8Array, sizeHint?: number): Uint8Array => {
+  if (data.length < 6) {
+    throw new ZlibError('Compressed data too short');
+  }
+  const cmf = data[0];
+  const flg = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new ZlibError('Invalid zlib header');
+  }
+  if (flg & 0x20) {
+    throw new ZlibError('Preset dictionaries are not supported');
+  }
+
+  const result = inflateRaw(data, 2, sizeHint);
+  const end = data.length - 4;
+  const expected =
+    ((data[end] << 24) |
+      (data[end + 1] << 16) |
+      (data[end + 2] << 8) |
+      data[end + 3]) >>>
+    0;
+  if (adler32(result) !== expected) {
+    throw new ZlibError('Adler-32 checksum mismatch');
+  }
+  return result;
+};
+
+class BitWriter {
+  private sink: ByteSink;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(sizeHint: number) {
+    this.sink = new ByteSink(sizeHint);
+  }
+
+  writeBits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.sink.push(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  // Huffman codes are defined MSB-first but packed LSB-first
+  writeCode(code: number, length: number) {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, length);
+  }
+
+  flush() {
+    if (this.bitCount > 0) {
+      this.sink.push(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  pushByte(byte: number) {
+    this.sink.push(byte);
+  }
+
+  toBytes() {
+    return this.sink.toBytes();
+  }
+}
+
+const writeFixedLiteral = (writer: BitWriter, symbol: number) => {
+  if (symbol < 144) {
+    writer.writeCode(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.writeCode(symbol - 256, 7);
+  } else {
+    writer.writeCode(0xc0 + symbol - 280, 8);
+  }
+};
+
+const writeMatch = (writer: BitWriter, length: number, distance: number) => {
+  let lengthIndex = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[lengthIndex] > length) {
+    lengthIndex--;
+  }
+  writeFixedLiteral(writer, 257 + lengthIndex);
+  writer.writeBits(
+    length - LENGTH_BASE[lengthIndex],
+    LENGTH_EXTRA[lengthIndex],
+  );
+
+  let distIndex = DIST_BASE.length - 1;
+  while (DIST_BASE[distIndex] > distance) {
+    distIndex--;
+  }
+  writer.writeCode(distIndex, 5);
+  writer.writeBits(distance - DIST_BASE[distIndex], DIST_EXTRA[distIndex]);
+};
+
+const WINDOW_SIZE = 32768;
+const MAX_MATCH = 258;
+const MIN_MATCH = 3;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+// Compresses data into a zlib stream. `effort` (1-9) bounds the hash chain
+// walk, trading speed for ratio like zlib's compression level.
+export const deflate = (data: Uint8Array, effort = 6): Uint8Array => {
+  const writer = new BitWriter(data.length / 2 + 64);
+  // CMF: deflate, 32K window; FLG chosen so the header is a multiple of 31
+  writer.pushByte(0x78);
+  writer.pushByte(0x9c);
+
+  writer.writeBits(1, 1); // final block
+  writer.writeBits(1, 2); // fixed Huffman
+
+  const maxChain = 4 << Math.max(1, Math.min(9, effort));
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) =>
+    ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH <= data.length) {
+      const h = hashAt(i);
+      prev[i & (WINDOW_SIZE - 1)] = head[h];
+      head[h] = i;
+    }
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      let candidate = head[hashAt(i)];
+      let chain = maxChain;
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (data[candidate + bestLength] === data[i + bestLength]) {
+          let length = 0;
+          while (
+            length < maxLength &&
+            data[candidate + length] === data[i + length]
+          ) {
+            length++;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - candidate;
+            if (length === maxLength) {
+              break;
+            }
+          }
+        }
+        candidate = prev[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) {
+        insert(i + k);
+      }
+      i += bestLength;
+    } else {
+      writeFixedLiteral(writer, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeFixedLiteral(writer, 256);
+  writer.flush();
+
+  const checksum = adler32(data);
+  writer.pushByte((checksum >>> 24) & 0xff);
+  writer.pushByte((checksum >>> 16) & 0xff);
+  writer.pushByte((checksum >>> 8) & 0xff);
+  writer.pushByte(checksum & 0xff);
+  return writer.toBytes();
+};
@@ -0,0 +1,125 @@
+import type { ImageOperation } from './imageProcessor';
+import {
+  Dimensions,
+  EditOperation,
+  getOperationDimensions,
+  scaleOperation,
+  toImageOperations,
+  withOperationId,
+} from './editGraph';
+
+// Copying edits from one photo and pasting them onto others. Operations are
+// copied with the size of the document they applied to, so positions can be
+// rescaled for photos of other sizes and shapes.
+
+export type EditGroup = 'adjustments' | 'filters' | 'crop' | 'text' | 'blur';
+
+export const EDIT_GROUPS: Array<{
+  id: EditGroup;
+  name: string;
+  description: string;
+}> = [
+  {
+    id: 'adjustments',
+    name: 'Adjustments',
+    description: 'Light, color, curves, HSL and white balance',
+  },
+  { id: 'filters', name: 'Filters', description: 'The filter stack' },
+  {
+    id: 'crop',
+    name: 'Crop & Rotate',
+    description: 'Crop, rotation, straightening, perspective and resizing',
+  },
+  { id: 'text', name: 'Text & Overlays', description: 'Text and stickers' },
+  { id: 'blur', name: 'Blur', description: 'Blurred and redacted areas' },
+];
+
+export interface CopiedOperation {
+  operation: ImageOperation;
+  // Document size the operation applied to in the copied graph
+  size: Dimensions;
+}
+
+export interface CopiedEdits {
+  groups: EditGroup[];
+  operations: CopiedOperation[];
+  copiedAt: number;
+}
+
+export const getEditGroup = (operation: ImageOperation): EditGroup => {
+  switch (operation.type) {
+    case 'filter':
+    case 'filterStack':
+      return 'filters';
+    case 'resize':
+    case 'crop':
+    case 'rotate':
+    case 'straighten':
+    case 'flip':
+    case 'perspective':
+      return 'crop';
+    case 'text':
+    case 'overlay':
+      return 'text';
+    case 'blur':
+      return 'blur';
+    default:
+      return 'adjustments';
+  }
+};
+
+// Number of operations per group, for showing what a graph has to copy
+export const countEditGroups = (
+  operations: ImageOperation[],
+): Record<EditGroup, number> =>
+  operations.reduce(
+    (counts, operation) => {
+      counts[getEditGroup(operation)]++;
+      return counts;
+    },
+    { adjustments: 0, filters: 0, crop: 0, text: 0, blur: 0 },
+  );
+
+export const copyEdits = (
+  operations: EditOperation[],
+  original: Dimensions,
+  groups: EditGroup[],
+): CopiedEdits => {
+  const copied: CopiedOperation[] = [];
+  let size = original;
+  for (const operation of toImageOperations(operations)) {
+    if (groups.includes(getEditGroup(operation))) {
+      copied.push({ operation, size });
+    }
+    size = getOperationDimensions(size, operation);
+  }
+  return { groups, operations: copied, copiedAt: Date.now() };
+};
+
+// Replaces the copied groups of a graph with the copied operations, added
+// after everything kept in their original order. Each one is stretched
+// from the document size it was copied at to the size it lands on, so a
+// crop of the left half still takes the left half of a larger photo.
+export const pasteEdits = (
+  operations: EditOperation[],
+  original: Dimensions,
+  copied: CopiedEdits,
+): EditOperation[] => {
+  const kept = operations.filter(
+    operation => !copied.groups.includes(getEditGroup(operation)),
+  );
+  let size = kept.reduce<Dimensions>(
+    (current, operation) => getOperationDimensions(current, operation),
+    original,
+  );
+  const pasted = copied.operations.map(({ operation, size: copiedSize }) => {
+    const scaled = scaleOperation(
+      operation,
+      size.width / copiedSize.width,
+      size.height / copiedSize.height,
+    );
+    size = getOperationDimensions(size, scaled);
+    return withOperationId(scaled);
+  });
+  return [...kept, ...pasted];
+};
@@ -0,0 +1,510 @@
+import type { ImageOperation } from './imageProcessor';
+import { MaskShape, getInscribedSize, scaleMaskShape } from './raster';
+
+// Non-destructive edit document: an ordered list of operations applied to an
+// immutable original. Each node carries a stable id so tools can update or
+// remove it later without touching the nodes around it.
+export type EditOperation = ImageOperation & { id: string };
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export const createOperationId = (): string =>
+  `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const withOperationId = (operation: ImageOperation): EditOperation => ({
+  ...operation,
+  id: createOperationId(),
+});
+
+// Strips node ids for handing the graph to the image processor
+export const toImageOperations = (
+  operations: EditOperation[],
+): ImageOperation[] =>
+  operations.map(({ id: _id, ...operation }) => operation as ImageOperation);
+
+// Puts `replacement` in place of the first node `matches` selects, or appends
+// it when there is none. A null replacement removes the matched node. Tools
+// that own a single node (filters, adjustments) preview and apply through this.
+export const replaceOperation = <T extends ImageOperation>(
+  operations: T[],
+  matches: (operation: T) => boolean,
+  replacement: T | null,
+): T[] => {
+  const index = operations.findIndex(matches);
+  if (index === -1) {
+    return replacement ? [...operations, replacement] : operations;
+  }
+  return replacement
+    ? operations.map((operation, i) => (i === index ? replacement : operation))
+    : operations.filter((_operation, i) => i !== index);
+};
+
+// Color edits that together make up a photo's look: what user presets hold.
+// They never change the image size or refer to pixel positions.
+export const LOOK_OPERATION_TYPES: ImageOperation['type'][] = [
+  'brightness',
+  'contrast',
+  'saturation',
+  'tone',
+  'curves',
+  'levels',
+  'hsl',
+  'whiteBalance',
+  'filter',
+  'filterStack',
+];
+
+export const isLookOperation = (operation: ImageOperation): boolean =>
+  LOOK_OPERATION_TYPES.includes(operation.type);
+
+// Swaps the graph's look for another one in a single edit. The new nodes take
+// the place of the first look node, or go at the end when there is none.
+export const replaceLook = (
+  operations: EditOperation[],
+  look: ImageOperation[],
+): EditOperation[] => {
+  const first = operations.findIndex(isLookOperation);
+  const kept = operations.filter(operation => !isLookOperation(operation));
+  // Nothing before the first look node was removed
+  const index = first === -1 ? kept.length : first;
+  return [
+    ...kept.slice(0, index),
+    ...look.map(withOperationId),
+    ...kept.slice(index),
+  ];
+};
+
+// Output size of a single operation, mirroring the raster implementations
+export const getOperationDimensions = (
+  size: Dimensions,
+  operation: ImageOperation,
+): Dimensions => {
+  switch (operation.type) {
+    case 'resize':
+      return {
+        width: Math.max(1, Math.round(operation.width)),
+        height: Math.max(1, Math.round(operation.height)),
+      };
+    case 'crop': {
+      const x = Math.min(Math.max(Math.round(operation.x), 0), size.width - 1);
+      const y = Math.min(Math.max(Math.round(operation.y), 0), size.height - 1);
+      return {
+        width: Math.min(
+          Math.max(Math.round(operation.width), 1),
+          size.width - x,
+        ),
+        height: Math.min(
+          Math.max(Math.round(operation.height), 1),
+          size.height - y,
+        ),
+      };
+    }
+    case 'perspective':
+      return {
+        width: Math.max(1, Math.round(operation.width)),
+        height: Math.max(1, Math.round(operation.height)),
+      };
+    case 'rotate': {
+      const normalized = ((operation.angle % 360) + 360) % 360;
+      if (normalized % 180 === 0) {
+        return size;
+      }
+      if (normalized % 90 === 0) {
+        return { width: size.height, height: size.width };
+      }
+      const radians = (normalized * Math.PI) / 180;
+      const cos = Math.abs(Math.cos(radians));
+      const sin = Math.abs(Math.sin(radians));
+      return {
+        width: Math.ceil(size.width * cos + size.height * sin),
+        height: Math.ceil(size.width * sin + size.height * cos),
+      };
+    }
+    case 'straighten':
+      return operation.autoCrop
+        ? getInscribedSize(
+            size.width,
+            size.height,
+            Math.min(Math.max(operation.angle, -45), 45),
+          )
+        : size;
+    default:
+      return size;
+  }
+};
+
+// Size of the rendered document without decoding any pixels
+export const getDocumentDimensions = (
+  original: Dimensions,
+  operations: ImageOperation[],
+): Dimensions =>
+  operations.reduce<Dimensions>(
+    (size, operation) => getOperationDimensions(size, operation),
+    original,
+  );
+
+// Output size with the long edge brought within `maxSize`, keeping the
+// aspect ratio. Null when the image already fits, as exports never upscale.
+export const fitLongEdge = (
+  size: Dimensions,
+  maxSize: number,
+): Dimensions | null => {
+  const longest = Math.max(size.width, size.height);
+  if (longest <= maxSize) {
+    return null;
+  }
+  const scale = maxSize / longest;
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+};
+
+// Number of leading nodes the crop tool shows. A rectangle revises the last
+// crop in the space it crops; perspective corners are appended after the
+// whole graph, so they are placed on the cropped document.
+export const getCropToolBase = (
+  operations: ImageOperation[],
+  mode: 'rectangle' | 'perspective',
+): number => {
+  const cropIndex = operations.map(op => op.type).lastIndexOf('crop');
+  return mode === 'rectangle' && cropIndex !== -1
+    ? cropIndex
+    : operations.length;
+};
+
+// Rescales pixel-space parameters so the graph can run on a downscaled
+// source (previews). Color operations are resolution independent. With two
+// factors positions stretch per axis and sizes (blur radius, font size)
+// follow the smaller one, for edits moved to a differently shaped image.
+export const scaleOperation = (
+  operation: ImageOperation,
+  scaleX: number,
+  scaleY = scaleX,
+): ImageOperation => {
+  if (scaleX === 1 && scaleY === 1) {
+    return operation;
+  }
+  const scale = Math.min(scaleX, scaleY);
+  switch (operation.type) {
+    case 'resize':
+      return {
+        ...operation,
+        width: operation.width * scaleX,
+        height: operation.height * scaleY,
+      };
+    case 'crop':
+      return {
+        ...operation,
+        x: operation.x * scaleX,
+        y: operation.y * scaleY,
+        width: operation.width * scaleX,
+        height: operation.height * scaleY,
+      };
+    case 'perspective':
+      return {
+        ...operation,
+        corners: operation.corners.map(({ x, y }) => ({
+          x: x * scaleX,
+          y: y * scaleY,
+        })) as typeof operation.corners,
+        width: operation.width * scaleX,
+        height: operation.height * scaleY,
+      };
+    case 'blur':
+      return {
+        ...operation,
+        radius: operation.radius * scale,
+        region: operation.region && {
+          x: operation.region.x * scaleX,
+          y: operation.region.y * scaleY,
+          width: operation.region.width * scaleX,
+          height: operation.region.height * scaleY,
+        },
+        mask: operation.mask?.map(shape =>
+          scaleMaskShape(shape, scaleX, scaleY),
+        ),
+        redaction:
+          operation.redaction?.mode === 'pixelate'
+            ? {
+                ...operation.redaction,
+                blockSize: operation.redaction.blockSize * scale,
+              }
+            : operation.redaction,
+      };
+    case 'text':
+      return {
+        ...operation,
+        x: operation.x * scaleX,
+        y: operation.y * scaleY,
+        fontSize: operation.fontSize * scale,
+      };
+    case 'overlay':
+      return { ...operation, x: operation.x * scaleX, y: operation.y * scaleY };
+    default:
+      return operation;
+  }
+};
+
+// Axis-aligned map from the document at one node of the graph to the
+// document further on: x' = a x + b y + tx and y' = c x + d y + ty, where
+// either b and c or a and d are zero
+export interface DocumentTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  tx: number;
+  ty: number;
+}
+
+export const IDENTITY_TRANSFORM: DocumentTransform = {
+  a: 1,
+  b: 0,
+  c: 0,
+  d: 1,
+  tx: 0,
+  ty: 0,
+};
+
+// `next` applied after `current`
+const composeTransform = (
+  current: DocumentTransform,
+  next: DocumentTransform,
+): DocumentTransform => ({
+  a: next.a * current.a + next.b * current.c,
+  b: next.a * current.b + next.b * current.d,
+  c: next.c * current.a + next.d * current.c,
+  d: next.c * current.b + next.d * current.d,
+  tx: next.a * current.tx + next.b * current.ty + next.tx,
+  ty: next.c * current.tx + next.d * current.ty + next.ty,
+});
+
+// Smaller of the two axis scales, which sizes such as brush widths follow
+export const getTransformScale = ({ a, b, c, d }: DocumentTransform): number =>
+  Math.min(Math.abs(a) + Math.abs(b), Math.abs(c) + Math.abs(d));
+
+export const invertTransform = ({
+  a,
+  b,
+  c,
+  d,
+  tx,
+  ty,
+}: DocumentTransform): DocumentTransform => {
+  const det = a * d - b * c;
+  return {
+    a: d / det,
+    b: -b / det,
+    c: -c / det,
+    d: a / det,
+    tx: (b * ty - d * tx) / det,
+    ty: (c * tx - a * ty) / det,
+  };
+};
+
+// How one operation moves document points, mirroring the raster
+// implementations. Null for straightening, perspective and rotations by
+// other than right angles, which shapes cannot follow.
+const getOperationTransform = (
+  size: Dimensions,
+  operation: ImageOperation,
+): DocumentTransform | null => {
+  const { width, height } = size;
+  switch (operation.type) {
+    case 'resize': {
+      const output = getOperationDimensions(size, operation);
+      return {
+        ...IDENTITY_TRANSFORM,
+        a: output.width / width,
+        d: output.height / height,
+      };
+    }
+    case 'crop':
+      return {
+        ...IDENTITY_TRANSFORM,
+        tx: -Math.min(Math.max(Math.round(operation.x), 0), width - 1),
+        ty: -Math.min(Math.max(Math.round(operation.y), 0), height - 1),
+      };
+    case 'rotate':
+      switch (((operation.angle % 360) + 360) % 360) {
+        case 0:
+          return IDENTITY_TRANSFORM;
+        case 90:
+          return { a: 0, b: -1, c: 1, d: 0, tx: height, ty: 0 };
+        case 180:
+          return { a: -1, b: 0, c: 0, d: -1, tx: width, ty: height };
+        case 270:
+          return { a: 0, b: 1, c: -1, d: 0, tx: 0, ty: width };
+        default:
+          return null;
+      }
+    case 'flip':
+      return operation.direction === 'horizontal'
+        ? { ...IDENTITY_TRANSFORM, a: -1, tx: width }
+        : { ...IDENTITY_TRANSFORM, d: -1, ty: height };
+    case 'straighten':
+      return operation.angle === 0 ? IDENTITY_TRANSFORM : null;
+    case 'perspective':
+      return null;
+    default:
+      return IDENTITY_TRANSFORM;
+  }
+};
+
+// Where the document as `operations[index]` sees it lands in the rendered
+// document. Null when a later node moves pixels in a way shapes cannot
+// follow.
+export const getDocumentTransform = (
+  original: Dimensions,
+  operations: ImageOperation[],
+  index: number,
+): DocumentTransform | null => {
+  let size = getDocumentDimensions(original, operations.slice(0, index));
+  let transform = IDENTITY_TRANSFORM;
+  for (const operation of operations.slice(index)) {
+    const step = getOperationTransform(size, operation);
+    if (!step) {
+      return null;
+    }
+    transform = composeTransform(transform, step);
+    size = getOperationDimensions(size, operation);
+  }
+  return transform;
+};
+
+// Moves a mask shape with a document transform
+export const transformMaskShape = (
+  shape: MaskShape,
+  transform: DocumentTransform,
+): MaskShape => {
+  const { a, b, c, d, tx, ty } = transform;
+  const mapX = (x: number, y: number) => a * x + b * y + tx;
+  const mapY = (x: number, y: number) => c * x + d * y + ty;
+  const scale = getTransformScale(transform);
+  if (shape.type === 'stroke') {
+    return {
+      ...shape,
+      points: shape.points.map(({ x, y }) => ({
+        x: mapX(x, y),
+        y: mapY(x, y),
+      })),
+      size: shape.size * scale,
+    };
+  }
+  const x0 = mapX(shape.x, shape.y);
+  const y0 = mapY(shape.x, shape.y);
+  const x1 = mapX(shape.x + shape.width, shape.y + shape.height);
+  const y1 = mapY(shape.x + shape.width, shape.y + shape.height);
+  return {
+    ...shape,
+    x: Math.min(x0, x1),
+    y: Math.min(y0, y1),
+    width: Math.abs(x1 - x0),
+    height: Math.abs(y1 - y0),
+    feather: shape.feather * scale,
+  };
+};
+
+// One of the eight orientations reachable with right-angle rotations and
+// flips: an optional horizontal mirror followed by clockwise quarter turns
+export interface Orientation {
+  mirrored: boolean;
+  quarterTurns: number; // 0..3
+}
+
+export const IDENTITY_ORIENTATION: Orientation = {
+  mirrored: false,
+  quarterTurns: 0,
+};
+
+const normalizeQuarterTurns = (turns: number) => ((turns % 4) + 4) % 4;
+
+// Orientation of a lossless rotate or flip node; null for anything else
+export const getOperationOrientation = (
+  operation: ImageOperation,
+): Orientation | null => {
+  switch (operation.type) {
+    case 'rotate':
+      return operation.angle % 90 === 0
+        ? {
+            mirrored: false,
+            quarterTurns: normalizeQuarterTurns(operation.angle / 90),
+          }
+        : null;
+    case 'flip':
+      // A vertical flip is a horizontal mirror turned half way round
+      return {
+        mirrored: true,
+        quarterTurns: operation.direction === 'vertical' ? 2 : 0,
+      };
+    default:
+      return null;
+  }
+};
+
+// `next` applied after `current`. Mirroring reverses the direction of the
+// turns made before it.
+export const composeOrientation = (
+  current: Orientation,
+  next: Orientation,
+): Orientation => ({
+  mirrored: current.mirrored !== next.mirrored,
+  quarterTurns: normalizeQuarterTurns(
+    next.quarterTurns +
+      (next.mirrored ? -current.quarterTurns : current.quarterTurns),
+  ),
+});
+
+// Canonical nodes for an orientation: at most one flip and one rotation
+export const getOrientationOperations = (
+  orientation: Orientation,
+): ImageOperation[] => [
+  ...(orientation.mirrored
+    ? [{ type: 'flip' as const, direction: 'horizontal' as const }]
+    : []),
+  ...(orientation.quarterTurns
+    ? [{ type: 'rotate' as const, angle: orientation.quarterTurns * 90 }]
+    : []),
+];
+
+// Adds a right-angle rotation or flip to the graph, folding it into the run
+// of rotate and flip nodes at the end so the run always collapses to a single
+// orientation and pixels are never resampled twice. Node ids are kept where
+// the run already had a node of the same type.
+export const appendOrientation = (
+  operations: EditOperation[],
+  step: ImageOperation,
+): EditOperation[] => {
+  const stepOrientation = getOperationOrientation(step);
+  if (!stepOrientation) {
+    throw new Error(`Operation "${step.type}" is not a lossless orientation`);
+  }
+
+  let start = operations.length;
+  while (start > 0 && getOperationOrientation(operations[start - 1])) {
+    start--;
+  }
+  const run = operations.slice(start);
+  const orientation = composeOrientation(
+    run.reduce(
+      (current, operation) =>
+        composeOrientation(current, getOperationOrientation(operation)!),
+      IDENTITY_ORIENTATION,
+    ),
+    stepOrientation,
+  );
+
+  return [
+    ...operations.slice(0, start),
+    ...getOrientationOperations(orientation).map(operation => {
+      const existing = run.find(node => node.type === operation.type);
+      return existing
+        ? { ...operation, id: existing.id }
+        : withOperationId(operation);
+    }),
+  ];
+};
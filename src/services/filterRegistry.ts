@@ -0,0 +1,390 @@
+import {
+  BlendMode,
+  ColorMatrix,
+  FilterStep,
+  RasterImage,
+  applyFilterRecipe,
+  applyFilterSteps,
+  blendRasters,
+  cloneRaster,
+  createBrightnessMatrix,
+  createContrastMatrix,
+  createSaturationMatrix,
+} from './raster';
+
+// Every filter preset as a declarative recipe. FilterTool lists these and
+// the image processor renders them for previews, thumbnails and export, so
+// all of them stay in step.
+
+export interface FilterCategory {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  category: string;
+  preview: string;
+  recipe: FilterStep[];
+  isPremium?: boolean;
+}
+
+export const FILTER_CATEGORIES: FilterCategory[] = [
+  { id: 'color_balance', name: 'Color Balance', icon: '🎛️' },
+  { id: 'monochrome', name: 'Monochrome', icon: '⚫' },
+  { id: 'vintage_retro', name: 'Vintage/Retro', icon: '📷' },
+  { id: 'hdr', name: 'HDR Boost', icon: '🔆' },
+  { id: 'cinematic', name: 'Cinematic', icon: '🎬' },
+  { id: 'focus', name: 'Blur/Focus', icon: '📸' },
+  { id: 'vibrance_saturation', name: 'Vibrance & Sat', icon: '💠' },
+  { id: 'warm_cold', name: 'Warm & Cold', icon: '♨️❄️' },
+  { id: 'pop_art', name: 'Pop Art', icon: '🎨' },
+  { id: 'film_grain', name: 'Film Grain', icon: '🧵' },
+  { id: 'my_luts', name: 'My LUTs', icon: '🎞️' },
+  // Saved looks rather than filters; see presetService
+  { id: 'my_presets', name: 'My Presets', icon: '⭐' },
+];
+
+// prettier-ignore
+const GRAYSCALE_MATRIX: ColorMatrix = [
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0.2126, 0.7152, 0.0722, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+// prettier-ignore
+const SEPIA_MATRIX: ColorMatrix = [
+  0.393, 0.769, 0.189, 0, 0,
+  0.349, 0.686, 0.168, 0, 0,
+  0.272, 0.534, 0.131, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+// prettier-ignore
+const WARM_MATRIX: ColorMatrix = [
+  1.1, 0, 0, 0, 8,
+  0, 1.02, 0, 0, 4,
+  0, 0, 0.88, 0, -6,
+  0, 0, 0, 1, 0,
+];
+
+// prettier-ignore
+const COOL_MATRIX: ColorMatrix = [
+  0.9, 0, 0, 0, -6,
+  0, 1.0, 0, 0, 2,
+  0, 0, 1.12, 0, 10,
+  0, 0, 0, 1, 0,
+];
+
+// Lifted blacks and lowered whites
+// prettier-ignore
+const FADE_MATRIX: ColorMatrix = [
+  0.85, 0, 0, 0, 28,
+  0, 0.85, 0, 0, 26,
+  0, 0, 0.85, 0, 30,
+  0, 0, 0, 1, 0,
+];
+
+// prettier-ignore
+const INVERT_MATRIX: ColorMatrix = [
+  -1, 0, 0, 0, 255,
+  0, -1, 0, 0, 255,
+  0, 0, -1, 0, 255,
+  0, 0, 0, 1, 0,
+];
+
+const matrix = (value: ColorMatrix): FilterStep => ({
+  type: 'colorMatrix',
+  matrix: value,
+});
+const brightness = (value: number) => matrix(createBrightnessMatrix(value));
+const contrast = (value: number) => matrix(createContrastMatrix(value));
+const saturation = (value: number) => matrix(createSaturationMatrix(value));
+
+// The looks were tuned on 1080 px previews; radii are stored relative to the
+// longer side
+const px = (pixels: number) => pixels / 1080;
+
+export const FILTER_PRESETS: FilterPreset[] = [
+  // Color Balance
+  {
+    id: 'color_balance',
+    name: 'Color Balance',
+    category: 'color_balance',
+    preview: '🎛️',
+    recipe: [{ type: 'autoColorBalance' }],
+  },
+
+  // Monochrome
+  {
+    id: 'bw_classic',
+    name: 'Classic B/W',
+    category: 'monochrome',
+    preview: '◻️',
+    recipe: [matrix(GRAYSCALE_MATRIX), contrast(15)],
+  },
+  {
+    id: 'sepia',
+    name: 'Sepia',
+    category: 'monochrome',
+    preview: '🏛️',
+    recipe: [matrix(SEPIA_MATRIX)],
+  },
+  {
+    id: 'bw_cold',
+    name: 'Cold Mono',
+    category: 'monochrome',
+    preview: '🔷',
+    recipe: [matrix(GRAYSCALE_MATRIX), matrix(COOL_MATRIX)],
+  },
+
+  // Vintage / Retro
+  {
+    id: 'vintage_70s',
+    name: '70s Film',
+    category: 'vintage_retro',
+    preview: '📼',
+    recipe: [
+      matrix(WARM_MATRIX),
+      matrix(FADE_MATRIX),
+      saturation(-25),
+      { type: 'vignette', amount: 0.35 },
+    ],
+  },
+  {
+    id: 'retro_90s',
+    name: '90s Retro',
+    category: 'vintage_retro',
+    preview: '📺',
+    recipe: [
+      contrast(20),
+      {
+        type: 'splitTone',
+        shadow: [40, 0, 80],
+        highlight: [255, 200, 150],
+        amount: 0.5,
+      },
+    ],
+  },
+  {
+    id: 'vintage_fade',
+    name: 'Fade',
+    category: 'vintage_retro',
+    preview: '📜',
+    recipe: [
+      // Matte: blacks lifted, whites held back, midtones untouched
+      {
+        type: 'curves',
+        curves: {
+          master: [
+            [0, 30],
+            [128, 128],
+            [255, 228],
+          ],
+        },
+      },
+      saturation(-20),
+    ],
+  },
+
+  // HDR Boost
+  {
+    id: 'hdr_boost',
+    name: 'HDR Boost',
+    category: 'hdr',
+    preview: '🔆',
+    recipe: [{ type: 'sharpen', radius: px(8), amount: 0.8 }, saturation(15)],
+  },
+
+  // Cinematic Look
+  {
+    id: 'cinematic',
+    name: 'Cinematic',
+    category: 'cinematic',
+    preview: '🎬',
+    recipe: [
+      contrast(10),
+      {
+        type: 'splitTone',
+        shadow: [0, 110, 130],
+        highlight: [255, 170, 90],
+        amount: 0.7,
+      },
+      { type: 'vignette', amount: 0.25 },
+    ],
+  },
+
+  // Blur / Focus
+  {
+    id: 'tilt_shift',
+    name: 'Tilt-Shift',
+    category: 'focus',
+    preview: '📍',
+    recipe: [{ type: 'tiltShift', radius: px(6) }, saturation(10)],
+  },
+  {
+    id: 'soft_focus',
+    name: 'Soft Focus',
+    category: 'focus',
+    preview: '🌫️',
+    recipe: [{ type: 'blur', radius: px(4), mix: 0.5 }],
+  },
+
+  // Vibrance & Saturation
+  {
+    id: 'vibrance',
+    name: 'Vibrance',
+    category: 'vibrance_saturation',
+    preview: '💠',
+    recipe: [{ type: 'vibrance', amount: 0.8 }],
+  },
+  {
+    id: 'saturation',
+    name: 'Saturation',
+    category: 'vibrance_saturation',
+    preview: '🌈',
+    recipe: [saturation(60)],
+  },
+
+  // Warm & Cold Tone
+  {
+    id: 'warm_tone',
+    name: 'Warm Tone',
+    category: 'warm_cold',
+    preview: '🌅',
+    recipe: [matrix(WARM_MATRIX)],
+  },
+  {
+    id: 'cool_tone',
+    name: 'Cold Tone',
+    category: 'warm_cold',
+    preview: '🧊',
+    recipe: [matrix(COOL_MATRIX)],
+  },
+
+  // Pop Art / Artistic
+  {
+    id: 'pop_art',
+    name: 'Pop Art',
+    category: 'pop_art',
+    preview: '🟣',
+    recipe: [saturation(80), { type: 'posterize', levels: 4 }],
+  },
+
+  // Film Grain / Texture
+  {
+    id: 'film_grain',
+    name: 'Film Grain',
+    category: 'film_grain',
+    preview: '🧵',
+    recipe: [{ type: 'grain', amount: 0.5 }],
+  },
+];
+
+// Ids saved by earlier versions, before the presets above existed. Still
+// rendered for old projects but no longer offered.
+const LEGACY_RECIPES = new Map<string, FilterStep[]>([
+  ['grayscale', [matrix(GRAYSCALE_MATRIX)]],
+  ['saturate', [saturation(100)]],
+  ['invert', [matrix(INVERT_MATRIX)]],
+  ['blur', [{ type: 'blur', radius: px(10) }]],
+  ['brightness', [brightness(40)]],
+  ['contrast', [contrast(40)]],
+]);
+
+const PRESETS_BY_ID = new Map(
+  FILTER_PRESETS.map(preset => [preset.id, preset]),
+);
+
+// Ids of imported LUTs start with this. They only exist on the device the
+// LUT was imported on.
+export const LUT_FILTER_PREFIX = 'lut_';
+
+// Presets the user brought in (imported LUTs), registered once they have
+// been loaded from storage
+const userPresets = new Map<string, FilterPreset>();
+
+export const registerFilterPreset = (preset: FilterPreset): void => {
+  if (PRESETS_BY_ID.has(preset.id) || LEGACY_RECIPES.has(preset.id)) {
+    throw new Error(`Filter "${preset.id}" is built in`);
+  }
+  userPresets.set(preset.id, preset);
+};
+
+export const unregisterFilterPreset = (id: string): void => {
+  userPresets.delete(id);
+};
+
+// Built-in and user presets of a category, in display order
+export const getFilterPresets = (category: string): FilterPreset[] =>
+  [...FILTER_PRESETS, ...userPresets.values()].filter(
+    preset => preset.category === category,
+  );
+
+export const getFilterPreset = (id: string): FilterPreset | undefined =>
+  PRESETS_BY_ID.get(id) ?? userPresets.get(id);
+
+// Recipe for a preset id, or null for 'none' and unknown ids
+export const getFilterRecipe = (id: string): FilterStep[] | null =>
+  getFilterPreset(id)?.recipe ?? LEGACY_RECIPES.get(id) ?? null;
+
+export const isKnownFilter = (id: string): boolean =>
+  getFilterRecipe(id) !== null;
+
+const getRecipeOrWarn = (id: string): FilterStep[] | null => {
+  const recipe = getFilterRecipe(id);
+  if (!recipe && id !== 'none') {
+    console.warn(`Unknown filter "${id}"; skipping.`);
+  }
+  return recipe;
+};
+
+// Renders a preset over the image at intensity (0..100). Unknown ids leave
+// the image untouched.
+export const applyFilterPreset = (
+  image: RasterImage,
+  id: string,
+  intensity: number,
+): RasterImage => {
+  const recipe = getRecipeOrWarn(id);
+  return recipe
+    ? applyFilterRecipe(image, recipe, intensity)
+    : cloneRaster(image);
+};
+
+// One entry of a filter stack
+export interface FilterLayer {
+  id: string;
+  filterType: string;
+  opacity: number; // 0..100
+  blendMode: BlendMode;
+  enabled: boolean;
+}
+
+// Renders a stack bottom to top: each enabled layer filters the result of
+// the layers below it and is blended back over that result
+export const applyFilterLayers = (
+  image: RasterImage,
+  layers: FilterLayer[],
+): RasterImage => {
+  let result = image;
+  for (const layer of layers) {
+    if (!layer.enabled || layer.opacity <= 0) {
+      continue;
+    }
+    const recipe = getRecipeOrWarn(layer.filterType);
+    if (recipe) {
+      result = blendRasters(
+        result,
+        applyFilterSteps(result, recipe),
+        layer.blendMode,
+        layer.opacity / 100,
+      );
+    }
+  }
+  return result === image ? cloneRaster(image) : result;
+};
+
@@ -1,6 +1,63 @@
-import { Image } from 'react-native';
+import { Image, InteractionManager } from 'react-native';
 import RNFS from 'react-native-fs';
 import ImageEditor from '@react-native-community/image-editor';
+import {
+  RasterCodec,
+  RasterImage,
+  RGBA,
+  adjustBrightness,
+  adjustContrast,
+  adjustSaturation,
+  applyCurves,
+  applyExifOrientation,
+  applyHslMixer,
+  applyLevels,
+  applyTone,
+  applyWhiteBalance,
+  averageColor,
+  compositeRaster,
+  cropRaster,
+  drawText,
+  flipRaster,
+  warpPerspective,
+  redactMasked,
+  redactRegion,
+  resizeRaster,
+  rotateRaster,
+  straightenRaster,
+  createThumbnailRaster,
+  ChannelSettings,
+  CurvePoint,
+  HslSettings,
+  LevelsSettings,
+  MaskShape,
+  Quad,
+  Redaction,
+  ToneSettings,
+  WhiteBalanceSettings,
+} from './raster';
+import {
+  MetadataOptions,
+  PhotoMetadata,
+  buildMetadataSegments,
+  detectImageFormat,
+  insertJpegSegments,
+  isTransposedOrientation,
+  jpegCodec,
+  pngCodec,
+  readExifOrientation,
+  readJpegDimensions,
+  readPhotoMetadata,
+} from './codecs';
+import { storageService } from './storageService';
+import { getDocumentDimensions, scaleOperation } from './editGraph';
+import {
+  FilterLayer,
+  applyFilterLayers,
+  applyFilterPreset,
+} from './filterRegistry';
+import { lutService } from './lutService';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
 
 // Image Processing Job Interface
 interface ImageProcessingJob {
@@ -18,12 +75,29 @@ type ImageOperation =
   | { type: 'resize'; width: number; height: number }
   | { type: 'crop'; x: number; y: number; width: number; height: number }
   | { type: 'rotate'; angle: number }
+  | { type: 'straighten'; angle: number; autoCrop: boolean } // -45..45
   | { type: 'flip'; direction: 'horizontal' | 'vertical' }
-  | { type: 'filter'; filterType: string; intensity: number }
-  | { type: 'brightness'; value: number }
-  | { type: 'contrast'; value: number }
-  | { type: 'saturation'; value: number }
-  | { type: 'blur'; radius: number }
+  | { type: 'perspective'; corners: Quad; width: number; height: number }
+  | { type: 'filter'; filterType: string; intensity: number } // intensity 0..100
+  // Filters applied bottom to top, each with its own opacity and blend mode
+  | { type: 'filterStack'; layers: FilterLayer[] }
+  | { type: 'brightness'; value: number } // -100..100
+  | { type: 'contrast'; value: number } // -100..100
+  | { type: 'saturation'; value: number } // -100..100
+  | ({ type: 'tone' } & ToneSettings)
+  | ({ type: 'curves' } & ChannelSettings<CurvePoint[]>)
+  | ({ type: 'levels' } & ChannelSettings<LevelsSettings>)
+  | { type: 'hsl'; bands: HslSettings }
+  | ({ type: 'whiteBalance' } & WhiteBalanceSettings)
+  | {
+      type: 'blur';
+      radius: number; // Gaussian sigma in pixels
+      region?: { x: number; y: number; width: number; height: number };
+      // Vector mask; takes the place of region when present
+      mask?: MaskShape[];
+      // Pixelate or solid fill instead of the Gaussian blur
+      redaction?: Exclude<Redaction, { mode: 'gaussian' }>;
+    }
   | {
       type: 'text';
       text: string;
@@ -51,6 +125,21 @@ interface ProcessingResult {
   operations: ImageOperation[];
 }
 
+// Where one image of a batch is up to
+type BatchItemStatus =
+  | { state: 'processing'; progress: number }
+  | { state: 'done'; result: ProcessingResult }
+  | { state: 'failed'; message: string };
+
+// Raised when the source cannot be decoded and the export could not apply
+// every edit or the requested metadata policy
+export class UnsupportedSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedSourceError';
+  }
+}
+
 // Image Information
 interface ImageInfo {
   uri: string;
@@ -58,10 +147,27 @@ interface ImageInfo {
   height: number;
   fileSize: number;
   format: 'jpeg' | 'png' | 'webp';
+  // EXIF orientation of the stored pixels (1-8); width and height are upright
   orientation?: number;
 }
 
-// Mock image processing service - in production this would use react-native-image-editor
+type ImageFormat = ImageInfo['format'];
+
+// Long edge of generated thumbnails, enough for 2x-3x density list cards
+const THUMBNAIL_SIZE = 360;
+const THUMBNAIL_QUALITY = 80;
+
+const PREVIEW_QUALITY = 85;
+
+// Filter cards are 60 pt squares; enough for 3x density
+const FILTER_THUMBNAIL_SIZE = 180;
+
+// Enough of the file start to reach the JPEG frame header past EXIF, ICC and
+// XMP segments
+const HEADER_BYTES = 256 * 1024;
+
+// Image processing service. Operations run on decoded RGBA rasters when a
+// codec for the source format is registered, otherwise on native file URIs.
 class ImageProcessor {
   private static instance: ImageProcessor;
 
@@ -69,6 +175,38 @@ class ImageProcessor {
   private processingQueue: ImageProcessingJob[] = [];
   private isProcessing = false;
 
+  // Decoded original and its downscaled copy, reused across preview renders
+  private previewSource: {
+    uri: string;
+    image: RasterImage;
+    scaled: RasterImage | null;
+  } | null = null;
+  // Latest preview file of each slot, removed once replaced
+  private lastPreviewPaths = new Map<string, string>();
+  // Local copies of photo library assets and remote images by source URI,
+  // made on first read and kept until the cache is cleared
+  private localCopies = new Map<string, Promise<string>>();
+
+  // Small render of the edit graph the filter card thumbnails are made from,
+  // and the thumbnails made from it by filter id
+  private filterProxy: { key: string; image: RasterImage } | null = null;
+  private filterThumbnailKey: string | null = null;
+  private filterThumbnails = new Map<string, Promise<string>>();
+  private filterThumbnailQueue: Promise<unknown> = Promise.resolve();
+  private graphKeys = new WeakMap<ImageOperation[], string>();
+  // Small copies of the photos screens show side by side (batch samples) by
+  // size and source URI, each decoded once however often its graph changes
+  private sampleProxies = new Map<
+    string,
+    Promise<{ image: RasterImage; scaleX: number; scaleY: number }>
+  >();
+
+  // Pixel codecs by file format
+  private codecs: Partial<Record<ImageFormat, RasterCodec>> = {
+    jpeg: jpegCodec,
+    png: pngCodec,
+  };
+
   private constructor() {}
 
   static getInstance(): ImageProcessor {
@@ -78,6 +216,14 @@ class ImageProcessor {
     return ImageProcessor.instance;
   }
 
+  registerCodec(format: ImageFormat, codec: RasterCodec): void {
+    this.codecs[format] = codec;
+  }
+
+  hasCodec(format: ImageFormat): boolean {
+    return !!this.codecs[format];
+  }
+
   // Main processing methods
   async processImage(
     imageUri: string,
@@ -87,6 +233,8 @@ class ImageProcessor {
       format?: 'jpeg' | 'png';
       generateThumbnail?: boolean;
       priority?: 'low' | 'normal' | 'high';
+      // Metadata to carry over from the source; without it none is written
+      metadata?: MetadataOptions;
       onProgress?: (progress: number) => void;
     } = {},
   ): Promise<ProcessingResult> {
@@ -97,28 +245,59 @@ class ImageProcessor {
       await this.validateImageUri(imageUri);
 
       // Get image information
-      await this.getImageInfo(imageUri);
+      const sourceInfo = await this.getImageInfo(imageUri);
 
-      // Apply operations sequentially
-      let processedUri = imageUri;
-      for (let i = 0; i < operations.length; i++) {
-        const operation = operations[i];
-        const progress = ((i + 1) / operations.length) * 100;
-
-        options.onProgress?.(progress);
-        processedUri = await this.applyOperation(processedUri, operation);
-      }
-
-      // Generate final output
-      const finalUri = await this.generateOutput(processedUri, {
+      const outputOptions = {
         quality: options.quality || 90,
         format: options.format || 'jpeg',
-      });
+        metadata: options.metadata,
+      } as const;
+
+      // Decode once and run every operation on the same pixel buffer; the
+      // result is re-encoded at the requested quality and format
+      const image = await this.tryReadRaster(imageUri);
+      let finalUri: string;
+      let processed: RasterImage | null = null;
+      if (image) {
+        processed = image;
+        for (let i = 0; i < operations.length; i++) {
+          const operation = operations[i];
+          const progress = ((i + 1) / operations.length) * 100;
+
+          options.onProgress?.(progress);
+          processed = await this.applyOperation(processed, operation);
+        }
+        finalUri = await this.generateOutput(
+          processed,
+          outputOptions,
+          imageUri,
+        );
+      } else {
+        this.assertNativeExport(operations, options.metadata);
+        let processedUri = imageUri;
+        for (let i = 0; i < operations.length; i++) {
+          const operation = operations[i];
+          const progress = ((i + 1) / operations.length) * 100;
+
+          options.onProgress?.(progress);
+          processedUri = await this.applyNativeOperation(
+            processedUri,
+            operation,
+          );
+        }
+        // Without pixels the output keeps the source encoding
+        console.warn(
+          `${sourceInfo.format} output was not re-encoded as ${outputOptions.format} at quality ${outputOptions.quality}.`,
+        );
+        finalUri = processedUri;
+      }
 
       // Generate thumbnail if requested
       let thumbnailUri: string | undefined;
       if (options.generateThumbnail) {
-        thumbnailUri = await this.generateThumbnail(finalUri);
+        thumbnailUri = processed
+          ? await this.generateThumbnail(processed)
+          : await this.createThumbnail(finalUri);
       }
 
       // Get final image info
@@ -137,6 +316,9 @@ class ImageProcessor {
       return result;
     } catch (error) {
       console.error('Image processing failed:', error);
+      if (error instanceof UnsupportedSourceError) {
+        throw error;
+      }
       throw new Error(`Image processing failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -204,72 +386,149 @@ class ImageProcessor {
 
   // Core operation implementations
   private async applyOperation(
-    imageUri: string,
+    image: RasterImage,
     operation: ImageOperation,
-  ): Promise<string> {
+  ): Promise<RasterImage> {
     switch (operation.type) {
       case 'resize':
-        return this.resizeImage(imageUri, operation.width, operation.height);
+        return resizeRaster(image, operation.width, operation.height);
       case 'crop':
-        return this.cropImage(
-          imageUri,
+        return cropRaster(
+          image,
           operation.x,
           operation.y,
           operation.width,
           operation.height,
         );
       case 'rotate':
-        return this.rotateImage(imageUri, operation.angle);
+        return rotateRaster(image, operation.angle);
+      case 'straighten':
+        return straightenRaster(image, operation.angle, operation.autoCrop);
       case 'flip':
-        return this.flipImage(imageUri, operation.direction);
+        return flipRaster(image, operation.direction);
+      case 'perspective':
+        return warpPerspective(
+          image,
+          operation.corners,
+          operation.width,
+          operation.height,
+        );
       case 'filter':
-        return this.applyFilter(
-          imageUri,
+        // Imported LUTs are read from storage on first use
+        await lutService.loadLuts();
+        return applyFilterPreset(
+          image,
           operation.filterType,
           operation.intensity,
         );
+      case 'filterStack':
+        await lutService.loadLuts();
+        return applyFilterLayers(image, operation.layers);
       case 'brightness':
-        return this.adjustBrightness(imageUri, operation.value);
+        return adjustBrightness(image, operation.value);
       case 'contrast':
-        return this.adjustContrast(imageUri, operation.value);
+        return adjustContrast(image, operation.value);
       case 'saturation':
-        return this.adjustSaturation(imageUri, operation.value);
-      case 'blur':
-        return this.applyBlur(imageUri, operation.radius);
+        return adjustSaturation(image, operation.value);
+      case 'tone':
+        return applyTone(image, operation);
+      case 'curves':
+        return applyCurves(image, operation);
+      case 'levels':
+        return applyLevels(image, operation);
+      case 'hsl':
+        return applyHslMixer(image, operation.bands);
+      case 'whiteBalance':
+        return applyWhiteBalance(image, operation);
+      case 'blur': {
+        const redaction: Redaction = operation.redaction ?? {
+          mode: 'gaussian',
+          radius: operation.radius,
+        };
+        return operation.mask
+          ? redactMasked(image, operation.mask, redaction)
+          : redactRegion(image, operation.region, redaction);
+      }
       case 'text':
-        return this.addText(
-          imageUri,
+        return drawText(
+          image,
           operation.text,
           operation.x,
           operation.y,
           operation.fontSize,
           operation.color,
         );
-      case 'overlay':
-        return this.addOverlay(
-          imageUri,
-          operation.overlayUri,
+      case 'overlay': {
+        const overlay = await this.readRaster(operation.overlayUri);
+        return compositeRaster(
+          image,
+          overlay,
           operation.x,
           operation.y,
           operation.opacity,
         );
+      }
       default:
-        return imageUri;
+        return image;
     }
   }
 
-  // Image manipulation methods (mock implementations)
-  private async resizeImage(
-    uri: string,
-    width: number,
-    height: number,
+  // The native fallback only crops and rotates, and copies the file's
+  // metadata as it is. Rather than export something that differs from the
+  // edits or the chosen metadata policy, it refuses.
+  private assertNativeExport(
+    operations: ImageOperation[],
+    metadata?: MetadataOptions,
+  ): void {
+    const unsupported = [
+      ...new Set(
+        operations
+          .map(operation => operation.type)
+          .filter(type => type !== 'crop' && type !== 'rotate'),
+      ),
+    ];
+    if (unsupported.length > 0) {
+      console.warn(`Cannot apply without decoding: ${unsupported.join(', ')}`);
+      throw new UnsupportedSourceError(
+        "This photo's encoding is not supported, so only crop and rotate can be applied to it.",
+      );
+    }
+    if (
+      metadata &&
+      (metadata.policy !== 'keep' || metadata.author || metadata.copyright)
+    ) {
+      throw new UnsupportedSourceError(
+        "This photo's encoding cannot be re-saved, so its metadata cannot be removed or changed.",
+      );
+    }
+  }
+
+  // Fallback for formats without a registered codec: only crop and rotate
+  // have native implementations. Mirroring needs decoded pixels.
+  private async applyNativeOperation(
+    imageUri: string,
+    operation: ImageOperation,
   ): Promise<string> {
-    console.log(`Resizing image to ${width}x${height}`);
-    // In production: Use react-native-image-editor or similar
-    await this.delay(100);
-    return uri; // Return same URI for mock
+    switch (operation.type) {
+      case 'crop':
+        return this.cropImage(
+          imageUri,
+          operation.x,
+          operation.y,
+          operation.width,
+          operation.height,
+        );
+      case 'rotate':
+        return this.rotateImage(imageUri, operation.angle);
+      default:
+        console.warn(
+          `Operation "${operation.type}" requires a pixel codec; skipped.`,
+        );
+        return imageUri;
+    }
   }
 
+  // Native image manipulation methods
   private async cropImage(
     uri: string,
     x: number,
@@ -284,7 +543,7 @@ class ImageProcessor {
       let localUri = uri;
       if (uri.startsWith('http://') || uri.startsWith('https://')) {
         console.log('Downloading remote image for cropping...');
-        localUri = await this.downloadRemoteImage(uri);
+        localUri = `file://${await this.resolveLocalPath(uri)}`;
       }
 
       // Get actual image dimensions first
@@ -333,7 +592,7 @@ class ImageProcessor {
       // Normalize input: download remote URLs to local first
       let localUri = uri;
       if (uri.startsWith('http://') || uri.startsWith('https://')) {
-        localUri = await this.downloadRemoteImage(uri);
+        localUri = `file://${await this.resolveLocalPath(uri)}`;
       }
 
       const info = await this.getImageInfo(localUri);
@@ -389,87 +648,6 @@ class ImageProcessor {
     }
   }
 
-  private async flipImage(
-    uri: string,
-    direction: 'horizontal' | 'vertical',
-  ): Promise<string> {
-    console.log(`Flipping image ${direction}`);
-
-    try {
-      // Create a flipped filename
-      const flippedUri = uri.replace(/(\.[^.]+)$/, `_flipped_${direction}$1`);
-
-      // For now, we'll simulate flipping by copying the file
-      // In production, you'd use a proper image manipulation library
-      await RNFS.copyFile(uri, flippedUri);
-
-      console.log(`Image flip ${direction} simulated:`, flippedUri);
-      return flippedUri;
-    } catch (error) {
-      console.error('Failed to flip image:', error);
-      throw new Error(`Failed to flip image: ${error}`);
-    }
-  }
-
-  private async applyFilter(
-    uri: string,
-    filterType: string,
-    intensity: number,
-  ): Promise<string> {
-    console.log(`Applying ${filterType} filter with intensity ${intensity}`);
-    await this.delay(200);
-    return uri;
-  }
-
-  private async adjustBrightness(uri: string, value: number): Promise<string> {
-    console.log(`Adjusting brightness by ${value}`);
-    await this.delay(100);
-    return uri;
-  }
-
-  private async adjustContrast(uri: string, value: number): Promise<string> {
-    console.log(`Adjusting contrast by ${value}`);
-    await this.delay(100);
-    return uri;
-  }
-
-  private async adjustSaturation(uri: string, value: number): Promise<string> {
-    console.log(`Adjusting saturation by ${value}`);
-    await this.delay(100);
-    return uri;
-  }
-
-  private async applyBlur(uri: string, radius: number): Promise<string> {
-    console.log(`Applying blur with radius ${radius}`);
-    await this.delay(150);
-    return uri;
-  }
-
-  private async addText(
-    uri: string,
-    text: string,
-    x: number,
-    y: number,
-    _fontSize: number,
-    _color: string,
-  ): Promise<string> {
-    console.log(`Adding text "${text}" at ${x},${y}`);
-    await this.delay(120);
-    return uri;
-  }
-
-  private async addOverlay(
-    uri: string,
-    overlayUri: string,
-    x: number,
-    y: number,
-    opacity: number,
-  ): Promise<string> {
-    console.log(`Adding overlay at ${x},${y} with opacity ${opacity}`);
-    await this.delay(100);
-    return uri;
-  }
-
   // Utility methods
   private async validateImageUri(uri: string): Promise<void> {
     if (!uri || typeof uri !== 'string') {
@@ -508,8 +686,9 @@ class ImageProcessor {
 
   private async getImageInfo(uri: string): Promise<ImageInfo> {
     try {
-      // Get image dimensions
-      const dimensions = await this.getImageDimensions(uri);
+      // Local JPEGs report their upright size; the platform is asked otherwise
+      const header = await this.readImageHeader(uri);
+      const dimensions = header ?? (await this.getImageDimensions(uri));
 
       let fileSize = 0;
 
@@ -530,12 +709,68 @@ class ImageProcessor {
         height: dimensions.height,
         fileSize,
         format: this.getImageFormat(uri),
+        orientation: header?.orientation,
       };
     } catch (error) {
       throw new Error(`Failed to get image info: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  // Upright pixel size of an image, matching what the pixel pipeline decodes.
+  // Rejects when the size cannot be determined.
+  async getImageSize(uri: string): Promise<{ width: number; height: number }> {
+    const header = await this.readImageHeader(uri);
+    if (header) {
+      return { width: header.width, height: header.height };
+    }
+    return new Promise((resolve, reject) => {
+      Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+    });
+  }
+
+  // Camera, exposure, location and credit fields of a JPEG. Other formats, and
+  // files that cannot be read, give an empty result.
+  async readMetadata(uri: string): Promise<PhotoMetadata> {
+    try {
+      return readPhotoMetadata(
+        await this.readHeaderBytes(await this.resolveLocalPath(uri)),
+      );
+    } catch (error) {
+      console.warn('Failed to read image metadata:', error);
+      return {};
+    }
+  }
+
+  // The start of a local file, enough for every metadata segment
+  private async readHeaderBytes(filePath: string): Promise<Uint8Array> {
+    return base64ToBytes(await RNFS.read(filePath, HEADER_BYTES, 0, 'base64'));
+  }
+
+  // Size and EXIF orientation from a local JPEG's header without decoding it.
+  // Width and height are already swapped for sideways orientations. Resolves
+  // to null for other formats and for remote or library URIs.
+  private async readImageHeader(
+    uri: string,
+  ): Promise<{ width: number; height: number; orientation: number } | null> {
+    if (/^(https?|ph):\/\//.test(uri)) {
+      return null;
+    }
+    try {
+      const bytes = await this.readHeaderBytes(uri.replace('file://', ''));
+      const stored = readJpegDimensions(bytes);
+      if (!stored) {
+        return null;
+      }
+      const orientation = readExifOrientation(bytes);
+      return isTransposedOrientation(orientation)
+        ? { width: stored.height, height: stored.width, orientation }
+        : { ...stored, orientation };
+    } catch (error) {
+      console.warn('Failed to read image header:', error);
+      return null;
+    }
+  }
+
   private async getImageDimensions(
     uri: string,
   ): Promise<{ width: number; height: number }> {
@@ -569,21 +804,169 @@ class ImageProcessor {
     }
   }
 
+  // Resolves any supported URI scheme to a readable local file path. Remote
+  // and photo library sources are copied once and the copy is reused.
+  async resolveLocalPath(uri: string): Promise<string> {
+    const isRemote = uri.startsWith('http://') || uri.startsWith('https://');
+    if (!isRemote && !uri.startsWith('ph://')) {
+      return uri.replace('file://', '');
+    }
+
+    const cached = this.localCopies.get(uri);
+    if (cached) {
+      const localPath = await cached.catch(() => null);
+      if (localPath && (await RNFS.exists(localPath))) {
+        return localPath;
+      }
+      // The copy failed or was removed with the caches directory
+      if (this.localCopies.get(uri) === cached) {
+        this.localCopies.delete(uri);
+      }
+      return this.resolveLocalPath(uri);
+    }
+
+    const copy = isRemote
+      ? this.downloadRemoteImage(uri).then(downloaded =>
+          downloaded.replace('file://', ''),
+        )
+      : this.copyPhotoAsset(uri);
+    this.localCopies.set(uri, copy);
+    return copy;
+  }
+
+  private async copyPhotoAsset(uri: string): Promise<string> {
+    const localPath = `${RNFS.CachesDirectoryPath}/asset_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 6)}.jpg`;
+    await RNFS.copyAssetsFileIOS(uri, localPath, 0, 0);
+    return localPath;
+  }
+
+  private async readRaster(uri: string): Promise<RasterImage> {
+    const filePath = await this.resolveLocalPath(uri);
+    const bytes = base64ToBytes(await RNFS.readFile(filePath, 'base64'));
+
+    // Trust the file signature over the extension
+    const format = detectImageFormat(bytes) ?? this.getImageFormat(uri);
+    const codec = this.codecs[format];
+    if (!codec) {
+      throw new Error(`No codec registered for ${format} images`);
+    }
+    // Edits work on upright pixels. The encoders write no orientation tag,
+    // so rendered files read as orientation 1.
+    const image = codec.decode(bytes);
+    return format === 'jpeg'
+      ? applyExifOrientation(image, readExifOrientation(bytes))
+      : image;
+  }
+
+  // Like readRaster, but resolves to null when the image cannot be decoded
+  // (no codec, or an encoding the codec does not support)
+  private async tryReadRaster(uri: string): Promise<RasterImage | null> {
+    try {
+      return await this.readRaster(uri);
+    } catch (error) {
+      console.warn('Falling back to native processing:', error);
+      return null;
+    }
+  }
+
+  // Encodes the rendered image. JPEG output gets the source's metadata as
+  // options.metadata allows; PNG output carries none.
   private async generateOutput(
-    uri: string,
-    options: { quality: number; format: 'jpeg' | 'png' },
+    image: RasterImage,
+    options: {
+      quality: number;
+      format: 'jpeg' | 'png';
+      metadata?: MetadataOptions;
+    },
+    sourceUri: string,
   ): Promise<string> {
-    console.log(
-      `Generating output with quality ${options.quality} in ${options.format} format`,
+    const codec = this.codecs[options.format];
+    if (!codec) {
+      throw new Error(`No codec registered for ${options.format} images`);
+    }
+
+    let encoded = codec.encode(image, options.quality);
+    if (options.metadata && options.format === 'jpeg') {
+      // A photo without its metadata is still a usable export. Author and
+      // copyright are written even when the original cannot be read.
+      let source: Uint8Array | null = null;
+      try {
+        source = await this.readHeaderBytes(
+          await this.resolveLocalPath(sourceUri),
+        );
+      } catch (error) {
+        console.warn('Failed to read source metadata:', error);
+      }
+      try {
+        encoded = insertJpegSegments(
+          encoded,
+          buildMetadataSegments(source, options.metadata, image),
+        );
+      } catch (error) {
+        console.warn('Failed to write image metadata:', error);
+      }
+    }
+
+    const extension = options.format === 'jpeg' ? 'jpg' : options.format;
+    const outputPath = `${RNFS.CachesDirectoryPath}/processed_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 6)}.${extension}`;
+    await RNFS.writeFile(outputPath, bytesToBase64(encoded), 'base64');
+    return `file://${outputPath}`;
+  }
+
+  // Writes a downscaled JPEG into the managed thumbnail directory
+  private async generateThumbnail(image: RasterImage): Promise<string> {
+    const codec = this.codecs.jpeg;
+    if (!codec) {
+      throw new Error('No codec registered for jpeg images');
+    }
+
+    const thumbnail = createThumbnailRaster(image, THUMBNAIL_SIZE);
+    const directory = await storageService.getThumbnailDirectory();
+    const outputPath = `${directory}/thumb_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 6)}.jpg`;
+    await RNFS.writeFile(
+      outputPath,
+      bytesToBase64(codec.encode(thumbnail, THUMBNAIL_QUALITY)),
+      'base64',
     );
-    await this.delay(200);
-    return uri; // In production this would create a new processed file
+    return `file://${outputPath}`;
   }
 
-  private async generateThumbnail(uri: string): Promise<string> {
-    console.log('Generating thumbnail');
-    await this.delay(100);
-    return uri; // In production this would create a smaller version
+  // Thumbnail for an existing image file. Resolves to undefined when the
+  // image cannot be decoded, so callers can show a placeholder instead.
+  async createThumbnail(uri: string): Promise<string | undefined> {
+    const image = await this.tryReadRaster(uri);
+    if (!image) {
+      return undefined;
+    }
+    return this.generateThumbnail(image);
+  }
+
+  // Thumbnail of an edit graph rendered over its original, for projects
+  // changed without being opened or exported. Other photos than the one the
+  // editor previews render over a small copy that is not kept, so the
+  // editor's preview source stays cached.
+  async renderThumbnail(
+    uri: string,
+    operations: ImageOperation[],
+  ): Promise<string> {
+    if (this.previewSource?.uri === uri) {
+      const { image } = await this.renderPreviewRaster(
+        uri,
+        operations,
+        THUMBNAIL_SIZE,
+      );
+      return this.generateThumbnail(image);
+    }
+    const proxy = await this.readSampleProxy(uri, THUMBNAIL_SIZE);
+    return this.generateThumbnail(
+      await this.renderSampleRaster(proxy, operations),
+    );
   }
 
   private async downloadRemoteImage(remoteUri: string): Promise<string> {
@@ -614,8 +997,279 @@ class ImageProcessor {
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Renders an edit graph over the original at display resolution. Pixel
+  // parameters are scaled so the result matches a full-size render.
+  private async getPreviewSource(uri: string) {
+    if (!this.previewSource || this.previewSource.uri !== uri) {
+      this.previewSource = {
+        uri,
+        image: await this.readRaster(uri),
+        scaled: null,
+      };
+    }
+    return this.previewSource;
+  }
+
+  private async renderPreviewRaster(
+    uri: string,
+    operations: ImageOperation[],
+    maxSize: number,
+  ): Promise<{ image: RasterImage; scale: number }> {
+    const source = await this.getPreviewSource(uri);
+
+    const output = getDocumentDimensions(source.image, operations);
+    const scale = Math.min(1, maxSize / Math.max(output.width, output.height));
+    let image = source.image;
+    if (scale < 1) {
+      const width = Math.max(1, Math.round(source.image.width * scale));
+      const height = Math.max(1, Math.round(source.image.height * scale));
+      if (
+        !source.scaled ||
+        source.scaled.width !== width ||
+        source.scaled.height !== height
+      ) {
+        source.scaled = resizeRaster(source.image, width, height);
+      }
+      image = source.scaled;
+    }
+
+    for (const operation of operations) {
+      image = await this.applyOperation(
+        image,
+        scaleOperation(operation, scale),
+      );
+    }
+    return { image, scale };
+  }
+
+  // Average color of the rendered graph around a point in document
+  // coordinates, for eyedropper tools. Samples the preview-resolution render.
+  async sampleColor(
+    uri: string,
+    operations: ImageOperation[],
+    point: { x: number; y: number },
+    radius = 2,
+    maxSize = 1080,
+  ): Promise<RGBA> {
+    const { image, scale } = await this.renderPreviewRaster(
+      uri,
+      operations,
+      maxSize,
+    );
+    return averageColor(image, point.x * scale, point.y * scale, radius);
+  }
+
+  // Preview render encoded to a cache file the canvas can display. Screens
+  // showing several previews at once give each one its own slot.
+  async renderPreview(
+    uri: string,
+    operations: ImageOperation[],
+    maxSize = 1080,
+    slot = 'editor',
+  ): Promise<string> {
+    const { image } = await this.renderPreviewRaster(uri, operations, maxSize);
+    return this.writePreview(image, slot);
+  }
+
+  // Renders a graph over a small copy of the photo made on first use, like
+  // the filter card proxy. For screens previewing several photos at once; the
+  // editor's preview source is left alone.
+  async renderSample(
+    uri: string,
+    operations: ImageOperation[],
+    maxSize: number,
+    slot: string,
+  ): Promise<string> {
+    // A larger sample needs its own copy, not an enlarged smaller one
+    const key = `${maxSize}:${uri}`;
+    let proxy = this.sampleProxies.get(key);
+    if (!proxy) {
+      const request = this.readSampleProxy(uri, maxSize);
+      // Failed reads are retried the next time the sample is rendered
+      request.catch(() => {
+        if (this.sampleProxies.get(key) === request) {
+          this.sampleProxies.delete(key);
+        }
+      });
+      this.sampleProxies.set(key, request);
+      proxy = request;
+    }
+
+    return this.writePreview(
+      await this.renderSampleRaster(await proxy, operations),
+      slot,
+    );
+  }
+
+  releaseSamples(): void {
+    this.sampleProxies.clear();
+  }
+
+  // Decodes the photo and keeps only a copy with its long edge within
+  // `maxSize`, with the factors that map document coordinates onto it
+  private async readSampleProxy(uri: string, maxSize: number) {
+    const source = await this.readRaster(uri);
+    const image =
+      Math.max(source.width, source.height) > maxSize
+        ? createThumbnailRaster(source, maxSize)
+        : source;
+    return {
+      image,
+      scaleX: image.width / source.width,
+      scaleY: image.height / source.height,
+    };
+  }
+
+  private async renderSampleRaster(
+    proxy: { image: RasterImage; scaleX: number; scaleY: number },
+    operations: ImageOperation[],
+  ): Promise<RasterImage> {
+    let image = proxy.image;
+    for (const operation of operations) {
+      image = await this.applyOperation(
+        image,
+        scaleOperation(operation, proxy.scaleX, proxy.scaleY),
+      );
+    }
+    return image;
+  }
+
+  private async writePreview(
+    image: RasterImage,
+    slot: string,
+  ): Promise<string> {
+    const codec = this.codecs.jpeg;
+    if (!codec) {
+      throw new Error('No codec registered for jpeg images');
+    }
+    const outputPath = `${RNFS.CachesDirectoryPath}/preview_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 6)}.jpg`;
+    await RNFS.writeFile(
+      outputPath,
+      bytesToBase64(codec.encode(image, PREVIEW_QUALITY)),
+      'base64',
+    );
+
+    // Only the latest preview of a slot is ever displayed
+    const lastPreviewPath = this.lastPreviewPaths.get(slot);
+    if (lastPreviewPath && (await RNFS.exists(lastPreviewPath))) {
+      await RNFS.unlink(lastPreviewPath);
+    }
+    this.lastPreviewPaths.set(slot, outputPath);
+    return `file://${outputPath}`;
+  }
+
+  // Card-sized render of the graph with a filter preset on top at full
+  // strength. Cached per image, graph and filter; renders run one at a time
+  // once scrolling has settled, so a long filter strip stays responsive.
+  // User presets pass their look, which `filterId` then only names.
+  renderFilterThumbnail(
+    uri: string,
+    operations: ImageOperation[],
+    filterId: string,
+    look?: ImageOperation[],
+  ): Promise<string> {
+    let graphKey = this.graphKeys.get(operations);
+    if (graphKey === undefined) {
+      graphKey = JSON.stringify(operations);
+      this.graphKeys.set(operations, graphKey);
+    }
+    const key = `${uri}\n${graphKey}`;
+    if (key !== this.filterThumbnailKey) {
+      this.releaseFilterThumbnails();
+      this.filterThumbnailKey = key;
+    }
+
+    let thumbnail = this.filterThumbnails.get(filterId);
+    if (!thumbnail) {
+      const request = this.filterThumbnailQueue.then(() =>
+        this.createFilterThumbnail(
+          key,
+          uri,
+          operations,
+          look ?? [{ type: 'filter', filterType: filterId, intensity: 100 }],
+        ),
+      );
+      this.filterThumbnailQueue = request.catch(() => undefined);
+      this.filterThumbnails.set(filterId, request);
+      // Failed renders are retried the next time the card asks
+      request.catch(() => {
+        if (this.filterThumbnails.get(filterId) === request) {
+          this.filterThumbnails.delete(filterId);
+        }
+      });
+      thumbnail = request;
+    }
+    return thumbnail;
+  }
+
+  private async createFilterThumbnail(
+    key: string,
+    uri: string,
+    operations: ImageOperation[],
+    look: ImageOperation[],
+  ): Promise<string> {
+    await new Promise<void>(resolve =>
+      InteractionManager.runAfterInteractions(() => resolve()),
+    );
+    // The graph changed while this was queued
+    if (key !== this.filterThumbnailKey) {
+      throw new Error('Filter thumbnail is out of date');
+    }
+
+    if (this.filterProxy?.key !== key) {
+      const source = (await this.getPreviewSource(uri)).image;
+      const output = getDocumentDimensions(source, operations);
+      const scale = Math.min(
+        1,
+        FILTER_THUMBNAIL_SIZE / Math.max(output.width, output.height),
+      );
+      let proxy =
+        scale < 1
+          ? createThumbnailRaster(
+              source,
+              Math.round(Math.max(source.width, source.height) * scale),
+            )
+          : source;
+      for (const operation of operations) {
+        proxy = await this.applyOperation(
+          proxy,
+          scaleOperation(operation, scale),
+        );
+      }
+      this.filterProxy = { key, image: proxy };
+    }
+
+    let image = this.filterProxy.image;
+    for (const operation of look) {
+      image = await this.applyOperation(image, operation);
+    }
+    const codec = this.codecs.jpeg;
+    if (!codec) {
+      throw new Error('No codec registered for jpeg images');
+    }
+    const outputPath = `${RNFS.CachesDirectoryPath}/filter_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 6)}.jpg`;
+    await RNFS.writeFile(
+      outputPath,
+      bytesToBase64(codec.encode(image, THUMBNAIL_QUALITY)),
+      'base64',
+    );
+    return `file://${outputPath}`;
+  }
+
+  // Drops the thumbnails of an earlier image or graph
+  private releaseFilterThumbnails(): void {
+    for (const thumbnail of this.filterThumbnails.values()) {
+      thumbnail
+        .then(uri => RNFS.unlink(uri.replace('file://', '')))
+        .catch(() => undefined);
+    }
+    this.filterThumbnails.clear();
+    this.filterThumbnailKey = null;
+    this.filterProxy = null;
   }
 
   // Batch processing
@@ -624,26 +1278,40 @@ class ImageProcessor {
     options: {
       quality?: number;
       format?: 'jpeg' | 'png';
+      metadata?: MetadataOptions;
+      // Called after each image, whether or not it succeeded
       onProgress?: (completed: number, total: number) => void;
+      // Status of each image by its index in `images`
+      onItemProgress?: (index: number, status: BatchItemStatus) => void;
+      // Checked before each image; the rest are skipped once it returns true
+      isCancelled?: () => boolean;
     } = {},
   ): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
-    let completed = 0;
 
-    for (const image of images) {
+    for (let i = 0; i < images.length && !options.isCancelled?.(); i++) {
+      const image = images[i];
       try {
+        options.onItemProgress?.(i, { state: 'processing', progress: 0 });
         const result = await this.processImage(image.uri, image.operations, {
           quality: options.quality,
           format: options.format,
+          metadata: options.metadata,
+          onProgress: progress =>
+            options.onItemProgress?.(i, { state: 'processing', progress }),
         });
 
         results.push(result);
-        completed++;
-        options.onProgress?.(completed, images.length);
+        options.onItemProgress?.(i, { state: 'done', result });
       } catch (error) {
         console.error(`Failed to process image ${image.uri}:`, error);
         // Continue with other images
+        options.onItemProgress?.(i, {
+          state: 'failed',
+          message: error instanceof Error ? error.message : String(error),
+        });
       }
+      options.onProgress?.(i + 1, images.length);
     }
 
     return results;
@@ -653,7 +1321,17 @@ class ImageProcessor {
   async clearCache(): Promise<void> {
     // Clear any cached processed images
     console.log('Clearing image processing cache');
-    // In production this would clear temp files
+    this.previewSource = null;
+    this.releaseFilterThumbnails();
+    this.releaseSamples();
+    const copies = [...this.localCopies.values()];
+    this.localCopies.clear();
+    for (const copy of copies) {
+      const localPath = await copy.catch(() => null);
+      if (localPath && (await RNFS.exists(localPath))) {
+        await RNFS.unlink(localPath);
+      }
+    }
   }
 
   // Performance monitoring
@@ -671,4 +1349,11 @@ class ImageProcessor {
 }
 
 export const imageProcessor = ImageProcessor.getInstance();
-export type { ImageOperation, ProcessingResult, ImageInfo, ImageProcessingJob };
+export type {
+  ImageOperation,
+  ProcessingResult,
+  BatchItemStatus,
+  ImageInfo,
+  ImageProcessingJob,
+  ImageFormat,
+};
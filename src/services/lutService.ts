@@ -0,0 +1,175 @@
+import RNFS from 'react-native-fs';
+import { CachedAsset, storageService } from './storageService';
+import {
+  FilterPreset,
+  LUT_FILTER_PREFIX,
+  getFilterPresets,
+  registerFilterPreset,
+  unregisterFilterPreset,
+} from './filterRegistry';
+import { Lut, LutFormatError, LutInterpolation, parseCubeLut } from './raster';
+
+// Imported .cube LUTs. The files are copied into the app and recorded as
+// cached 'filter' assets; once loaded each one is a preset in the
+// "My LUTs" category, rendered at the filter intensity like any other.
+
+export const LUT_CATEGORY = 'my_luts';
+
+const LUT_DIRECTORY = `${RNFS.DocumentDirectoryPath}/luts`;
+
+// A 65-point 3D table is about 8 MB of text
+const MAX_LUT_FILE_SIZE = 20 * 1024 * 1024;
+
+export interface LutMetadata {
+  format: 'cube';
+  name: string;
+  dimensions: 1 | 3;
+  size: number;
+  interpolation: LutInterpolation;
+}
+
+export interface ImportLutOptions {
+  name?: string;
+  interpolation?: LutInterpolation;
+}
+
+const toPath = (uri: string) => uri.replace('file://', '');
+
+const isLutAsset = (asset: CachedAsset) =>
+  asset.type === 'filter' && asset.metadata?.format === 'cube';
+
+const toPreset = (
+  id: string,
+  metadata: LutMetadata,
+  lut: Lut,
+): FilterPreset => ({
+  id,
+  name: metadata.name,
+  category: LUT_CATEGORY,
+  preview: '🎞️',
+  recipe: [{ type: 'lut', lut, interpolation: metadata.interpolation }],
+});
+
+// File name without directories or extension
+const getBaseName = (uri: string) =>
+  decodeURIComponent(uri.split(/[/?#]/).filter(Boolean).pop() ?? '').replace(
+    /\.[^.]*$/,
+    '',
+  );
+
+class LutService {
+  private static instance: LutService;
+  private loading: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): LutService {
+    if (!LutService.instance) {
+      LutService.instance = new LutService();
+    }
+    return LutService.instance;
+  }
+
+  createLutId(): string {
+    return `${LUT_FILTER_PREFIX}${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+  }
+
+  // Registers the stored LUTs with the filter registry. Only reads them
+  // once; later calls wait for the first.
+  loadLuts(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.registerStoredLuts();
+    }
+    return this.loading;
+  }
+
+  getLuts(): FilterPreset[] {
+    return getFilterPresets(LUT_CATEGORY);
+  }
+
+  // Copies a .cube file from a local path or an http(s) URL, validates it
+  // and registers it. Invalid files throw a LutFormatError saying why.
+  async importLut(
+    uri: string,
+    options: ImportLutOptions = {},
+  ): Promise<FilterPreset> {
+    await this.loadLuts();
+    if (!(await RNFS.exists(LUT_DIRECTORY))) {
+      await RNFS.mkdir(LUT_DIRECTORY);
+    }
+    const id = this.createLutId();
+    const path = `${LUT_DIRECTORY}/${id}.cube`;
+
+    try {
+      if (/^https?:\/\//i.test(uri)) {
+        const { statusCode } = await RNFS.downloadFile({
+          fromUrl: uri,
+          toFile: path,
+        }).promise;
+        if (statusCode < 200 || statusCode >= 300) {
+          throw new Error(`Download failed with status ${statusCode}`);
+        }
+      } else {
+        await RNFS.copyFile(toPath(uri), path);
+      }
+
+      const fileSize = Number((await RNFS.stat(path)).size);
+      if (fileSize > MAX_LUT_FILE_SIZE) {
+        throw new LutFormatError('File is too large for a LUT');
+      }
+      const lut = parseCubeLut(await RNFS.readFile(path, 'utf8'));
+
+      const metadata: LutMetadata = {
+        format: 'cube',
+        name: options.name?.trim() || lut.title || getBaseName(uri) || 'LUT',
+        dimensions: lut.dimensions,
+        size: lut.size,
+        interpolation: options.interpolation ?? 'tetrahedral',
+      };
+      const now = Date.now();
+      await storageService.addCachedAsset({
+        id,
+        type: 'filter',
+        uri,
+        localUri: `file://${path}`,
+        downloadedAt: now,
+        lastUsed: now,
+        fileSize,
+        metadata,
+        pinned: true,
+      });
+
+      const preset = toPreset(id, metadata, lut);
+      registerFilterPreset(preset);
+      return preset;
+    } catch (error) {
+      console.error('Failed to import LUT:', error);
+      await storageService.deleteLocalFile(path);
+      throw error;
+    }
+  }
+
+  async removeLut(id: string): Promise<void> {
+    unregisterFilterPreset(id);
+    await storageService.removeCachedAsset(id);
+  }
+
+  private async registerStoredLuts(): Promise<void> {
+    const assets = (await storageService.getCachedAssets()).filter(isLutAsset);
+    for (const asset of assets) {
+      try {
+        const lut = parseCubeLut(
+          await RNFS.readFile(toPath(asset.localUri ?? ''), 'utf8'),
+        );
+        registerFilterPreset(toPreset(asset.id, asset.metadata, lut));
+      } catch (error) {
+        // Projects using it render without the filter
+        console.warn(`Failed to load LUT "${asset.metadata.name}":`, error);
+      }
+    }
+  }
+}
+
+export const lutService = LutService.getInstance();
@@ -0,0 +1,250 @@
+import type { ImageOperation } from './imageProcessor';
+import { isLookOperation } from './editGraph';
+import { LUT_FILTER_PREFIX, isKnownFilter } from './filterRegistry';
+import { HSL_BANDS, TONE_CHANNELS } from './raster';
+
+// User presets: a named look (color adjustments and the filter stack) saved
+// from one photo and applied to others. Exported as a small JSON file.
+export const PRESET_FORMAT = 'offline-photo-editor/preset';
+export const PRESET_FORMAT_VERSION = 1;
+
+const MAX_PRESET_NAME_LENGTH = 60;
+const BLEND_MODES = ['normal', 'multiply', 'screen', 'overlay', 'softLight'];
+const TONE_FIELDS = [
+  'exposure',
+  'contrast',
+  'highlights',
+  'shadows',
+  'whites',
+  'blacks',
+] as const;
+const LEVELS_FIELDS = [
+  'inputBlack',
+  'inputWhite',
+  'gamma',
+  'outputBlack',
+  'outputWhite',
+] as const;
+
+export class PresetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetFormatError';
+  }
+}
+
+export interface UserPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Look operations only, in graph order
+  operations: ImageOperation[];
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  operations: ImageOperation[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  isNumber(value) && value >= min && value <= max;
+
+const isCurve = (value: unknown) =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  value.every(
+    point =>
+      Array.isArray(point) &&
+      point.length === 2 &&
+      isInRange(point[0], 0, 255) &&
+      isInRange(point[1], 0, 255),
+  );
+
+const isLevels = (value: unknown) =>
+  isObject(value) &&
+  LEVELS_FIELDS.every(field =>
+    field === 'gamma'
+      ? isInRange(value.gamma, 0.1, 10)
+      : isInRange(value[field], 0, 255),
+  ) &&
+  value.inputBlack < value.inputWhite;
+
+const isFilterLayer = (value: unknown) =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.filterType === 'string' &&
+  isInRange(value.opacity, 0, 100) &&
+  BLEND_MODES.includes(value.blendMode) &&
+  typeof value.enabled === 'boolean';
+
+// Whether an operation from a file has every field the processor reads, with
+// values in range. Anything else could fail or misrender on every photo the
+// preset is applied to.
+const isValidLookOperation = (operation: Record<string, any>): boolean => {
+  switch (operation.type) {
+    case 'brightness':
+    case 'contrast':
+    case 'saturation':
+      return isInRange(operation.value, -100, 100);
+    case 'tone':
+      return TONE_FIELDS.every(field =>
+        field === 'exposure'
+          ? isInRange(operation.exposure, -4, 4)
+          : isInRange(operation[field], -100, 100),
+      );
+    case 'curves':
+      return TONE_CHANNELS.every(channel => isCurve(operation[channel]));
+    case 'levels':
+      return TONE_CHANNELS.every(channel => isLevels(operation[channel]));
+    case 'hsl':
+      return (
+        isObject(operation.bands) &&
+        HSL_BANDS.every(band => {
+          const adjustment = operation.bands[band];
+          return (
+            isObject(adjustment) &&
+            isInRange(adjustment.hue, -100, 100) &&
+            isInRange(adjustment.saturation, -100, 100) &&
+            isInRange(adjustment.luminance, -100, 100)
+          );
+        })
+      );
+    case 'whiteBalance':
+      return (
+        isInRange(operation.temperature, -100, 100) &&
+        isInRange(operation.tint, -100, 100)
+      );
+    case 'filter':
+      return (
+        typeof operation.filterType === 'string' &&
+        isInRange(operation.intensity, 0, 100)
+      );
+    case 'filterStack':
+      return (
+        Array.isArray(operation.layers) && operation.layers.every(isFilterLayer)
+      );
+    default:
+      return false;
+  }
+};
+
+// Filter ids a look operation renders
+const getFilterIds = (operation: ImageOperation): string[] => {
+  switch (operation.type) {
+    case 'filter':
+      return [operation.filterType];
+    case 'filterStack':
+      return operation.layers.map(layer => layer.filterType);
+    default:
+      return [];
+  }
+};
+
+// Built-in filters are checked here. LUT filters depend on what was imported
+// on this device, so the preset service checks those; see getPresetLutIds.
+const isImportableFilter = (id: string): boolean =>
+  id === 'none' || isKnownFilter(id) || id.startsWith(LUT_FILTER_PREFIX);
+
+// Imported LUTs a look renders, which must be on the device to apply it
+export const getPresetLutIds = (operations: ImageOperation[]): string[] => [
+  ...new Set(
+    operations
+      .flatMap(getFilterIds)
+      .filter(id => id.startsWith(LUT_FILTER_PREFIX)),
+  ),
+];
+
+// The look of an edit graph, without node ids
+export const getLookOperations = (
+  operations: ImageOperation[],
+): ImageOperation[] =>
+  operations
+    .filter(isLookOperation)
+    .map(
+      ({ id: _id, ...look }: ImageOperation & { id?: string }) =>
+        look as ImageOperation,
+    );
+
+export const normalizePresetName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_PRESET_NAME_LENGTH);
+
+export const serializePreset = (preset: UserPreset): string => {
+  const file: PresetFile = {
+    format: PRESET_FORMAT,
+    version: PRESET_FORMAT_VERSION,
+    name: preset.name,
+    operations: preset.operations,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses and validates a preset file. Files from a newer app version or
+// with an operation this version can't render are rejected whole, rather
+// than applied with part of the look missing.
+export const parsePresetFile = (json: string): PresetFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new PresetFormatError('Preset file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== PRESET_FORMAT) {
+    throw new PresetFormatError('Not a preset file');
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new PresetFormatError('Preset file has no valid version');
+  }
+  if (data.version > PRESET_FORMAT_VERSION) {
+    throw new PresetFormatError(
+      `Preset was saved by a newer version of the app (format ${data.version})`,
+    );
+  }
+
+  const name =
+    typeof data.name === 'string' ? normalizePresetName(data.name) : '';
+  if (!name) {
+    throw new PresetFormatError('Preset file has no name');
+  }
+  if (!Array.isArray(data.operations) || !data.operations.length) {
+    throw new PresetFormatError('Preset file has no edits');
+  }
+  data.operations.forEach((operation: unknown, index: number) => {
+    if (!isObject(operation) || typeof operation.type !== 'string') {
+      throw new PresetFormatError(`Edit ${index + 1} is not an operation`);
+    }
+    if (!isLookOperation(operation as ImageOperation)) {
+      throw new PresetFormatError(
+        `Edit ${index + 1} ("${operation.type}") can't be part of a preset`,
+      );
+    }
+    if (!isValidLookOperation(operation)) {
+      throw new PresetFormatError(
+        `Edit ${index + 1} ("${operation.type}") has invalid settings`,
+      );
+    }
+    const unknown = getFilterIds(operation as ImageOperation).find(
+      id => !isImportableFilter(id),
+    );
+    if (unknown !== undefined) {
+      throw new PresetFormatError(
+        `Edit ${index + 1} uses an unknown filter ("${unknown}")`,
+      );
+    }
+  });
+
+  return {
+    format: PRESET_FORMAT,
+    version: data.version,
+    name,
+    operations: getLookOperations(data.operations as ImageOperation[]),
+  };
+};
@@ -0,0 +1,194 @@
+import RNFS from 'react-native-fs';
+import { CachedAsset, storageService } from './storageService';
+import type { ImageOperation } from './imageProcessor';
+import { isKnownFilter } from './filterRegistry';
+import { lutService } from './lutService';
+import {
+  PresetFormatError,
+  UserPreset,
+  getLookOperations,
+  getPresetLutIds,
+  normalizePresetName,
+  parsePresetFile,
+  serializePreset,
+} from './presetFormat';
+
+// User presets, kept as pinned 'template' assets so cleanup never drops
+// them. The preset itself lives in the asset metadata; there is no file
+// until one is exported.
+
+export const PRESET_CATEGORY = 'my_presets';
+
+// Real presets are a few kilobytes; anything near this is not one
+const MAX_PRESET_FILE_SIZE = 1024 * 1024;
+
+interface PresetMetadata {
+  format: 'preset';
+  name: string;
+  operations: ImageOperation[];
+}
+
+const toPath = (uri: string) => uri.replace('file://', '');
+
+const isPresetAsset = (asset: CachedAsset) =>
+  asset.type === 'template' && asset.metadata?.format === 'preset';
+
+const toPreset = (asset: CachedAsset): UserPreset => ({
+  id: asset.id,
+  name: asset.metadata.name,
+  createdAt: asset.downloadedAt,
+  operations: asset.metadata.operations,
+});
+
+// Safe for any file system, and recognizable in a share sheet
+const getFileName = (name: string) =>
+  `${name.replace(/[^\w\- ]+/g, '').trim() || 'Preset'}.json`;
+
+class PresetService {
+  private static instance: PresetService;
+
+  private constructor() {}
+
+  static getInstance(): PresetService {
+    if (!PresetService.instance) {
+      PresetService.instance = new PresetService();
+    }
+    return PresetService.instance;
+  }
+
+  createPresetId(): string {
+    return `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Oldest first, so new presets land at the end of the list
+  async getPresets(): Promise<UserPreset[]> {
+    return (await storageService.getCachedAssets())
+      .filter(isPresetAsset)
+      .sort((a, b) => a.downloadedAt - b.downloadedAt)
+      .map(toPreset);
+  }
+
+  // Saves the look of an edit graph; geometry and retouching are left out
+  async savePreset(
+    name: string,
+    operations: ImageOperation[],
+    sourceUri = '',
+  ): Promise<UserPreset> {
+    const presetName = normalizePresetName(name);
+    if (!presetName) {
+      throw new PresetFormatError('Presets need a name');
+    }
+    const look = getLookOperations(operations);
+    if (!look.length) {
+      throw new PresetFormatError('There are no color edits to save');
+    }
+
+    const metadata: PresetMetadata = {
+      format: 'preset',
+      name: presetName,
+      operations: look,
+    };
+    const now = Date.now();
+    const asset: CachedAsset = {
+      id: this.createPresetId(),
+      type: 'template',
+      uri: sourceUri,
+      downloadedAt: now,
+      lastUsed: now,
+      fileSize: JSON.stringify(metadata).length,
+      metadata,
+      pinned: true,
+    };
+    await storageService.addCachedAsset(asset);
+    return toPreset(asset);
+  }
+
+  async renamePreset(id: string, name: string): Promise<UserPreset> {
+    const presetName = normalizePresetName(name);
+    if (!presetName) {
+      throw new PresetFormatError('Presets need a name');
+    }
+    const asset = (await storageService.getCachedAssets()).find(
+      cached => cached.id === id && isPresetAsset(cached),
+    );
+    if (!asset) {
+      throw new Error(`Preset ${id} not found`);
+    }
+    const metadata: PresetMetadata = { ...asset.metadata, name: presetName };
+    const renamed = { ...asset, metadata, lastUsed: Date.now() };
+    await storageService.addCachedAsset(renamed);
+    return toPreset(renamed);
+  }
+
+  async deletePreset(id: string): Promise<void> {
+    await storageService.removeCachedAsset(id);
+  }
+
+  // Writes the preset as a JSON file in the caches directory, ready to be
+  // shared. Returns its file URI.
+  async exportPreset(preset: UserPreset): Promise<string> {
+    const path = `${RNFS.CachesDirectoryPath}/${getFileName(preset.name)}`;
+    await RNFS.writeFile(path, serializePreset(preset), 'utf8');
+    return `file://${path}`;
+  }
+
+  // Imports a preset file from a local path or an http(s) URL, or pasted
+  // JSON. Invalid files, and looks using LUTs this device does not have,
+  // throw a PresetFormatError saying why.
+  async importPreset(source: string): Promise<UserPreset> {
+    const trimmed = source.trim();
+    const isPasted = trimmed.startsWith('{');
+    try {
+      const json = isPasted ? trimmed : await this.readPresetFile(trimmed);
+      if (json.length > MAX_PRESET_FILE_SIZE) {
+        throw new PresetFormatError('File is too large for a preset');
+      }
+      const file = parsePresetFile(json);
+      await lutService.loadLuts();
+      const missing = getPresetLutIds(file.operations).filter(
+        id => !isKnownFilter(id),
+      );
+      if (missing.length) {
+        throw new PresetFormatError(
+          missing.length === 1
+            ? 'Preset uses a LUT that is not on this device. Import the LUT first.'
+            : `Preset uses ${missing.length} LUTs that are not on this device. Import them first.`,
+        );
+      }
+      return await this.savePreset(
+        file.name,
+        file.operations,
+        isPasted ? '' : trimmed,
+      );
+    } catch (error) {
+      console.error('Failed to import preset:', error);
+      throw error;
+    }
+  }
+
+  private async readPresetFile(uri: string): Promise<string> {
+    if (!/^https?:\/\//i.test(uri)) {
+      const { size } = await RNFS.stat(toPath(uri));
+      if (Number(size) > MAX_PRESET_FILE_SIZE) {
+        throw new PresetFormatError('File is too large for a preset');
+      }
+      return RNFS.readFile(toPath(uri), 'utf8');
+    }
+
+    const path = `${RNFS.CachesDirectoryPath}/${this.createPresetId()}.json`;
+    try {
+      const { statusCode } = await RNFS.downloadFile({
+        fromUrl: uri,
+        toFile: path,
+      }).promise;
+      if (statusCode < 200 || statusCode >= 300) {
+        throw new Error(`Download failed with status ${statusCode}`);
+      }
+      return await RNFS.readFile(path, 'utf8');
+    } finally {
+      await storageService.deleteLocalFile(path);
+    }
+  }
+}
+
+export const presetService = PresetService.getInstance();
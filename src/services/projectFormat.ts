@@ -0,0 +1,183 @@
+import type { Dimensions, EditOperation } from './editGraph';
+
+// On-disk project format: a JSON manifest next to copies of every file the
+// edit session references. Asset references are stored relative to the
+// project directory so a project survives the app container moving.
+export const PROJECT_FORMAT = 'offline-photo-editor/project';
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_MANIFEST_FILE = 'project.json';
+
+const ASSET_PREFIX = 'asset:';
+
+export class ProjectFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+export interface ProjectView {
+  zoom: number;
+  pan: { x: number; y: number };
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  modifiedAt: number;
+  // Untouched original the operations are applied to
+  source: Dimensions & { asset: string };
+  // Full edit graph: geometry, filter parameters, blur regions and text
+  // elements, with overlay images rewritten to asset references
+  operations: EditOperation[];
+  view: ProjectView;
+  // Every file in the project directory besides the manifest
+  assets: string[];
+}
+
+// An edit session with absolute URIs, as the editor works with it
+export interface ProjectSession {
+  id: string;
+  name: string;
+  sourceUri: string;
+  width: number;
+  height: number;
+  operations: EditOperation[];
+  view: ProjectView;
+  createdAt: number;
+  modifiedAt: number;
+}
+
+// Stored in RecentProject.projectData to link an entry to its project files
+export interface ProjectReference {
+  version: number;
+  manifestUri: string;
+}
+
+export const toAssetReference = (fileName: string): string =>
+  `${ASSET_PREFIX}${fileName}`;
+
+export const isAssetReference = (uri: string): boolean =>
+  uri.startsWith(ASSET_PREFIX);
+
+export const resolveAssetReference = (
+  reference: string,
+  projectDirectory: string,
+): string =>
+  isAssetReference(reference)
+    ? `file://${projectDirectory}/${reference.slice(ASSET_PREFIX.length)}`
+    : reference;
+
+// File name for a copied asset, keeping the source extension so the codecs
+// and native image loaders still recognize it
+export const getAssetFileName = (baseName: string, uri: string): string => {
+  const path = uri.split('?')[0];
+  const fileName = path.substring(path.lastIndexOf('/') + 1);
+  const dot = fileName.lastIndexOf('.');
+  const extension = dot > 0 ? fileName.substring(dot).toLowerCase() : '.jpg';
+  return `${baseName}${extension}`;
+};
+
+// Applies a URI mapping to every operation field that references a file
+export const mapOperationAssets = (
+  operations: EditOperation[],
+  mapUri: (uri: string, operation: EditOperation) => string,
+): EditOperation[] =>
+  operations.map(operation =>
+    operation.type === 'overlay'
+      ? { ...operation, overlayUri: mapUri(operation.overlayUri, operation) }
+      : operation,
+  );
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parses and validates a manifest. Projects written by a newer app version
+// are rejected rather than opened with parts of the edit silently dropped.
+export const parseProjectManifest = (json: string): ProjectManifest => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new ProjectFormatError('Project manifest is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    throw new ProjectFormatError('Not a project manifest');
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new ProjectFormatError('Project manifest has no valid version');
+  }
+  if (data.version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFormatError(
+      `Project was saved by a newer version of the app (format ${data.version})`,
+    );
+  }
+  if (typeof data.id !== 'string' || !data.id) {
+    throw new ProjectFormatError('Project manifest has no id');
+  }
+
+  const { source } = data;
+  if (
+    !isObject(source) ||
+    typeof source.asset !== 'string' ||
+    !(source.width > 0) ||
+    !(source.height > 0)
+  ) {
+    throw new ProjectFormatError('Project manifest has no valid source image');
+  }
+
+  const operations = Array.isArray(data.operations) ? data.operations : [];
+  for (const operation of operations) {
+    if (
+      !isObject(operation) ||
+      typeof operation.id !== 'string' ||
+      typeof operation.type !== 'string'
+    ) {
+      throw new ProjectFormatError('Project manifest has an invalid operation');
+    }
+  }
+
+  const view = isObject(data.view) ? data.view : {};
+  return {
+    format: PROJECT_FORMAT,
+    version: data.version,
+    id: data.id,
+    name: typeof data.name === 'string' ? data.name : 'Untitled',
+    createdAt: Number(data.createdAt) || 0,
+    modifiedAt: Number(data.modifiedAt) || 0,
+    source: { asset: source.asset, width: source.width, height: source.height },
+    operations: operations as EditOperation[],
+    view: {
+      zoom: typeof view.zoom === 'number' ? view.zoom : 1,
+      pan: isObject(view.pan)
+        ? { x: Number(view.pan.x) || 0, y: Number(view.pan.y) || 0 }
+        : { x: 0, y: 0 },
+    },
+    assets: Array.isArray(data.assets)
+      ? data.assets.filter((asset: unknown) => typeof asset === 'string')
+      : [],
+  };
+};
+
+// Rebuilds the editor session, resolving asset references against the
+// directory the manifest was read from
+export const manifestToSession = (
+  manifest: ProjectManifest,
+  projectDirectory: string,
+): ProjectSession => ({
+  id: manifest.id,
+  name: manifest.name,
+  sourceUri: resolveAssetReference(manifest.source.asset, projectDirectory),
+  width: manifest.source.width,
+  height: manifest.source.height,
+  operations: mapOperationAssets(manifest.operations, uri =>
+    resolveAssetReference(uri, projectDirectory),
+  ),
+  view: manifest.view,
+  createdAt: manifest.createdAt,
+  modifiedAt: manifest.modifiedAt,
+});
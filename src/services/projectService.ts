@@ -0,0 +1,177 @@
+import RNFS from 'react-native-fs';
+import { storageService } from './storageService';
+import { imageProcessor } from './imageProcessor';
+import type { EditOperation } from './editGraph';
+import {
+  getAssetFileName,
+  manifestToSession,
+  parseProjectManifest,
+  ProjectManifest,
+  ProjectReference,
+  ProjectSession,
+  ProjectView,
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  PROJECT_MANIFEST_FILE,
+  toAssetReference,
+} from './projectFormat';
+
+export interface SaveProjectInput {
+  // Overwrites an existing project when set
+  id?: string;
+  name: string;
+  sourceUri: string;
+  width: number;
+  height: number;
+  operations: EditOperation[];
+  view: ProjectView;
+}
+
+const toPath = (uri: string) => uri.replace('file://', '');
+
+class ProjectService {
+  private static instance: ProjectService;
+
+  private constructor() {}
+
+  static getInstance(): ProjectService {
+    if (!ProjectService.instance) {
+      ProjectService.instance = new ProjectService();
+    }
+    return ProjectService.instance;
+  }
+
+  createProjectId(): string {
+    return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Link stored with the recent project entry
+  async getProjectReference(projectId: string): Promise<ProjectReference> {
+    const directory = storageService.getProjectPath(projectId);
+    return {
+      version: PROJECT_FORMAT_VERSION,
+      manifestUri: `file://${directory}/${PROJECT_MANIFEST_FILE}`,
+    };
+  }
+
+  // Writes the manifest and copies the source image and overlays into the
+  // project directory, so the project no longer depends on the photo library
+  async saveProject(input: SaveProjectInput): Promise<ProjectManifest> {
+    try {
+      const id = input.id || this.createProjectId();
+      const directory = await storageService.getProjectDirectory(id);
+      const manifestPath = `${directory}/${PROJECT_MANIFEST_FILE}`;
+      const previous = await this.readManifest(manifestPath);
+
+      const assets: string[] = [];
+      const copied = new Map<string, string>();
+      const importAsset = async (uri: string, baseName: string) => {
+        const existing = copied.get(uri);
+        if (existing) {
+          return existing;
+        }
+        const fileName = getAssetFileName(baseName, uri);
+        await this.copyAsset(uri, `${directory}/${fileName}`);
+        assets.push(fileName);
+        copied.set(uri, toAssetReference(fileName));
+        return toAssetReference(fileName);
+      };
+
+      const source = await importAsset(input.sourceUri, 'source');
+      const operations: EditOperation[] = [];
+      for (const operation of input.operations) {
+        operations.push(
+          operation.type === 'overlay'
+            ? {
+                ...operation,
+                overlayUri: await importAsset(
+                  operation.overlayUri,
+                  `overlay_${operation.id}`,
+                ),
+              }
+            : operation,
+        );
+      }
+
+      const now = Date.now();
+      const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_FORMAT_VERSION,
+        id,
+        name: input.name,
+        createdAt: previous?.createdAt || now,
+        modifiedAt: now,
+        source: { asset: source, width: input.width, height: input.height },
+        operations,
+        view: input.view,
+        assets,
+      };
+
+      // Write next to the old manifest and swap, so a failed save never
+      // leaves a truncated project behind
+      const temporaryPath = `${manifestPath}.tmp`;
+      await RNFS.writeFile(temporaryPath, JSON.stringify(manifest), 'utf8');
+      if (await RNFS.exists(manifestPath)) {
+        await RNFS.unlink(manifestPath);
+      }
+      await RNFS.moveFile(temporaryPath, manifestPath);
+
+      await this.removeUnreferencedAssets(directory, assets);
+      return manifest;
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      throw new Error('Failed to save project');
+    }
+  }
+
+  async loadProject(projectId: string): Promise<ProjectSession> {
+    const directory = storageService.getProjectPath(projectId);
+    const manifest = await this.readManifest(
+      `${directory}/${PROJECT_MANIFEST_FILE}`,
+    );
+    if (!manifest) {
+      console.error('Project not found:', projectId);
+      throw new Error('Project not found');
+    }
+    return manifestToSession(manifest, directory);
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    await storageService.deleteProjectFiles(projectId);
+  }
+
+  private async readManifest(path: string): Promise<ProjectManifest | null> {
+    if (!(await RNFS.exists(path))) {
+      return null;
+    }
+    return parseProjectManifest(await RNFS.readFile(path, 'utf8'));
+  }
+
+  private async copyAsset(uri: string, targetPath: string): Promise<void> {
+    // Re-saving an opened project references its own copies
+    if (toPath(uri) === targetPath) {
+      return;
+    }
+    // Downloads and photo library assets are read from their local copies
+    const sourcePath = await imageProcessor.resolveLocalPath(uri);
+    if (await RNFS.exists(targetPath)) {
+      await RNFS.unlink(targetPath);
+    }
+    await RNFS.copyFile(sourcePath, targetPath);
+  }
+
+  private async removeUnreferencedAssets(
+    directory: string,
+    assets: string[],
+  ): Promise<void> {
+    const keep = new Set([PROJECT_MANIFEST_FILE, ...assets]);
+    const entries = await RNFS.readDir(directory);
+    for (const entry of entries) {
+      if (entry.isFile() && !keep.has(entry.name)) {
+        await RNFS.unlink(entry.path);
+      }
+    }
+  }
+}
+
+export const projectService = ProjectService.getInstance();
@@ -0,0 +1,188 @@
+import { RasterImage, cloneRaster, clamp, luminance } from './raster';
+
+// A 4x5 row-major color matrix, same layout as Android's ColorMatrix:
+// [r, g, b, a, offset] for each of the R, G, B and A output channels.
+// Offsets are in 0..255 units.
+export type ColorMatrix = number[];
+
+// prettier-ignore
+export const IDENTITY_MATRIX: ColorMatrix = [
+  1, 0, 0, 0, 0,
+  0, 1, 0, 0, 0,
+  0, 0, 1, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+// Applies a per-channel 256-entry lookup table to R, G and B
+export const applyLookupTable = (
+  image: RasterImage,
+  lut: Uint8ClampedArray | number[],
+): RasterImage => {
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+  return out;
+};
+
+const buildLookupTable = (fn: (value: number) => number): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    lut[v] = fn(v);
+  }
+  return lut;
+};
+
+// value: -100..100, shifts every channel by up to a full stop of the range
+export const adjustBrightness = (
+  image: RasterImage,
+  value: number,
+): RasterImage => {
+  const offset = clamp(value, -100, 100) * 2.55;
+  if (offset === 0) {
+    return cloneRaster(image);
+  }
+  return applyLookupTable(
+    image,
+    buildLookupTable(v => v + offset),
+  );
+};
+
+// value: -100..100, pivots around mid-gray
+export const adjustContrast = (
+  image: RasterImage,
+  value: number,
+): RasterImage => {
+  const c = clamp(value, -100, 100) * 2.55;
+  if (c === 0) {
+    return cloneRaster(image);
+  }
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  return applyLookupTable(
+    image,
+    buildLookupTable(v => factor * (v - 128) + 128),
+  );
+};
+
+// value: -100..100, where -100 is fully desaturated and 100 doubles chroma
+export const adjustSaturation = (
+  image: RasterImage,
+  value: number,
+): RasterImage => {
+  const s = 1 + clamp(value, -100, 100) / 100;
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const y = luminance(r, g, b);
+    data[i] = y + (r - y) * s;
+    data[i + 1] = y + (g - y) * s;
+    data[i + 2] = y + (b - y) * s;
+  }
+  return out;
+};
+
+export const applyColorMatrix = (
+  image: RasterImage,
+  matrix: ColorMatrix,
+): RasterImage => {
+  if (matrix.length !== 20) {
+    throw new Error('Color matrix must have 20 entries');
+  }
+
+  const m = matrix;
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+    data[i] = m[0] * r + m[1] * g + m[2] * b + m[3] * a + m[4];
+    data[i + 1] = m[5] * r + m[6] * g + m[7] * b + m[8] * a + m[9];
+    data[i + 2] = m[10] * r + m[11] * g + m[12] * b + m[13] * a + m[14];
+    data[i + 3] = m[15] * r + m[16] * g + m[17] * b + m[18] * a + m[19];
+  }
+  return out;
+};
+
+// Interpolates between the identity and a target matrix; amount is 0..1
+export const scaleColorMatrix = (
+  matrix: ColorMatrix,
+  amount: number,
+): ColorMatrix => {
+  const t = clamp(amount, 0, 1);
+  return matrix.map(
+    (v, i) => IDENTITY_MATRIX[i] + (v - IDENTITY_MATRIX[i]) * t,
+  );
+};
+
+// Matrix forms of the brightness, contrast and saturation adjustments, so
+// chains of color edits can be composed into one
+// prettier-ignore
+export const createBrightnessMatrix = (value: number): ColorMatrix => {
+  const o = clamp(value, -100, 100) * 2.55;
+  return [
+    1, 0, 0, 0, o,
+    0, 1, 0, 0, o,
+    0, 0, 1, 0, o,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+// prettier-ignore
+export const createContrastMatrix = (value: number): ColorMatrix => {
+  const c = clamp(value, -100, 100) * 2.55;
+  const f = (259 * (c + 255)) / (255 * (259 - c));
+  const o = 128 * (1 - f);
+  return [
+    f, 0, 0, 0, o,
+    0, f, 0, 0, o,
+    0, 0, f, 0, o,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+// prettier-ignore
+export const createSaturationMatrix = (value: number): ColorMatrix => {
+  const s = 1 + clamp(value, -100, 100) / 100;
+  // Luminance weights, as in luminance()
+  const r = 0.2126 * (1 - s);
+  const g = 0.7152 * (1 - s);
+  const b = 0.0722 * (1 - s);
+  return [
+    r + s, g, b, 0, 0,
+    r, g + s, b, 0, 0,
+    r, g, b + s, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+// Single matrix with the effect of applying `first` and then `second`
+export const multiplyColorMatrices = (
+  first: ColorMatrix,
+  second: ColorMatrix,
+): ColorMatrix => {
+  const out: ColorMatrix = [];
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 5; col++) {
+      let value = col === 4 ? second[row * 5 + 4] : 0;
+      for (let k = 0; k < 4; k++) {
+        value += second[row * 5 + k] * first[k * 5 + col];
+      }
+      out.push(value);
+    }
+  }
+  return out;
+};
+
+export const invertColors = (image: RasterImage): RasterImage =>
+  applyLookupTable(
+    image,
+    buildLookupTable(v => 255 - v),
+  );
@@ -0,0 +1,172 @@
+import { RasterImage, cloneRaster, clamp } from './raster';
+
+export interface RasterRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Widths of three successive box blurs approximating a Gaussian of the given
+// standard deviation (Kovesi, "Fast Almost-Gaussian Filtering").
+const boxSizesForGaussian = (sigma: number, passes: number): number[] => {
+  const ideal = Math.sqrt((12 * sigma * sigma) / passes + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) {
+    lower--;
+  }
+  const upper = lower + 2;
+  const m = Math.round(
+    (12 * sigma * sigma -
+      passes * lower * lower -
+      4 * passes * lower -
+      3 * passes) /
+      (-4 * lower - 4),
+  );
+
+  const sizes: number[] = [];
+  for (let i = 0; i < passes; i++) {
+    sizes.push(i < m ? lower : upper);
+  }
+  return sizes;
+};
+
+// One horizontal box pass with clamped edges, reading src and writing dst
+const boxBlurHorizontal = (
+  src: Float32Array,
+  dst: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+) => {
+  const scale = 1 / (radius * 2 + 1);
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4;
+    for (let c = 0; c < 4; c++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const x = clamp(k, 0, width - 1);
+        acc += src[row + x * 4 + c];
+      }
+      for (let x = 0; x < width; x++) {
+        dst[row + x * 4 + c] = acc * scale;
+        const add = Math.min(x + radius + 1, width - 1);
+        const remove = Math.max(x - radius, 0);
+        acc += src[row + add * 4 + c] - src[row + remove * 4 + c];
+      }
+    }
+  }
+};
+
+const boxBlurVertical = (
+  src: Float32Array,
+  dst: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+) => {
+  const scale = 1 / (radius * 2 + 1);
+  const stride = width * 4;
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 4; c++) {
+      const col = x * 4 + c;
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const y = clamp(k, 0, height - 1);
+        acc += src[y * stride + col];
+      }
+      for (let y = 0; y < height; y++) {
+        dst[y * stride + col] = acc * scale;
+        const add = Math.min(y + radius + 1, height - 1);
+        const remove = Math.max(y - radius, 0);
+        acc += src[add * stride + col] - src[remove * stride + col];
+      }
+    }
+  }
+};
+
+// Gaussian blur where radius is the kernel's standard deviation in pixels.
+// Color channels are blurred premultiplied so transparent pixels don't bleed.
+export const gaussianBlur = (
+  image: RasterImage,
+  radius: number,
+): RasterImage => {
+  if (radius <= 0) {
+    return cloneRaster(image);
+  }
+
+  const { width, height, data } = image;
+  const a = new Float32Array(data.length);
+  const b = new Float32Array(data.length);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    a[i] = data[i] * alpha;
+    a[i + 1] = data[i + 1] * alpha;
+    a[i + 2] = data[i + 2] * alpha;
+    a[i + 3] = data[i + 3];
+  }
+
+  for (const size of boxSizesForGaussian(radius, 3)) {
+    const r = (size - 1) / 2;
+    boxBlurHorizontal(a, b, width, height, r);
+    boxBlurVertical(b, a, width, height, r);
+  }
+
+  const out = cloneRaster(image);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = a[i + 3];
+    const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+    out.data[i] = a[i] * unpremultiply;
+    out.data[i + 1] = a[i + 1] * unpremultiply;
+    out.data[i + 2] = a[i + 2] * unpremultiply;
+    out.data[i + 3] = alpha;
+  }
+  return out;
+};
+
+// Blurs only the pixels inside rect. Samples up to 3 sigma outside the rect
+// so the blurred region does not darken at its borders.
+export const blurRegion = (
+  image: RasterImage,
+  rect: RasterRect,
+  radius: number,
+): RasterImage => {
+  const x0 = clamp(Math.floor(rect.x), 0, image.width);
+  const y0 = clamp(Math.floor(rect.y), 0, image.height);
+  const x1 = clamp(Math.ceil(rect.x + rect.width), 0, image.width);
+  const y1 = clamp(Math.ceil(rect.y + rect.height), 0, image.height);
+  if (x1 <= x0 || y1 <= y0 || radius <= 0) {
+    return cloneRaster(image);
+  }
+
+  const margin = Math.ceil(radius * 3);
+  const px0 = Math.max(0, x0 - margin);
+  const py0 = Math.max(0, y0 - margin);
+  const px1 = Math.min(image.width, x1 + margin);
+  const py1 = Math.min(image.height, y1 + margin);
+
+  const patch: RasterImage = {
+    width: px1 - px0,
+    height: py1 - py0,
+    data: new Uint8ClampedArray((px1 - px0) * (py1 - py0) * 4),
+  };
+  for (let y = py0; y < py1; y++) {
+    const start = (y * image.width + px0) * 4;
+    patch.data.set(
+      image.data.subarray(start, start + patch.width * 4),
+      (y - py0) * patch.width * 4,
+    );
+  }
+
+  const blurred = gaussianBlur(patch, radius);
+  const out = cloneRaster(image);
+  for (let y = y0; y < y1; y++) {
+    const srcStart = ((y - py0) * patch.width + (x0 - px0)) * 4;
+    out.data.set(
+      blurred.data.subarray(srcStart, srcStart + (x1 - x0) * 4),
+      (y * image.width + x0) * 4,
+    );
+  }
+  return out;
+};
@@ -0,0 +1,216 @@
+import {
+  RasterImage,
+  cloneRaster,
+  clamp,
+  mixRasters,
+  parseColor,
+} from './raster';
+import {
+  GLYPH_ADVANCE_X,
+  GLYPH_ADVANCE_Y,
+  getGlyph,
+  isGlyphPixelSet,
+} from './bitmapFont';
+
+// Straight-alpha source-over of one pixel into data[offset]
+export const blendPixel = (
+  data: Uint8ClampedArray,
+  offset: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+) => {
+  if (a <= 0) {
+    return;
+  }
+  const srcA = a / 255;
+  const dstA = data[offset + 3] / 255;
+  const outA = srcA + dstA * (1 - srcA);
+  if (outA <= 0) {
+    return;
+  }
+  const dstWeight = (dstA * (1 - srcA)) / outA;
+  const srcWeight = srcA / outA;
+  data[offset] = r * srcWeight + data[offset] * dstWeight;
+  data[offset + 1] = g * srcWeight + data[offset + 1] * dstWeight;
+  data[offset + 2] = b * srcWeight + data[offset + 2] * dstWeight;
+  data[offset + 3] = outA * 255;
+};
+
+// Draws `overlay` with its top-left corner at (x, y); opacity is 0..1
+export const compositeRaster = (
+  base: RasterImage,
+  overlay: RasterImage,
+  x: number,
+  y: number,
+  opacity: number,
+): RasterImage => {
+  const out = cloneRaster(base);
+  const alpha = clamp(opacity, 0, 1);
+  const ox = Math.round(x);
+  const oy = Math.round(y);
+
+  const startX = Math.max(0, ox);
+  const startY = Math.max(0, oy);
+  const endX = Math.min(base.width, ox + overlay.width);
+  const endY = Math.min(base.height, oy + overlay.height);
+
+  for (let dy = startY; dy < endY; dy++) {
+    for (let dx = startX; dx < endX; dx++) {
+      const s = ((dy - oy) * overlay.width + (dx - ox)) * 4;
+      blendPixel(
+        out.data,
+        (dy * base.width + dx) * 4,
+        overlay.data[s],
+        overlay.data[s + 1],
+        overlay.data[s + 2],
+        overlay.data[s + 3] * alpha,
+      );
+    }
+  }
+  return out;
+};
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'softLight';
+
+// Separable blend functions on 0..1 values, as in the W3C compositing spec
+const BLEND_FUNCTIONS: Record<
+  Exclude<BlendMode, 'normal'>,
+  (base: number, top: number) => number
+> = {
+  multiply: (base, top) => base * top,
+  screen: (base, top) => base + top - base * top,
+  overlay: (base, top) =>
+    base <= 0.5 ? 2 * base * top : 1 - 2 * (1 - base) * (1 - top),
+  softLight: (base, top) => {
+    if (top <= 0.5) {
+      return base - (1 - 2 * top) * base * (1 - base);
+    }
+    const d =
+      base <= 0.25 ? ((16 * base - 12) * base + 4) * base : Math.sqrt(base);
+    return base + (2 * top - 1) * (d - base);
+  },
+};
+
+// Blends `top` over a base of the same size at opacity (0..1). Alpha is
+// taken from the base; both are expected to share it, as filter output does.
+export const blendRasters = (
+  base: RasterImage,
+  top: RasterImage,
+  mode: BlendMode,
+  opacity: number,
+): RasterImage => {
+  if (base.width !== top.width || base.height !== top.height) {
+    throw new Error('Blended images must be the same size');
+  }
+  if (mode === 'normal') {
+    return mixRasters(base, top, opacity);
+  }
+
+  // Each output channel only depends on two 8-bit inputs
+  const blend = BLEND_FUNCTIONS[mode];
+  const table = new Float32Array(256 * 256);
+  for (let a = 0; a < 256; a++) {
+    for (let b = 0; b < 256; b++) {
+      table[a * 256 + b] = blend(a / 255, b / 255) * 255;
+    }
+  }
+
+  const t = clamp(opacity, 0, 1);
+  const out = cloneRaster(base);
+  const data = out.data;
+  const topData = top.data;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = i; c < i + 3; c++) {
+      const a = data[c];
+      data[c] = a + (table[a * 256 + topData[c]] - a) * t;
+    }
+  }
+  return out;
+};
+
+export const measureText = (
+  text: string,
+  fontSize: number,
+): { width: number; height: number } => {
+  const scale = Math.max(fontSize, 1) / GLYPH_ADVANCE_Y;
+  const lines = text.split('\n');
+  const columns = Math.max(...lines.map(line => line.length));
+  return {
+    width: Math.ceil(columns * GLYPH_ADVANCE_X * scale),
+    height: Math.ceil(lines.length * GLYPH_ADVANCE_Y * scale),
+  };
+};
+
+// Rasterizes text with the built-in bitmap font; (x, y) is the top-left of
+// the first line and fontSize is the line height in pixels. Coverage is
+// supersampled 4x4 so scaled glyphs keep smooth edges.
+export const drawText = (
+  image: RasterImage,
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number,
+  color: string,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const [r, g, b, a] = parseColor(color);
+  const scale = Math.max(fontSize, 1) / GLYPH_ADVANCE_Y;
+  const samples = 4;
+
+  text.split('\n').forEach((line, lineIndex) => {
+    const lineTop = y + lineIndex * GLYPH_ADVANCE_Y * scale;
+
+    for (let i = 0; i < line.length; i++) {
+      const glyph = getGlyph(line[i]);
+      const left = x + i * GLYPH_ADVANCE_X * scale;
+      const px0 = Math.max(0, Math.floor(left));
+      const py0 = Math.max(0, Math.floor(lineTop));
+      const px1 = Math.min(
+        out.width,
+        Math.ceil(left + GLYPH_ADVANCE_X * scale),
+      );
+      const py1 = Math.min(
+        out.height,
+        Math.ceil(lineTop + GLYPH_ADVANCE_Y * scale),
+      );
+
+      for (let py = py0; py < py1; py++) {
+        for (let px = px0; px < px1; px++) {
+          let covered = 0;
+          for (let sy = 0; sy < samples; sy++) {
+            const row = Math.floor(
+              (py + (sy + 0.5) / samples - lineTop) / scale,
+            );
+            for (let sx = 0; sx < samples; sx++) {
+              const col = Math.floor(
+                (px + (sx + 0.5) / samples - left) / scale,
+              );
+              if (isGlyphPixelSet(glyph, col, row)) {
+                covered++;
+              }
+            }
+          }
+          if (covered > 0) {
+            blendPixel(
+              out.data,
+              (py * out.width + px) * 4,
+              r,
+              g,
+              b,
+              (a * covered) / (samples * samples),
+            );
+          }
+        }
+      }
+    }
+  });
+
+  return out;
+};
@@ -0,0 +1,193 @@
+/* eslint-disable no-bitwise */
+import { RasterImage, cloneRaster, clamp, luminance } from './raster';
+import { gaussianBlur } from './blur';
+
+// Deterministic PRNG (mulberry32) so grain renders identically on every export
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Monochrome luminance noise; amount is 0..1
+export const addGrain = (
+  image: RasterImage,
+  amount: number,
+  seed = 1,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const random = createRandom(seed);
+  const strength = clamp(amount, 0, 1) * 64;
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const noise = (random() + random() - 1) * strength;
+    data[i] += noise;
+    data[i + 1] += noise;
+    data[i + 2] += noise;
+  }
+  return out;
+};
+
+// Darkens toward the corners; amount is 0..1
+export const applyVignette = (
+  image: RasterImage,
+  amount: number,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const { width, height } = out;
+  const strength = clamp(amount, 0, 1);
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxDistance = Math.sqrt(cx * cx + cy * cy);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      const d = Math.sqrt(dx * dx + dy * dy) / maxDistance;
+      // Smooth falloff that starts at half the radius
+      const t = clamp((d - 0.5) / 0.5, 0, 1);
+      const factor = 1 - strength * t * t * (3 - 2 * t);
+      const i = (y * width + x) * 4;
+      out.data[i] *= factor;
+      out.data[i + 1] *= factor;
+      out.data[i + 2] *= factor;
+    }
+  }
+  return out;
+};
+
+// Boosts local contrast: image + (image - blurred) * amount
+export const unsharpMask = (
+  image: RasterImage,
+  radius: number,
+  amount: number,
+): RasterImage => {
+  const blurred = gaussianBlur(image, radius);
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const v = image.data[i + c];
+      data[i + c] = v + (v - blurred.data[i + c]) * amount;
+    }
+  }
+  return out;
+};
+
+// Reduces each channel to `levels` evenly spaced values
+export const posterize = (image: RasterImage, levels: number): RasterImage => {
+  const steps = Math.max(2, Math.round(levels)) - 1;
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (Math.round((data[i] / 255) * steps) / steps) * 255;
+    data[i + 1] = (Math.round((data[i + 1] / 255) * steps) / steps) * 255;
+    data[i + 2] = (Math.round((data[i + 2] / 255) * steps) / steps) * 255;
+  }
+  return out;
+};
+
+// Saturation boost weighted toward pixels that are not already saturated.
+// amount is -1..1.
+export const adjustVibrance = (
+  image: RasterImage,
+  amount: number,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    const s = 1 + amount * (1 - saturation);
+    const y = luminance(r, g, b);
+    data[i] = y + (r - y) * s;
+    data[i + 1] = y + (g - y) * s;
+    data[i + 2] = y + (b - y) * s;
+  }
+  return out;
+};
+
+// Gray-world white balance: scales channels so their means match
+export const autoColorBalance = (image: RasterImage): RasterImage => {
+  const data = image.data;
+  let sumR = 0;
+  let sumG = 0;
+  let sumB = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sumR += data[i];
+    sumG += data[i + 1];
+    sumB += data[i + 2];
+  }
+  const gray = (sumR + sumG + sumB) / 3;
+  const scaleR = sumR > 0 ? gray / sumR : 1;
+  const scaleG = sumG > 0 ? gray / sumG : 1;
+  const scaleB = sumB > 0 ? gray / sumB : 1;
+
+  const out = cloneRaster(image);
+  for (let i = 0; i < data.length; i += 4) {
+    out.data[i] = data[i] * scaleR;
+    out.data[i + 1] = data[i + 1] * scaleG;
+    out.data[i + 2] = data[i + 2] * scaleB;
+  }
+  return out;
+};
+
+// Tilt-shift: keeps a horizontal band in focus and blurs progressively
+// toward the top and bottom edges
+export const tiltShift = (image: RasterImage, radius: number): RasterImage => {
+  const blurred = gaussianBlur(image, radius);
+  const out = cloneRaster(image);
+  const { width, height } = image;
+  for (let y = 0; y < height; y++) {
+    const distance = Math.abs((y + 0.5) / height - 0.5) * 2;
+    const t = clamp((distance - 0.3) / 0.5, 0, 1);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out.data[i + c] =
+          image.data[i + c] + (blurred.data[i + c] - image.data[i + c]) * t;
+      }
+    }
+  }
+  return out;
+};
+
+// Shadows toward one color and highlights toward another; amount is 0..1
+export const splitTone = (
+  image: RasterImage,
+  shadow: [number, number, number],
+  highlight: [number, number, number],
+  amount: number,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const data = out.data;
+  const strength = clamp(amount, 0, 1);
+  for (let i = 0; i < data.length; i += 4) {
+    const l = luminance(data[i], data[i + 1], data[i + 2]) / 255;
+    const tone = [
+      shadow[0] + (highlight[0] - shadow[0]) * l,
+      shadow[1] + (highlight[1] - shadow[1]) * l,
+      shadow[2] + (highlight[2] - shadow[2]) * l,
+    ];
+    // Soft-light style tint that preserves luminance structure
+    for (let c = 0; c < 3; c++) {
+      const base = data[i + c] / 255;
+      const blend = tone[c] / 255;
+      const soft =
+        blend < 0.5
+          ? base - (1 - 2 * blend) * base * (1 - base)
+          : base + (2 * blend - 1) * (Math.sqrt(base) - base);
+      data[i + c] = (base + (soft - base) * strength) * 255;
+    }
+  }
+  return out;
+};
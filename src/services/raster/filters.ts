@@ -0,0 +1,112 @@
+import { RasterImage, clamp, cloneRaster, mixRasters } from './raster';
+import { ColorMatrix, applyColorMatrix } from './adjustments';
+import { gaussianBlur } from './blur';
+import {
+  addGrain,
+  adjustVibrance,
+  applyVignette,
+  autoColorBalance,
+  posterize,
+  splitTone,
+  tiltShift,
+  unsharpMask,
+} from './effects';
+import {
+  ChannelSettings,
+  CurvePoint,
+  IDENTITY_CURVE,
+  applyCurves,
+} from './tone';
+import { Lut, LutInterpolation, applyLut } from './lut';
+
+// Primitive steps filter presets are built from. Radii are fractions of the
+// image's longer side, so a recipe looks the same on a 1080 px preview and
+// on the full-size export.
+export type FilterStep =
+  | { type: 'colorMatrix'; matrix: ColorMatrix }
+  // Missing channels keep the identity curve
+  | { type: 'curves'; curves: Partial<ChannelSettings<CurvePoint[]>> }
+  // mix (0..1) blends the blurred image over the sharp one
+  | { type: 'blur'; radius: number; mix?: number }
+  | { type: 'tiltShift'; radius: number }
+  | { type: 'sharpen'; radius: number; amount: number }
+  | { type: 'grain'; amount: number } // 0..1
+  | { type: 'vignette'; amount: number } // 0..1
+  | {
+      type: 'splitTone';
+      shadow: [number, number, number];
+      highlight: [number, number, number];
+      amount: number; // 0..1
+    }
+  | { type: 'vibrance'; amount: number } // -1..1
+  | { type: 'posterize'; levels: number }
+  | { type: 'autoColorBalance' }
+  | { type: 'lut'; lut: Lut; interpolation: LutInterpolation };
+
+const applyFilterStep = (image: RasterImage, step: FilterStep): RasterImage => {
+  const size = Math.max(image.width, image.height);
+  switch (step.type) {
+    case 'colorMatrix':
+      return applyColorMatrix(image, step.matrix);
+    case 'curves':
+      return applyCurves(image, {
+        master: step.curves.master ?? IDENTITY_CURVE,
+        red: step.curves.red ?? IDENTITY_CURVE,
+        green: step.curves.green ?? IDENTITY_CURVE,
+        blue: step.curves.blue ?? IDENTITY_CURVE,
+      });
+    case 'blur': {
+      const blurred = gaussianBlur(image, step.radius * size);
+      return step.mix === undefined
+        ? blurred
+        : mixRasters(image, blurred, step.mix);
+    }
+    case 'tiltShift':
+      return tiltShift(image, step.radius * size);
+    case 'sharpen':
+      return unsharpMask(image, step.radius * size, step.amount);
+    case 'grain':
+      return addGrain(image, step.amount);
+    case 'vignette':
+      return applyVignette(image, step.amount);
+    case 'splitTone':
+      return splitTone(image, step.shadow, step.highlight, step.amount);
+    case 'vibrance':
+      return adjustVibrance(image, step.amount);
+    case 'posterize':
+      return posterize(image, step.levels);
+    case 'autoColorBalance':
+      return autoColorBalance(image);
+    case 'lut':
+      return applyLut(image, step.lut, step.interpolation);
+  }
+};
+
+// Runs the steps in order at full strength
+export const applyFilterSteps = (
+  image: RasterImage,
+  steps: FilterStep[],
+): RasterImage => {
+  let result = image;
+  for (const step of steps) {
+    result = applyFilterStep(result, step);
+  }
+  return result === image ? cloneRaster(image) : result;
+};
+
+// Renders a recipe at full strength and blends it back over the source by
+// intensity (0..100)
+export const applyFilterRecipe = (
+  image: RasterImage,
+  steps: FilterStep[],
+  intensity: number,
+): RasterImage => {
+  if (!steps.length || intensity <= 0) {
+    return cloneRaster(image);
+  }
+  return mixRasters(
+    image,
+    applyFilterSteps(image, steps),
+    clamp(intensity, 0, 100) / 100,
+  );
+};
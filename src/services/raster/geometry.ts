@@ -0,0 +1,328 @@
+import { RasterImage, RGBA, createRaster, clamp } from './raster';
+
+export const cropRaster = (
+  image: RasterImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): RasterImage => {
+  // Same bounds policy as the native crop: clamp into the image, at least 1px
+  const safeX = clamp(Math.round(x), 0, image.width - 1);
+  const safeY = clamp(Math.round(y), 0, image.height - 1);
+  const safeWidth = clamp(Math.round(width), 1, image.width - safeX);
+  const safeHeight = clamp(Math.round(height), 1, image.height - safeY);
+
+  const out = createRaster(safeWidth, safeHeight);
+  for (let row = 0; row < safeHeight; row++) {
+    const start = ((safeY + row) * image.width + safeX) * 4;
+    out.data.set(
+      image.data.subarray(start, start + safeWidth * 4),
+      row * safeWidth * 4,
+    );
+  }
+  return out;
+};
+
+// Samples (x, y) in pixel-center coordinates with bilinear filtering.
+// Writes into `out` at `offset`; outside samples use `background`.
+export const sampleBilinear = (
+  image: RasterImage,
+  x: number,
+  y: number,
+  out: Uint8ClampedArray,
+  offset: number,
+  background: RGBA = [0, 0, 0, 0],
+) => {
+  const { width, height, data } = image;
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+
+  if (fx < -1 || fy < -1 || fx > width || fy > height) {
+    out[offset] = background[0];
+    out[offset + 1] = background[1];
+    out[offset + 2] = background[2];
+    out[offset + 3] = background[3];
+    return;
+  }
+
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  for (let c = 0; c < 4; c++) {
+    let acc = 0;
+    for (let j = 0; j < 2; j++) {
+      const sy = y0 + j;
+      const wy = j === 0 ? 1 - ty : ty;
+      for (let i = 0; i < 2; i++) {
+        const sx = x0 + i;
+        const wx = i === 0 ? 1 - tx : tx;
+        const value =
+          sx < 0 || sy < 0 || sx >= width || sy >= height
+            ? background[c]
+            : data[(sy * width + sx) * 4 + c];
+        acc += value * wx * wy;
+      }
+    }
+    out[offset + c] = acc;
+  }
+};
+
+// Bilinear resize. Large reductions are done in halving steps first so the
+// 2x2 kernel does not skip over source pixels.
+export const resizeRaster = (
+  image: RasterImage,
+  width: number,
+  height: number,
+): RasterImage => {
+  const targetWidth = Math.max(1, Math.round(width));
+  const targetHeight = Math.max(1, Math.round(height));
+
+  let source = image;
+  while (source.width >= targetWidth * 2 && source.height >= targetHeight * 2) {
+    source = halveRaster(source);
+  }
+
+  if (source.width === targetWidth && source.height === targetHeight) {
+    return source === image ? createCopy(image) : source;
+  }
+
+  const out = createRaster(targetWidth, targetHeight);
+  const scaleX = source.width / targetWidth;
+  const scaleY = source.height / targetHeight;
+  for (let y = 0; y < targetHeight; y++) {
+    for (let x = 0; x < targetWidth; x++) {
+      const sx = clamp((x + 0.5) * scaleX, 0.5, source.width - 0.5);
+      const sy = clamp((y + 0.5) * scaleY, 0.5, source.height - 0.5);
+      sampleBilinear(source, sx, sy, out.data, (y * targetWidth + x) * 4);
+    }
+  }
+  return out;
+};
+
+const createCopy = (image: RasterImage): RasterImage => ({
+  width: image.width,
+  height: image.height,
+  data: new Uint8ClampedArray(image.data),
+});
+
+// 2x2 box average
+const halveRaster = (image: RasterImage): RasterImage => {
+  const width = Math.max(1, Math.floor(image.width / 2));
+  const height = Math.max(1, Math.floor(image.height / 2));
+  const out = createRaster(width, height);
+  const src = image.data;
+  const stride = image.width * 4;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * 2 * stride + x * 2 * 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out.data[o + c] =
+          (src[i + c] +
+            src[i + 4 + c] +
+            src[i + stride + c] +
+            src[i + stride + 4 + c]) /
+          4;
+      }
+    }
+  }
+  return out;
+};
+
+export const flipRaster = (
+  image: RasterImage,
+  direction: 'horizontal' | 'vertical',
+): RasterImage => {
+  const { width, height, data } = image;
+  const out = createRaster(width, height);
+  const u32In = new Uint32Array(data.buffer, data.byteOffset, width * height);
+  const u32Out = new Uint32Array(out.data.buffer, 0, width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = direction === 'horizontal' ? width - 1 - x : x;
+      const sy = direction === 'vertical' ? height - 1 - y : y;
+      u32Out[y * width + x] = u32In[sy * width + sx];
+    }
+  }
+  return out;
+};
+
+// Exact, lossless rotation by a multiple of 90 degrees (clockwise)
+export const rotateRightAngle = (
+  image: RasterImage,
+  quarterTurns: number,
+): RasterImage => {
+  const turns = ((Math.round(quarterTurns) % 4) + 4) % 4;
+  const { width, height, data } = image;
+  const swap = turns % 2 === 1;
+  const out = createRaster(swap ? height : width, swap ? width : height);
+  const u32In = new Uint32Array(data.buffer, data.byteOffset, width * height);
+  const u32Out = new Uint32Array(out.data.buffer, 0, width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dx: number;
+      let dy: number;
+      switch (turns) {
+        case 1:
+          dx = height - 1 - y;
+          dy = x;
+          break;
+        case 2:
+          dx = width - 1 - x;
+          dy = height - 1 - y;
+          break;
+        case 3:
+          dx = y;
+          dy = width - 1 - x;
+          break;
+        default:
+          dx = x;
+          dy = y;
+      }
+      u32Out[dy * out.width + dx] = u32In[y * width + x];
+    }
+  }
+  return out;
+};
+
+// Turns stored pixels upright for an EXIF orientation (1-8). Every case is a
+// lossless flip and/or right-angle turn; unknown values leave the image as is.
+export const applyExifOrientation = (
+  image: RasterImage,
+  orientation: number,
+): RasterImage => {
+  switch (orientation) {
+    case 2:
+      return flipRaster(image, 'horizontal');
+    case 3:
+      return rotateRightAngle(image, 2);
+    case 4:
+      return flipRaster(image, 'vertical');
+    case 5:
+      // Transpose
+      return rotateRightAngle(flipRaster(image, 'horizontal'), 3);
+    case 6:
+      return rotateRightAngle(image, 1);
+    case 7:
+      // Transverse
+      return rotateRightAngle(flipRaster(image, 'horizontal'), 1);
+    case 8:
+      return rotateRightAngle(image, 3);
+    default:
+      return image;
+  }
+};
+
+// Rotates clockwise by any angle in degrees. Right angles are exact; other
+// angles expand the canvas to the rotated bounds and fill the corners with
+// `background`.
+export const rotateRaster = (
+  image: RasterImage,
+  angle: number,
+  background: RGBA = [0, 0, 0, 0],
+): RasterImage => {
+  const normalized = ((angle % 360) + 360) % 360;
+  if (normalized % 90 === 0) {
+    return rotateRightAngle(image, normalized / 90);
+  }
+
+  const radians = (normalized * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const { width, height } = image;
+  const outWidth = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin));
+  const outHeight = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos));
+  const out = createRaster(outWidth, outHeight);
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const ocx = outWidth / 2;
+  const ocy = outHeight / 2;
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      // Inverse-map the destination pixel center into the source
+      const dx = x + 0.5 - ocx;
+      const dy = y + 0.5 - ocy;
+      const sx = dx * cos + dy * sin + cx;
+      const sy = -dx * sin + dy * cos + cy;
+      sampleBilinear(
+        image,
+        sx,
+        sy,
+        out.data,
+        (y * outWidth + x) * 4,
+        background,
+      );
+    }
+  }
+  return out;
+};
+
+// Size of the largest axis-aligned rectangle that fits inside a width x height
+// image rotated by `angle` degrees, so the crop has no empty corners
+export const getInscribedSize = (
+  width: number,
+  height: number,
+  angle: number,
+): { width: number; height: number } => {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+
+  let innerWidth: number;
+  let innerHeight: number;
+  if (short <= 2 * sin * cos * long || Math.abs(sin - cos) < 1e-10) {
+    // Two corners of the crop touch the long sides only
+    const half = short / 2;
+    innerWidth = width >= height ? half / sin : half / cos;
+    innerHeight = width >= height ? half / cos : half / sin;
+  } else {
+    const cos2 = cos * cos - sin * sin;
+    innerWidth = (width * cos - height * sin) / cos2;
+    innerHeight = (height * cos - width * sin) / cos2;
+  }
+  return {
+    width: Math.max(1, Math.floor(innerWidth + 1e-6)),
+    height: Math.max(1, Math.floor(innerHeight + 1e-6)),
+  };
+};
+
+// Fine rotation for leveling horizons, clockwise and limited to +-45 degrees.
+// With autoCrop the result is the inscribed rectangle; otherwise it keeps the
+// original frame and fills the corners by extending the nearest edge pixels.
+export const straightenRaster = (
+  image: RasterImage,
+  angle: number,
+  autoCrop: boolean,
+): RasterImage => {
+  const degrees = clamp(angle, -45, 45);
+  const { width, height } = image;
+  const size = autoCrop
+    ? getInscribedSize(width, height, degrees)
+    : { width, height };
+  const out = createRaster(size.width, size.height);
+
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      const dx = x + 0.5 - size.width / 2;
+      const dy = y + 0.5 - size.height / 2;
+      // Clamping keeps the bilinear kernel on real pixels at the borders
+      const sx = clamp(dx * cos + dy * sin + cx, 0.5, width - 0.5);
+      const sy = clamp(-dx * sin + dy * cos + cy, 0.5, height - 0.5);
+      sampleBilinear(image, sx, sy, out.data, (y * size.width + x) * 4);
+    }
+  }
+  return out;
+};
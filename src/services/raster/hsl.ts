@@ -0,0 +1,183 @@
+import { RasterImage, clamp, cloneRaster } from './raster';
+
+// Per-hue color mixer. Each band is centered on a hue; pixels between two
+// centers get a linear blend of both bands' adjustments, so the weights always
+// sum to 1 and there are no visible seams where one band hands over to the
+// next. Grays have no hue and are left untouched.
+
+export type HslBand =
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'aqua'
+  | 'blue'
+  | 'purple'
+  | 'magenta';
+
+// All -100..100. Hue shifts by up to HUE_SHIFT_RANGE degrees, saturation
+// scales chroma from gray to double, luminance lightens or darkens.
+export interface HslAdjustment {
+  hue: number;
+  saturation: number;
+  luminance: number;
+}
+
+export type HslSettings = Record<HslBand, HslAdjustment>;
+
+// Center hue of each band in degrees, in hue order
+export const HSL_BAND_HUES: Record<HslBand, number> = {
+  red: 0,
+  orange: 30,
+  yellow: 60,
+  green: 120,
+  aqua: 180,
+  blue: 240,
+  purple: 270,
+  magenta: 300,
+};
+
+export const HSL_BANDS = Object.keys(HSL_BAND_HUES) as HslBand[];
+
+export const NEUTRAL_HSL_ADJUSTMENT: HslAdjustment = {
+  hue: 0,
+  saturation: 0,
+  luminance: 0,
+};
+
+export const DEFAULT_HSL_SETTINGS = HSL_BANDS.reduce(
+  (settings, band) => ({ ...settings, [band]: NEUTRAL_HSL_ADJUSTMENT }),
+  {} as HslSettings,
+);
+
+const HUE_SHIFT_RANGE = 30;
+// Largest lightness change at -100/100 for a fully saturated color
+const LUMINANCE_RANGE = 0.3;
+
+// h in degrees 0..360, s and l in 0..1
+export const rgbToHsl = (
+  r: number,
+  g: number,
+  b: number,
+): [number, number, number] => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) {
+    return [0, 0, l];
+  }
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rn) {
+    h = ((gn - bn) / d) % 6;
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+  h *= 60;
+  return [h < 0 ? h + 360 : h, s, l];
+};
+
+export const hslToRgb = (
+  h: number,
+  s: number,
+  l: number,
+): [number, number, number] => {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const m = l - c / 2;
+  let rgb: [number, number, number];
+  if (hp < 1) {
+    rgb = [c, x, 0];
+  } else if (hp < 2) {
+    rgb = [x, c, 0];
+  } else if (hp < 3) {
+    rgb = [0, c, x];
+  } else if (hp < 4) {
+    rgb = [0, x, c];
+  } else if (hp < 5) {
+    rgb = [x, 0, c];
+  } else {
+    rgb = [c, 0, x];
+  }
+  return [(rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255];
+};
+
+const BAND_CENTERS = HSL_BANDS.map(band => HSL_BAND_HUES[band]);
+
+// Band a hue falls after, and how far it is towards the next band (0..1)
+const findBandSpan = (hue: number): [number, number] => {
+  const h = ((hue % 360) + 360) % 360;
+  let index = BAND_CENTERS.length - 1;
+  while (index > 0 && h < BAND_CENTERS[index]) {
+    index--;
+  }
+  const start = BAND_CENTERS[index];
+  // The last band wraps around to red at 360
+  const end = index === BAND_CENTERS.length - 1 ? 360 : BAND_CENTERS[index + 1];
+  return [index, (h - start) / (end - start)];
+};
+
+// Weight of every band for a hue; at most two are non-zero
+export const getHslBandWeights = (hue: number): Record<HslBand, number> => {
+  const [index, t] = findBandSpan(hue);
+  const weights = HSL_BANDS.reduce(
+    (all, band) => ({ ...all, [band]: 0 }),
+    {} as Record<HslBand, number>,
+  );
+  weights[HSL_BANDS[index]] += 1 - t;
+  weights[HSL_BANDS[(index + 1) % HSL_BANDS.length]] += t;
+  return weights;
+};
+
+export const isNeutralHsl = (settings: HslSettings): boolean =>
+  HSL_BANDS.every(
+    band =>
+      settings[band].hue === 0 &&
+      settings[band].saturation === 0 &&
+      settings[band].luminance === 0,
+  );
+
+export const applyHslMixer = (
+  image: RasterImage,
+  settings: HslSettings,
+): RasterImage => {
+  const out = cloneRaster(image);
+  if (isNeutralHsl(settings)) {
+    return out;
+  }
+
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const [h, s, l] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+    if (s === 0) {
+      continue;
+    }
+
+    const [index, t] = findBandSpan(h);
+    const from = settings[HSL_BANDS[index]];
+    const to = settings[HSL_BANDS[(index + 1) % HSL_BANDS.length]];
+    const blend = (key: keyof HslAdjustment) =>
+      (1 - t) * clamp(from[key], -100, 100) + t * clamp(to[key], -100, 100);
+    const hueShift = blend('hue');
+    const saturation = blend('saturation');
+    const luminance = blend('luminance');
+
+    const [r, g, b] = hslToRgb(
+      h + (hueShift / 100) * HUE_SHIFT_RANGE,
+      clamp(s * (1 + saturation / 100), 0, 1),
+      // Scaled by saturation so near-grays barely move
+      clamp(l + (luminance / 100) * LUMINANCE_RANGE * s, 0, 1),
+    );
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  return out;
+};
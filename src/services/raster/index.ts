@@ -0,0 +1,15 @@
+export * from './raster';
+export * from './adjustments';
+export * from './blur';
+export * from './geometry';
+export * from './composite';
+export * from './effects';
+export * from './filters';
+export * from './resample';
+export * from './tone';
+export * from './hsl';
+export * from './whiteBalance';
+export * from './perspective';
+export * from './mask';
+export * from './redact';
+export * from './lut';
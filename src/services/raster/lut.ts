@@ -0,0 +1,281 @@
+import { RasterImage, cloneRaster } from './raster';
+
+// Color lookup tables in the Adobe / Resolve .cube format. Tables hold RGB
+// output triples in 0..1, red changing fastest.
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export interface Lut {
+  title: string;
+  dimensions: 1 | 3;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+}
+
+export const MAX_LUT_3D_SIZE = 65;
+// The format allows much longer 1D tables than 3D ones
+export const MAX_LUT_1D_SIZE = 65536;
+
+export class LutFormatError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'LutFormatError';
+  }
+}
+
+const parseNumbers = (
+  values: string[],
+  count: number,
+  keyword: string,
+  line: number,
+): number[] => {
+  const numbers = values.map(Number);
+  if (numbers.length !== count || numbers.some(n => !Number.isFinite(n))) {
+    throw new LutFormatError(`${keyword} needs ${count} numbers`, line);
+  }
+  return numbers;
+};
+
+const parseTriple = (values: string[], keyword: string, line: number) =>
+  parseNumbers(values, 3, keyword, line) as [number, number, number];
+
+const parseSize = (
+  values: string[],
+  keyword: string,
+  max: number,
+  line: number,
+): number => {
+  const [size] = parseNumbers(values, 1, keyword, line);
+  if (!Number.isInteger(size) || size < 2 || size > max) {
+    throw new LutFormatError(
+      `${keyword} must be a whole number from 2 to ${max}`,
+      line,
+    );
+  }
+  return size;
+};
+
+export const parseCubeLut = (text: string): Lut => {
+  let title = '';
+  let dimensions: 1 | 3 | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r\n|\r|\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (/^[-+.\d]/.test(keyword)) {
+      if (!dimensions) {
+        throw new LutFormatError(
+          'Table data before LUT_1D_SIZE or LUT_3D_SIZE',
+          lineNumber,
+        );
+      }
+      values.push(
+        ...parseNumbers([keyword, ...rest], 3, 'A table row', lineNumber),
+      );
+      continue;
+    }
+    if (values.length) {
+      throw new LutFormatError(`${keyword} after the table data`, lineNumber);
+    }
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line
+          .slice(keyword.length)
+          .trim()
+          .replace(/^"(.*)"$/, '$1');
+        break;
+      case 'LUT_1D_SIZE':
+      case 'LUT_3D_SIZE':
+        if (dimensions) {
+          throw new LutFormatError('More than one table size', lineNumber);
+        }
+        dimensions = keyword === 'LUT_1D_SIZE' ? 1 : 3;
+        size = parseSize(
+          rest,
+          keyword,
+          dimensions === 1 ? MAX_LUT_1D_SIZE : MAX_LUT_3D_SIZE,
+          lineNumber,
+        );
+        break;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, keyword, lineNumber);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, keyword, lineNumber);
+        break;
+      // Resolve's single-range form of DOMAIN_MIN / DOMAIN_MAX
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = parseNumbers(rest, 2, keyword, lineNumber);
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        break;
+      }
+      default:
+        // Other tools add their own keywords; they never change the table
+        if (!/^[A-Z][A-Z0-9_]*$/.test(keyword)) {
+          throw new LutFormatError(`Unexpected "${keyword}"`, lineNumber);
+        }
+    }
+  }
+
+  if (!dimensions) {
+    throw new LutFormatError('No LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new LutFormatError('DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+  const expected = (dimensions === 1 ? size : size * size * size) * 3;
+  if (values.length !== expected) {
+    throw new LutFormatError(
+      `Expected ${expected / 3} table rows, found ${values.length / 3}`,
+    );
+  }
+
+  return {
+    title,
+    dimensions,
+    size,
+    domainMin,
+    domainMax,
+    table: Float32Array.from(values),
+  };
+};
+
+// Position of an 8-bit value in table coordinates (0..size - 1)
+const toLattice = (lut: Lut, value: number, channel: number) => {
+  const min = lut.domainMin[channel];
+  const t = (value / 255 - min) / (lut.domainMax[channel] - min);
+  return Math.min(Math.max(t, 0), 1) * (lut.size - 1);
+};
+
+// 8-bit inputs only ever hit 256 positions per channel, so a 1D table
+// flattens into three lookup tables
+const apply1dLut = (image: RasterImage, lut: Lut): RasterImage => {
+  const lookup = [0, 1, 2].map(channel => {
+    const values = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const position = toLattice(lut, v, channel);
+      const index = Math.min(Math.floor(position), lut.size - 2);
+      const f = position - index;
+      const low = lut.table[index * 3 + channel];
+      const high = lut.table[(index + 1) * 3 + channel];
+      values[v] = Math.round((low + (high - low) * f) * 255);
+    }
+    return values;
+  });
+
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[0][data[i]];
+    data[i + 1] = lookup[1][data[i + 1]];
+    data[i + 2] = lookup[2][data[i + 2]];
+  }
+  return out;
+};
+
+const apply3dLut = (
+  image: RasterImage,
+  lut: Lut,
+  interpolation: LutInterpolation,
+): RasterImage => {
+  const { size, table } = lut;
+  const stride = [3, size * 3, size * size * 3];
+  const out = cloneRaster(image);
+  const data = out.data;
+  const position = [0, 0, 0];
+  const fraction = [0, 0, 0];
+
+  for (let i = 0; i < data.length; i += 4) {
+    let base = 0;
+    for (let c = 0; c < 3; c++) {
+      position[c] = toLattice(lut, data[i + c], c);
+      const index = Math.min(Math.floor(position[c]), size - 2);
+      fraction[c] = position[c] - index;
+      base += index * stride[c];
+    }
+    const [fr, fg, fb] = fraction;
+    const [dr, dg, db] = stride;
+
+    for (let c = 0; c < 3; c++) {
+      const at = (offset: number) => table[base + offset + c];
+      const c000 = at(0);
+      const c111 = at(dr + dg + db);
+      let value: number;
+      if (interpolation === 'trilinear') {
+        const c100 = at(dr);
+        const c010 = at(dg);
+        const c110 = at(dr + dg);
+        const c001 = at(db);
+        const c101 = at(dr + db);
+        const c011 = at(dg + db);
+        const c00 = c000 + (c100 - c000) * fr;
+        const c10 = c010 + (c110 - c010) * fr;
+        const c01 = c001 + (c101 - c001) * fr;
+        const c11 = c011 + (c111 - c011) * fr;
+        const c0 = c00 + (c10 - c00) * fg;
+        const c1 = c01 + (c11 - c01) * fg;
+        value = c0 + (c1 - c0) * fb;
+      } else if (fr >= fg) {
+        if (fg >= fb) {
+          const c100 = at(dr);
+          const c110 = at(dr + dg);
+          value =
+            c000 + (c100 - c000) * fr + (c110 - c100) * fg + (c111 - c110) * fb;
+        } else if (fr >= fb) {
+          const c100 = at(dr);
+          const c101 = at(dr + db);
+          value =
+            c000 + (c100 - c000) * fr + (c101 - c100) * fb + (c111 - c101) * fg;
+        } else {
+          const c001 = at(db);
+          const c101 = at(dr + db);
+          value =
+            c000 + (c001 - c000) * fb + (c101 - c001) * fr + (c111 - c101) * fg;
+        }
+      } else if (fb >= fg) {
+        const c001 = at(db);
+        const c011 = at(dg + db);
+        value =
+          c000 + (c001 - c000) * fb + (c011 - c001) * fg + (c111 - c011) * fr;
+      } else if (fb >= fr) {
+        const c010 = at(dg);
+        const c011 = at(dg + db);
+        value =
+          c000 + (c010 - c000) * fg + (c011 - c010) * fb + (c111 - c011) * fr;
+      } else {
+        const c010 = at(dg);
+        const c110 = at(dr + dg);
+        value =
+          c000 + (c010 - c000) * fg + (c110 - c010) * fr + (c111 - c110) * fb;
+      }
+      data[i + c] = Math.round(value * 255);
+    }
+  }
+  return out;
+};
+
+// Maps every pixel through the table; alpha is left alone. Interpolation
+// only matters for 3D tables.
+export const applyLut = (
+  image: RasterImage,
+  lut: Lut,
+  interpolation: LutInterpolation = 'tetrahedral',
+): RasterImage =>
+  lut.dimensions === 1
+    ? apply1dLut(image, lut)
+    : apply3dLut(image, lut, interpolation);
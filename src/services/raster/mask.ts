@@ -0,0 +1,338 @@
+import { RasterImage, clamp, cloneRaster } from './raster';
+import { RasterRect, gaussianBlur } from './blur';
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+// Vector mask shapes in image pixels. Shapes are applied in order: each one
+// adds to the mask, or cuts it away when `erase` is set.
+export type MaskShape =
+  | {
+      type: 'rect';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      feather: number; // width of the soft edge in pixels
+      erase?: boolean;
+    }
+  | {
+      // Ellipse inscribed in the box
+      type: 'ellipse';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      feather: number;
+      erase?: boolean;
+    }
+  | {
+      // Freehand brush stroke through the points
+      type: 'stroke';
+      points: MaskPoint[];
+      size: number; // brush diameter in pixels
+      hardness: number; // 0..100, the share of the radius at full strength
+      erase?: boolean;
+    };
+
+// Coverage across an edge from a signed distance (negative inside). Edges
+// are at least one pixel soft so hard shapes are antialiased.
+const edgeCoverage = (distance: number, feather: number) => {
+  const t = clamp(0.5 - distance / Math.max(1, feather), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+// Pixels a shape can touch, before clipping to the image
+const getShapeBounds = (shape: MaskShape): RasterRect => {
+  if (shape.type === 'stroke') {
+    const radius = shape.size / 2 + 1;
+    const xs = shape.points.map(point => point.x);
+    const ys = shape.points.map(point => point.y);
+    const x = Math.min(...xs) - radius;
+    const y = Math.min(...ys) - radius;
+    return {
+      x,
+      y,
+      width: Math.max(...xs) + radius - x,
+      height: Math.max(...ys) + radius - y,
+    };
+  }
+  const margin = Math.max(1, shape.feather) / 2 + 1;
+  return {
+    x: shape.x - margin,
+    y: shape.y - margin,
+    width: shape.width + margin * 2,
+    height: shape.height + margin * 2,
+  };
+};
+
+const intersectRects = (a: RasterRect, b: RasterRect): RasterRect | null => {
+  const x0 = Math.max(a.x, b.x);
+  const y0 = Math.max(a.y, b.y);
+  const x1 = Math.min(a.x + a.width, b.x + b.width);
+  const y1 = Math.min(a.y + a.height, b.y + b.height);
+  return x1 > x0 && y1 > y0
+    ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+    : null;
+};
+
+// Whole-pixel area the mask covers inside a width x height image, or null
+// when it covers nothing. Erasing shapes never grow the area.
+export const getMaskBounds = (
+  shapes: MaskShape[],
+  width: number,
+  height: number,
+): RasterRect | null => {
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  for (const shape of shapes) {
+    if (shape.erase || (shape.type === 'stroke' && !shape.points.length)) {
+      continue;
+    }
+    const bounds = intersectRects(getShapeBounds(shape), {
+      x: 0,
+      y: 0,
+      width,
+      height,
+    });
+    if (bounds) {
+      x0 = Math.min(x0, Math.floor(bounds.x));
+      y0 = Math.min(y0, Math.floor(bounds.y));
+      x1 = Math.max(x1, Math.ceil(bounds.x + bounds.width));
+      y1 = Math.max(y1, Math.ceil(bounds.y + bounds.height));
+    }
+  }
+  return x1 > x0 && y1 > y0
+    ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+    : null;
+};
+
+// Signed distance to a shape's outline at a pixel center
+const boxDistance = (
+  shape: Extract<MaskShape, { type: 'rect' }>,
+  px: number,
+  py: number,
+) => {
+  const halfWidth = shape.width / 2;
+  const halfHeight = shape.height / 2;
+  const dx = Math.abs(px - (shape.x + halfWidth)) - halfWidth;
+  const dy = Math.abs(py - (shape.y + halfHeight)) - halfHeight;
+  const outside = Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+  return outside + Math.min(Math.max(dx, dy), 0);
+};
+
+// First-order estimate, exact on circles and close enough for feathering
+// elsewhere
+const ellipseDistance = (
+  shape: Extract<MaskShape, { type: 'ellipse' }>,
+  px: number,
+  py: number,
+) => {
+  const rx = Math.max(shape.width / 2, 0.5);
+  const ry = Math.max(shape.height / 2, 0.5);
+  const dx = px - (shape.x + rx);
+  const dy = py - (shape.y + ry);
+  const k = Math.hypot(dx / rx, dy / ry);
+  const gradient = Math.hypot(dx / (rx * rx), dy / (ry * ry));
+  return gradient > 0 ? (k * (k - 1)) / gradient : -Math.min(rx, ry);
+};
+
+// Rasterizes one shape into `shapeCoverage` over `area`, which must hold
+// area.width * area.height zeros
+const rasterizeShape = (
+  shape: MaskShape,
+  area: RasterRect,
+  shapeCoverage: Float32Array,
+) => {
+  const bounds = intersectRects(getShapeBounds(shape), area);
+  if (!bounds) {
+    return;
+  }
+  const write = (
+    rect: RasterRect,
+    coverageAt: (px: number, py: number) => number,
+  ) => {
+    const x0 = Math.max(area.x, Math.floor(rect.x));
+    const y0 = Math.max(area.y, Math.floor(rect.y));
+    const x1 = Math.min(area.x + area.width, Math.ceil(rect.x + rect.width));
+    const y1 = Math.min(area.y + area.height, Math.ceil(rect.y + rect.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y - area.y) * area.width + (x - area.x);
+        const value = coverageAt(x + 0.5, y + 0.5);
+        if (value > shapeCoverage[i]) {
+          shapeCoverage[i] = value;
+        }
+      }
+    }
+  };
+
+  switch (shape.type) {
+    case 'rect':
+      write(bounds, (px, py) =>
+        edgeCoverage(boxDistance(shape, px, py), shape.feather),
+      );
+      break;
+    case 'ellipse':
+      write(bounds, (px, py) =>
+        edgeCoverage(ellipseDistance(shape, px, py), shape.feather),
+      );
+      break;
+    case 'stroke': {
+      // Each segment is a capsule; overlapping capsules keep the strongest
+      // value so the stroke does not build up where segments meet
+      const radius = Math.max(0.5, shape.size / 2);
+      const solid = (radius * clamp(shape.hardness, 0, 100)) / 100;
+      const falloff = Math.max(1, radius - solid);
+      const points =
+        shape.points.length === 1
+          ? [shape.points[0], shape.points[0]]
+          : shape.points;
+      for (let s = 1; s < points.length; s++) {
+        const a = points[s - 1];
+        const b = points[s];
+        const vx = b.x - a.x;
+        const vy = b.y - a.y;
+        const lengthSquared = vx * vx + vy * vy;
+        const x = Math.min(a.x, b.x) - radius - 1;
+        const y = Math.min(a.y, b.y) - radius - 1;
+        write(
+          {
+            x,
+            y,
+            width: Math.abs(vx) + radius * 2 + 2,
+            height: Math.abs(vy) + radius * 2 + 2,
+          },
+          (px, py) => {
+            const t = lengthSquared
+              ? clamp(((px - a.x) * vx + (py - a.y) * vy) / lengthSquared, 0, 1)
+              : 0;
+            const distance = Math.hypot(px - a.x - t * vx, py - a.y - t * vy);
+            const edge = clamp((radius - distance) / falloff, 0, 1);
+            return edge * edge * (3 - 2 * edge);
+          },
+        );
+      }
+      break;
+    }
+  }
+};
+
+// Mask coverage (0..1) for each pixel of `area`, row-major
+export const rasterizeMask = (
+  shapes: MaskShape[],
+  area: RasterRect,
+): Float32Array => {
+  const size = area.width * area.height;
+  const coverage = new Float32Array(size);
+  const shapeCoverage = new Float32Array(size);
+  for (const shape of shapes) {
+    shapeCoverage.fill(0);
+    rasterizeShape(shape, area, shapeCoverage);
+    for (let i = 0; i < size; i++) {
+      coverage[i] = shape.erase
+        ? coverage[i] * (1 - shapeCoverage[i])
+        : 1 - (1 - coverage[i]) * (1 - shapeCoverage[i]);
+    }
+  }
+  return coverage;
+};
+
+// Blends `processed` over `image` through the mask. `processed` may be a
+// patch of the image whose top left is at `origin`, as long as it covers the
+// masked area.
+export const blendThroughMask = (
+  image: RasterImage,
+  processed: RasterImage,
+  shapes: MaskShape[],
+  origin: MaskPoint = { x: 0, y: 0 },
+): RasterImage => {
+  const area = getMaskBounds(shapes, image.width, image.height);
+  const out = cloneRaster(image);
+  if (!area) {
+    return out;
+  }
+  const coverage = rasterizeMask(shapes, area);
+  for (let y = 0; y < area.height; y++) {
+    for (let x = 0; x < area.width; x++) {
+      const amount = coverage[y * area.width + x];
+      if (amount <= 0) {
+        continue;
+      }
+      const i = ((y + area.y) * image.width + x + area.x) * 4;
+      const j =
+        ((y + area.y - origin.y) * processed.width + x + area.x - origin.x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out.data[i + c] =
+          image.data[i + c] +
+          (processed.data[j + c] - image.data[i + c]) * amount;
+      }
+    }
+  }
+  return out;
+};
+
+// Gaussian blur through a vector mask. Only the masked area, plus three
+// sigma of context around it, is blurred.
+export const blurMasked = (
+  image: RasterImage,
+  shapes: MaskShape[],
+  radius: number,
+): RasterImage => {
+  const area = getMaskBounds(shapes, image.width, image.height);
+  if (!area || radius <= 0) {
+    return cloneRaster(image);
+  }
+
+  const margin = Math.ceil(radius * 3);
+  const px0 = Math.max(0, area.x - margin);
+  const py0 = Math.max(0, area.y - margin);
+  const px1 = Math.min(image.width, area.x + area.width + margin);
+  const py1 = Math.min(image.height, area.y + area.height + margin);
+  const patch: RasterImage = {
+    width: px1 - px0,
+    height: py1 - py0,
+    data: new Uint8ClampedArray((px1 - px0) * (py1 - py0) * 4),
+  };
+  for (let y = py0; y < py1; y++) {
+    const start = (y * image.width + px0) * 4;
+    patch.data.set(
+      image.data.subarray(start, start + patch.width * 4),
+      (y - py0) * patch.width * 4,
+    );
+  }
+  return blendThroughMask(image, gaussianBlur(patch, radius), shapes, {
+    x: px0,
+    y: py0,
+  });
+};
+
+export const scaleMaskShape = (
+  shape: MaskShape,
+  scaleX: number,
+  scaleY = scaleX,
+): MaskShape => {
+  // Brush sizes and feathering stay round on stretched images
+  const scale = Math.min(scaleX, scaleY);
+  return shape.type === 'stroke'
+    ? {
+        ...shape,
+        points: shape.points.map(({ x, y }) => ({
+          x: x * scaleX,
+          y: y * scaleY,
+        })),
+        size: shape.size * scale,
+      }
+    : {
+        ...shape,
+        x: shape.x * scaleX,
+        y: shape.y * scaleY,
+        width: shape.width * scaleX,
+        height: shape.height * scaleY,
+        feather: shape.feather * scale,
+      };
+};
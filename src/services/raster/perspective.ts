@@ -0,0 +1,172 @@
+import { RasterImage, RGBA, clamp, createRaster } from './raster';
+import { sampleBilinear } from './geometry';
+
+export interface QuadPoint {
+  x: number;
+  y: number;
+}
+
+// Corners in source pixel coordinates, clockwise from the top left:
+// top-left, top-right, bottom-right, bottom-left
+export type Quad = [QuadPoint, QuadPoint, QuadPoint, QuadPoint];
+
+// Row-major 3x3 matrix, nine entries with the last fixed at 1
+export type Homography = number[];
+
+export interface KeystoneSettings {
+  horizontal: number; // -100..100, positive shortens the right edge
+  vertical: number; // -100..100, positive narrows the top edge
+}
+
+export const NEUTRAL_KEYSTONE: KeystoneSettings = {
+  horizontal: 0,
+  vertical: 0,
+};
+
+// Inset of the shortened edge's corners at full slider, as a fraction of the
+// image size on each side
+const KEYSTONE_MAX_INSET = 0.25;
+
+export const getFrameQuad = (width: number, height: number): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+// Source quad for the keystone sliders: the corners of the shortened edge move
+// inwards, so the warp stretches them back out to a rectangle. Positive
+// vertical straightens converging verticals on a facade shot from below.
+export const getKeystoneQuad = (
+  width: number,
+  height: number,
+  { horizontal, vertical }: KeystoneSettings,
+): Quad => {
+  const dx = (clamp(Math.abs(vertical), 0, 100) / 100) * KEYSTONE_MAX_INSET;
+  const dy = (clamp(Math.abs(horizontal), 0, 100) / 100) * KEYSTONE_MAX_INSET;
+  const top = vertical > 0 ? dx * width : 0;
+  const bottom = vertical < 0 ? dx * width : 0;
+  const left = horizontal < 0 ? dy * height : 0;
+  const right = horizontal > 0 ? dy * height : 0;
+  return [
+    { x: top, y: left },
+    { x: width - top, y: right },
+    { x: width - bottom, y: height - right },
+    { x: bottom, y: height - left },
+  ];
+};
+
+// True when the corners are in clockwise order and enclose a convex area,
+// the only shapes a single projective warp can rectify
+export const isConvexQuad = (quad: Quad): boolean =>
+  quad.every((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    const cross =
+      (next.x - point.x) * (after.y - next.y) -
+      (next.y - point.y) * (after.x - next.x);
+    return cross > 0;
+  });
+
+// Output size of the rectified quad: the mean length of opposite edges
+export const getRectifiedSize = (
+  quad: Quad,
+): { width: number; height: number } => {
+  const [tl, tr, br, bl] = quad;
+  const length = (a: QuadPoint, b: QuadPoint) =>
+    Math.hypot(b.x - a.x, b.y - a.y);
+  return {
+    width: Math.max(1, Math.round((length(tl, tr) + length(bl, br)) / 2)),
+    height: Math.max(1, Math.round((length(tl, bl) + length(tr, br)) / 2)),
+  };
+};
+
+// Solves the 8x8 system for the homography taking each `from` corner to the
+// matching `to` corner. Returns null when three `from` corners are collinear.
+export const getPerspectiveTransform = (
+  from: Quad,
+  to: Quad,
+): Homography | null => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      return null;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) {
+        continue;
+      }
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+};
+
+export const projectPoint = (
+  matrix: Homography,
+  x: number,
+  y: number,
+): QuadPoint => {
+  const w = matrix[6] * x + matrix[7] * y + matrix[8];
+  return {
+    x: (matrix[0] * x + matrix[1] * y + matrix[2]) / w,
+    y: (matrix[3] * x + matrix[4] * y + matrix[5]) / w,
+  };
+};
+
+// Maps `quad` onto a width x height rectangle. Every output pixel center is
+// projected back into the source and sampled bilinearly, so there are no
+// holes; samples outside the source use `background`.
+export const warpPerspective = (
+  image: RasterImage,
+  quad: Quad,
+  width: number,
+  height: number,
+  background: RGBA = [0, 0, 0, 0],
+): RasterImage => {
+  const outWidth = Math.max(1, Math.round(width));
+  const outHeight = Math.max(1, Math.round(height));
+  const matrix = getPerspectiveTransform(
+    getFrameQuad(outWidth, outHeight),
+    quad,
+  );
+  if (!matrix || !isConvexQuad(quad)) {
+    throw new Error('Perspective corners must form a convex quadrilateral');
+  }
+
+  const out = createRaster(outWidth, outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const source = projectPoint(matrix, x + 0.5, y + 0.5);
+      sampleBilinear(
+        image,
+        source.x,
+        source.y,
+        out.data,
+        (y * outWidth + x) * 4,
+        background,
+      );
+    }
+  }
+  return out;
+};
@@ -0,0 +1,165 @@
+// Core raster types shared by every pixel operation.
+// Pixels are stored row-major as straight (non-premultiplied) RGBA, 4 bytes each.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type RGBA = [number, number, number, number];
+
+// Codecs turn encoded file bytes into rasters and back. Quality is 1-100 and
+// is ignored by lossless formats.
+export interface RasterCodec {
+  decode(bytes: Uint8Array): RasterImage;
+  encode(image: RasterImage, quality: number): Uint8Array;
+}
+
+export const createRaster = (
+  width: number,
+  height: number,
+  fill: RGBA = [0, 0, 0, 0],
+): RasterImage => {
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  const data = new Uint8ClampedArray(w * h * 4);
+
+  if (fill[0] || fill[1] || fill[2] || fill[3]) {
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = fill[0];
+      data[i + 1] = fill[1];
+      data[i + 2] = fill[2];
+      data[i + 3] = fill[3];
+    }
+  }
+
+  return { width: w, height: h, data };
+};
+
+export const cloneRaster = (image: RasterImage): RasterImage => ({
+  width: image.width,
+  height: image.height,
+  data: new Uint8ClampedArray(image.data),
+});
+
+export const clamp = (value: number, min: number, max: number): number =>
+  value < min ? min : value > max ? max : value;
+
+// Rec. 709 luma, used by saturation, monochrome and tone operations
+export const luminance = (r: number, g: number, b: number): number =>
+  0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Linear blend of a processed raster back over its source; amount is 0..1
+export const mixRasters = (
+  source: RasterImage,
+  processed: RasterImage,
+  amount: number,
+): RasterImage => {
+  const t = clamp(amount, 0, 1);
+  if (t >= 1) {
+    return processed;
+  }
+
+  const out = cloneRaster(source);
+  const src = source.data;
+  const dst = processed.data;
+  for (let i = 0; i < out.data.length; i++) {
+    out.data[i] = src[i] + (dst[i] - src[i]) * t;
+  }
+  return out;
+};
+
+// sRGB transfer functions on 0..1 values, for operations that model light
+export const srgbToLinear = (v: number): number =>
+  v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (v: number): number =>
+  v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// Mean color of the square of pixels within `radius` of (x, y), clipped to the
+// image. Used by eyedroppers so single noisy pixels do not dominate.
+export const averageColor = (
+  image: RasterImage,
+  x: number,
+  y: number,
+  radius = 0,
+): RGBA => {
+  const cx = clamp(Math.floor(x), 0, image.width - 1);
+  const cy = clamp(Math.floor(y), 0, image.height - 1);
+  const r = Math.max(0, Math.floor(radius));
+  const sum = [0, 0, 0, 0];
+  let count = 0;
+  for (
+    let py = Math.max(0, cy - r);
+    py <= Math.min(image.height - 1, cy + r);
+    py++
+  ) {
+    for (
+      let px = Math.max(0, cx - r);
+      px <= Math.min(image.width - 1, cx + r);
+      px++
+    ) {
+      const i = (py * image.width + px) * 4;
+      sum[0] += image.data[i];
+      sum[1] += image.data[i + 1];
+      sum[2] += image.data[i + 2];
+      sum[3] += image.data[i + 3];
+      count++;
+    }
+  }
+  return sum.map(v => v / count) as RGBA;
+};
+
+const NAMED_COLORS: Record<string, RGBA> = {
+  black: [0, 0, 0, 255],
+  white: [255, 255, 255, 255],
+  red: [255, 0, 0, 255],
+  green: [0, 128, 0, 255],
+  blue: [0, 0, 255, 255],
+  yellow: [255, 255, 0, 255],
+  gray: [128, 128, 128, 255],
+  grey: [128, 128, 128, 255],
+  transparent: [0, 0, 0, 0],
+};
+
+// Parses #rgb, #rrggbb, #rrggbbaa, rgb()/rgba() and a few named colors
+export const parseColor = (color: string): RGBA => {
+  const value = color.trim().toLowerCase();
+
+  if (NAMED_COLORS[value]) {
+    return [...NAMED_COLORS[value]] as RGBA;
+  }
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex
+        .split('')
+        .map(c => c + c)
+        .join('');
+    }
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+      return [
+        parseInt(hex.slice(0, 2), 16),
+        parseInt(hex.slice(2, 4), 16),
+        parseInt(hex.slice(4, 6), 16),
+        hex.length === 8 ? parseInt(hex.slice(6, 8), 16) : 255,
+      ];
+    }
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const parts = match[1].split(',').map(p => parseFloat(p.trim()));
+    if (parts.length >= 3 && parts.every(p => !isNaN(p))) {
+      return [
+        clamp(parts[0], 0, 255),
+        clamp(parts[1], 0, 255),
+        clamp(parts[2], 0, 255),
+        parts.length > 3 ? clamp(parts[3], 0, 1) * 255 : 255,
+      ];
+    }
+  }
+
+  throw new Error(`Unsupported color: ${color}`);
+};
@@ -0,0 +1,165 @@
+import { RasterImage, cloneRaster, parseColor } from './raster';
+import { RasterRect, blurRegion, gaussianBlur } from './blur';
+import { MaskShape, blurMasked, getMaskBounds, rasterizeMask } from './mask';
+
+export type RedactionMode = 'gaussian' | 'pixelate' | 'solid';
+
+// How a blur node hides its area. A light Gaussian blur can be partly
+// reversed, so pixelate and solid replace every pixel they touch outright.
+export type Redaction =
+  | { mode: 'gaussian'; radius: number } // sigma in pixels
+  | { mode: 'pixelate'; blockSize: number } // cell size in pixels
+  | { mode: 'solid'; color: string };
+
+// Smallest mosaic cell; a one-pixel cell would copy the original
+export const MIN_BLOCK_SIZE = 2;
+
+const clipRect = (
+  rect: RasterRect,
+  width: number,
+  height: number,
+): RasterRect | null => {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+  return x1 > x0 && y1 > y0
+    ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+    : null;
+};
+
+// Mosaic over rect. Cells sit on a grid anchored at the image origin and
+// take the average of the whole cell, so neighbouring regions line up; only
+// pixels inside rect are written.
+export const pixelateRegion = (
+  image: RasterImage,
+  rect: RasterRect,
+  blockSize: number,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const area = clipRect(rect, image.width, image.height);
+  if (!area) {
+    return out;
+  }
+  const size = Math.max(MIN_BLOCK_SIZE, Math.round(blockSize));
+  // A remainder too thin to average at the image edge joins the cell before
+  const cellEnd = (start: number, limit: number) =>
+    limit - (start + size) < MIN_BLOCK_SIZE ? limit : start + size;
+
+  const { width, data } = image;
+  const x1 = area.x + area.width;
+  const y1 = area.y + area.height;
+  const color = new Uint8ClampedArray(4);
+  for (
+    let cy = Math.floor(area.y / size) * size;
+    cy < y1;
+    cy = cellEnd(cy, image.height)
+  ) {
+    const cellY1 = cellEnd(cy, image.height);
+    for (
+      let cx = Math.floor(area.x / size) * size;
+      cx < x1;
+      cx = cellEnd(cx, width)
+    ) {
+      const cellX1 = cellEnd(cx, width);
+      // Premultiplied, like the blur, so transparent pixels don't bleed
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let y = cy; y < cellY1; y++) {
+        for (let x = cx; x < cellX1; x++) {
+          const i = (y * width + x) * 4;
+          const alpha = data[i + 3];
+          r += data[i] * alpha;
+          g += data[i + 1] * alpha;
+          b += data[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const count = (cellX1 - cx) * (cellY1 - cy);
+      color[0] = a > 0 ? r / a : 0;
+      color[1] = a > 0 ? g / a : 0;
+      color[2] = a > 0 ? b / a : 0;
+      color[3] = a / count;
+
+      for (let y = Math.max(cy, area.y); y < Math.min(cellY1, y1); y++) {
+        for (let x = Math.max(cx, area.x); x < Math.min(cellX1, x1); x++) {
+          out.data.set(color, (y * width + x) * 4);
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// Opaque fill over rect. The color's alpha is ignored so nothing underneath
+// shows through.
+export const fillRegion = (
+  image: RasterImage,
+  rect: RasterRect,
+  color: string,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const area = clipRect(rect, image.width, image.height);
+  if (!area) {
+    return out;
+  }
+  const [r, g, b] = parseColor(color);
+  const row = new Uint8ClampedArray(area.width * 4);
+  for (let x = 0; x < area.width; x++) {
+    row.set([r, g, b, 255], x * 4);
+  }
+  for (let y = area.y; y < area.y + area.height; y++) {
+    out.data.set(row, (y * image.width + area.x) * 4);
+  }
+  return out;
+};
+
+// Redacts rect, or the whole image when there is none
+export const redactRegion = (
+  image: RasterImage,
+  rect: RasterRect | undefined,
+  redaction: Redaction,
+): RasterImage => {
+  const area = rect ?? { x: 0, y: 0, width: image.width, height: image.height };
+  switch (redaction.mode) {
+    case 'gaussian':
+      return rect
+        ? blurRegion(image, rect, redaction.radius)
+        : gaussianBlur(image, redaction.radius);
+    case 'pixelate':
+      return pixelateRegion(image, area, redaction.blockSize);
+    case 'solid':
+      return fillRegion(image, area, redaction.color);
+  }
+};
+
+// Redacts through a vector mask. Gaussian blur follows the feathering;
+// pixelate and solid replace every pixel the mask touches at all, since a
+// soft edge would keep part of the original.
+export const redactMasked = (
+  image: RasterImage,
+  shapes: MaskShape[],
+  redaction: Redaction,
+): RasterImage => {
+  if (redaction.mode === 'gaussian') {
+    return blurMasked(image, shapes, redaction.radius);
+  }
+  const area = getMaskBounds(shapes, image.width, image.height);
+  if (!area) {
+    return cloneRaster(image);
+  }
+  const redacted = redactRegion(image, area, redaction);
+  const coverage = rasterizeMask(shapes, area);
+  const out = cloneRaster(image);
+  for (let y = 0; y < area.height; y++) {
+    for (let x = 0; x < area.width; x++) {
+      if (coverage[y * area.width + x] > 0) {
+        const i = ((y + area.y) * image.width + x + area.x) * 4;
+        out.data.set(redacted.data.subarray(i, i + 4), i);
+      }
+    }
+  }
+  return out;
+};
@@ -0,0 +1,178 @@
+import { RasterImage, createRaster } from './raster';
+
+// Separable resampling with proper reconstruction filters, used where output
+// quality matters more than speed (thumbnails, previews).
+export type ResampleFilter = 'box' | 'lanczos';
+
+const LANCZOS_LOBES = 3;
+
+const sinc = (x: number) => {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const lanczos = (x: number) =>
+  Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0;
+
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+// Per output index: the first source index and normalized tap weights
+const computeContributions = (
+  sourceSize: number,
+  targetSize: number,
+  filter: ResampleFilter,
+): Contribution[] => {
+  const scale = sourceSize / targetSize;
+  // Widen the kernel when shrinking so every source pixel contributes
+  const filterScale = Math.max(scale, 1);
+  const radius =
+    filter === 'box' ? filterScale / 2 : LANCZOS_LOBES * filterScale;
+
+  const contributions: Contribution[] = [];
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) * scale;
+    const start = Math.max(0, Math.floor(center - radius));
+    const end = Math.min(sourceSize, Math.ceil(center + radius));
+    const weights = new Float32Array(Math.max(1, end - start));
+
+    let total = 0;
+    for (let j = start; j < end; j++) {
+      let weight: number;
+      if (filter === 'box') {
+        // Exact overlap of the source pixel with the output footprint
+        weight = Math.max(
+          0,
+          Math.min(j + 1, center + radius) - Math.max(j, center - radius),
+        );
+      } else {
+        weight = lanczos((j + 0.5 - center) / filterScale);
+      }
+      weights[j - start] = weight;
+      total += weight;
+    }
+
+    if (total > 0) {
+      for (let k = 0; k < weights.length; k++) {
+        weights[k] /= total;
+      }
+    } else {
+      weights[0] = 1;
+    }
+    contributions.push({ start: Math.min(start, sourceSize - 1), weights });
+  }
+  return contributions;
+};
+
+// Resamples with premultiplied alpha so transparent pixels do not bleed
+// their color into neighbours.
+export const resampleRaster = (
+  image: RasterImage,
+  width: number,
+  height: number,
+  filter: ResampleFilter = 'lanczos',
+): RasterImage => {
+  const targetWidth = Math.max(1, Math.round(width));
+  const targetHeight = Math.max(1, Math.round(height));
+  const { width: sourceWidth, height: sourceHeight, data } = image;
+
+  const premultiplied = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    premultiplied[i] = data[i] * alpha;
+    premultiplied[i + 1] = data[i + 1] * alpha;
+    premultiplied[i + 2] = data[i + 2] * alpha;
+    premultiplied[i + 3] = data[i + 3];
+  }
+
+  // Horizontal pass: sourceHeight rows of targetWidth pixels
+  const columns = computeContributions(sourceWidth, targetWidth, filter);
+  const horizontal = new Float32Array(targetWidth * sourceHeight * 4);
+  for (let y = 0; y < sourceHeight; y++) {
+    const rowOffset = y * sourceWidth;
+    for (let x = 0; x < targetWidth; x++) {
+      const { start, weights } = columns[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = (rowOffset + start + k) * 4;
+        const w = weights[k];
+        r += premultiplied[i] * w;
+        g += premultiplied[i + 1] * w;
+        b += premultiplied[i + 2] * w;
+        a += premultiplied[i + 3] * w;
+      }
+      const o = (y * targetWidth + x) * 4;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+      horizontal[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then un-premultiply
+  const rows = computeContributions(sourceHeight, targetHeight, filter);
+  const out = createRaster(targetWidth, targetHeight);
+  for (let y = 0; y < targetHeight; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < targetWidth; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = ((start + k) * targetWidth + x) * 4;
+        const w = weights[k];
+        r += horizontal[i] * w;
+        g += horizontal[i + 1] * w;
+        b += horizontal[i + 2] * w;
+        a += horizontal[i + 3] * w;
+      }
+      const o = (y * targetWidth + x) * 4;
+      if (a > 0) {
+        const unpremultiply = 255 / a;
+        out.data[o] = r * unpremultiply;
+        out.data[o + 1] = g * unpremultiply;
+        out.data[o + 2] = b * unpremultiply;
+      }
+      out.data[o + 3] = a;
+    }
+  }
+  return out;
+};
+
+// Largest size with the same aspect ratio whose long edge is at most maxSize.
+// Never upscales.
+export const fitWithin = (
+  width: number,
+  height: number,
+  maxSize: number,
+): { width: number; height: number } => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Downscales for display. Very large reductions are box-filtered to twice
+// the target first, which is indistinguishable from a full Lanczos pass at
+// a fraction of the cost.
+export const createThumbnailRaster = (
+  image: RasterImage,
+  maxSize: number,
+): RasterImage => {
+  const target = fitWithin(image.width, image.height, maxSize);
+  let source = image;
+  if (source.width >= target.width * 4) {
+    source = resampleRaster(source, target.width * 2, target.height * 2, 'box');
+  }
+  return resampleRaster(source, target.width, target.height, 'lanczos');
+};
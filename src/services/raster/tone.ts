@@ -0,0 +1,299 @@
+import {
+  RasterImage,
+  clamp,
+  cloneRaster,
+  linearToSrgb,
+  srgbToLinear,
+} from './raster';
+
+// Tone adjustments are all per-channel value mappings, so each one is baked
+// into 256-entry lookup tables once and then applied in a single pass.
+
+// Sliders of the Adjust panel's Light section. Exposure is in stops
+// (-4..4), everything else is -100..100 with 0 meaning unchanged.
+export interface ToneSettings {
+  exposure: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  whites: number;
+  blacks: number;
+}
+
+// [input, output], both 0..255
+export type CurvePoint = [number, number];
+
+export interface LevelsSettings {
+  inputBlack: number; // 0..255
+  inputWhite: number; // 0..255, above inputBlack
+  gamma: number; // 0.1..10, 1 is linear
+  outputBlack: number; // 0..255
+  outputWhite: number; // 0..255
+}
+
+// `master` applies to R, G and B before the per-channel entries
+export interface ChannelSettings<T> {
+  master: T;
+  red: T;
+  green: T;
+  blue: T;
+}
+
+export type ToneChannel = keyof ChannelSettings<unknown>;
+
+export const TONE_CHANNELS: ToneChannel[] = ['master', 'red', 'green', 'blue'];
+
+export const DEFAULT_TONE: ToneSettings = {
+  exposure: 0,
+  contrast: 0,
+  highlights: 0,
+  shadows: 0,
+  whites: 0,
+  blacks: 0,
+};
+
+export const IDENTITY_CURVE: CurvePoint[] = [
+  [0, 0],
+  [255, 255],
+];
+
+export const DEFAULT_LEVELS: LevelsSettings = {
+  inputBlack: 0,
+  inputWhite: 255,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 255,
+};
+
+// Lookup tables hold floats in 0..1 until they are composed and quantized,
+// so chaining several mappings does not round at every step
+type ToneMap = (value: number) => number;
+
+const bakeLookupTable = (map: ToneMap): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    lut[v] = Math.round(clamp(map(v / 255), 0, 1) * 255);
+  }
+  return lut;
+};
+
+// Peaks at 1 for x = 1/3 and x = 2/3 respectively and vanishes at both ends,
+// so shadows and highlights never move pure black or white
+const shadowWeight = (x: number): number => 6.75 * x * (1 - x) * (1 - x);
+const highlightWeight = (x: number): number => 6.75 * x * x * (1 - x);
+
+// Largest shift the shadows and highlights sliders apply. Kept below 1/6.75
+// so the mapping stays monotonic at both extremes.
+const TONE_RANGE_SHIFT = 0.14;
+
+// Scales how far the black and white points move at -100/100
+const CLIP_POINT_SHIFT = 0.2;
+
+// Strength of the contrast S-curve; below 1 so it stays monotonic
+const CONTRAST_STRENGTH = 0.9;
+
+const createToneMap = (settings: ToneSettings): ToneMap => {
+  const gain = Math.pow(2, clamp(settings.exposure, -4, 4));
+  const black = (-clamp(settings.blacks, -100, 100) / 100) * CLIP_POINT_SHIFT;
+  const white =
+    1 - (clamp(settings.whites, -100, 100) / 100) * CLIP_POINT_SHIFT;
+  const shadows = (clamp(settings.shadows, -100, 100) / 100) * TONE_RANGE_SHIFT;
+  const highlights =
+    (clamp(settings.highlights, -100, 100) / 100) * TONE_RANGE_SHIFT;
+  const contrast =
+    (clamp(settings.contrast, -100, 100) / 100) * CONTRAST_STRENGTH;
+
+  return x => {
+    // Exposure scales light, so it is applied in linear space
+    let v = clamp(linearToSrgb(srgbToLinear(x) * gain), 0, 1);
+    v = clamp((v - black) / (white - black), 0, 1);
+    v = v + shadows * shadowWeight(v) + highlights * highlightWeight(v);
+    v = clamp(v, 0, 1);
+    return v - (contrast * Math.sin(2 * Math.PI * v)) / (2 * Math.PI);
+  };
+};
+
+// Monotone cubic (Fritsch-Carlson) through the control points, so curves
+// never overshoot between points. Inputs outside the first and last point
+// hold their output.
+const createCurveMap = (points: CurvePoint[]): ToneMap => {
+  const sorted = [...points]
+    .map(([x, y]) => [clamp(x, 0, 255) / 255, clamp(y, 0, 255) / 255])
+    .sort((a, b) => a[0] - b[0])
+    .filter((point, i, all) => i === 0 || point[0] > all[i - 1][0]);
+
+  if (sorted.length === 0) {
+    return x => x;
+  }
+  if (sorted.length === 1) {
+    const y = sorted[0][1];
+    return () => y;
+  }
+
+  const n = sorted.length;
+  const xs = sorted.map(p => p[0]);
+  const ys = sorted.map(p => p[1]);
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  }
+
+  const tangents: number[] = new Array(n);
+  tangents[0] = slopes[0];
+  tangents[n - 1] = slopes[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    tangents[i] =
+      slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  }
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const t = 3 / Math.sqrt(magnitude);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  return x => {
+    if (x <= xs[0]) {
+      return ys[0];
+    }
+    if (x >= xs[n - 1]) {
+      return ys[n - 1];
+    }
+    let i = 0;
+    while (x > xs[i + 1]) {
+      i++;
+    }
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[i] +
+      (t3 - 2 * t2 + t) * h * tangents[i] +
+      (-2 * t3 + 3 * t2) * ys[i + 1] +
+      (t3 - t2) * h * tangents[i + 1]
+    );
+  };
+};
+
+const createLevelsMap = (levels: LevelsSettings): ToneMap => {
+  const inBlack = clamp(levels.inputBlack, 0, 254) / 255;
+  const inWhite = Math.max(
+    inBlack + 1 / 255,
+    clamp(levels.inputWhite, 0, 255) / 255,
+  );
+  const gamma = clamp(levels.gamma, 0.1, 10);
+  const outBlack = clamp(levels.outputBlack, 0, 255) / 255;
+  const outWhite = clamp(levels.outputWhite, 0, 255) / 255;
+
+  return x => {
+    const v = clamp((x - inBlack) / (inWhite - inBlack), 0, 1);
+    return outBlack + (outWhite - outBlack) * Math.pow(v, 1 / gamma);
+  };
+};
+
+export const isIdentityTone = (settings: ToneSettings): boolean =>
+  (Object.keys(DEFAULT_TONE) as (keyof ToneSettings)[]).every(
+    key => settings[key] === DEFAULT_TONE[key],
+  );
+
+// Points on the diagonal only describe the identity when they reach both
+// ends; otherwise the curve is held flat past the last point
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+  points.length === 0 ||
+  (points.every(([x, y]) => x === y) &&
+    points.some(([x]) => x <= 0) &&
+    points.some(([x]) => x >= 255));
+
+export const isIdentityLevels = (levels: LevelsSettings): boolean =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof LevelsSettings)[]).every(
+    key => levels[key] === DEFAULT_LEVELS[key],
+  );
+
+// Evaluates a curve at `count` evenly spaced inputs across 0..255, for
+// drawing it in the editor
+export const sampleCurve = (points: CurvePoint[], count: number): number[] => {
+  const map = createCurveMap(points);
+  const steps = Math.max(2, Math.round(count));
+  return Array.from(
+    { length: steps },
+    (_, i) => clamp(map(i / (steps - 1)), 0, 1) * 255,
+  );
+};
+
+export const createToneLookupTable = (
+  settings: ToneSettings,
+): Uint8ClampedArray => bakeLookupTable(createToneMap(settings));
+
+export const createCurveLookupTable = (
+  points: CurvePoint[],
+): Uint8ClampedArray => bakeLookupTable(createCurveMap(points));
+
+export const createLevelsLookupTable = (
+  levels: LevelsSettings,
+): Uint8ClampedArray => bakeLookupTable(createLevelsMap(levels));
+
+// Applies separate 256-entry tables to R, G and B
+export const applyChannelLookupTables = (
+  image: RasterImage,
+  red: Uint8ClampedArray,
+  green: Uint8ClampedArray,
+  blue: Uint8ClampedArray,
+): RasterImage => {
+  const out = cloneRaster(image);
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+  return out;
+};
+
+const applyChannelMaps = <T>(
+  image: RasterImage,
+  settings: ChannelSettings<T>,
+  createMap: (value: T) => ToneMap,
+): RasterImage => {
+  const master = createMap(settings.master);
+  const channelTable = (value: T) => {
+    const channel = createMap(value);
+    return bakeLookupTable(x => channel(clamp(master(x), 0, 1)));
+  };
+  return applyChannelLookupTables(
+    image,
+    channelTable(settings.red),
+    channelTable(settings.green),
+    channelTable(settings.blue),
+  );
+};
+
+export const applyTone = (
+  image: RasterImage,
+  settings: ToneSettings,
+): RasterImage => {
+  if (isIdentityTone(settings)) {
+    return cloneRaster(image);
+  }
+  const lut = createToneLookupTable(settings);
+  return applyChannelLookupTables(image, lut, lut, lut);
+};
+
+export const applyCurves = (
+  image: RasterImage,
+  curves: ChannelSettings<CurvePoint[]>,
+): RasterImage => applyChannelMaps(image, curves, createCurveMap);
+
+export const applyLevels = (
+  image: RasterImage,
+  levels: ChannelSettings<LevelsSettings>,
+): RasterImage => applyChannelMaps(image, levels, createLevelsMap);
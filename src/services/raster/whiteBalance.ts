@@ -0,0 +1,92 @@
+import {
+  RasterImage,
+  clamp,
+  cloneRaster,
+  linearToSrgb,
+  srgbToLinear,
+} from './raster';
+import { applyChannelLookupTables } from './tone';
+
+// Both -100..100. Positive temperature warms (more red, less blue); positive
+// tint moves towards magenta (less green), negative towards green.
+export interface WhiteBalanceSettings {
+  temperature: number;
+  tint: number;
+}
+
+export const NEUTRAL_WHITE_BALANCE: WhiteBalanceSettings = {
+  temperature: 0,
+  tint: 0,
+};
+
+// Stops of channel gain at the ends of each slider. Wide enough to neutralize
+// tungsten light, where red is about three times blue.
+const TEMPERATURE_STOPS = 1.5;
+const TINT_STOPS = 1;
+
+// Gains are applied to linear light. In log2 space the temperature axis moves
+// red against blue and the tint axis moves green against the other two; the
+// logs sum to zero so overall brightness stays put.
+export const getWhiteBalanceGains = (
+  settings: WhiteBalanceSettings,
+): [number, number, number] => {
+  const a = (clamp(settings.temperature, -100, 100) / 100) * TEMPERATURE_STOPS;
+  const b = (clamp(settings.tint, -100, 100) / 100) * TINT_STOPS;
+  return [
+    Math.pow(2, a + b / 3),
+    Math.pow(2, (-2 * b) / 3),
+    Math.pow(2, -a + b / 3),
+  ];
+};
+
+// Settings that map a sampled sRGB color to gray; the inverse of
+// getWhiteBalanceGains. Returns neutral settings for black samples.
+export const getNeutralizingWhiteBalance = (
+  r: number,
+  g: number,
+  b: number,
+): WhiteBalanceSettings => {
+  if (Math.max(r, g, b) < 1) {
+    return NEUTRAL_WHITE_BALANCE;
+  }
+  // Channels crushed to zero carry no color information; keep them off zero
+  const floor = 1 / 255;
+  const lr = Math.max(floor, srgbToLinear(r / 255));
+  const lg = Math.max(floor, srgbToLinear(g / 255));
+  const lb = Math.max(floor, srgbToLinear(b / 255));
+
+  // Solve r * gainR = g * gainG = b * gainB for the two axes
+  const a = Math.log2(lb / lr) / 2;
+  const tint = (Math.log2(lg / lr) + Math.log2(lg / lb)) / 2;
+  const round = (value: number) => Math.round(clamp(value, -100, 100));
+  return {
+    temperature: round((a / TEMPERATURE_STOPS) * 100),
+    tint: round((tint / TINT_STOPS) * 100),
+  };
+};
+
+const createGainLookupTable = (gain: number): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    lut[v] = Math.round(
+      clamp(linearToSrgb(srgbToLinear(v / 255) * gain), 0, 1) * 255,
+    );
+  }
+  return lut;
+};
+
+export const applyWhiteBalance = (
+  image: RasterImage,
+  settings: WhiteBalanceSettings,
+): RasterImage => {
+  if (settings.temperature === 0 && settings.tint === 0) {
+    return cloneRaster(image);
+  }
+  const [red, green, blue] = getWhiteBalanceGains(settings);
+  return applyChannelLookupTables(
+    image,
+    createGainLookupTable(red),
+    createGainLookupTable(green),
+    createGainLookupTable(blue),
+  );
+};
@@ -0,0 +1,140 @@
+// Key-value persistence shared by redux-persist and StorageService. The
+// interface is a superset of what redux-persist expects from `storage`, so
+// one adapter instance backs both and there is a single copy of every key.
+
+export class StorageTransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageTransactionError';
+  }
+}
+
+// Writes are staged and only reach the backend when the transaction's work
+// function resolves. Reads see the transaction's own staged writes.
+export interface StorageTransaction {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+  // Runs read-modify-write sequences one at a time; nothing is written when
+  // work throws
+  transaction<T>(
+    work: (transaction: StorageTransaction) => Promise<T>,
+  ): Promise<T>;
+}
+
+export interface StorageChanges {
+  set: [string, string][];
+  remove: string[];
+}
+
+// Serializes transactions and stages their writes. Backends only implement
+// raw reads and an all-or-nothing commit.
+export abstract class TransactionalStorage implements StorageAdapter {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  protected abstract read(key: string): Promise<string | null>;
+  protected abstract commit(changes: StorageChanges): Promise<void>;
+  abstract getAllKeys(): Promise<string[]>;
+
+  getItem(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.transaction(async transaction => {
+      transaction.setItem(key, value);
+    });
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.transaction(async transaction => {
+      transaction.removeItem(key);
+    });
+  }
+
+  transaction<T>(
+    work: (transaction: StorageTransaction) => Promise<T>,
+  ): Promise<T> {
+    const run = this.queue.then(() => this.runTransaction(work));
+    // A failed transaction must not block the ones queued after it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runTransaction<T>(
+    work: (transaction: StorageTransaction) => Promise<T>,
+  ): Promise<T> {
+    // undefined marks a staged removal
+    const staged = new Map<string, string | undefined>();
+    let open = true;
+    const assertOpen = () => {
+      if (!open) {
+        throw new StorageTransactionError(
+          'Storage transaction used after it finished',
+        );
+      }
+    };
+
+    const result = await work({
+      getItem: async key => {
+        assertOpen();
+        return staged.has(key) ? staged.get(key) ?? null : this.read(key);
+      },
+      setItem: (key, value) => {
+        assertOpen();
+        staged.set(key, value);
+      },
+      removeItem: key => {
+        assertOpen();
+        staged.set(key, undefined);
+      },
+    }).finally(() => {
+      open = false;
+    });
+
+    if (staged.size > 0) {
+      const changes: StorageChanges = { set: [], remove: [] };
+      staged.forEach((value, key) => {
+        if (value === undefined) {
+          changes.remove.push(key);
+        } else {
+          changes.set.push([key, value]);
+        }
+      });
+      await this.commit(changes);
+    }
+    return result;
+  }
+}
+
+// Non-persistent backend for tests and previews
+export class MemoryStorageAdapter extends TransactionalStorage {
+  private items = new Map<string, string>();
+
+  constructor(initialItems: Record<string, string> = {}) {
+    super();
+    Object.entries(initialItems).forEach(([key, value]) =>
+      this.items.set(key, value),
+    );
+  }
+
+  protected async read(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  protected async commit({ set, remove }: StorageChanges): Promise<void> {
+    set.forEach(([key, value]) => this.items.set(key, value));
+    remove.forEach(key => this.items.delete(key));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+}
@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageChanges, TransactionalStorage } from './adapter';
+
+// Device storage. multiSet and multiRemove each apply atomically; removals
+// are committed after the writes so a crash in between never loses data that
+// was being replaced.
+export class AsyncStorageAdapter extends TransactionalStorage {
+  protected read(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  protected async commit({ set, remove }: StorageChanges): Promise<void> {
+    if (set.length > 0) {
+      await AsyncStorage.multiSet(set);
+    }
+    if (remove.length > 0) {
+      await AsyncStorage.multiRemove(remove);
+    }
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...(await AsyncStorage.getAllKeys())];
+  }
+}
@@ -0,0 +1,8 @@
+import { AsyncStorageAdapter } from './asyncStorageAdapter';
+import type { StorageAdapter } from './adapter';
+
+export * from './adapter';
+export { AsyncStorageAdapter } from './asyncStorageAdapter';
+
+// The one adapter the app persists through: redux-persist and StorageService
+export const appStorage: StorageAdapter = new AsyncStorageAdapter();
@@ -1,12 +1,15 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import RNFS from 'react-native-fs';
 import { handleStorageError, useErrorHandler } from '../utils/errorHandler';
-
-// Storage keys
+import { upgradeRecentProject } from '../store/migrations';
+import { LEGACY_STORAGE_KEYS, STORAGE_LIMITS } from '../constants/storage';
+import type { UserPreferences } from '../store/slices/userPreferencesSlice';
+import { appStorage, StorageAdapter } from './storage';
+import type { ProjectReference } from './projectFormat';
+
+// Storage keys. Recent projects and user preferences are persisted with the
+// redux state through the same adapter.
 const STORAGE_KEYS = {
-  USER_PREFERENCES: 'user_preferences',
-  RECENT_PROJECTS: 'recent_projects',
   CACHED_ASSETS: 'cached_assets',
   APP_SETTINGS: 'app_settings',
   ANALYTICS: 'analytics',
@@ -14,35 +17,32 @@ const STORAGE_KEYS = {
 
 // Storage configuration
 const STORAGE_CONFIG = {
-  maxRecentProjects: 20,
+  maxRecentProjects: STORAGE_LIMITS.maxRecentProjects,
   maxCachedImages: 50,
   imageCacheExpiry: 7 * 24 * 60 * 60 * 1000, // 7 days
   autoCleanupInterval: 24 * 60 * 60 * 1000, // 24 hours
+  orphanThumbnailAge: 60 * 60 * 1000, // 1 hour
 } as const;
 
-export interface UserPreferences {
-  theme: 'light' | 'dark';
-  lastUsedTools: string[];
-  qualityPreference: number;
-  formatPreference: 'jpeg' | 'png';
-  hapticFeedback: boolean;
-  soundEffects: boolean;
-  autoSave: boolean;
-  highContrastMode: boolean;
-  reduceMotion: boolean;
-}
+// Directories owned by the app; their contents count towards storage usage
+const STORAGE_PATHS = {
+  THUMBNAILS: `${RNFS.DocumentDirectoryPath}/thumbnails`,
+  PROJECTS: `${RNFS.DocumentDirectoryPath}/projects`,
+} as const;
 
+// Shared by StorageService and the recentProjects slice. Changing the shape
+// needs a step in store/migrations.
 export interface RecentProject {
   id: string;
   name: string;
-  thumbnailUri: string;
+  thumbnailUri: string; // file path, empty when none was generated
   originalUri: string;
   createdAt: number;
   lastModified: number;
   fileSize: number;
   edits: EditHistory[];
   isSaved: boolean;
-  projectData: any; // Serialized editor state
+  projectData?: ProjectReference; // Saved edit session, see projectService
 }
 
 export interface EditHistory {
@@ -62,6 +62,8 @@ export interface CachedAsset {
   lastUsed: number;
   fileSize: number;
   metadata?: any;
+  // User imports such as LUTs; cleanup never expires or evicts them
+  pinned?: boolean;
 }
 
 export interface AppSettings {
@@ -76,8 +78,11 @@ export interface AppSettings {
 
 class StorageService {
   private static instance: StorageService;
-  private cache: Map<string, any> = new Map();
+  private storage: StorageAdapter = appStorage;
   private cleanupTimer: NodeJS.Timeout | null = null;
+  // Recent projects live in the redux store; the service only owns their
+  // files and asks the store which ones are still referenced
+  private recentProjectsSource: (() => RecentProject[]) | null = null;
 
   private constructor() {
     this.initializeStorage();
@@ -101,12 +106,6 @@ class StorageService {
         await this.setAppSetting('lastVersion', '1.0.0');
       }
 
-      // Initialize default preferences if they don't exist
-      const existingPrefs = await this.getUserPreferences();
-      if (!existingPrefs) {
-        await this.setUserPreferences(this.getDefaultUserPreferences());
-      }
-
       // Initialize app settings
       const existingSettings = await this.getAppSettings();
       if (!existingSettings) {
@@ -119,20 +118,6 @@ class StorageService {
     }
   }
 
-  private getDefaultUserPreferences(): UserPreferences {
-    return {
-      theme: 'light',
-      lastUsedTools: [],
-      qualityPreference: 90,
-      formatPreference: 'jpeg',
-      hapticFeedback: true,
-      soundEffects: false,
-      autoSave: true,
-      highContrastMode: false,
-      reduceMotion: false,
-    };
-  }
-
   private getDefaultAppSettings(): AppSettings {
     return {
       firstLaunch: true,
@@ -152,113 +137,30 @@ class StorageService {
     }, STORAGE_CONFIG.autoCleanupInterval);
   }
 
-  // User Preferences
-  async getUserPreferences(): Promise<UserPreferences | null> {
-    try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
-      return data ? JSON.parse(data) : null;
-    } catch (error) {
-      console.error('Failed to get user preferences:', error);
-      return null;
-    }
-  }
-
-  async setUserPreferences(preferences: UserPreferences): Promise<void> {
-    try {
-      await AsyncStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(preferences));
-      this.cache.set(STORAGE_KEYS.USER_PREFERENCES, preferences);
-    } catch (error) {
-      console.error('Failed to set user preferences:', error);
-      throw handleStorageError({ context: { operation: 'setUserPreferences' } });
-    }
+  // Recent project files
+  attachRecentProjects(getProjects: () => RecentProject[]): void {
+    this.recentProjectsSource = getProjects;
   }
 
-  async updateUserPreferences(updates: Partial<UserPreferences>): Promise<void> {
-    try {
-      const current = await this.getUserPreferences() || this.getDefaultUserPreferences();
-      const updated = { ...current, ...updates };
-      await this.setUserPreferences(updated);
-    } catch (error) {
-      console.error('Failed to update user preferences:', error);
-      throw error;
-    }
-  }
-
-  // Recent Projects
-  async getRecentProjects(): Promise<RecentProject[]> {
-    try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.RECENT_PROJECTS);
-      const projects: RecentProject[] = data ? JSON.parse(data) : [];
-      return projects.sort((a, b) => b.lastModified - a.lastModified);
-    } catch (error) {
-      console.error('Failed to get recent projects:', error);
-      return [];
-    }
-  }
-
-  async addRecentProject(project: RecentProject): Promise<void> {
-    try {
-      const projects = await this.getRecentProjects();
-
-      // Remove existing project with same ID
-      const filteredProjects = projects.filter(p => p.id !== project.id);
-
-      // Add new project to beginning
-      filteredProjects.unshift(project);
-
-      // Keep only the most recent projects
-      const limitedProjects = filteredProjects.slice(0, STORAGE_CONFIG.maxRecentProjects);
-
-      await AsyncStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify(limitedProjects));
-
-      // Update app statistics
-      await this.incrementAppStat('totalEdits');
-
-    } catch (error) {
-      console.error('Failed to add recent project:', error);
-      throw handleStorageError({ context: { operation: 'addRecentProject' } });
-    }
-  }
-
-  async updateRecentProject(projectId: string, updates: Partial<RecentProject>): Promise<void> {
-    try {
-      const projects = await this.getRecentProjects();
-      const projectIndex = projects.findIndex(p => p.id === projectId);
-
-      if (projectIndex !== -1) {
-        projects[projectIndex] = { ...projects[projectIndex], ...updates };
-        await AsyncStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify(projects));
+  // Deletes the thumbnails and project files that entries dropped, either by
+  // being removed, evicted past the cap, or replaced on re-save
+  async releaseProjectFiles(previous: RecentProject[], current: RecentProject[]): Promise<void> {
+    const currentById = new Map(current.map(project => [project.id, project]));
+    for (const project of previous) {
+      const next = currentById.get(project.id);
+      if (!next) {
+        await this.deleteThumbnail(project.thumbnailUri);
+        await this.deleteProjectFiles(project.id);
+      } else if (next.thumbnailUri !== project.thumbnailUri) {
+        await this.deleteThumbnail(project.thumbnailUri);
       }
-    } catch (error) {
-      console.error('Failed to update recent project:', error);
-      throw error;
-    }
-  }
-
-  async removeRecentProject(projectId: string): Promise<void> {
-    try {
-      const projects = await this.getRecentProjects();
-      const filteredProjects = projects.filter(p => p.id !== projectId);
-      await AsyncStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify(filteredProjects));
-    } catch (error) {
-      console.error('Failed to remove recent project:', error);
-      throw error;
-    }
-  }
-
-  async clearRecentProjects(): Promise<void> {
-    try {
-      await AsyncStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify([]));
-    } catch (error) {
-      console.error('Failed to clear recent projects:', error);
-      throw error;
     }
   }
 
   // Cached Assets
   async getCachedAssets(): Promise<CachedAsset[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.CACHED_ASSETS);
+      const data = await this.storage.getItem(STORAGE_KEYS.CACHED_ASSETS);
       return data ? JSON.parse(data) : [];
     } catch (error) {
       console.error('Failed to get cached assets:', error);
@@ -268,21 +170,27 @@ class StorageService {
 
   async addCachedAsset(asset: CachedAsset): Promise<void> {
     try {
-      const assets = await this.getCachedAssets();
-
-      // Remove existing asset with same ID
-      const filteredAssets = assets.filter(a => a.id !== asset.id);
-
-      // Add new asset
-      filteredAssets.push(asset);
-
-      // Keep only the most recent assets
-      const limitedAssets = filteredAssets
-        .sort((a, b) => b.lastUsed - a.lastUsed)
-        .slice(0, STORAGE_CONFIG.maxCachedImages);
-
-      await AsyncStorage.setItem(STORAGE_KEYS.CACHED_ASSETS, JSON.stringify(limitedAssets));
-
+      await this.storage.transaction(async transaction => {
+        const data = await transaction.getItem(STORAGE_KEYS.CACHED_ASSETS);
+        const assets: CachedAsset[] = data ? JSON.parse(data) : [];
+
+        // Remove existing asset with same ID
+        const filteredAssets = assets.filter(a => a.id !== asset.id);
+
+        // Add new asset
+        filteredAssets.push(asset);
+
+        // Keep only the most recent downloaded assets
+        const limitedAssets = [
+          ...filteredAssets.filter(a => a.pinned),
+          ...filteredAssets
+            .filter(a => !a.pinned)
+            .sort((a, b) => b.lastUsed - a.lastUsed)
+            .slice(0, STORAGE_CONFIG.maxCachedImages),
+        ];
+
+        transaction.setItem(STORAGE_KEYS.CACHED_ASSETS, JSON.stringify(limitedAssets));
+      });
     } catch (error) {
       console.error('Failed to add cached asset:', error);
       throw handleStorageError({ context: { operation: 'addCachedAsset' } });
@@ -291,16 +199,20 @@ class StorageService {
 
   async removeCachedAsset(assetId: string): Promise<void> {
     try {
-      const assets = await this.getCachedAssets();
-      const filteredAssets = assets.filter(a => a.id !== assetId);
-
-      // Also delete the local file if it exists
-      const assetToRemove = assets.find(a => a.id === assetId);
+      const assetToRemove = await this.storage.transaction(async transaction => {
+        const data = await transaction.getItem(STORAGE_KEYS.CACHED_ASSETS);
+        const assets: CachedAsset[] = data ? JSON.parse(data) : [];
+        transaction.setItem(
+          STORAGE_KEYS.CACHED_ASSETS,
+          JSON.stringify(assets.filter(a => a.id !== assetId)),
+        );
+        return assets.find(a => a.id === assetId);
+      });
+
+      // Also delete the local file once nothing references it
       if (assetToRemove?.localUri) {
         await this.deleteLocalFile(assetToRemove.localUri);
       }
-
-      await AsyncStorage.setItem(STORAGE_KEYS.CACHED_ASSETS, JSON.stringify(filteredAssets));
     } catch (error) {
       console.error('Failed to remove cached asset:', error);
       throw error;
@@ -310,7 +222,7 @@ class StorageService {
   // App Settings
   async getAppSettings(): Promise<AppSettings | null> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.APP_SETTINGS);
+      const data = await this.storage.getItem(STORAGE_KEYS.APP_SETTINGS);
       return data ? JSON.parse(data) : null;
     } catch (error) {
       console.error('Failed to get app settings:', error);
@@ -320,7 +232,7 @@ class StorageService {
 
   async setAppSettings(settings: AppSettings): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(settings));
+      await this.storage.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(settings));
     } catch (error) {
       console.error('Failed to set app settings:', error);
       throw handleStorageError({ context: { operation: 'setAppSettings' } });
@@ -337,11 +249,22 @@ class StorageService {
     }
   }
 
+  // Read-modify-write of the settings record in one transaction, so
+  // concurrent updates cannot overwrite each other
+  private async updateAppSettings(update: (settings: AppSettings) => void): Promise<void> {
+    await this.storage.transaction(async transaction => {
+      const data = await transaction.getItem(STORAGE_KEYS.APP_SETTINGS);
+      const settings: AppSettings = data ? JSON.parse(data) : this.getDefaultAppSettings();
+      update(settings);
+      transaction.setItem(STORAGE_KEYS.APP_SETTINGS, JSON.stringify(settings));
+    });
+  }
+
   async setAppSetting(key: keyof AppSettings, value: any): Promise<void> {
     try {
-      const settings = await this.getAppSettings() || this.getDefaultAppSettings();
-      settings[key] = value;
-      await this.setAppSettings(settings);
+      await this.updateAppSettings(settings => {
+        (settings as any)[key] = value;
+      });
     } catch (error) {
       console.error('Failed to set app setting:', error);
       throw error;
@@ -350,8 +273,9 @@ class StorageService {
 
   async incrementAppStat(stat: 'totalEdits' | 'totalExports'): Promise<void> {
     try {
-      const currentValue = await this.getAppSetting(stat, 0);
-      await this.setAppSetting(stat, currentValue + 1);
+      await this.updateAppSettings(settings => {
+        settings[stat] = (settings[stat] || 0) + 1;
+      });
     } catch (error) {
       console.error('Failed to increment app stat:', error);
     }
@@ -399,17 +323,83 @@ class StorageService {
     }
   }
 
+  // Thumbnail cache
+  async getThumbnailDirectory(): Promise<string> {
+    if (!(await RNFS.exists(STORAGE_PATHS.THUMBNAILS))) {
+      await RNFS.mkdir(STORAGE_PATHS.THUMBNAILS);
+    }
+    return STORAGE_PATHS.THUMBNAILS;
+  }
+
+  isManagedThumbnail(uri?: string): boolean {
+    return !!uri && uri.replace('file://', '').startsWith(`${STORAGE_PATHS.THUMBNAILS}/`);
+  }
+
+  // Only deletes files inside the thumbnail cache, never user images
+  async deleteThumbnail(uri?: string): Promise<void> {
+    if (uri && this.isManagedThumbnail(uri)) {
+      await this.deleteLocalFile(uri);
+    }
+  }
+
+  // Project files: one directory per project holding the manifest and
+  // copies of every asset it references
+  getProjectPath(projectId: string): string {
+    return `${STORAGE_PATHS.PROJECTS}/${projectId}`;
+  }
+
+  // Creates the directory when missing, so only for writing
+  async getProjectDirectory(projectId: string): Promise<string> {
+    const directory = this.getProjectPath(projectId);
+    if (!(await RNFS.exists(directory))) {
+      await RNFS.mkdir(directory);
+    }
+    return directory;
+  }
+
+  isManagedProjectFile(uri?: string): boolean {
+    return !!uri && uri.replace('file://', '').startsWith(`${STORAGE_PATHS.PROJECTS}/`);
+  }
+
+  async deleteProjectFiles(projectId: string): Promise<void> {
+    try {
+      const directory = this.getProjectPath(projectId);
+      if (projectId && (await RNFS.exists(directory))) {
+        await RNFS.unlink(directory);
+      }
+    } catch (error) {
+      console.error('Failed to delete project files:', error);
+    }
+  }
+
+  async getDirectorySize(path: string): Promise<number> {
+    try {
+      if (!(await RNFS.exists(path))) {
+        return 0;
+      }
+      const entries = await RNFS.readDir(path);
+      let totalSize = 0;
+      for (const entry of entries) {
+        totalSize += entry.isDirectory()
+          ? await this.getDirectorySize(entry.path)
+          : Number(entry.size);
+      }
+      return totalSize;
+    } catch (error) {
+      console.error('Failed to get directory size:', error);
+      return 0;
+    }
+  }
+
   async calculateStorageUsage(): Promise<number> {
     try {
       let totalSize = 0;
 
-      // Calculate recent projects size
-      const projects = await this.getRecentProjects();
-      for (const project of projects) {
-        if (project.thumbnailUri) {
-          totalSize += await this.getFileSize(project.thumbnailUri);
-        }
-      }
+      // Generated thumbnails, including ones not yet linked to a project
+      totalSize += await this.getDirectorySize(STORAGE_PATHS.THUMBNAILS);
+
+      // Project manifests and their copied assets
+      totalSize += await this.getDirectorySize(STORAGE_PATHS.PROJECTS);
 
       // Calculate cached assets size
       const assets = await this.getCachedAssets();
@@ -432,24 +422,55 @@ class StorageService {
       console.log('Performing storage cleanup...');
 
       // Remove expired cached assets
-      const assets = await this.getCachedAssets();
       const now = Date.now();
-      const validAssets = assets.filter(asset =>
-        (now - asset.downloadedAt) < STORAGE_CONFIG.imageCacheExpiry
-      );
-
-      if (validAssets.length !== assets.length) {
-        await AsyncStorage.setItem(STORAGE_KEYS.CACHED_ASSETS, JSON.stringify(validAssets));
-
-        // Delete local files for removed assets
-        const removedAssets = assets.filter(asset => !validAssets.includes(asset));
-        for (const asset of removedAssets) {
-          if (asset.localUri) {
-            await this.deleteLocalFile(asset.localUri);
+      const removedAssets = await this.storage.transaction(async transaction => {
+        const data = await transaction.getItem(STORAGE_KEYS.CACHED_ASSETS);
+        const assets: CachedAsset[] = data ? JSON.parse(data) : [];
+        const validAssets = assets.filter(asset =>
+          asset.pinned || (now - asset.downloadedAt) < STORAGE_CONFIG.imageCacheExpiry
+        );
+        if (validAssets.length !== assets.length) {
+          transaction.setItem(STORAGE_KEYS.CACHED_ASSETS, JSON.stringify(validAssets));
+        }
+        return assets.filter(asset => !validAssets.includes(asset));
+      });
+
+      // Delete local files for removed assets
+      for (const asset of removedAssets) {
+        if (asset.localUri) {
+          await this.deleteLocalFile(asset.localUri);
+        }
+      }
+
+      // Remove thumbnails no recent project points to. Fresh files are kept
+      // since an export may not have registered its project yet. Without the
+      // store attached every thumbnail would look orphaned, so skip.
+      if (this.recentProjectsSource && (await RNFS.exists(STORAGE_PATHS.THUMBNAILS))) {
+        const projects = this.recentProjectsSource();
+        const referenced = new Set(
+          projects.map(project => project.thumbnailUri?.replace('file://', '')),
+        );
+        const thumbnails = await RNFS.readDir(STORAGE_PATHS.THUMBNAILS);
+        for (const thumbnail of thumbnails) {
+          const age = now - (thumbnail.mtime?.getTime() ?? 0);
+          if (
+            thumbnail.isFile() &&
+            !referenced.has(thumbnail.path) &&
+            age > STORAGE_CONFIG.orphanThumbnailAge
+          ) {
+            await RNFS.unlink(thumbnail.path);
           }
         }
       }
 
+      // The persist migration has copied these into the store by the time
+      // the store is attached
+      if (this.recentProjectsSource) {
+        await this.storage.transaction(async transaction => {
+          Object.values(LEGACY_STORAGE_KEYS).forEach(key => transaction.removeItem(key));
+        });
+      }
+
       // Update last cleanup time
       await this.setAppSetting('lastCleanup', now);
       await this.setAppSetting('storageUsed', await this.calculateStorageUsage());
@@ -463,20 +484,24 @@ class StorageService {
   // Utility Methods
   async clearAllData(): Promise<void> {
     try {
-      const keys = Object.values(STORAGE_KEYS);
-      await AsyncStorage.multiRemove(keys);
-      this.cache.clear();
+      await this.storage.transaction(async transaction => {
+        Object.values(STORAGE_KEYS).forEach(key => transaction.removeItem(key));
+      });
     } catch (error) {
       console.error('Failed to clear all data:', error);
       throw handleStorageError({ context: { operation: 'clearAllData' } });
     }
   }
 
-  async exportData(): Promise<string> {
+  // Preferences and recent projects come from the store
+  async exportData(state: {
+    userPreferences: UserPreferences;
+    recentProjects: RecentProject[];
+  }): Promise<string> {
     try {
       const data = {
-        userPreferences: await this.getUserPreferences(),
-        recentProjects: await this.getRecentProjects(),
+        userPreferences: state.userPreferences,
+        recentProjects: state.recentProjects,
         appSettings: await this.getAppSettings(),
         exportDate: Date.now(),
       };
@@ -488,22 +513,24 @@ class StorageService {
     }
   }
 
-  async importData(jsonData: string): Promise<void> {
+  // Restores app settings and returns the parts that belong in the store
+  async importData(jsonData: string): Promise<{
+    userPreferences?: Partial<UserPreferences>;
+    recentProjects?: RecentProject[];
+  }> {
     try {
       const data = JSON.parse(jsonData);
 
-      if (data.userPreferences) {
-        await this.setUserPreferences(data.userPreferences);
-      }
-
-      if (data.recentProjects) {
-        await AsyncStorage.setItem(STORAGE_KEYS.RECENT_PROJECTS, JSON.stringify(data.recentProjects));
-      }
-
       if (data.appSettings) {
         await this.setAppSettings(data.appSettings);
       }
 
+      return {
+        userPreferences: data.userPreferences || undefined,
+        recentProjects: Array.isArray(data.recentProjects)
+          ? (data.recentProjects.map(upgradeRecentProject).filter(Boolean) as RecentProject[])
+          : undefined,
+      };
     } catch (error) {
       console.error('Failed to import data:', error);
       throw handleStorageError({ context: { operation: 'importData' } });
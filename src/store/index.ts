@@ -1,7 +1,12 @@
-import { configureStore } from '@reduxjs/toolkit';
+import {
+  configureStore,
+  createListenerMiddleware,
+  TypedStartListening,
+} from '@reduxjs/toolkit';
 import { persistStore, persistReducer } from 'redux-persist';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { combineReducers } from '@reduxjs/toolkit';
+import { appStorage } from '../services/storage';
+import { storageService } from '../services/storageService';
 
 // Import slices
 import {
@@ -11,11 +16,16 @@ import {
   editorReducer,
   uiReducer,
   errorReducer,
+  clipboardReducer,
 } from './slices';
+import { createPersistMigrate, PERSIST_VERSION } from './migrations';
 
 const persistConfig = {
   key: 'root',
-  storage: AsyncStorage,
+  // Same adapter StorageService writes through, so each key has one owner
+  storage: appStorage,
+  version: PERSIST_VERSION,
+  migrate: createPersistMigrate(appStorage),
   whitelist: ['userPreferences', 'subscription', 'recentProjects'], // Only persist these slices
 };
 
@@ -26,10 +36,13 @@ const rootReducer = combineReducers({
   editor: editorReducer,
   ui: uiReducer,
   error: errorReducer,
+  clipboard: clipboardReducer,
 });
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
 
+const projectFilesListener = createListenerMiddleware();
+
 export const store = configureStore({
   reducer: persistedReducer,
   middleware: (getDefaultMiddleware) =>
@@ -37,11 +50,29 @@ export const store = configureStore({
       serializableCheck: {
         ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
       },
-    }),
+    }).prepend(projectFilesListener.middleware),
 });
 
-export const persistor = persistStore(store);
-
 // Infer the `RootState` and `AppDispatch` types from the store itself
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
+
+// Recent projects are only stored here; when entries go away their
+// thumbnails and project files are released
+const startAppListening =
+  projectFilesListener.startListening as TypedStartListening<
+    RootState,
+    AppDispatch
+  >;
+startAppListening({
+  predicate: (_action, currentState, previousState) =>
+    currentState.recentProjects !== previousState.recentProjects,
+  effect: async (_action, listenerApi) => {
+    const previous = listenerApi.getOriginalState().recentProjects;
+    const current = listenerApi.getState().recentProjects;
+    await storageService.releaseProjectFiles(previous, current);
+  },
+});
+
+export const persistor = persistStore(store);
+storageService.attachRecentProjects(() => store.getState().recentProjects);
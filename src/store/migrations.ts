@@ -0,0 +1,198 @@
+import type { PersistedState } from 'redux-persist';
+import type { StorageAdapter } from '../services/storage';
+import type { RecentProject } from '../services/storageService';
+import { LEGACY_STORAGE_KEYS, STORAGE_LIMITS } from '../constants/storage';
+import {
+  clampHistoryLimit,
+  defaultUserPreferences,
+} from './slices/userPreferencesSlice';
+
+// Version of the persisted redux state. Bump it together with a new step in
+// persistMigrations whenever a whitelisted slice changes shape. Installs from
+// before versioning was introduced rehydrate with version -1 and run every
+// step in order.
+export const PERSIST_VERSION = 5;
+
+// Steps get the storage adapter so they can pull in data that used to live
+// under other keys
+export type PersistMigration = (
+  state: any,
+  storage: StorageAdapter,
+) => any | Promise<any>;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only URIs an <Image> source can load are kept; the old slice also allowed
+// raw base64 payloads, which may start with a slash
+const isImageUri = (value: unknown): value is string =>
+  typeof value === 'string' && /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+// Recent project steps. Each one is idempotent so StorageService can apply
+// them to entries it reads without tracking a per-entry version.
+
+// v1: the recentProjects slice adopts the StorageService shape: `thumbnail`
+// becomes `thumbnailUri` and `fileSize` is always present
+export const recentProjectV1 = (project: unknown): any | null => {
+  if (!isObject(project) || typeof project.id !== 'string') {
+    return null;
+  }
+  const { thumbnail, ...rest } = project;
+  const thumbnailUri = isImageUri(rest.thumbnailUri)
+    ? rest.thumbnailUri
+    : isImageUri(thumbnail)
+    ? thumbnail
+    : '';
+  const createdAt = Number(rest.createdAt) || 0;
+  return {
+    ...rest,
+    name: typeof rest.name === 'string' ? rest.name : 'Untitled',
+    thumbnailUri,
+    originalUri: typeof rest.originalUri === 'string' ? rest.originalUri : '',
+    createdAt,
+    lastModified: Number(rest.lastModified) || createdAt,
+    fileSize: Number(rest.fileSize) || 0,
+    edits: Array.isArray(rest.edits) ? rest.edits : [],
+    isSaved: !!rest.isSaved,
+  };
+};
+
+// v2: projectData links to saved project files. Earlier exports stored the
+// raw editor state there, which cannot be reopened as a session.
+export const recentProjectV2 = (project: any | null): any | null => {
+  if (!project) {
+    return null;
+  }
+  const { projectData, ...rest } = project;
+  const isReference =
+    isObject(projectData) &&
+    typeof projectData.version === 'number' &&
+    typeof projectData.manifestUri === 'string';
+  return isReference ? { ...rest, projectData } : rest;
+};
+
+export const upgradeRecentProject = (project: unknown): RecentProject | null =>
+  recentProjectV2(recentProjectV1(project));
+
+const mapRecentProjects = (
+  projects: unknown,
+  step: (project: any) => any | null,
+) => (Array.isArray(projects) ? projects.map(step).filter(Boolean) : []);
+
+const readLegacyItem = async (storage: StorageAdapter, key: string) => {
+  try {
+    const data = await storage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to read legacy storage key:', key, error);
+    return null;
+  }
+};
+
+export const persistMigrations: Record<number, PersistMigration> = {
+  1: state =>
+    state && {
+      ...state,
+      recentProjects: mapRecentProjects(state.recentProjects, recentProjectV1),
+    },
+  2: state =>
+    state && {
+      ...state,
+      recentProjects: mapRecentProjects(state.recentProjects, recentProjectV2),
+    },
+  // v3: recent projects and preferences have a single copy, in the store.
+  // Entries StorageService kept under its own keys are merged in (the newer
+  // copy of a project wins) and preference fields only it stored are adopted.
+  3: async (state, storage) => {
+    if (!state) {
+      return state;
+    }
+    const storedProjects = await readLegacyItem(
+      storage,
+      LEGACY_STORAGE_KEYS.RECENT_PROJECTS,
+    );
+    const storedPreferences = await readLegacyItem(
+      storage,
+      LEGACY_STORAGE_KEYS.USER_PREFERENCES,
+    );
+
+    const byId = new Map<string, RecentProject>();
+    const candidates: RecentProject[] = [
+      ...mapRecentProjects(state.recentProjects, upgradeRecentProject),
+      ...mapRecentProjects(storedProjects, upgradeRecentProject),
+    ];
+    for (const project of candidates) {
+      const existing = byId.get(project.id);
+      if (!existing || project.lastModified > existing.lastModified) {
+        byId.set(project.id, project);
+      }
+    }
+
+    return {
+      ...state,
+      recentProjects: Array.from(byId.values())
+        .sort((a, b) => b.lastModified - a.lastModified)
+        .slice(0, STORAGE_LIMITS.maxRecentProjects),
+      userPreferences: {
+        ...defaultUserPreferences,
+        ...(isObject(storedPreferences) ? storedPreferences : {}),
+        ...(isObject(state.userPreferences) ? state.userPreferences : {}),
+      },
+    };
+  },
+  // v4: export metadata preferences
+  4: state =>
+    state && {
+      ...state,
+      userPreferences: {
+        ...defaultUserPreferences,
+        ...(isObject(state.userPreferences) ? state.userPreferences : {}),
+      },
+    },
+  // v5: undo history depth preference. Values written before it was
+  // validated are brought into range; anything else gets the default.
+  5: state => {
+    if (!state) {
+      return state;
+    }
+    const preferences = isObject(state.userPreferences)
+      ? state.userPreferences
+      : {};
+    const { historyLimit } = preferences;
+    return {
+      ...state,
+      userPreferences: {
+        ...defaultUserPreferences,
+        ...preferences,
+        historyLimit:
+          typeof historyLimit === 'number' && Number.isFinite(historyLimit)
+            ? clampHistoryLimit(historyLimit)
+            : defaultUserPreferences.historyLimit,
+      },
+    };
+  },
+};
+
+// redux-persist `migrate` option: runs every step newer than the stored
+// version, in order
+export const createPersistMigrate =
+  (storage: StorageAdapter) =>
+  async (
+    state: PersistedState,
+    currentVersion: number,
+  ): Promise<PersistedState> => {
+    if (!state) {
+      return state;
+    }
+    const inboundVersion = state._persist?.version ?? -1;
+    const versions = Object.keys(persistMigrations)
+      .map(Number)
+      .filter(version => version > inboundVersion && version <= currentVersion)
+      .sort((a, b) => a - b);
+
+    let migrated: any = state;
+    for (const version of versions) {
+      migrated = await persistMigrations[version](migrated, storage);
+    }
+    return migrated;
+  };
@@ -0,0 +1,28 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { CopiedEdits } from '../../services/editClipboard';
+
+// Edits copied for pasting onto other photos. Kept for the session only.
+export interface ClipboardState {
+  edits: CopiedEdits | null;
+}
+
+const initialState: ClipboardState = {
+  edits: null,
+};
+
+const clipboardSlice = createSlice({
+  name: 'clipboard',
+  initialState,
+  reducers: {
+    setCopiedEdits: (state, action: PayloadAction<CopiedEdits>) => {
+      state.edits = action.payload;
+    },
+    clearCopiedEdits: state => {
+      state.edits = null;
+    },
+  },
+});
+
+export const { setCopiedEdits, clearCopiedEdits } = clipboardSlice.actions;
+
+export default clipboardSlice.reducer;
@@ -1,4 +1,10 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, current, PayloadAction } from '@reduxjs/toolkit';
+import { applyPatches, enablePatches, Patch, produceWithPatches } from 'immer';
+import type { EditOperation } from '../../services/editGraph';
+
+enablePatches();
+
+const DEFAULT_HISTORY_LIMIT = 50;
 
 export interface EditorState {
   currentImage: {
@@ -9,56 +15,57 @@ export interface EditorState {
   } | null;
   currentTool: string | null;
   toolSettings: Record<string, any>;
-  undoStack: ImageEditAction[];
-  redoStack: ImageEditAction[];
+  history: EditHistoryState;
   isProcessing: boolean;
   zoom: number;
   pan: { x: number; y: number };
   canvasSize: { width: number; height: number };
-  selectedTextElement: string | null;
-  textElements: TextElement[];
-  filters: AppliedFilter[];
+  // Edit graph over currentImage.originalUri, applied in order
+  operations: EditOperation[];
+  // Saved project the session was opened from or last saved to
+  projectId: string | null;
 }
 
-export interface ImageEditAction {
-  id: string;
-  type: string;
-  data: any;
+// The undoable part of the editor state. History patches are rooted here.
+export type EditorDocument = Pick<EditorState, 'operations'>;
+
+export interface HistoryEntry {
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
   timestamp: number;
+  // Consecutive changes with the same key merge into one step until sealed
+  coalesceKey?: string;
+  sealed?: boolean;
 }
 
-export interface TextElement {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  fontSize: number;
-  fontFamily: string;
-  color: string;
-  rotation: number;
-  opacity: number;
+export interface EditHistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  limit: number;
 }
 
-export interface AppliedFilter {
-  id: string;
-  name: string;
-  intensity: number;
-  parameters: Record<string, any>;
-}
+// The document with both history stacks, taken when a live edit starts
+export type EditorCheckpoint = EditorDocument &
+  Pick<EditHistoryState, 'past' | 'future'>;
+
+const createHistory = (limit = DEFAULT_HISTORY_LIMIT): EditHistoryState => ({
+  past: [],
+  future: [],
+  limit,
+});
 
 const initialState: EditorState = {
   currentImage: null,
   currentTool: null,
   toolSettings: {},
-  undoStack: [],
-  redoStack: [],
+  history: createHistory(),
   isProcessing: false,
   zoom: 1,
   pan: { x: 0, y: 0 },
   canvasSize: { width: 0, height: 0 },
-  selectedTextElement: null,
-  textElements: [],
-  filters: [],
+  operations: [],
+  projectId: null,
 };
 
 const editorSlice = createSlice({
@@ -73,13 +80,30 @@ const editorSlice = createSlice({
     }>) => {
       state.currentImage = action.payload;
       // Reset editor state for new image
-      state.undoStack = [];
-      state.redoStack = [];
+      state.history = createHistory(state.history.limit);
       state.zoom = 1;
       state.pan = { x: 0, y: 0 };
-      state.selectedTextElement = null;
-      state.textElements = [];
-      state.filters = [];
+      state.operations = [];
+      state.projectId = null;
+    },
+    // Restores a saved session. Loading is not an undoable edit.
+    openProject: (state, action: PayloadAction<{
+      projectId: string;
+      image: NonNullable<EditorState['currentImage']>;
+      operations: EditOperation[];
+      zoom: number;
+      pan: { x: number; y: number };
+    }>) => {
+      const { projectId, image, operations, zoom, pan } = action.payload;
+      state.currentImage = image;
+      state.history = createHistory(state.history.limit);
+      state.zoom = zoom;
+      state.pan = pan;
+      state.operations = operations;
+      state.projectId = projectId;
+    },
+    setProjectId: (state, action: PayloadAction<string | null>) => {
+      state.projectId = action.payload;
     },
     setCurrentTool: (state, action: PayloadAction<string | null>) => {
       state.currentTool = action.payload;
@@ -87,26 +111,39 @@ const editorSlice = createSlice({
     updateToolSettings: (state, action: PayloadAction<Record<string, any>>) => {
       state.toolSettings = { ...state.toolSettings, ...action.payload };
     },
-    addEditAction: (state, action: PayloadAction<ImageEditAction>) => {
-      state.undoStack.push(action.payload);
-      state.redoStack = []; // Clear redo stack when new action is added
-    },
     undo: (state) => {
-      if (state.undoStack.length > 0) {
-        const action = state.undoStack.pop()!;
-        state.redoStack.push(action);
-        // Apply undo logic based on action type
-        applyUndoAction(state, action);
+      const entry = state.history.past.pop();
+      if (entry) {
+        applyDocumentPatches(state, entry.inversePatches);
+        state.history.future.push({ ...entry, sealed: true });
       }
     },
     redo: (state) => {
-      if (state.redoStack.length > 0) {
-        const action = state.redoStack.pop()!;
-        state.undoStack.push(action);
-        // Apply redo logic based on action type
-        applyRedoAction(state, action);
+      const entry = state.history.future.pop();
+      if (entry) {
+        applyDocumentPatches(state, entry.patches);
+        state.history.past.push(entry);
+      }
+    },
+    // Ends the current coalescing group, e.g. when a slider is released
+    sealHistory: (state) => {
+      const last = state.history.past[state.history.past.length - 1];
+      if (last) {
+        last.sealed = true;
       }
     },
+    // Puts the document and the undo and redo stacks back as they were at a
+    // checkpoint, for tools that edit the graph live and are then cancelled
+    restoreCheckpoint: (state, action: PayloadAction<EditorCheckpoint>) => {
+      const { operations, past, future } = action.payload;
+      state.operations = operations;
+      state.history.past = past;
+      state.history.future = future;
+    },
+    setHistoryLimit: (state, action: PayloadAction<number>) => {
+      state.history.limit = Math.max(1, Math.floor(action.payload));
+      trimHistory(state.history);
+    },
     setProcessing: (state, action: PayloadAction<boolean>) => {
       state.isProcessing = action.payload;
     },
@@ -119,44 +156,65 @@ const editorSlice = createSlice({
     setCanvasSize: (state, action: PayloadAction<{ width: number; height: number }>) => {
       state.canvasSize = action.payload;
     },
-    addTextElement: (state, action: PayloadAction<TextElement>) => {
-      state.textElements.push(action.payload);
-      state.selectedTextElement = action.payload.id;
-    },
-    updateTextElement: (state, action: PayloadAction<{
-      id: string;
-      updates: Partial<TextElement>;
+    addOperation: (state, action: PayloadAction<{
+      operation: EditOperation;
+      index?: number;
     }>) => {
-      const element = state.textElements.find(el => el.id === action.payload.id);
-      if (element) {
-        Object.assign(element, action.payload.updates);
-      }
-    },
-    removeTextElement: (state, action: PayloadAction<string>) => {
-      state.textElements = state.textElements.filter(el => el.id !== action.payload);
-      if (state.selectedTextElement === action.payload) {
-        state.selectedTextElement = null;
-      }
+      const { operation, index } = action.payload;
+      recordChange(state, 'Add operation', document => {
+        if (index === undefined || index >= document.operations.length) {
+          document.operations.push(operation);
+        } else {
+          document.operations.splice(Math.max(0, index), 0, operation);
+        }
+      });
     },
-    setSelectedTextElement: (state, action: PayloadAction<string | null>) => {
-      state.selectedTextElement = action.payload;
-    },
-    addFilter: (state, action: PayloadAction<AppliedFilter>) => {
-      // Remove existing filter with same name if it exists
-      state.filters = state.filters.filter(f => f.name !== action.payload.name);
-      state.filters.push(action.payload);
-    },
-    updateFilter: (state, action: PayloadAction<{
+    updateOperation: (state, action: PayloadAction<{
       id: string;
-      updates: Partial<AppliedFilter>;
+      updates: Partial<EditOperation>;
+      // Merge with the previous update of this node (slider drags)
+      coalesce?: boolean;
     }>) => {
-      const filter = state.filters.find(f => f.id === action.payload.id);
-      if (filter) {
-        Object.assign(filter, action.payload.updates);
-      }
+      const { id, updates, coalesce } = action.payload;
+      recordChange(
+        state,
+        'Update operation',
+        document => {
+          const operation = document.operations.find(op => op.id === id);
+          if (operation) {
+            // Type changes are not allowed; replace the node instead
+            Object.assign(operation, updates, { type: operation.type });
+          }
+        },
+        coalesce ? `update:${id}` : undefined,
+      );
+    },
+    removeOperation: (state, action: PayloadAction<string>) => {
+      recordChange(state, 'Remove operation', document => {
+        document.operations = document.operations.filter(
+          op => op.id !== action.payload,
+        );
+      });
     },
-    removeFilter: (state, action: PayloadAction<string>) => {
-      state.filters = state.filters.filter(f => f.id !== action.payload);
+    setOperations: {
+      reducer: (
+        state,
+        action: PayloadAction<EditOperation[], string, { coalesceKey?: string }>,
+      ) => {
+        recordChange(
+          state,
+          'Replace operations',
+          document => {
+            document.operations = action.payload;
+          },
+          action.meta.coalesceKey,
+        );
+      },
+      // Tools editing live pass a key so one drag records a single step
+      prepare: (operations: EditOperation[], coalesceKey?: string) => ({
+        payload: operations,
+        meta: { coalesceKey },
+      }),
     },
     resetEditor: (state) => {
       Object.assign(state, initialState);
@@ -164,53 +222,88 @@ const editorSlice = createSlice({
   },
 });
 
-// Helper functions for undo/redo logic
-function applyUndoAction(state: EditorState, action: ImageEditAction) {
-  switch (action.type) {
-    case 'ADD_TEXT':
-      state.textElements = state.textElements.filter(el => el.id !== action.data.id);
-      break;
-    case 'UPDATE_TEXT':
-      // Restore previous state (this would need more complex implementation)
-      break;
-    case 'ADD_FILTER':
-      state.filters = state.filters.filter(f => f.id !== action.data.id);
-      break;
-    // Add more undo cases as needed
+// Runs a document change through Immer to capture forward and inverse
+// patches, then records them as one history step (or merges them into the
+// open step with the same coalesce key).
+function recordChange(
+  state: EditorState,
+  label: string,
+  recipe: (document: EditorDocument) => void,
+  coalesceKey?: string,
+) {
+  const base: EditorDocument = { operations: current(state).operations };
+  const [next, patches, inversePatches] = produceWithPatches(base, recipe);
+  if (patches.length === 0) {
+    return;
   }
+  state.operations = next.operations;
+
+  const { history } = state;
+  history.future = [];
+  const last = history.past[history.past.length - 1];
+  if (
+    coalesceKey &&
+    last &&
+    !last.sealed &&
+    last.coalesceKey === coalesceKey
+  ) {
+    last.patches.push(...patches);
+    // Inverse patches undo the newest change first
+    last.inversePatches.unshift(...inversePatches);
+    last.timestamp = Date.now();
+    return;
+  }
+
+  // A different change closes any open group
+  if (last) {
+    last.sealed = true;
+  }
+  history.past.push({
+    label,
+    patches,
+    inversePatches,
+    timestamp: Date.now(),
+    coalesceKey,
+  });
+  trimHistory(history);
 }
 
-function applyRedoAction(state: EditorState, action: ImageEditAction) {
-  switch (action.type) {
-    case 'ADD_TEXT':
-      state.textElements.push(action.data);
-      break;
-    case 'ADD_FILTER':
-      state.filters.push(action.data);
-      break;
-    // Add more redo cases as needed
+function applyDocumentPatches(state: EditorState, patches: Patch[]) {
+  const base: EditorDocument = { operations: current(state).operations };
+  state.operations = applyPatches(base, patches).operations;
+}
+
+function trimHistory(history: EditHistoryState) {
+  if (history.past.length > history.limit) {
+    history.past.splice(0, history.past.length - history.limit);
   }
 }
 
 export const {
   setCurrentImage,
+  openProject,
+  setProjectId,
   setCurrentTool,
   updateToolSettings,
-  addEditAction,
   undo,
   redo,
+  sealHistory,
+  restoreCheckpoint,
+  setHistoryLimit,
   setProcessing,
   setZoom,
   setPan,
   setCanvasSize,
-  addTextElement,
-  updateTextElement,
-  removeTextElement,
-  setSelectedTextElement,
-  addFilter,
-  updateFilter,
-  removeFilter,
+  addOperation,
+  updateOperation,
+  removeOperation,
+  setOperations,
   resetEditor,
 } = editorSlice.actions;
 
 export default editorSlice.reducer;
+
+export const selectCanUndo = (state: { editor: EditorState }) =>
+  state.editor.history.past.length > 0;
+export const selectCanRedo = (state: { editor: EditorState }) =>
+  state.editor.history.future.length > 0;
@@ -4,3 +4,4 @@ export { default as recentProjectsReducer } from './recentProjectsSlice';
 export { default as editorReducer } from './editorSlice';
 export { default as uiReducer } from './uiSlice';
 export { default as errorReducer } from './errorSlice';
+export { default as clipboardReducer } from './clipboardSlice';
@@ -1,22 +1,11 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type {
+  EditHistory,
+  RecentProject,
+} from '../../services/storageService';
+import { STORAGE_LIMITS } from '../../constants/storage';
 
-export interface RecentProject {
-  id: string;
-  name: string;
-  thumbnail: string; // base64 or file path
-  originalUri: string;
-  createdAt: number;
-  lastModified: number;
-  edits: EditHistory[];
-  isSaved: boolean;
-}
-
-export interface EditHistory {
-  id: string;
-  tool: string;
-  timestamp: number;
-  data: any; // Tool-specific data
-}
+export type { EditHistory, RecentProject };
 
 const initialState: RecentProject[] = [];
 
@@ -25,11 +14,17 @@ const recentProjectsSlice = createSlice({
   initialState,
   reducers: {
     addProject: (state, action: PayloadAction<RecentProject>) => {
+      // Re-saving a project moves it to the front instead of duplicating it
+      const existingIndex = state.findIndex(p => p.id === action.payload.id);
+      if (existingIndex !== -1) {
+        state.splice(existingIndex, 1);
+      }
       // Add to beginning of array
       state.unshift(action.payload);
-      // Keep only last 10 projects
-      if (state.length > 10) {
-        state.splice(10);
+      // Keep only the most recent projects; StorageService deletes the
+      // files of evicted ones
+      if (state.length > STORAGE_LIMITS.maxRecentProjects) {
+        state.splice(STORAGE_LIMITS.maxRecentProjects);
       }
     },
     updateProject: (state, action: PayloadAction<{
@@ -66,13 +61,19 @@ const recentProjectsSlice = createSlice({
     clearAllProjects: (state) => {
       return [];
     },
+    // Replaces the list, e.g. when importing a backup
+    setProjects: (state, action: PayloadAction<RecentProject[]>) => {
+      return [...action.payload]
+        .sort((a, b) => b.lastModified - a.lastModified)
+        .slice(0, STORAGE_LIMITS.maxRecentProjects);
+    },
     updateProjectThumbnail: (state, action: PayloadAction<{
       id: string;
-      thumbnail: string;
+      thumbnailUri: string;
     }>) => {
       const project = state.find(p => p.id === action.payload.id);
       if (project) {
-        project.thumbnail = action.payload.thumbnail;
+        project.thumbnailUri = action.payload.thumbnailUri;
         project.lastModified = Date.now();
       }
     },
@@ -86,6 +87,7 @@ export const {
   addEditToProject,
   markProjectAsSaved,
   clearAllProjects,
+  setProjects,
   updateProjectThumbnail,
 } = recentProjectsSlice.actions;
 
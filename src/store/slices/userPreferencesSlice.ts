@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { ColorScheme } from '../../constants/colors';
+import type { MetadataPolicy } from '../../services/codecs';
 
 export interface UserPreferences {
   theme: ColorScheme;
@@ -8,6 +9,17 @@ export interface UserPreferences {
   formatPreference: 'jpeg' | 'png';
   hapticFeedback: boolean;
   soundEffects: boolean;
+  autoSave: boolean;
+  highContrastMode: boolean;
+  reduceMotion: boolean;
+  // What exports keep from the original photo's metadata, and whether they
+  // are signed with the author and copyright below
+  metadataPolicy: MetadataPolicy;
+  embedAuthorInfo: boolean;
+  authorName: string;
+  copyrightNotice: string;
+  // Undo steps the editor keeps
+  historyLimit: number;
 }
 
 const initialState: UserPreferences = {
@@ -17,8 +29,20 @@ const initialState: UserPreferences = {
   formatPreference: 'jpeg',
   hapticFeedback: true,
   soundEffects: false,
+  autoSave: true,
+  highContrastMode: false,
+  reduceMotion: false,
+  metadataPolicy: 'strip-gps',
+  embedAuthorInfo: false,
+  authorName: '',
+  copyrightNotice: '',
+  historyLimit: 50,
 };
 
+// Undo steps kept, within the range the history depth setting offers
+export const clampHistoryLimit = (limit: number) =>
+  Math.max(1, Math.min(200, Math.floor(limit)));
+
 const userPreferencesSlice = createSlice({
   name: 'userPreferences',
   initialState,
@@ -49,6 +73,12 @@ const userPreferencesSlice = createSlice({
     setSoundEffects: (state, action: PayloadAction<boolean>) => {
       state.soundEffects = action.payload;
     },
+    setHistoryLimitPreference: (state, action: PayloadAction<number>) => {
+      state.historyLimit = clampHistoryLimit(action.payload);
+    },
+    updatePreferences: (state, action: PayloadAction<Partial<UserPreferences>>) => {
+      Object.assign(state, action.payload);
+    },
     resetPreferences: (state) => {
       Object.assign(state, initialState);
     },
@@ -63,7 +93,11 @@ export const {
   addLastUsedTool,
   setHapticFeedback,
   setSoundEffects,
+  setHistoryLimitPreference,
+  updatePreferences,
   resetPreferences,
 } = userPreferencesSlice.actions;
 
+export { initialState as defaultUserPreferences };
+
 export default userPreferencesSlice.reducer;
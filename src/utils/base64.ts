@@ -0,0 +1,67 @@
+/* eslint-disable no-bitwise */
+// Base64 <-> byte conversion without relying on Buffer or atob, which are not
+// available on every JS engine React Native ships with.
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Uint8Array(256).fill(255);
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charCodeAt(i)] = i;
+}
+// URL-safe variants
+LOOKUP['-'.charCodeAt(0)] = 62;
+LOOKUP['_'.charCodeAt(0)] = 63;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/\-_]/g, '');
+  const length = Math.floor((clean.length * 3) / 4);
+  const bytes = new Uint8Array(length);
+
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP[clean.charCodeAt(i)];
+    const b = LOOKUP[clean.charCodeAt(i + 1)];
+    const c = i + 2 < clean.length ? LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const d = i + 3 < clean.length ? LOOKUP[clean.charCodeAt(i + 3)] : 0;
+    const chunk = (a << 18) | (b << 12) | (c << 6) | d;
+
+    if (byteIndex < length) {
+      bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    }
+    if (byteIndex < length) {
+      bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    }
+    if (byteIndex < length) {
+      bytes[byteIndex++] = chunk & 0xff;
+    }
+  }
+
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  let chunk = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+
+    chunk +=
+      ALPHABET[(triple >> 18) & 0x3f] +
+      ALPHABET[(triple >> 12) & 0x3f] +
+      (i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 0x3f] : '=') +
+      (i + 2 < bytes.length ? ALPHABET[triple & 0x3f] : '=');
+
+    // Join in blocks to avoid quadratic string growth on large files
+    if (chunk.length >= 8192) {
+      parts.push(chunk);
+      chunk = '';
+    }
+  }
+
+  parts.push(chunk);
+  return parts.join('');
+};